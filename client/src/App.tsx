@@ -8,6 +8,7 @@ import Home from "./pages/Home";
 import KeywordIntelligence from "./pages/KeywordIntelligence";
 import DomainExplorer from "./pages/DomainExplorer";
 import RankTracking from "./pages/RankTracking";
+import StructuredData from "./pages/StructuredData";
 import Settings from "./pages/Settings";
 
 function Router() {
@@ -18,6 +19,7 @@ function Router() {
       <Route path={"/keywords"} component={KeywordIntelligence} />
       <Route path={"/domains"} component={DomainExplorer} />
       <Route path={"/rank-tracking"} component={RankTracking} />
+      <Route path={"/structured-data"} component={StructuredData} />
       <Route path={"/settings"} component={Settings} />
       <Route path={"/settings/google-callback"} component={Settings} />
       <Route path={"/404"} component={NotFound} />
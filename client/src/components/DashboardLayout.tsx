@@ -18,6 +18,7 @@ import {
   ChevronRight,
   Zap,
   Brain,
+  Braces,
 } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
@@ -51,6 +52,12 @@ const navItems = [
     label: "順位トラッキング",
     description: "ハイブリッド監視",
   },
+  {
+    href: "/structured-data",
+    icon: Braces,
+    label: "構造化データ",
+    description: "抽出 & リッチリザルト検証",
+  },
   {
     href: "/settings",
     icon: Settings,
@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { API } from "@/lib/apiService";
+import { trpc } from "@/lib/trpc";
 import type { KeywordData, RankingData } from "@/lib/mockData";
 
 // ============================================
@@ -90,32 +91,19 @@ export function useTrafficData() {
 }
 
 export function useAlerts(limit: number = 10) {
-  const [data, setData] = useState<typeof import("@/lib/mockData").recentAlerts | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchData = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const response = await API.Dashboard.getAlerts(limit);
-      if (response.success) {
-        setData(response.data);
-      } else {
-        setError(response.error || "Failed to fetch alerts");
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Unknown error");
-    } finally {
-      setIsLoading(false);
-    }
-  }, [limit]);
-
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
-
-  return { data, isLoading, error, refetch: fetchData };
+  const query = trpc.alerts.list.useQuery({ limit });
+  const result = query.data;
+
+  const refetch = useCallback(async () => {
+    await query.refetch();
+  }, [query.refetch]);
+
+  return {
+    data: result?.success ? result.alerts : null,
+    isLoading: query.isLoading,
+    error: query.error?.message ?? (result && "error" in result ? result.error ?? null : null),
+    refetch,
+  };
 }
 
 // ============================================
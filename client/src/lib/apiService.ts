@@ -10,7 +10,7 @@
  * Replace with actual API calls for production use.
  */
 
-import { keywordData, domainData, rankingData, dashboardStats, trafficTrendData, aiPlatformData, recentAlerts } from "./mockData";
+import { keywordData, domainData, rankingData, dashboardStats, trafficTrendData } from "./mockData";
 import type { KeywordData, RankingData } from "./mockData";
 import { SEOAnalysis } from "./seoAnalysis";
 
@@ -389,19 +389,6 @@ export const DashboardAPI = {
     };
   },
 
-  /**
-   * Get AI platform distribution
-   */
-  async getAIPlatformData(): Promise<APIResponse<typeof aiPlatformData>> {
-    await simulateAPIDelay(300);
-
-    return {
-      success: true,
-      data: aiPlatformData,
-      timestamp: new Date(),
-    };
-  },
-
   /**
    * Get top performing keywords
    */
@@ -414,19 +401,6 @@ export const DashboardAPI = {
       timestamp: new Date(),
     };
   },
-
-  /**
-   * Get recent alerts
-   */
-  async getAlerts(limit: number = 10): Promise<APIResponse<typeof recentAlerts>> {
-    await simulateAPIDelay(200);
-
-    return {
-      success: true,
-      data: recentAlerts.slice(0, limit),
-      timestamp: new Date(),
-    };
-  },
 };
 
 // ============================================
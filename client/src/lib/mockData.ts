@@ -1278,54 +1278,3 @@ export const trafficTrendData = [
   { month: "12月", organic: 125000, ai: 68000 },
 ];
 
-export const aiPlatformData = [
-  { name: "ChatGPT", value: 42, color: "#8b5cf6" },
-  { name: "Perplexity", value: 28, color: "#22d3ee" },
-  { name: "Gemini", value: 18, color: "#ec4899" },
-  { name: "Claude", value: 12, color: "#22c55e" },
-];
-
-export const recentAlerts = [
-  {
-    id: "1",
-    type: "success",
-    title: "順位上昇",
-    message: '「SEOツール おすすめ」がGoogleで#5から#3に上昇しました',
-    time: "2時間前",
-  },
-  {
-    id: "2",
-    type: "info",
-    title: "新規AI引用",
-    message: 'ChatGPTが「AIコンテンツ最適化」であなたのコンテンツを引用しました',
-    time: "5時間前",
-  },
-  {
-    id: "3",
-    type: "warning",
-    title: "順位下落",
-    message: '「被リンクチェッカー」が#9から#12に下落しました',
-    time: "1日前",
-  },
-  {
-    id: "4",
-    type: "success",
-    title: "新規被リンク",
-    message: "techcrunch.comから高DRの被リンクを獲得しました",
-    time: "2日前",
-  },
-  {
-    id: "5",
-    type: "success",
-    title: "順位上昇",
-    message: '「SGE 対策」がGoogleで#6から#2に上昇しました',
-    time: "3時間前",
-  },
-  {
-    id: "6",
-    type: "info",
-    title: "新規AI引用",
-    message: 'Perplexityが「LLMO 戦略」であなたのコンテンツを引用しました',
-    time: "8時間前",
-  },
-];
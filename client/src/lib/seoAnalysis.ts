@@ -3,7 +3,6 @@
  * 
  * This module contains the core analysis algorithms for:
  * - Keyword difficulty calculation
- * - AI readability scoring
  * - Backlink quality assessment
  * - Competitor gap analysis
  */
@@ -44,14 +43,6 @@ export interface BacklinkData {
   firstSeen: string;
 }
 
-export interface AIReadabilityAudit {
-  semanticHtmlScore: number;
-  schemaOrgScore: number;
-  contentClarityScore: number;
-  overallScore: number;
-  recommendations: string[];
-}
-
 export interface CompetitorGap {
   competitor: string;
   sharedKeywords: number;
@@ -218,86 +209,6 @@ export function analyzeBacklinkQuality(backlink: BacklinkData): {
   return { quality, score, factors };
 }
 
-// ============================================
-// AI Readability Analysis
-// ============================================
-
-/**
- * Analyze page structure for AI readability
- * Simulates how LLM crawlers interpret content
- */
-export function analyzeAIReadability(htmlContent: string): AIReadabilityAudit {
-  const recommendations: string[] = [];
-
-  // Semantic HTML Score
-  let semanticScore = 50;
-  const semanticElements = ["header", "nav", "main", "article", "section", "aside", "footer"];
-  semanticElements.forEach(el => {
-    if (htmlContent.includes(`<${el}`)) {
-      semanticScore += 7;
-    } else {
-      recommendations.push(`Add <${el}> element for better structure`);
-    }
-  });
-  semanticScore = Math.min(100, semanticScore);
-
-  // Schema.org Score
-  let schemaScore = 0;
-  if (htmlContent.includes("application/ld+json")) {
-    schemaScore += 50;
-  } else {
-    recommendations.push("Add JSON-LD structured data");
-  }
-  if (htmlContent.includes("itemtype")) {
-    schemaScore += 30;
-  }
-  if (htmlContent.includes("itemprop")) {
-    schemaScore += 20;
-  }
-  if (schemaScore === 0) {
-    recommendations.push("Implement Schema.org markup");
-  }
-
-  // Content Clarity Score
-  let clarityScore = 60;
-  
-  // Check for headings hierarchy
-  if (htmlContent.includes("<h1") && htmlContent.includes("<h2")) {
-    clarityScore += 15;
-  } else {
-    recommendations.push("Use proper heading hierarchy (H1, H2, H3)");
-  }
-
-  // Check for lists
-  if (htmlContent.includes("<ul") || htmlContent.includes("<ol")) {
-    clarityScore += 10;
-  } else {
-    recommendations.push("Use lists to organize information");
-  }
-
-  // Check for alt text
-  if (htmlContent.includes('alt="')) {
-    clarityScore += 15;
-  } else {
-    recommendations.push("Add alt text to all images");
-  }
-
-  clarityScore = Math.min(100, clarityScore);
-
-  // Overall Score (weighted average)
-  const overallScore = Math.round(
-    semanticScore * 0.3 + schemaScore * 0.35 + clarityScore * 0.35
-  );
-
-  return {
-    semanticHtmlScore: semanticScore,
-    schemaOrgScore: schemaScore,
-    contentClarityScore: clarityScore,
-    overallScore,
-    recommendations: recommendations.slice(0, 5), // Top 5 recommendations
-  };
-}
-
 // ============================================
 // Competitor Analysis Functions
 // ============================================
@@ -335,17 +246,6 @@ export function analyzeCompetitorGap(
   };
 }
 
-/**
- * Calculate share of model (SoM) for AI visibility
- */
-export function calculateShareOfModel(
-  yourCitations: number,
-  totalCitationsInCategory: number
-): number {
-  if (totalCitationsInCategory === 0) return 0;
-  return Math.round((yourCitations / totalCitationsInCategory) * 100);
-}
-
 // ============================================
 // Trend Analysis Functions
 // ============================================
@@ -387,81 +287,6 @@ export function analyzeTrend(
   return { direction, magnitude: Math.abs(change), forecast };
 }
 
-// ============================================
-// Alert Generation Functions
-// ============================================
-
-export interface Alert {
-  id: string;
-  type: "ranking_improved" | "ranking_dropped" | "new_citation" | "new_backlink" | "lost_backlink";
-  severity: "info" | "warning" | "critical";
-  title: string;
-  message: string;
-  timestamp: Date;
-  data?: Record<string, unknown>;
-}
-
-/**
- * Generate alerts based on ranking changes
- */
-export function generateRankingAlert(
-  keyword: string,
-  previousRank: number,
-  currentRank: number
-): Alert | null {
-  const change = previousRank - currentRank; // Positive = improvement
-
-  if (Math.abs(change) < 2) return null; // Ignore minor fluctuations
-
-  const id = `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-  if (change > 0) {
-    return {
-      id,
-      type: "ranking_improved",
-      severity: change >= 5 ? "info" : "info",
-      title: "Ranking Improved",
-      message: `"${keyword}" moved from #${previousRank} to #${currentRank} on Google`,
-      timestamp: new Date(),
-      data: { keyword, previousRank, currentRank, change },
-    };
-  } else {
-    return {
-      id,
-      type: "ranking_dropped",
-      severity: Math.abs(change) >= 5 ? "warning" : "info",
-      title: "Ranking Drop",
-      message: `"${keyword}" dropped from #${previousRank} to #${currentRank}`,
-      timestamp: new Date(),
-      data: { keyword, previousRank, currentRank, change },
-    };
-  }
-}
-
-/**
- * Generate alert for new AI citation
- */
-export function generateCitationAlert(
-  keyword: string,
-  platform: "chatgpt" | "perplexity" | "gemini"
-): Alert {
-  const platformNames = {
-    chatgpt: "ChatGPT",
-    perplexity: "Perplexity",
-    gemini: "Gemini",
-  };
-
-  return {
-    id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    type: "new_citation",
-    severity: "info",
-    title: "New AI Citation",
-    message: `Your content was cited by ${platformNames[platform]} for "${keyword}"`,
-    timestamp: new Date(),
-    data: { keyword, platform },
-  };
-}
-
 // ============================================
 // Export Summary
 // ============================================
@@ -476,19 +301,11 @@ export const SEOAnalysis = {
   calculateDomainRating,
   analyzeBacklinkQuality,
 
-  // AI Readability
-  analyzeAIReadability,
-
   // Competitor Analysis
   analyzeCompetitorGap,
-  calculateShareOfModel,
 
   // Trends
   analyzeTrend,
-
-  // Alerts
-  generateRankingAlert,
-  generateCitationAlert,
 };
 
 export default SEOAnalysis;
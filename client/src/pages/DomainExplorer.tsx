@@ -30,6 +30,7 @@ import {
   AlertCircle,
   TrendingUp,
   Sparkles,
+  ClipboardCheck,
 } from "lucide-react";
 import {
   BarChart,
@@ -126,16 +127,32 @@ interface DomainAnalysisResult {
   }>;
 }
 
+// 各AIプラットフォームへの質問結果（回答本文と引用元から判定）
 interface LLMCitationResult {
   overallVisibility: number;
-  platforms: {
-    chatgpt: { score: number; mentions: string[]; sentiment: string };
-    perplexity: { score: number; mentions: string[]; sentiment: string };
-    gemini: { score: number; mentions: string[]; sentiment: string };
-  };
-  recommendations: string[];
+  platforms: Array<{
+    platform: string;
+    model: string;
+    score: number | null;
+    answers: Array<{
+      prompt: string;
+      answer: string;
+      citations: Array<{ url: string; title: string | null }>;
+      mentioned: boolean;
+      cited: boolean;
+      citationRank: number | null;
+      contexts: string[];
+      error: string | null;
+    }>;
+  }>;
 }
 
+const CITATION_PLATFORM_LABELS: Record<string, string> = {
+  chatgpt: "ChatGPT",
+  perplexity: "Perplexity",
+  gemini: "Gemini",
+};
+
 // AI分析結果の型定義（既存のUI用）
 interface DomainAnalysis {
   summary: string;
@@ -194,6 +211,70 @@ function ScoreGauge({ score, label, color }: { score: number; label: string; col
   );
 }
 
+// ページのHTMLとllms.txtから評価したAI可読性のサブスコアと根拠
+function ReadabilityEvidence({ domain }: { domain: string }) {
+  const [url, setUrl] = useState(`https://${domain}/`);
+  const analyzeMutation = trpc.aiAnalysis.analyzeReadability.useMutation();
+  const audit = analyzeMutation.data?.success ? analyzeMutation.data.audit : null;
+
+  const handleAnalyze = async () => {
+    const result = await analyzeMutation.mutateAsync({ url });
+    if (!result.success) {
+      toast.error(result.error || "ページを解析できませんでした");
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-border/30">
+      <div className="flex items-center gap-2 mb-3">
+        <Search className="w-4 h-4 text-[#8b5cf6]" />
+        <h3 className="text-sm font-bold text-foreground">ページ構造の根拠</h3>
+        {audit && (
+          <span className="ml-auto text-xs font-mono text-[#8b5cf6]">総合 {audit.overallScore}</span>
+        )}
+      </div>
+      <div className="flex gap-2 mb-3">
+        <Input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className="h-8 bg-white/5 border-border/50 font-mono text-xs"
+        />
+        <Button size="sm" variant="outline" onClick={handleAnalyze} disabled={!url.trim() || analyzeMutation.isPending}>
+          {analyzeMutation.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : "解析"}
+        </Button>
+      </div>
+
+      {audit?.subScores && (
+        <div className="space-y-3">
+          {audit.subScores.map((sub) => (
+            <div key={sub.key}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="text-foreground">{sub.label}</span>
+                <span className="font-mono text-muted-foreground">{sub.score}</span>
+              </div>
+              <Progress value={sub.score} className="h-1.5 mb-1" />
+              <ul className="space-y-0.5">
+                {sub.found.map((item, i) => (
+                  <li key={`found-${i}`} className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                    <CheckCircle className="w-3 h-3 mt-0.5 text-[#22c55e] shrink-0" />
+                    <span className="break-all">{item}</span>
+                  </li>
+                ))}
+                {sub.missing.map((item, i) => (
+                  <li key={`missing-${i}`} className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                    <XCircle className="w-3 h-3 mt-0.5 text-[#ef4444] shrink-0" />
+                    <span className="break-all">{item}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function AIAnalysisPanel({ 
   analysis, 
   isLoading, 
@@ -349,6 +430,8 @@ export default function DomainExplorer() {
   const analyzeDomainMutation = trpc.seo.analyzeDomain.useMutation();
   const exportCSVMutation = trpc.export.domainToCSV.useMutation();
   const fetchAndAnalyzeMutation = trpc.aiAnalysis.fetchAndAnalyzeDomain.useMutation();
+  const runAuditMutation = trpc.audits.run.useMutation();
+  const { data: domainsData } = trpc.domains.list.useQuery();
 
   // 分析結果からUIデータを生成
   const domainData = useMemo(() => {
@@ -404,13 +487,72 @@ export default function DomainExplorer() {
     };
   }, [domainAnalysisResult, searchUrl]);
 
-  const aiReadabilityData = domainData ? [
-    { subject: "セマンティックHTML", A: domainData.semanticHtmlScore, fullMark: 100 },
-    { subject: "Schema.org", A: domainData.schemaOrgScore, fullMark: 100 },
-    { subject: "コンテンツ明瞭性", A: domainData.contentClarityScore, fullMark: 100 },
-    { subject: "AI可読性", A: domainData.aiReadabilityScore, fullMark: 100 },
+  // 追跡中のドメインであれば監査履歴を表示
+  const trackedDomain = useMemo(() => {
+    if (!domainData) return null;
+    return (domainsData?.domains || []).find(
+      d => d.domain.replace(/^https?:\/\//, '').replace(/\/$/, '') === domainData.domain
+    ) || null;
+  }, [domainsData, domainData]);
+
+  const { data: auditsData, refetch: refetchAudits } = trpc.audits.list.useQuery(
+    { domainId: trackedDomain?.id ?? 0, limit: 10 },
+    {
+      enabled: !!trackedDomain,
+      // 実行中の監査があれば完了までポーリング
+      refetchInterval: (query) =>
+        query.state.data?.runs.some(r => r.status === "pending" || r.status === "running") ? 5000 : false,
+    }
+  );
+  const auditRuns = auditsData?.runs || [];
+  const completedAudits = auditRuns.filter(r => r.status === "completed");
+  const latestAudit = completedAudits[0];
+  const latestReadability = latestAudit?.aiReadability as {
+    semanticHtmlScore: number;
+    schemaOrgScore: number;
+    contentClarityScore: number;
+    overallScore: number;
+    recommendations: string[];
+    pagesAnalyzed: number;
+  } | null | undefined;
+
+  const { data: auditDiff } = trpc.audits.compare.useQuery(
+    { baseAuditId: completedAudits[1]?.id ?? 0, targetAuditId: completedAudits[0]?.id ?? 0 },
+    { enabled: completedAudits.length >= 2 }
+  );
+  const auditDiffSummary = auditDiff && "summary" in auditDiff ? auditDiff.summary : null;
+
+  const readabilityScores = latestReadability ? {
+    semanticHtmlScore: latestReadability.semanticHtmlScore,
+    schemaOrgScore: latestReadability.schemaOrgScore,
+    contentClarityScore: latestReadability.contentClarityScore,
+    aiReadabilityScore: latestReadability.overallScore,
+  } : domainData;
+
+  const aiReadabilityData = readabilityScores ? [
+    { subject: "セマンティックHTML", A: readabilityScores.semanticHtmlScore, fullMark: 100 },
+    { subject: "Schema.org", A: readabilityScores.schemaOrgScore, fullMark: 100 },
+    { subject: "コンテンツ明瞭性", A: readabilityScores.contentClarityScore, fullMark: 100 },
+    { subject: "AI可読性", A: readabilityScores.aiReadabilityScore, fullMark: 100 },
   ] : [];
 
+  const handleRunAudit = async () => {
+    if (!trackedDomain) return;
+
+    try {
+      const result = await runAuditMutation.mutateAsync({ domainId: trackedDomain.id });
+      if (result.success) {
+        toast.success("サイト監査を開始しました");
+        refetchAudits();
+      } else {
+        toast.error(result.error || "監査の開始に失敗しました");
+      }
+    } catch (error) {
+      console.error("Audit error:", error);
+      toast.error("監査の開始中にエラーが発生しました");
+    }
+  };
+
   const competitorData = domainData ? domainData.competitorOverlap.map((comp) => ({
     name: comp.competitor.replace(".com", "").replace(".jp", "").replace(".co", "").substring(0, 15),
     shared: comp.sharedKeywords,
@@ -439,7 +581,11 @@ export default function DomainExplorer() {
         if (result.citations) {
           setLlmCitations(result.citations as LLMCitationResult);
         }
-        toast.success("AI分析が完了しました");
+        toast.success(
+          result.pagesCrawled
+            ? `AI分析が完了しました（${result.pagesCrawled}ページをクロール）`
+            : "AI分析が完了しました"
+        );
       } else {
         toast.error(result.error || "分析に失敗しました");
       }
@@ -809,29 +955,62 @@ export default function DomainExplorer() {
                   </span>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  {Object.entries(llmCitations.platforms).map(([platform, data]) => (
-                    <div key={platform} className="p-4 rounded-lg bg-white/5">
+                  {llmCitations.platforms.map((data) => (
+                    <div key={data.platform} className="p-4 rounded-lg bg-white/5">
                       <div className="flex items-center justify-between mb-2">
-                        <h4 className="text-sm font-bold text-foreground capitalize">{platform}</h4>
+                        <h4 className="text-sm font-bold text-foreground">{CITATION_PLATFORM_LABELS[data.platform] ?? data.platform}</h4>
                         <span className={cn(
                           "text-xs px-2 py-0.5 rounded font-mono",
+                          data.score === null ? "bg-white/10 text-muted-foreground" :
                           data.score >= 70 ? "bg-[#22c55e]/20 text-[#22c55e]" :
                           data.score >= 50 ? "bg-[#f59e0b]/20 text-[#f59e0b]" :
                           "bg-[#ef4444]/20 text-[#ef4444]"
                         )}>
-                          {data.score}%
+                          {data.score === null ? "取得失敗" : `${data.score}%`}
                         </span>
                       </div>
-                      <p className="text-xs text-muted-foreground mb-2">
-                        センチメント: {data.sentiment === 'positive' ? '肯定的' : data.sentiment === 'negative' ? '否定的' : '中立'}
+                      <p className="text-xs text-muted-foreground font-mono mb-2">
+                        {data.model} ・ 言及 {data.answers.filter(a => a.mentioned).length} / 引用 {data.answers.filter(a => a.cited).length} / 質問 {data.answers.length}
                       </p>
-                      {data.mentions.length > 0 && (
-                        <div className="text-xs text-muted-foreground">
-                          {data.mentions.slice(0, 2).map((mention, i) => (
-                            <p key={i} className="truncate">• {mention}</p>
-                          ))}
-                        </div>
-                      )}
+                      <div className="space-y-2">
+                        {data.answers.map((answer, i) => (
+                          <details key={i} className="text-xs">
+                            <summary className="cursor-pointer flex items-center gap-1 text-muted-foreground hover:text-foreground">
+                              {answer.error ? (
+                                <XCircle className="w-3 h-3 text-muted-foreground shrink-0" />
+                              ) : answer.mentioned || answer.cited ? (
+                                <CheckCircle className="w-3 h-3 text-[#22c55e] shrink-0" />
+                              ) : (
+                                <XCircle className="w-3 h-3 text-[#ef4444] shrink-0" />
+                              )}
+                              <span className="truncate">{answer.prompt}</span>
+                              {answer.citationRank !== null && (
+                                <span className="ml-auto font-mono text-[#22d3ee] shrink-0">出典#{answer.citationRank}</span>
+                              )}
+                            </summary>
+                            <div className="mt-2 pl-4 space-y-2">
+                              {answer.error ? (
+                                <p className="text-[#ef4444] break-all">{answer.error}</p>
+                              ) : (
+                                <>
+                                  <p className="text-foreground whitespace-pre-wrap max-h-48 overflow-y-auto">{answer.answer}</p>
+                                  {answer.citations.length > 0 && (
+                                    <ol className="list-decimal pl-4 space-y-0.5">
+                                      {answer.citations.map((source, j) => (
+                                        <li key={j} className="truncate">
+                                          <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-[#22d3ee] hover:underline">
+                                            {source.title || source.url}
+                                          </a>
+                                        </li>
+                                      ))}
+                                    </ol>
+                                  )}
+                                </>
+                              )}
+                            </div>
+                          </details>
+                        ))}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -1008,30 +1187,35 @@ export default function DomainExplorer() {
                   border: "1px solid rgba(139, 92, 246, 0.2)",
                 }}
               >
-                <div className="flex items-center gap-2 mb-4">
-                  <Eye className="w-5 h-5 text-[#8b5cf6]" />
-                  <h2 className="text-lg font-display font-bold text-foreground">AI可読性監査</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2">
+                    <Eye className="w-5 h-5 text-[#8b5cf6]" />
+                    <h2 className="text-lg font-display font-bold text-foreground">AI可読性監査</h2>
+                  </div>
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {latestReadability ? `${latestReadability.pagesAnalyzed}ページを監査` : "AI推定"}
+                  </span>
                 </div>
 
                 {/* Score Gauges */}
                 <div className="grid grid-cols-2 gap-4 mb-6">
                   <ScoreGauge
-                    score={domainData.semanticHtmlScore}
+                    score={readabilityScores!.semanticHtmlScore}
                     label="セマンティックHTML"
                     color="#8b5cf6"
                   />
                   <ScoreGauge
-                    score={domainData.schemaOrgScore}
+                    score={readabilityScores!.schemaOrgScore}
                     label="Schema.org"
                     color="#22d3ee"
                   />
                   <ScoreGauge
-                    score={domainData.contentClarityScore}
+                    score={readabilityScores!.contentClarityScore}
                     label="コンテンツ明瞭性"
                     color="#ec4899"
                   />
                   <ScoreGauge
-                    score={domainData.aiReadabilityScore}
+                    score={readabilityScores!.aiReadabilityScore}
                     label="AI可読性"
                     color="#22c55e"
                   />
@@ -1061,6 +1245,92 @@ export default function DomainExplorer() {
                     </RadarChart>
                   </ResponsiveContainer>
                 </div>
+
+                {latestReadability && latestReadability.recommendations.length > 0 && (
+                  <ul className="mt-4 space-y-1">
+                    {latestReadability.recommendations.map((rec, i) => (
+                      <li key={i} className="flex items-start gap-2 text-xs text-muted-foreground">
+                        <Lightbulb className="w-3 h-3 mt-0.5 text-[#8b5cf6] shrink-0" />
+                        {rec}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <ReadabilityEvidence key={domainData.domain} domain={domainData.domain} />
+
+                {/* Audit History */}
+                <div className="mt-6 pt-4 border-t border-border/30">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-2">
+                      <ClipboardCheck className="w-4 h-4 text-[#8b5cf6]" />
+                      <h3 className="text-sm font-bold text-foreground">監査履歴</h3>
+                    </div>
+                    {trackedDomain && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={handleRunAudit}
+                        disabled={runAuditMutation.isPending}
+                      >
+                        {runAuditMutation.isPending ? (
+                          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                        ) : (
+                          <ClipboardCheck className="w-3 h-3 mr-1" />
+                        )}
+                        監査を実行
+                      </Button>
+                    )}
+                  </div>
+
+                  {!trackedDomain ? (
+                    <p className="text-xs text-muted-foreground">
+                      設定画面でこのドメインを追加すると、サイト全体の監査を実行して履歴を保存できます
+                    </p>
+                  ) : auditRuns.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">まだ監査が実行されていません</p>
+                  ) : (
+                    <>
+                      {auditDiffSummary && (
+                        <div className="flex gap-4 mb-3 text-xs font-mono">
+                          <span className="text-[#ef4444]">新規 +{auditDiffSummary.new}</span>
+                          <span className="text-[#22c55e]">解決 -{auditDiffSummary.fixed}</span>
+                          <span className="text-muted-foreground">継続 {auditDiffSummary.persisting}</span>
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        {auditRuns.slice(0, 5).map((run) => (
+                          <div
+                            key={run.id}
+                            className="flex items-center justify-between text-xs py-2 border-b border-border/20"
+                          >
+                            <span className="font-mono text-muted-foreground">
+                              {new Date(run.createdAt).toLocaleString("ja-JP")}
+                            </span>
+                            {run.status === "completed" ? (
+                              <div className="flex items-center gap-3 font-mono">
+                                <span className="text-muted-foreground">{run.pagesAudited}p</span>
+                                <span className="text-[#ef4444]">重大 {run.criticalCount}</span>
+                                <span className="text-[#f59e0b]">警告 {run.warningCount}</span>
+                                <span className="text-[#22d3ee]">情報 {run.infoCount}</span>
+                              </div>
+                            ) : run.status === "failed" ? (
+                              <span className="flex items-center gap-1 text-[#ef4444]">
+                                <XCircle className="w-3 h-3" />
+                                失敗
+                              </span>
+                            ) : (
+                              <span className="flex items-center gap-1 text-muted-foreground">
+                                <Loader2 className="w-3 h-3 animate-spin" />
+                                実行中
+                              </span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
               </motion.div>
 
               {/* Top Backlinks */}
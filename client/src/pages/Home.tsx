@@ -5,6 +5,7 @@
  * - Interactive charts with smooth animations
  */
 
+import { useState } from "react";
 import DashboardLayout from "@/components/DashboardLayout";
 import { motion } from "framer-motion";
 import {
@@ -18,6 +19,8 @@ import {
   Info,
   ArrowUpRight,
   Zap,
+  BellOff,
+  Check,
 } from "lucide-react";
 import {
   AreaChart,
@@ -27,17 +30,25 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  PieChart,
-  Pie,
-  Cell,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
 } from "recharts";
 import {
   dashboardStats,
   trafficTrendData,
-  aiPlatformData,
-  recentAlerts,
   keywordData,
 } from "@/lib/mockData";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAlerts } from "@/hooks/useSEOData";
+import { trpc } from "@/lib/trpc";
 import { cn } from "@/lib/utils";
 
 const containerVariants = {
@@ -215,7 +226,59 @@ function TrafficChart() {
   );
 }
 
-function AIPlatformChart() {
+// 自社を先頭に、言及率の高いブランドから色を割り当てる
+const BRAND_COLORS = ["#22d3ee", "#8b5cf6", "#ec4899", "#22c55e", "#f59e0b"];
+
+const SOM_PLATFORM_LABELS: Record<string, string> = {
+  chatgpt: "ChatGPT",
+  perplexity: "Perplexity",
+  gemini: "Gemini",
+};
+
+type ShareOfModelView = "week" | "platform" | "tag";
+
+const SOM_VIEWS: Array<{ key: ShareOfModelView; label: string }> = [
+  { key: "week", label: "週別" },
+  { key: "platform", label: "AI別" },
+  { key: "tag", label: "タグ別" },
+];
+
+function ShareOfModelChart() {
+  const [view, setView] = useState<ShareOfModelView>("week");
+  const [selectedDomainId, setSelectedDomainId] = useState<number | null>(null);
+  const { data: domainsData } = trpc.domains.list.useQuery();
+  const domains = domainsData?.domains || [];
+  const domain = domains.find((d) => d.id === selectedDomainId) ?? domains[0] ?? null;
+  const { data } = trpc.prompts.shareOfModel.useQuery(
+    { domainId: domain?.id ?? 0 },
+    { enabled: domain !== null }
+  );
+  const report = data?.report ?? null;
+
+  // 自社と言及率上位の競合（最大5ブランド）
+  const brands = report
+    ? [...report.brands.filter((b) => b.isOwn), ...report.brands.filter((b) => !b.isOwn && b.mentions > 0)].slice(0, BRAND_COLORS.length)
+    : [];
+  const segments = !report ? [] : view === "week" ? report.byWeek : view === "platform" ? report.byPlatform : report.byTag;
+  const chartData = segments.map((segment) => {
+    const label = view === "week"
+      ? new Date(`${segment.key}T00:00:00Z`).toLocaleDateString("ja-JP", { month: "2-digit", day: "2-digit" })
+      : view === "platform"
+        ? SOM_PLATFORM_LABELS[segment.key] ?? segment.key
+        : segment.key || "タグなし";
+    const point: Record<string, string | number> = { label };
+    for (const brand of segment.brands) point[brand.domain] = brand.shareOfModel;
+    return point;
+  });
+
+  const axisTick = { fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" };
+  const tooltipStyle = {
+    background: "rgba(26, 26, 46, 0.95)",
+    border: "1px solid rgba(34, 211, 238, 0.3)",
+    borderRadius: "8px",
+    fontFamily: "JetBrains Mono",
+  };
+
   return (
     <motion.div
       variants={itemVariants}
@@ -225,63 +288,131 @@ function AIPlatformChart() {
         border: "1px solid rgba(34, 211, 238, 0.2)",
       }}
     >
-      <div className="mb-4">
-        <h3 className="text-lg font-display font-bold text-foreground">
-          AIプラットフォーム分布
-        </h3>
-        <p className="text-sm text-muted-foreground font-mono">
-          モデル引用シェア
-        </p>
-      </div>
-      <div className="h-[200px]">
-        <ResponsiveContainer width="100%" height="100%">
-          <PieChart>
-            <Pie
-              data={aiPlatformData}
-              cx="50%"
-              cy="50%"
-              innerRadius={50}
-              outerRadius={80}
-              paddingAngle={5}
-              dataKey="value"
+      <div className="mb-4 flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-display font-bold text-foreground">
+            Share of Model
+          </h3>
+          <p className="text-sm text-muted-foreground font-mono">
+            AIの回答でのブランド言及率
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          {domains.length > 0 && (
+            <Select
+              value={domain ? String(domain.id) : undefined}
+              onValueChange={(value) => setSelectedDomainId(Number(value))}
             >
-              {aiPlatformData.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={entry.color} />
-              ))}
-            </Pie>
-            <Tooltip
-              contentStyle={{
-                background: "rgba(26, 26, 46, 0.95)",
-                border: "1px solid rgba(34, 211, 238, 0.3)",
-                borderRadius: "8px",
-                fontFamily: "JetBrains Mono",
-              }}
-            />
-          </PieChart>
-        </ResponsiveContainer>
-      </div>
-      <div className="grid grid-cols-2 gap-2 mt-4">
-        {aiPlatformData.map((item) => (
-          <div key={item.name} className="flex items-center gap-2">
-            <div
-              className="w-2 h-2 rounded-full"
-              style={{ background: item.color }}
-            />
-            <span className="text-xs text-muted-foreground font-mono">
-              {item.name}: {item.value}%
-            </span>
+              <SelectTrigger size="sm" className="w-[160px] text-xs font-mono">
+                <SelectValue placeholder="ドメインを選択" />
+              </SelectTrigger>
+              <SelectContent>
+                {domains.map((d) => (
+                  <SelectItem key={d.id} value={String(d.id)}>{d.domain}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex gap-1">
+            {SOM_VIEWS.map((item) => (
+              <button
+                key={item.key}
+                type="button"
+                onClick={() => setView(item.key)}
+                className={cn(
+                  "px-2 py-0.5 rounded text-[10px] font-mono transition-colors",
+                  view === item.key ? "bg-[#22d3ee]/20 text-[#22d3ee]" : "text-muted-foreground hover:bg-white/5"
+                )}
+              >
+                {item.label}
+              </button>
+            ))}
           </div>
-        ))}
+        </div>
       </div>
+
+      {!report || report.answers === 0 ? (
+        <div className="h-[200px] flex flex-col items-center justify-center text-center gap-2">
+          <Brain className="w-8 h-8 text-[#22d3ee]" />
+          <p className="text-xs text-muted-foreground font-mono">
+            {domain
+              ? "順位トラッキングのAI引用タブでプロンプトを登録すると、AIの回答から言及率を集計します"
+              : "ドメインを登録するとAIの回答での言及率を集計します"}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="h-[200px]">
+            <ResponsiveContainer width="100%" height="100%">
+              {view === "week" ? (
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(34, 211, 238, 0.1)" />
+                  <XAxis dataKey="label" stroke="rgba(255,255,255,0.3)" tick={axisTick} />
+                  <YAxis domain={[0, 100]} unit="%" stroke="rgba(255,255,255,0.3)" tick={axisTick} width={40} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => `${value}%`} />
+                  {brands.map((brand, index) => (
+                    <Line
+                      key={brand.domain}
+                      type="monotone"
+                      dataKey={brand.domain}
+                      stroke={BRAND_COLORS[index]}
+                      strokeWidth={brand.isOwn ? 3 : 1.5}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              ) : (
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(34, 211, 238, 0.1)" />
+                  <XAxis dataKey="label" stroke="rgba(255,255,255,0.3)" tick={axisTick} />
+                  <YAxis domain={[0, 100]} unit="%" stroke="rgba(255,255,255,0.3)" tick={axisTick} width={40} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => `${value}%`} />
+                  {brands.map((brand, index) => (
+                    <Bar key={brand.domain} dataKey={brand.domain} fill={BRAND_COLORS[index]} radius={[2, 2, 0, 0]} />
+                  ))}
+                </BarChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+          <div className="space-y-1 mt-4">
+            {brands.map((brand, index) => (
+              <div key={brand.domain} className="flex items-center gap-2">
+                <div
+                  className="w-2 h-2 rounded-full shrink-0"
+                  style={{ background: BRAND_COLORS[index] }}
+                />
+                <span className={cn("text-xs font-mono truncate", brand.isOwn ? "text-foreground" : "text-muted-foreground")}>
+                  {brand.domain}
+                </span>
+                <span className="ml-auto text-xs font-mono text-muted-foreground whitespace-nowrap">
+                  {brand.shareOfModel}%{brand.averageRank !== null && ` · 平均#${brand.averageRank}`}
+                </span>
+              </div>
+            ))}
+          </div>
+          {report.coMentioned.length > 0 && (
+            <p className="mt-3 text-[10px] text-muted-foreground font-mono truncate">
+              同時に言及: {report.coMentioned.slice(0, 3).map((c) => `${c.domain} (${c.rate}%)`).join(", ")}
+            </p>
+          )}
+          <p className="mt-1 text-[10px] text-muted-foreground font-mono">
+            直近12週間・{report.answers}件の回答
+          </p>
+        </>
+      )}
     </motion.div>
   );
 }
 
 function RecentAlerts() {
-  const getAlertIcon = (type: string) => {
-    switch (type) {
-      case "success":
-        return <CheckCircle className="w-4 h-4 text-[#22c55e]" />;
+  const { data: alerts, isLoading, refetch } = useAlerts(6);
+  const acknowledgeMutation = trpc.alerts.acknowledge.useMutation();
+  const snoozeMutation = trpc.alerts.snooze.useMutation();
+
+  const getAlertIcon = (severity: string) => {
+    switch (severity) {
+      case "critical":
+        return <AlertCircle className="w-4 h-4 text-[#ef4444]" />;
       case "warning":
         return <AlertCircle className="w-4 h-4 text-[#f59e0b]" />;
       case "info":
@@ -291,40 +422,28 @@ function RecentAlerts() {
     }
   };
 
-  const getAlertTitle = (title: string) => {
-    const translations: Record<string, string> = {
-      "Ranking Improved": "順位上昇",
-      "New AI Citation": "新規AI引用",
-      "Ranking Drop": "順位下落",
-      "New Backlink": "新規被リンク",
-    };
-    return translations[title] || title;
+  // 経過時間を「◯時間前」の形式で表示
+  const formatElapsed = (date: Date | string) => {
+    const minutes = Math.floor((Date.now() - new Date(date).getTime()) / 60000);
+    if (minutes < 60) return `${Math.max(minutes, 1)}分前`;
+    if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}時間前`;
+    return `${Math.floor(minutes / (60 * 24))}日前`;
   };
 
-  const getAlertMessage = (message: string) => {
-    if (message.includes("moved from")) {
-      return message.replace("moved from", "が").replace("to", "位から").replace("on Google", "位に上昇（Google）");
-    }
-    if (message.includes("was cited by")) {
-      return message.replace("Your content was cited by", "").replace("for", "があなたのコンテンツを引用：");
-    }
-    if (message.includes("dropped from")) {
-      return message.replace("dropped from", "が").replace("to", "位から").replace("位に下落", "位に下落");
-    }
-    if (message.includes("High DR backlink")) {
-      return message.replace("High DR backlink acquired from", "高DRの被リンクを獲得：");
-    }
-    return message;
+  const handleAcknowledge = async (id: number) => {
+    const result = await acknowledgeMutation.mutateAsync({ ids: [id] });
+    if (result.success) refetch();
+  };
+
+  const handleSnooze = async (id: number) => {
+    const result = await snoozeMutation.mutateAsync({ id, hours: 24 });
+    if (result.success) refetch();
   };
 
-  const getTimeJapanese = (time: string) => {
-    const translations: Record<string, string> = {
-      "2 hours ago": "2時間前",
-      "5 hours ago": "5時間前",
-      "1 day ago": "1日前",
-      "2 days ago": "2日前",
-    };
-    return translations[time] || time;
+  const handleAcknowledgeAll = async () => {
+    if (!alerts || alerts.length === 0) return;
+    const result = await acknowledgeMutation.mutateAsync({ ids: alerts.map((alert) => alert.id) });
+    if (result.success) refetch();
   };
 
   return (
@@ -340,30 +459,61 @@ function RecentAlerts() {
         <h3 className="text-lg font-display font-bold text-foreground">
           最近のアラート
         </h3>
-        <button className="text-xs text-[#8b5cf6] font-mono hover:underline">
-          すべて表示
+        <button
+          onClick={handleAcknowledgeAll}
+          disabled={!alerts || alerts.length === 0}
+          className="text-xs text-[#8b5cf6] font-mono hover:underline disabled:opacity-50"
+        >
+          すべて確認済みにする
         </button>
       </div>
       <div className="space-y-3">
-        {recentAlerts.map((alert) => (
-          <div
-            key={alert.id}
-            className="flex items-start gap-3 p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors cursor-pointer"
-          >
-            {getAlertIcon(alert.type)}
-            <div className="flex-1 min-w-0">
-              <p className="text-sm font-medium text-foreground truncate">
-                {getAlertTitle(alert.title)}
-              </p>
-              <p className="text-xs text-muted-foreground truncate">
-                {getAlertMessage(alert.message)}
-              </p>
-            </div>
-            <span className="text-[10px] text-muted-foreground whitespace-nowrap">
-              {getTimeJapanese(alert.time)}
-            </span>
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground text-center py-4">読み込み中...</p>
+        ) : !alerts || alerts.length === 0 ? (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-white/5 text-xs text-muted-foreground">
+            <CheckCircle className="w-4 h-4 text-[#22c55e]" />
+            未確認のアラートはありません
           </div>
-        ))}
+        ) : (
+          alerts.map((alert) => (
+            <div
+              key={alert.id}
+              className="group flex items-start gap-3 p-3 rounded-lg bg-white/5 hover:bg-white/10 transition-colors"
+            >
+              {getAlertIcon(alert.severity)}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">
+                  {alert.title}
+                </p>
+                <p className="text-xs text-muted-foreground truncate" title={alert.message}>
+                  {alert.message}
+                </p>
+              </div>
+              <div className="flex flex-col items-end gap-1">
+                <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                  {formatElapsed(alert.createdAt)}
+                </span>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleSnooze(alert.id)}
+                    title="24時間スヌーズ"
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <BellOff className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => handleAcknowledge(alert.id)}
+                    title="確認済みにする"
+                    className="text-muted-foreground hover:text-[#22c55e]"
+                  >
+                    <Check className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
       </div>
     </motion.div>
   );
@@ -543,7 +693,7 @@ export default function Home() {
         {/* Charts Row */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
           <TrafficChart />
-          <AIPlatformChart />
+          <ShareOfModelChart />
         </div>
 
         {/* Bottom Row */}
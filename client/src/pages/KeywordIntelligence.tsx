@@ -44,6 +44,13 @@ import { keywordData as initialKeywordData, type KeywordData } from "@/lib/mockD
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 
@@ -578,6 +585,138 @@ function KeywordDetailPanel({
   );
 }
 
+const CANNIBALIZATION_REASON_LABELS: Record<string, string> = {
+  split_impressions: "表示回数を分散",
+  position_swaps: "順位が入れ替わり",
+};
+
+// 同一クエリで複数の自サイトURLが競合しているケースの一覧
+function CannibalizationPanel() {
+  const [selectedDomainId, setSelectedDomainId] = useState<number | null>(null);
+  const [expandedQuery, setExpandedQuery] = useState<string | null>(null);
+
+  const { data: domainsData } = trpc.domains.list.useQuery();
+  const domains = domainsData?.domains || [];
+  const domainId = selectedDomainId ?? domains[0]?.id ?? null;
+
+  const { data: reportData, isLoading } = trpc.keywords.getCannibalization.useQuery(
+    { domainId: domainId ?? 0, days: 90 },
+    { enabled: domainId !== null }
+  );
+  const findings = reportData?.findings || [];
+
+  if (domains.length === 0) return null;
+
+  return (
+    <motion.div
+      variants={itemVariants}
+      className="rounded-xl p-6"
+      style={{
+        background: "linear-gradient(135deg, rgba(245, 158, 11, 0.1) 0%, rgba(139, 92, 246, 0.05) 100%)",
+        border: "1px solid rgba(245, 158, 11, 0.2)",
+      }}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <AlertCircle className="w-5 h-5 text-[#f59e0b]" />
+            <h3 className="text-lg font-display font-bold text-foreground">キーワードカニバリゼーション</h3>
+          </div>
+          <p className="text-xs text-muted-foreground font-mono mt-1">
+            Search Consoleの過去90日間のクエリ×ページデータから検出
+          </p>
+        </div>
+        <Select
+          value={domainId !== null ? String(domainId) : undefined}
+          onValueChange={(value) => setSelectedDomainId(Number(value))}
+        >
+          <SelectTrigger size="sm" className="w-[200px] text-xs font-mono">
+            <SelectValue placeholder="ドメインを選択" />
+          </SelectTrigger>
+          <SelectContent>
+            {domains.map((domain) => (
+              <SelectItem key={domain.id} value={String(domain.id)}>{domain.domain}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 py-4 text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span className="text-sm font-mono">読み込み中...</span>
+        </div>
+      ) : findings.length === 0 ? (
+        <p className="text-sm text-muted-foreground font-mono py-4">
+          カニバリゼーションは検出されませんでした（Search Consoleの同期後に表示されます）
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {findings.slice(0, 50).map((finding) => (
+            <div key={finding.query} className="rounded-lg bg-white/5 border border-border/50">
+              <button
+                onClick={() => setExpandedQuery(expandedQuery === finding.query ? null : finding.query)}
+                className="w-full flex flex-wrap items-center justify-between gap-2 p-3 text-left"
+              >
+                <div className="flex items-center gap-2">
+                  <Search className="w-4 h-4 text-[#f59e0b]" />
+                  <span className="text-sm text-foreground font-medium">{finding.query}</span>
+                  {finding.reasons.map((reason) => (
+                    <span key={reason} className="px-1.5 py-0.5 rounded text-[10px] font-mono bg-[#f59e0b]/20 text-[#f59e0b]">
+                      {CANNIBALIZATION_REASON_LABELS[reason] || reason}
+                    </span>
+                  ))}
+                </div>
+                <span className="text-xs text-muted-foreground font-mono">
+                  {finding.pages.length} URL · {finding.totalImpressions.toLocaleString()} 表示 · {finding.totalClicks.toLocaleString()} クリック
+                </span>
+              </button>
+              {expandedQuery === finding.query && (
+                <div className="px-3 pb-3 space-y-2">
+                  <table className="w-full text-xs font-mono">
+                    <thead>
+                      <tr className="text-muted-foreground border-b border-border/50">
+                        <th className="text-left py-1">URL</th>
+                        <th className="text-right py-1">表示シェア</th>
+                        <th className="text-right py-1">クリック</th>
+                        <th className="text-right py-1">平均順位</th>
+                        <th className="text-right py-1">最上位期間</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {finding.pages.map((page) => (
+                        <tr key={page.url} className="border-b border-border/30">
+                          <td className="py-1 pr-2 max-w-[320px] truncate text-foreground">
+                            {page.url === finding.suggestedPrimaryUrl && (
+                              <CheckCircle className="inline w-3 h-3 mr-1 text-[#22c55e]" />
+                            )}
+                            {page.url}
+                          </td>
+                          <td className="py-1 text-right">{page.impressionShare}%</td>
+                          <td className="py-1 text-right">{page.clicks}</td>
+                          <td className="py-1 text-right">{page.avgPosition}</td>
+                          <td className="py-1 text-right">{page.periodsLeading}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-[#22c55e]">
+                    推奨プライマリURL: <span className="font-mono">{finding.suggestedPrimaryUrl}</span>
+                    <span className="text-muted-foreground">（他のURLは統合・canonical・内部リンクで集約を検討）</span>
+                  </p>
+                  {finding.leaderSwaps > 0 && (
+                    <p className="text-xs text-muted-foreground">最上位URLの入れ替わり: {finding.leaderSwaps}回</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
 export default function KeywordIntelligence() {
   const [searchQuery, setSearchQuery] = useState("");
   const [newKeyword, setNewKeyword] = useState("");
@@ -957,6 +1096,9 @@ export default function KeywordIntelligence() {
           </motion.div>
         </div>
 
+        {/* Cannibalization Report */}
+        <CannibalizationPanel />
+
         {/* AI Analysis Panel */}
         <AnimatePresence>
           {(isAnalyzing || aiAnalysis) && (
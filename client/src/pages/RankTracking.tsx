@@ -30,6 +30,9 @@ import {
   Target,
   Lightbulb,
   X,
+  Play,
+  Plus,
+  Trash2,
 } from "lucide-react";
 import {
   LineChart,
@@ -46,6 +49,13 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 
@@ -226,7 +236,908 @@ function RankingDetailChart({ ranking }: { ranking: RankingData }) {
   );
 }
 
+const SERP_FEATURE_LABELS: Record<string, string> = {
+  featured_snippet: "強調スニペット",
+  people_also_ask: "他の人はこちらも質問",
+  local_pack: "ローカルパック",
+  video_carousel: "動画",
+  ai_overview: "AIによる概要",
+  sitelinks: "サイトリンク",
+};
+
+// トラッキングプロファイルの表示名（例: JP / 大阪 / mobile / ja）
+function formatTrackingProfile(profile: { country: string; city: string | null; language: string | null; device: string }) {
+  return [profile.country.toUpperCase(), profile.city?.split(",")[0], profile.device, profile.language]
+    .filter(Boolean)
+    .join(" / ");
+}
+
+// SERPの実順位とGSC平均順位の推移チャート
+function SerpHistoryChart({ history }: { history: Array<{ checkedAt: Date; position: number | null; gscPosition: number | null }> }) {
+  const chartData = history.map((point) => ({
+    date: new Date(point.checkedAt).toLocaleDateString("ja-JP", { month: "2-digit", day: "2-digit" }),
+    serp: point.position,
+    gsc: point.gscPosition,
+  }));
+
+  return (
+    <div className="h-[200px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(139, 92, 246, 0.1)" />
+          <XAxis
+            dataKey="date"
+            stroke="rgba(255,255,255,0.3)"
+            tick={{ fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" }}
+          />
+          <YAxis
+            reversed
+            domain={[1, "auto"]}
+            allowDecimals={false}
+            stroke="rgba(255,255,255,0.3)"
+            tick={{ fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" }}
+          />
+          <Tooltip
+            contentStyle={{
+              background: "rgba(26, 26, 46, 0.95)",
+              border: "1px solid rgba(139, 92, 246, 0.3)",
+              borderRadius: "8px",
+              fontFamily: "JetBrains Mono",
+            }}
+          />
+          <Legend />
+          <Line
+            type="monotone"
+            dataKey="serp"
+            name="SERP実順位"
+            stroke="#ec4899"
+            strokeWidth={2}
+            connectNulls
+            dot={{ fill: "#ec4899", strokeWidth: 0 }}
+          />
+          <Line
+            type="monotone"
+            dataKey="gsc"
+            name="GSC平均順位"
+            stroke="#8b5cf6"
+            strokeWidth={2}
+            strokeDasharray="4 4"
+            connectNulls
+            dot={{ fill: "#8b5cf6", strokeWidth: 0 }}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+const COMPARISON_COLORS = ["#ec4899", "#8b5cf6", "#22d3ee", "#f59e0b", "#22c55e", "#ef4444", "#a3e635", "#f472b6"];
+
+// 自ドメインと競合の可視性・シェア・オブ・ボイス比較
+function CompetitorVisibilityPanel({ domainId }: { domainId: number }) {
+  const [newCompetitor, setNewCompetitor] = useState("");
+  const [metric, setMetric] = useState<"shareOfVoice" | "visibility">("shareOfVoice");
+
+  const { data: competitorsData, refetch: refetchCompetitors } = trpc.domains.listCompetitors.useQuery({ domainId });
+  const { data: visibilityData, refetch: refetchVisibility } = trpc.domains.getVisibility.useQuery({ domainId, days: 30 });
+  const addCompetitorMutation = trpc.domains.addCompetitor.useMutation();
+  const deleteCompetitorMutation = trpc.domains.deleteCompetitor.useMutation();
+  const recomputeMutation = trpc.domains.recomputeVisibility.useMutation();
+
+  const competitors = competitorsData?.competitors || [];
+  const rows = visibilityData?.history || [];
+
+  // 日付ごとに各ドメインの値を1行にまとめる
+  const subjects = Array.from(new Set(rows.map((row) => row.subjectDomain)));
+  const chartData = Array.from(new Set(rows.map((row) => new Date(row.date).toISOString().slice(0, 10)))).map((day) => {
+    const point: Record<string, string | number> = { date: day.slice(5).replace("-", "/") };
+    for (const row of rows) {
+      if (new Date(row.date).toISOString().slice(0, 10) === day) {
+        point[row.subjectDomain] = parseFloat(metric === "shareOfVoice" ? row.shareOfVoice : row.visibility);
+      }
+    }
+    return point;
+  });
+  const latestDay = rows.length > 0 ? new Date(rows[rows.length - 1].date).toISOString() : null;
+  const latestRows = rows
+    .filter((row) => new Date(row.date).toISOString() === latestDay)
+    .sort((a, b) => parseFloat(b.shareOfVoice) - parseFloat(a.shareOfVoice));
+
+  const refresh = async () => {
+    await recomputeMutation.mutateAsync({ domainId });
+    refetchCompetitors();
+    refetchVisibility();
+  };
+
+  const handleAdd = async () => {
+    if (!newCompetitor.trim()) return;
+    const result = await addCompetitorMutation.mutateAsync({ domainId, domain: newCompetitor.trim() });
+    if (result.success) {
+      toast.success("競合ドメインを追加しました");
+      setNewCompetitor("");
+      await refresh();
+    } else {
+      toast.error(result.error || "追加に失敗しました");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    const result = await deleteCompetitorMutation.mutateAsync({ id });
+    if (result.success) {
+      await refresh();
+    } else {
+      toast.error(result.error || "削除に失敗しました");
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-border/50 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-[#8b5cf6]" />
+          <h3 className="text-lg font-display font-bold text-foreground">競合比較（CTR加重）</h3>
+        </div>
+        <Tabs value={metric} onValueChange={(value) => setMetric(value as "shareOfVoice" | "visibility")}>
+          <TabsList className="bg-white/5">
+            <TabsTrigger value="shareOfVoice" className="font-mono text-xs">シェア・オブ・ボイス</TabsTrigger>
+            <TabsTrigger value="visibility" className="font-mono text-xs">可視性指数</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {competitors.map((competitor) => (
+          <span
+            key={competitor.id}
+            className="flex items-center gap-1 px-2 py-1 rounded text-xs font-mono bg-white/5 border border-border/50 text-foreground"
+          >
+            {competitor.domain}
+            <button onClick={() => handleDelete(competitor.id)} className="text-muted-foreground hover:text-[#ef4444]">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <Input
+          type="text"
+          placeholder="競合ドメイン (例: competitor.com)"
+          value={newCompetitor}
+          onChange={(e) => setNewCompetitor(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          className="h-8 w-[240px] bg-white/5 border-border/50 font-mono text-xs"
+        />
+        <Button size="sm" variant="outline" onClick={handleAdd} disabled={addCompetitorMutation.isPending}>
+          追加
+        </Button>
+      </div>
+
+      {chartData.length === 0 ? (
+        <p className="text-sm text-muted-foreground font-mono py-4">
+          順位チェックを実行すると、自ドメインと競合の可視性がここに表示されます
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 h-[240px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(139, 92, 246, 0.1)" />
+                <XAxis
+                  dataKey="date"
+                  stroke="rgba(255,255,255,0.3)"
+                  tick={{ fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" }}
+                />
+                <YAxis
+                  stroke="rgba(255,255,255,0.3)"
+                  tick={{ fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" }}
+                  unit="%"
+                />
+                <Tooltip
+                  contentStyle={{
+                    background: "rgba(26, 26, 46, 0.95)",
+                    border: "1px solid rgba(139, 92, 246, 0.3)",
+                    borderRadius: "8px",
+                    fontFamily: "JetBrains Mono",
+                  }}
+                />
+                <Legend />
+                {subjects.map((subject, index) => (
+                  <Line
+                    key={subject}
+                    type="monotone"
+                    dataKey={subject}
+                    stroke={COMPARISON_COLORS[index % COMPARISON_COLORS.length]}
+                    strokeWidth={rows.find((row) => row.subjectDomain === subject)?.isCompetitor ? 1.5 : 3}
+                    connectNulls
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="space-y-2">
+            {latestRows.map((row) => (
+              <div
+                key={row.subjectDomain}
+                className={cn(
+                  "flex items-center justify-between p-2 rounded text-sm",
+                  row.isCompetitor ? "bg-white/5" : "bg-[#ec4899]/15"
+                )}
+              >
+                <span className="text-foreground truncate">{row.subjectDomain}</span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {parseFloat(row.shareOfVoice).toFixed(1)}% · {row.keywordsRanked}/{row.keywordsChecked}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// トラッキング中キーワードのSERP実順位パネル
+function SerpTrackingPanel() {
+  const [selectedDomainId, setSelectedDomainId] = useState<number | null>(null);
+  const [selectedKeywordId, setSelectedKeywordId] = useState<number | null>(null);
+  const [selectedProfileId, setSelectedProfileId] = useState<number | null>(null);
+
+  const { data: domainsData } = trpc.domains.list.useQuery();
+  const domains = domainsData?.domains || [];
+  const domainId = selectedDomainId ?? domains[0]?.id ?? null;
+
+  const { data: keywordsData } = trpc.keywords.list.useQuery(
+    { domainId: domainId ?? undefined },
+    { enabled: domainId !== null }
+  );
+  const keywords = keywordsData?.keywords || [];
+  const keywordId = selectedKeywordId ?? keywords[0]?.id ?? null;
+
+  const { data: serpData, refetch: refetchSerp } = trpc.keywords.getSerpHistory.useQuery(
+    { keywordId: keywordId ?? 0, profileId: selectedProfileId ?? undefined, limit: 30 },
+    { enabled: keywordId !== null }
+  );
+  const checkRankingMutation = trpc.keywords.checkRanking.useMutation();
+  const checkAllMutation = trpc.keywords.checkAllRankings.useMutation();
+
+  const history = serpData?.history || [];
+  const latestPoint = history[history.length - 1] ?? null;
+  const latest = serpData && "latest" in serpData ? serpData.latest : null;
+  const movedAbove = serpData && "movedAbove" in serpData ? serpData.movedAbove : [];
+  const competitorsAbove = serpData && "competitorsAbove" in serpData ? serpData.competitorsAbove : [];
+  const profiles = serpData && "profiles" in serpData ? serpData.profiles : [];
+  const profileId = serpData && "profileId" in serpData ? serpData.profileId : null;
+  const features = ((latest?.features as Array<{ type: string }> | null) || []).map((f) => f.type);
+
+  const handleCheck = async () => {
+    if (keywordId === null) return;
+    const result = await checkRankingMutation.mutateAsync({ keywordId, profileId: profileId ?? undefined });
+    if (result.success) {
+      toast.success("SERPを取得しました");
+      refetchSerp();
+    } else {
+      toast.error(result.error || "SERPの取得に失敗しました");
+    }
+  };
+
+  const handleCheckAll = async () => {
+    if (domainId === null) return;
+    const result = await checkAllMutation.mutateAsync({ domainId });
+    if (result.success) {
+      toast.success("全キーワードの順位チェックを開始しました");
+    } else {
+      toast.error(result.error || "順位チェックを開始できませんでした");
+    }
+  };
+
+  if (domains.length === 0) return null;
+
+  return (
+    <motion.div
+      variants={itemVariants}
+      className="rounded-xl p-6"
+      style={{
+        background: "linear-gradient(135deg, rgba(236, 72, 153, 0.1) 0%, rgba(34, 211, 238, 0.05) 100%)",
+        border: "1px solid rgba(236, 72, 153, 0.2)",
+      }}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <Target className="w-5 h-5 text-[#ec4899]" />
+          <h3 className="text-lg font-display font-bold text-foreground">SERP実順位 vs GSC平均順位</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={domainId !== null ? String(domainId) : undefined}
+            onValueChange={(value) => {
+              setSelectedDomainId(Number(value));
+              setSelectedKeywordId(null);
+            }}
+          >
+            <SelectTrigger size="sm" className="w-[200px] text-xs font-mono">
+              <SelectValue placeholder="ドメインを選択" />
+            </SelectTrigger>
+            <SelectContent>
+              {domains.map((domain) => (
+                <SelectItem key={domain.id} value={String(domain.id)}>{domain.domain}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={handleCheckAll}
+            disabled={domainId === null || checkAllMutation.isPending}
+          >
+            {checkAllMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Globe className="w-4 h-4" />}
+            全キーワードをチェック
+          </Button>
+        </div>
+      </div>
+
+      {keywords.length === 0 ? (
+        <p className="text-sm text-muted-foreground font-mono py-4">
+          このドメインにはトラッキング中のキーワードがありません（設定から追加できます）
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-1 max-h-[360px] overflow-y-auto">
+            {keywords.map((keyword) => (
+              <button
+                key={keyword.id}
+                onClick={() => {
+                  setSelectedKeywordId(keyword.id);
+                  setSelectedProfileId(null);
+                }}
+                className={cn(
+                  "w-full text-left px-3 py-2 rounded text-sm transition-colors",
+                  keywordId === keyword.id ? "bg-[#ec4899]/15 text-foreground" : "hover:bg-white/5 text-muted-foreground"
+                )}
+              >
+                {keyword.keyword}
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2 space-y-4">
+            {profiles.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {profiles.map((profile) => (
+                  <button
+                    key={profile.id}
+                    onClick={() => setSelectedProfileId(profile.id)}
+                    className={cn(
+                      "px-2 py-1 rounded text-xs font-mono border transition-colors",
+                      profileId === profile.id
+                        ? "bg-[#ec4899]/20 border-[#ec4899]/50 text-foreground"
+                        : "border-border/50 text-muted-foreground hover:bg-white/5"
+                    )}
+                  >
+                    {formatTrackingProfile(profile)}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <div className="p-4 rounded-lg bg-white/5 border border-border/50 text-center">
+                <p className="text-2xl font-display font-bold text-[#ec4899]">
+                  {latestPoint ? (latestPoint.position !== null ? `#${latestPoint.position}` : "圏外") : "-"}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono">
+                  SERP実順位{profiles.length === 1 ? ` (${formatTrackingProfile(profiles[0])})` : ""}
+                </p>
+              </div>
+              <div className="p-4 rounded-lg bg-white/5 border border-border/50 text-center">
+                <p className="text-2xl font-display font-bold text-[#8b5cf6]">
+                  {latestPoint?.gscPosition != null ? latestPoint.gscPosition.toFixed(1) : "-"}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono">GSC平均順位</p>
+              </div>
+              <div className="p-4 rounded-lg bg-white/5 border border-border/50 flex flex-col items-center justify-center gap-2">
+                <Button size="sm" variant="outline" className="gap-2" onClick={handleCheck} disabled={checkRankingMutation.isPending}>
+                  {checkRankingMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+                  今すぐチェック
+                </Button>
+                {latestPoint && (
+                  <span className="text-[10px] text-muted-foreground font-mono">
+                    {new Date(latestPoint.checkedAt).toLocaleString("ja-JP")} ({latestPoint.provider})
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {latestPoint?.matchedUrl && (
+              <p className="text-xs text-muted-foreground font-mono truncate">ランクインURL: {latestPoint.matchedUrl}</p>
+            )}
+
+            {features.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {features.map((type, index) => (
+                  <span key={`${type}-${index}`} className="px-2 py-0.5 rounded text-[10px] font-mono bg-[#22d3ee]/15 text-[#22d3ee]">
+                    {SERP_FEATURE_LABELS[type] || type}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {history.length > 0 ? (
+              <SerpHistoryChart history={history} />
+            ) : (
+              <p className="text-sm text-muted-foreground font-mono py-4">SERPスナップショットがまだありません</p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-sm font-mono text-muted-foreground mb-2">前回から上位に浮上した競合</h4>
+                {movedAbove.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">なし</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {movedAbove.map((competitor) => (
+                      <li key={competitor.domain} className="flex items-center justify-between text-sm p-2 rounded bg-[#ef4444]/10">
+                        <span className="text-foreground truncate">{competitor.domain}</span>
+                        <span className="font-mono text-xs text-[#ef4444]">
+                          {competitor.previousPosition !== null ? `#${competitor.previousPosition} → ` : "圏外 → "}#{competitor.position}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h4 className="text-sm font-mono text-muted-foreground mb-2">自サイトより上位の競合</h4>
+                <ul className="space-y-1">
+                  {competitorsAbove.slice(0, 10).map((competitor) => (
+                    <li key={competitor.domain} className="flex items-center justify-between text-sm p-2 rounded bg-white/5">
+                      <span className="text-foreground truncate">{competitor.domain}</span>
+                      <span className="font-mono text-xs text-muted-foreground">#{competitor.position}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {domainId !== null && <CompetitorVisibilityPanel domainId={domainId} />}
+    </motion.div>
+  );
+}
+
 // AI分析結果の型定義
+// 追跡プロンプトの対象プラットフォーム（色はAI引用バッジと共通）
+const PROMPT_PLATFORMS = [
+  { key: "chatgpt", label: "ChatGPT", short: "GPT", color: "#8b5cf6" },
+  { key: "perplexity", label: "Perplexity", short: "PPX", color: "#22d3ee" },
+  { key: "gemini", label: "Gemini", short: "GEM", color: "#ec4899" },
+] as const;
+
+type PromptPlatform = (typeof PROMPT_PLATFORMS)[number]["key"];
+
+const PROMPT_SCHEDULE_LABELS: Record<string, string> = {
+  daily: "毎日",
+  weekly: "毎週",
+  monthly: "毎月",
+};
+
+type PromptRunRow = {
+  id: number;
+  platform: string;
+  model: string;
+  answer: string;
+  citations: unknown;
+  mentioned: boolean;
+  cited: boolean;
+  mentionPosition: number | null;
+  citationRank: number | null;
+  competitorMentions: unknown;
+  sentiment: string | null;
+  errorMessage: string | null;
+  ranAt: Date;
+};
+
+function isSentiment(value: string | null): value is "positive" | "neutral" | "negative" {
+  return value === "positive" || value === "neutral" || value === "negative";
+}
+
+// プラットフォームごとの言及順（1 = 最初に言及）の推移
+function PromptMentionChart({ runs }: { runs: PromptRunRow[] }) {
+  const byTime = new Map<number, Record<string, number | string | null>>();
+  for (const run of [...runs].reverse()) {
+    const time = new Date(run.ranAt).getTime();
+    const point = byTime.get(time) ?? {
+      date: new Date(run.ranAt).toLocaleDateString("ja-JP", { month: "2-digit", day: "2-digit" }),
+    };
+    point[run.platform] = run.errorMessage ? null : run.mentionPosition;
+    byTime.set(time, point);
+  }
+  const chartData = Array.from(byTime.values());
+
+  return (
+    <div className="h-[180px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" stroke="rgba(139, 92, 246, 0.1)" />
+          <XAxis
+            dataKey="date"
+            stroke="rgba(255,255,255,0.3)"
+            tick={{ fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" }}
+          />
+          <YAxis
+            reversed
+            domain={[1, "auto"]}
+            allowDecimals={false}
+            stroke="rgba(255,255,255,0.3)"
+            tick={{ fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" }}
+          />
+          <Tooltip
+            contentStyle={{
+              background: "rgba(26, 26, 46, 0.95)",
+              border: "1px solid rgba(139, 92, 246, 0.3)",
+              borderRadius: "8px",
+              fontFamily: "JetBrains Mono",
+            }}
+          />
+          <Legend />
+          {PROMPT_PLATFORMS.map((platform) => (
+            <Line
+              key={platform.key}
+              type="monotone"
+              dataKey={platform.key}
+              name={platform.label}
+              stroke={platform.color}
+              strokeWidth={2}
+              dot={{ fill: platform.color, strokeWidth: 0 }}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+// 1件の回答（言及・引用・競合・センチメントと回答本文）
+function PromptRunItem({ run }: { run: PromptRunRow }) {
+  const platform = PROMPT_PLATFORMS.find((p) => p.key === run.platform);
+  const citations = (run.citations as Array<{ url: string; title: string | null }> | null) || [];
+  const competitors = (run.competitorMentions as Array<{ domain: string; mentionPosition: number | null; cited: boolean }> | null) || [];
+
+  return (
+    <details className="p-3 rounded-lg bg-white/5 border border-border/50 text-xs">
+      <summary className="cursor-pointer flex flex-wrap items-center gap-2">
+        <span className="px-1.5 py-0.5 rounded font-mono" style={{ background: `${platform?.color ?? "#ffffff"}20`, color: platform?.color }}>
+          {platform?.short ?? run.platform}
+        </span>
+        <span className="font-mono text-muted-foreground">
+          {new Date(run.ranAt).toLocaleString("ja-JP", { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit" })}
+        </span>
+        {run.errorMessage ? (
+          <span className="text-[#ef4444]">取得失敗</span>
+        ) : (
+          <>
+            <span className={cn("font-mono", run.mentioned ? "text-[#22c55e]" : "text-muted-foreground")}>
+              {run.mentionPosition !== null ? `言及 #${run.mentionPosition}` : "言及なし"}
+            </span>
+            {run.citationRank !== null && <span className="font-mono text-[#22d3ee]">出典 #{run.citationRank}</span>}
+            {isSentiment(run.sentiment) && <SentimentBadge sentiment={run.sentiment} />}
+          </>
+        )}
+        {competitors.length > 0 && (
+          <span className="ml-auto text-muted-foreground truncate">
+            競合: {competitors.map((c) => c.mentionPosition !== null ? `${c.domain} #${c.mentionPosition}` : c.domain).join(", ")}
+          </span>
+        )}
+      </summary>
+      <div className="mt-3 space-y-2">
+        {run.errorMessage ? (
+          <p className="text-[#ef4444] break-all">{run.errorMessage}</p>
+        ) : (
+          <>
+            <p className="text-muted-foreground font-mono">{run.model}</p>
+            <p className="text-foreground whitespace-pre-wrap max-h-60 overflow-y-auto">{run.answer}</p>
+            {citations.length > 0 && (
+              <ol className="list-decimal pl-4 space-y-0.5">
+                {citations.map((source, i) => (
+                  <li key={i} className="truncate">
+                    <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-[#22d3ee] hover:underline">
+                      {source.title || source.url}
+                    </a>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+}
+
+// 追跡プロンプトの管理とAIプラットフォームでの言及履歴
+function PromptTrackingPanel() {
+  const [selectedDomainId, setSelectedDomainId] = useState<number | null>(null);
+  const [selectedPromptId, setSelectedPromptId] = useState<number | null>(null);
+  const [newPrompt, setNewPrompt] = useState("");
+  const [newTags, setNewTags] = useState("");
+  const [newPlatforms, setNewPlatforms] = useState<PromptPlatform[]>(PROMPT_PLATFORMS.map((p) => p.key));
+  const [newSchedule, setNewSchedule] = useState<"daily" | "weekly" | "monthly">("weekly");
+
+  const { data: domainsData } = trpc.domains.list.useQuery();
+  const domains = domainsData?.domains || [];
+  const domainId = selectedDomainId ?? domains[0]?.id ?? null;
+
+  const { data: promptsData, refetch: refetchPrompts } = trpc.prompts.list.useQuery(
+    { domainId: domainId ?? 0 },
+    { enabled: domainId !== null }
+  );
+  const prompts = promptsData?.prompts || [];
+  const promptId = selectedPromptId ?? prompts[0]?.id ?? null;
+  const selectedPrompt = prompts.find((p) => p.id === promptId) ?? null;
+
+  const { data: historyData, refetch: refetchHistory } = trpc.prompts.history.useQuery(
+    { promptId: promptId ?? 0, limit: 90 },
+    { enabled: promptId !== null }
+  );
+  const runs = historyData?.runs || [];
+
+  const addMutation = trpc.prompts.add.useMutation();
+  const deleteMutation = trpc.prompts.delete.useMutation();
+  const runMutation = trpc.prompts.run.useMutation();
+
+  const handleAdd = async () => {
+    if (domainId === null || !newPrompt.trim()) return;
+    const result = await addMutation.mutateAsync({
+      domainId,
+      prompt: newPrompt.trim(),
+      tags: newTags.split(/[,、]/).map((tag) => tag.trim()).filter(Boolean),
+      platforms: newPlatforms,
+      schedule: newSchedule,
+    });
+    if (result.success) {
+      setNewPrompt("");
+      setNewTags("");
+      refetchPrompts();
+      toast.success("プロンプトを追加しました");
+    } else {
+      toast.error(result.error || "プロンプトを追加できませんでした");
+    }
+  };
+
+  const handleRun = async (id: number) => {
+    const result = await runMutation.mutateAsync({ id });
+    if (result.success) {
+      toast.success("AIプラットフォームに質問しました");
+      refetchPrompts();
+      refetchHistory();
+    } else {
+      toast.error(result.error || "質問に失敗しました");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    const result = await deleteMutation.mutateAsync({ id });
+    if (result.success) {
+      if (selectedPromptId === id) setSelectedPromptId(null);
+      refetchPrompts();
+    } else {
+      toast.error(result.error || "プロンプトを削除できませんでした");
+    }
+  };
+
+  const togglePlatform = (platform: PromptPlatform) => {
+    setNewPlatforms((current) =>
+      current.includes(platform)
+        ? current.filter((p) => p !== platform)
+        : [...current, platform]
+    );
+  };
+
+  if (domains.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <Bot className="w-8 h-8 mx-auto mb-2 text-[#22d3ee]" />
+        <p className="font-mono text-sm">ドメインを登録するとAIプラットフォームでの言及を追跡できます</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground font-mono">
+          ユーザーがAIに尋ねる質問を登録し、回答での言及順・引用・競合の言及を記録します
+        </p>
+        <Select
+          value={domainId !== null ? String(domainId) : undefined}
+          onValueChange={(value) => {
+            setSelectedDomainId(Number(value));
+            setSelectedPromptId(null);
+          }}
+        >
+          <SelectTrigger size="sm" className="w-[200px] text-xs font-mono">
+            <SelectValue placeholder="ドメインを選択" />
+          </SelectTrigger>
+          <SelectContent>
+            {domains.map((domain) => (
+              <SelectItem key={domain.id} value={String(domain.id)}>{domain.domain}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* プロンプトの追加 */}
+      <div className="p-4 rounded-lg bg-white/5 border border-border/50 space-y-3">
+        <Input
+          placeholder="例: 中小企業におすすめのSEOツールは？"
+          value={newPrompt}
+          onChange={(e) => setNewPrompt(e.target.value)}
+          className="bg-white/5 border-border/50 text-sm"
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="タグ（カンマ区切り）"
+            value={newTags}
+            onChange={(e) => setNewTags(e.target.value)}
+            className="w-[200px] h-8 bg-white/5 border-border/50 text-xs font-mono"
+          />
+          {PROMPT_PLATFORMS.map((platform) => (
+            <button
+              key={platform.key}
+              type="button"
+              onClick={() => togglePlatform(platform.key)}
+              className="px-2 py-1 rounded text-xs font-mono transition-colors"
+              style={newPlatforms.includes(platform.key)
+                ? { background: `${platform.color}20`, color: platform.color }
+                : { background: "rgba(255,255,255,0.05)", color: "rgba(255,255,255,0.4)" }}
+            >
+              {platform.label}
+            </button>
+          ))}
+          <Select value={newSchedule} onValueChange={(value) => setNewSchedule(value as typeof newSchedule)}>
+            <SelectTrigger size="sm" className="w-[100px] text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PROMPT_SCHEDULE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={handleAdd}
+            disabled={addMutation.isPending || !newPrompt.trim() || newPlatforms.length === 0}
+            className="gap-2 ml-auto"
+          >
+            {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            追加
+          </Button>
+        </div>
+      </div>
+
+      {/* プロンプト一覧（プラットフォームごとの最新の回答） */}
+      {prompts.length === 0 ? (
+        <p className="text-sm text-muted-foreground font-mono py-4 text-center">追跡中のプロンプトはありません</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border/50">
+                <th className="text-left text-xs text-muted-foreground font-mono py-2">プロンプト</th>
+                <th className="text-center text-xs text-muted-foreground font-mono py-2">最新の言及</th>
+                <th className="text-center text-xs text-muted-foreground font-mono py-2">頻度</th>
+                <th className="text-right text-xs text-muted-foreground font-mono py-2">最終実行</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {prompts.map((prompt) => (
+                <tr
+                  key={prompt.id}
+                  onClick={() => setSelectedPromptId(prompt.id)}
+                  className={cn(
+                    "border-b border-border/30 cursor-pointer transition-colors",
+                    promptId === prompt.id ? "bg-[#22d3ee]/10" : "hover:bg-white/5"
+                  )}
+                >
+                  <td className="py-3 pr-2">
+                    <p className={cn("text-sm", prompt.isActive ? "text-foreground" : "text-muted-foreground line-through")}>{prompt.prompt}</p>
+                    {prompt.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {prompt.tags.map((tag) => (
+                          <span key={tag} className="px-1.5 py-0.5 rounded bg-white/10 text-[10px] font-mono text-muted-foreground">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-3">
+                    <div className="flex justify-center gap-1">
+                      {PROMPT_PLATFORMS.filter((platform) => prompt.platforms.includes(platform.key)).map((platform) => {
+                        const run = prompt.latestRuns.find((r) => r.platform === platform.key);
+                        const visible = run && !run.errorMessage && (run.mentioned || run.cited);
+                        return (
+                          <span
+                            key={platform.key}
+                            title={platform.label}
+                            className="px-1.5 py-0.5 rounded text-[10px] font-mono"
+                            style={visible
+                              ? { background: `${platform.color}20`, color: platform.color }
+                              : { background: "rgba(255,255,255,0.05)", color: "rgba(255,255,255,0.35)" }}
+                          >
+                            {platform.short}{run?.mentionPosition ? ` #${run.mentionPosition}` : ""}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </td>
+                  <td className="py-3 text-center text-xs font-mono text-muted-foreground">
+                    {PROMPT_SCHEDULE_LABELS[prompt.schedule]}
+                  </td>
+                  <td className="py-3 text-right text-xs font-mono text-muted-foreground">
+                    {prompt.lastRunAt ? new Date(prompt.lastRunAt).toLocaleDateString("ja-JP") : "未実行"}
+                  </td>
+                  <td className="py-3 pl-2">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        title="今すぐ質問"
+                        disabled={runMutation.isPending}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRun(prompt.id);
+                        }}
+                      >
+                        {runMutation.isPending && runMutation.variables?.id === prompt.id
+                          ? <Loader2 className="w-3 h-3 animate-spin" />
+                          : <Play className="w-3 h-3" />}
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7 text-muted-foreground hover:text-[#ef4444]"
+                        title="削除"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(prompt.id);
+                        }}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 選択中のプロンプトの履歴 */}
+      {selectedPrompt && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-mono text-muted-foreground">言及順の推移: {selectedPrompt.prompt}</h4>
+          {runs.length === 0 ? (
+            <p className="text-xs text-muted-foreground font-mono">まだ回答がありません</p>
+          ) : (
+            <>
+              <PromptMentionChart runs={runs} />
+              <div className="space-y-2 max-h-[480px] overflow-y-auto">
+                {runs.map((run) => (
+                  <PromptRunItem key={run.id} run={run} />
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface RankingAnalysis {
   summary: string;
   currentPerformance: {
@@ -416,6 +1327,8 @@ export default function RankTracking() {
 
   const analyzeRankingMutation = trpc.seo.analyzeRanking.useMutation();
   const exportCSVMutation = trpc.export.rankingsToCSV.useMutation();
+  // AI引用は追跡プロンプトの最新の回答から集計
+  const { data: citedData } = trpc.prompts.citedCount.useQuery();
 
   const filteredRankings = rankingData.filter((r) =>
     r.keyword.toLowerCase().includes(searchQuery.toLowerCase())
@@ -427,9 +1340,6 @@ export default function RankTracking() {
   );
   const improved = rankingData.filter((r) => r.googleRankChange > 0).length;
   const declined = rankingData.filter((r) => r.googleRankChange < 0).length;
-  const aiCited = rankingData.filter(
-    (r) => r.aiCitations.chatgpt || r.aiCitations.perplexity || r.aiCitations.gemini
-  ).length;
 
   const handleAnalyze = async () => {
     if (!selectedRanking) return;
@@ -591,7 +1501,10 @@ export default function RankTracking() {
               <Bot className="w-4 h-4 text-[#22d3ee]" />
               <span className="text-xs text-muted-foreground font-mono">AI引用</span>
             </div>
-            <p className="text-2xl font-display font-bold text-[#22d3ee]">{aiCited}</p>
+            <p className="text-2xl font-display font-bold text-[#22d3ee]">
+              {citedData?.cited ?? 0}
+              <span className="text-sm text-muted-foreground font-mono"> / {citedData?.total ?? 0}</span>
+            </p>
           </motion.div>
         </div>
 
@@ -755,12 +1668,7 @@ export default function RankTracking() {
               </TabsContent>
 
               <TabsContent value="ai-cited" className="mt-0">
-                <div className="text-center py-8 text-muted-foreground">
-                  <Bot className="w-8 h-8 mx-auto mb-2 text-[#22d3ee]" />
-                  <p className="font-mono text-sm">
-                    {aiCited}件のキーワードがAIプラットフォームで引用
-                  </p>
-                </div>
+                <PromptTrackingPanel />
               </TabsContent>
             </Tabs>
           </motion.div>
@@ -883,6 +1791,9 @@ export default function RankTracking() {
           </motion.div>
         </div>
 
+        {/* SERP Position History */}
+        <SerpTrackingPanel />
+
         {/* AI Analysis Panel */}
         <AnimatePresence>
           {(aiAnalysis || isAnalyzing) && (
@@ -18,33 +18,1821 @@ import {
   ExternalLink,
   Database,
   Zap,
+  Bell,
+  Send,
+  Mail,
+  Eye,
+  Play,
+  Pause,
+  RotateCcw,
+  History,
+  Activity,
+  Gauge,
+  Smartphone,
+  Monitor,
+  Search,
+  Target,
+  KeyRound,
+  Copy,
 } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
+import { formatCls } from "@shared/cwv";
 import { toast } from "sonner";
 
-const containerVariants = {
-  hidden: { opacity: 0 },
-  visible: {
-    opacity: 1,
-    transition: {
-      staggerChildren: 0.1,
-    },
-  },
-};
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: {
+      staggerChildren: 0.1,
+    },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  visible: {
+    opacity: 1,
+    y: 0,
+  },
+};
+
+// 順位トラッキングの対象国（サーバー側のSERP_COUNTRIESと対応）
+const TRACKING_COUNTRIES = [
+  { value: "jp", label: "日本" },
+  { value: "us", label: "アメリカ" },
+  { value: "gb", label: "イギリス" },
+  { value: "ca", label: "カナダ" },
+  { value: "au", label: "オーストラリア" },
+  { value: "de", label: "ドイツ" },
+  { value: "fr", label: "フランス" },
+  { value: "kr", label: "韓国" },
+  { value: "tw", label: "台湾" },
+];
+
+interface TrackingProfileDraft {
+  country: string;
+  city: string;
+  language: string;
+  device: "desktop" | "mobile";
+}
+
+// 入力中のプロファイルをAPIの入力形式に変換
+function toProfileInput(draft: TrackingProfileDraft) {
+  return {
+    country: draft.country,
+    city: draft.city.trim() || null,
+    language: draft.language.trim() || null,
+    device: draft.device,
+  };
+}
+
+// キーワードごとのトラッキングプロファイル一覧
+function KeywordProfileList({ keywordId, draft }: { keywordId: number; draft: TrackingProfileDraft }) {
+  const { data, refetch } = trpc.keywords.listProfiles.useQuery({ keywordId });
+  const addProfileMutation = trpc.keywords.addProfile.useMutation();
+  const deleteProfileMutation = trpc.keywords.deleteProfile.useMutation();
+  const profiles = data?.profiles || [];
+
+  const handleAdd = async () => {
+    const result = await addProfileMutation.mutateAsync({ keywordId, ...toProfileInput(draft) });
+    if (result.success) {
+      toast.success("プロファイルを追加しました");
+      refetch();
+    } else {
+      toast.error(result.error || "追加に失敗しました");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    const result = await deleteProfileMutation.mutateAsync({ id });
+    if (result.success) {
+      refetch();
+    } else {
+      toast.error(result.error || "削除に失敗しました");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2">
+      {profiles.map((profile) => (
+        <span
+          key={profile.id}
+          className="flex items-center gap-1 px-2 py-0.5 rounded text-[10px] font-mono bg-[#22d3ee]/15 text-[#22d3ee]"
+        >
+          {[profile.country.toUpperCase(), profile.city?.split(",")[0], profile.device, profile.language].filter(Boolean).join(" / ")}
+          {profiles.length > 1 && (
+            <button onClick={() => handleDelete(profile.id)} className="hover:text-[#ef4444]">
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+      <button
+        onClick={handleAdd}
+        disabled={addProfileMutation.isPending}
+        className="px-2 py-0.5 rounded text-[10px] font-mono border border-border/50 text-muted-foreground hover:bg-white/5"
+      >
+        + 入力中の条件を追加
+      </button>
+    </div>
+  );
+}
+
+// アラートルールの種類（しきい値の意味と単位）
+const ALERT_RULE_TYPES = [
+  { value: "position_drop", label: "順位下落", unit: "位以上下落" },
+  { value: "ctr_collapse", label: "CTR急落", unit: "%以上低下（7日平均比）" },
+  { value: "cwv_regression", label: "Core Web Vitals悪化", unit: "%以上悪化" },
+  { value: "lost_ai_citation", label: "AI引用の消失", unit: "ポイント以上のスコア低下" },
+  { value: "budget_violation", label: "パフォーマンス予算の超過", unit: "回以上連続で超過" },
+] as const;
+
+type AlertRuleType = (typeof ALERT_RULE_TYPES)[number]["value"];
+
+// アラートルール一覧（しきい値・重要度・有効/無効を編集）
+function AlertRuleList({ domains }: { domains: Array<{ id: number; domain: string }> }) {
+  const { data, refetch } = trpc.alerts.listRules.useQuery();
+  const addRuleMutation = trpc.alerts.addRule.useMutation();
+  const updateRuleMutation = trpc.alerts.updateRule.useMutation();
+  const deleteRuleMutation = trpc.alerts.deleteRule.useMutation();
+  const [newRuleType, setNewRuleType] = useState<AlertRuleType>("position_drop");
+  const [newRuleDomainId, setNewRuleDomainId] = useState("all");
+  const rules = data?.rules || [];
+
+  const handleUpdate = async (id: number, changes: { threshold?: number; severity?: "critical" | "warning" | "info"; isEnabled?: boolean }) => {
+    const result = await updateRuleMutation.mutateAsync({ id, ...changes });
+    if (result.success) {
+      refetch();
+    } else {
+      toast.error(result.error || "更新に失敗しました");
+    }
+  };
+
+  const handleAdd = async () => {
+    const result = await addRuleMutation.mutateAsync({
+      ruleType: newRuleType,
+      domainId: newRuleDomainId === "all" ? null : Number(newRuleDomainId),
+    });
+    if (result.success) {
+      toast.success("アラートルールを追加しました");
+      refetch();
+    } else {
+      toast.error(result.error || "追加に失敗しました");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    const result = await deleteRuleMutation.mutateAsync({ id });
+    if (result.success) {
+      refetch();
+    } else {
+      toast.error(result.error || "削除に失敗しました");
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule) => {
+        const type = ALERT_RULE_TYPES.find((t) => t.value === rule.ruleType);
+        return (
+          <div
+            key={rule.id}
+            className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-white/5 border border-border/50"
+          >
+            <Switch
+              checked={rule.isEnabled}
+              onCheckedChange={(checked) => handleUpdate(rule.id, { isEnabled: checked })}
+            />
+            <span className="text-sm text-foreground w-40">{type?.label}</span>
+            <span className="text-xs text-muted-foreground font-mono w-32 truncate">
+              {rule.domainId ? domains.find((d) => d.id === rule.domainId)?.domain : "全ドメイン"}
+            </span>
+            <Input
+              type="number"
+              defaultValue={parseFloat(rule.threshold)}
+              onBlur={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value > 0 && value !== parseFloat(rule.threshold)) handleUpdate(rule.id, { threshold: value });
+              }}
+              className="w-20 h-8 bg-white/5 border-border/50 font-mono text-xs"
+            />
+            <span className="text-xs text-muted-foreground">{type?.unit}</span>
+            <div className="flex items-center gap-2 ml-auto">
+              <Select
+                value={rule.severity}
+                onValueChange={(value) => handleUpdate(rule.id, { severity: value as "critical" | "warning" | "info" })}
+              >
+                <SelectTrigger size="sm" className="w-[100px] text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="critical">重大</SelectItem>
+                  <SelectItem value="warning">警告</SelectItem>
+                  <SelectItem value="info">情報</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(rule.id)}
+                className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex flex-wrap gap-2 pt-2">
+        <Select value={newRuleType} onValueChange={(value) => setNewRuleType(value as AlertRuleType)}>
+          <SelectTrigger size="sm" className="w-[200px] text-xs font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALERT_RULE_TYPES.map((type) => (
+              <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={newRuleDomainId} onValueChange={setNewRuleDomainId}>
+          <SelectTrigger size="sm" className="w-[180px] text-xs font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">全ドメイン</SelectItem>
+            {domains.map((domain) => (
+              <SelectItem key={domain.id} value={String(domain.id)}>{domain.domain}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" onClick={handleAdd} disabled={addRuleMutation.isPending} className="gap-2">
+          <Plus className="w-4 h-4" />
+          ルールを追加
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// 通知チャネルの種類
+const CHANNEL_TYPES = [
+  { value: "slack", label: "Slack" },
+  { value: "teams", label: "Microsoft Teams" },
+  { value: "email", label: "メール（SMTP）" },
+  { value: "webhook", label: "Webhook（署名付き）" },
+] as const;
+
+type ChannelType = (typeof CHANNEL_TYPES)[number]["value"];
+
+interface ChannelDraft {
+  name: string;
+  channelType: ChannelType;
+  webhookUrl: string;
+  secret: string;
+  host: string;
+  port: string;
+  secure: boolean;
+  username: string;
+  password: string;
+  from: string;
+  to: string;
+  minSeverity: "critical" | "warning" | "info";
+  ruleType: AlertRuleType | "all";
+  template: string;
+}
+
+const EMPTY_CHANNEL_DRAFT: ChannelDraft = {
+  name: "",
+  channelType: "slack",
+  webhookUrl: "",
+  secret: "",
+  host: "",
+  port: "587",
+  secure: false,
+  username: "",
+  password: "",
+  from: "",
+  to: "",
+  minSeverity: "warning",
+  ruleType: "all",
+  template: "",
+};
+
+// 入力中のチャネルをAPIの入力形式に変換
+function toChannelInput(draft: ChannelDraft) {
+  const common = {
+    name: draft.name.trim(),
+    minSeverity: draft.minSeverity,
+    ruleTypes: draft.ruleType === "all" ? null : [draft.ruleType],
+    template: draft.template.trim() || null,
+  };
+  switch (draft.channelType) {
+    case "email":
+      return {
+        ...common,
+        channelType: "email" as const,
+        config: {
+          host: draft.host.trim(),
+          port: Number(draft.port),
+          secure: draft.secure,
+          username: draft.username.trim() || undefined,
+          password: draft.password || undefined,
+          from: draft.from.trim(),
+          to: draft.to.split(",").map((to) => to.trim()).filter(Boolean),
+        },
+      };
+    case "webhook":
+      return { ...common, channelType: "webhook" as const, config: { url: draft.webhookUrl.trim(), secret: draft.secret } };
+    default:
+      return { ...common, channelType: draft.channelType, config: { webhookUrl: draft.webhookUrl.trim() } };
+  }
+}
+
+// 通知チャネル一覧と追加フォーム、直近の配信ログ
+function NotificationChannelList() {
+  const { data, refetch } = trpc.notifications.listChannels.useQuery();
+  const { data: deliveriesData, refetch: refetchDeliveries } = trpc.notifications.listDeliveries.useQuery({ limit: 10 });
+  const addChannelMutation = trpc.notifications.addChannel.useMutation();
+  const updateChannelMutation = trpc.notifications.updateChannel.useMutation();
+  const deleteChannelMutation = trpc.notifications.deleteChannel.useMutation();
+  const testChannelMutation = trpc.notifications.testChannel.useMutation();
+  const [draft, setDraft] = useState<ChannelDraft>(EMPTY_CHANNEL_DRAFT);
+  const channels = data?.channels || [];
+  const deliveries = deliveriesData?.deliveries || [];
+
+  const handleAdd = async () => {
+    if (!draft.name.trim()) {
+      toast.error("チャネル名を入力してください");
+      return;
+    }
+    try {
+      const result = await addChannelMutation.mutateAsync(toChannelInput(draft));
+      if (result.success) {
+        toast.success("通知チャネルを追加しました");
+        setDraft(EMPTY_CHANNEL_DRAFT);
+        refetch();
+      } else {
+        toast.error(result.error || "追加に失敗しました");
+      }
+    } catch (error) {
+      toast.error("入力内容を確認してください");
+    }
+  };
+
+  const handleToggle = async (id: number, isEnabled: boolean) => {
+    const result = await updateChannelMutation.mutateAsync({ id, isEnabled });
+    if (result.success) refetch();
+  };
+
+  const handleDelete = async (id: number) => {
+    const result = await deleteChannelMutation.mutateAsync({ id });
+    if (result.success) {
+      refetch();
+    } else {
+      toast.error(result.error || "削除に失敗しました");
+    }
+  };
+
+  const handleTest = async (id: number) => {
+    const result = await testChannelMutation.mutateAsync({ id });
+    if (result.success) {
+      toast.success("テスト通知を送信しました");
+    } else {
+      toast.error(result.error || "送信に失敗しました");
+    }
+    refetchDeliveries();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {channels.map((channel) => (
+          <div
+            key={channel.id}
+            className="flex items-center gap-2 p-3 rounded-lg bg-white/5 border border-border/50"
+          >
+            <Switch checked={channel.isEnabled} onCheckedChange={(checked) => handleToggle(channel.id, checked)} />
+            <span className="text-sm text-foreground">{channel.name}</span>
+            <span className="text-xs text-muted-foreground font-mono">
+              {CHANNEL_TYPES.find((t) => t.value === channel.channelType)?.label}
+              {" / "}
+              {{ critical: "重大", warning: "警告", info: "情報" }[channel.minSeverity]}以上
+              {Array.isArray(channel.ruleTypes) &&
+                ` / ${(channel.ruleTypes as string[]).map((type) => ALERT_RULE_TYPES.find((t) => t.value === type)?.label).join("、")}`}
+            </span>
+            <div className="flex items-center gap-1 ml-auto">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleTest(channel.id)}
+                disabled={testChannelMutation.isPending}
+                className="gap-1 text-xs"
+              >
+                <Send className="w-3 h-3" />
+                テスト
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(channel.id)}
+                className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* チャネル追加フォーム */}
+      <div className="p-4 rounded-lg bg-white/5 border border-border/50 space-y-2">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <Input
+            placeholder="チャネル名（例: SEO当番Slack）"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="bg-white/5 border-border/50 text-xs"
+          />
+          <Select value={draft.channelType} onValueChange={(value) => setDraft({ ...draft, channelType: value as ChannelType })}>
+            <SelectTrigger size="sm" className="text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CHANNEL_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.minSeverity}
+            onValueChange={(value) => setDraft({ ...draft, minSeverity: value as ChannelDraft["minSeverity"] })}
+          >
+            <SelectTrigger size="sm" className="text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="critical">重大のみ</SelectItem>
+              <SelectItem value="warning">警告以上</SelectItem>
+              <SelectItem value="info">すべての重要度</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={draft.ruleType}
+            onValueChange={(value) => setDraft({ ...draft, ruleType: value as ChannelDraft["ruleType"] })}
+          >
+            <SelectTrigger size="sm" className="text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">すべてのアラート</SelectItem>
+              {ALERT_RULE_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>{type.label}のみ</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.channelType === "email" ? (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <Input placeholder="SMTPホスト" value={draft.host} onChange={(e) => setDraft({ ...draft, host: e.target.value })} className="bg-white/5 border-border/50 text-xs font-mono" />
+            <Input placeholder="ポート" value={draft.port} onChange={(e) => setDraft({ ...draft, port: e.target.value })} className="bg-white/5 border-border/50 text-xs font-mono" />
+            <Input placeholder="ユーザー名" value={draft.username} onChange={(e) => setDraft({ ...draft, username: e.target.value })} className="bg-white/5 border-border/50 text-xs font-mono" />
+            <Input type="password" placeholder="パスワード" value={draft.password} onChange={(e) => setDraft({ ...draft, password: e.target.value })} className="bg-white/5 border-border/50 text-xs font-mono" />
+            <Input placeholder="送信元アドレス" value={draft.from} onChange={(e) => setDraft({ ...draft, from: e.target.value })} className="bg-white/5 border-border/50 text-xs font-mono" />
+            <Input placeholder="宛先（カンマ区切り）" value={draft.to} onChange={(e) => setDraft({ ...draft, to: e.target.value })} className="col-span-2 bg-white/5 border-border/50 text-xs font-mono" />
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Switch checked={draft.secure} onCheckedChange={(checked) => setDraft({ ...draft, secure: checked, port: checked ? "465" : "587" })} />
+              SMTPS（465）
+            </label>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <Input
+              placeholder={draft.channelType === "webhook" ? "https://example.com/hooks/seo" : "Incoming Webhook URL"}
+              value={draft.webhookUrl}
+              onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+              className="bg-white/5 border-border/50 text-xs font-mono"
+            />
+            {draft.channelType === "webhook" && (
+              <Input
+                type="password"
+                placeholder="署名キー（16文字以上）"
+                value={draft.secret}
+                onChange={(e) => setDraft({ ...draft, secret: e.target.value })}
+                className="bg-white/5 border-border/50 text-xs font-mono"
+              />
+            )}
+          </div>
+        )}
+
+        <Textarea
+          placeholder={data?.defaultTemplates?.[draft.channelType] ?? ""}
+          value={draft.template}
+          onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+          className="bg-white/5 border-border/50 text-xs font-mono min-h-16"
+        />
+        <div className="flex items-center justify-between">
+          <p className="text-[10px] text-muted-foreground font-mono">
+            {"{{title}} {{message}} {{domain}} {{severityLabel}} {{ruleType}} {{createdAt}}"} が使用できます
+          </p>
+          <Button size="sm" onClick={handleAdd} disabled={addChannelMutation.isPending} className="gap-2">
+            {addChannelMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            チャネルを追加
+          </Button>
+        </div>
+      </div>
+
+      {/* 配信ログ */}
+      {deliveries.length > 0 && (
+        <div>
+          <h3 className="text-sm font-mono text-muted-foreground mb-2">配信ログ</h3>
+          <div className="space-y-1">
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="flex items-center gap-2 text-xs">
+                {delivery.status === "sent" ? (
+                  <CheckCircle className="w-3 h-3 text-[#22c55e] shrink-0" />
+                ) : (
+                  <AlertCircle className="w-3 h-3 text-[#ef4444] shrink-0" />
+                )}
+                <span className="text-muted-foreground font-mono whitespace-nowrap">
+                  {new Date(delivery.createdAt).toLocaleString("ja-JP")}
+                </span>
+                <span className="text-foreground truncate">{delivery.alertTitle}</span>
+                <span className="text-muted-foreground">→ {delivery.channelName}</span>
+                {delivery.attempts > 1 && <span className="text-[#f59e0b]">{delivery.attempts}回試行</span>}
+                {delivery.errorMessage && (
+                  <span className="text-[#ef4444] truncate" title={delivery.errorMessage}>{delivery.errorMessage}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const WEEKDAYS = ["日", "月", "火", "水", "木", "金", "土"];
+
+// 日次・週次ダイジェストの配信設定
+function DigestSettingsPanel() {
+  const { data, refetch } = trpc.digests.getSettings.useQuery();
+  const { data: channelsData } = trpc.notifications.listChannels.useQuery();
+  const { data: reportsData, refetch: refetchReports } = trpc.digests.listReports.useQuery({ limit: 5 });
+  const updateSettingsMutation = trpc.digests.updateSettings.useMutation();
+  const previewMutation = trpc.digests.preview.useMutation();
+  const sendNowMutation = trpc.digests.sendNow.useMutation();
+  const [preview, setPreview] = useState<{ markdown: string; html: string } | null>(null);
+  const [previewFormat, setPreviewFormat] = useState<"html" | "markdown">("html");
+  const settings = data && "settings" in data ? data.settings : null;
+  const nextSendAt = data && "nextSendAt" in data ? data.nextSendAt : null;
+  const channels = (channelsData?.channels || []).filter((channel) => channel.isEnabled);
+  const reports = reportsData?.reports || [];
+  const selectedChannelIds = (settings?.channelIds as number[] | null | undefined) ?? null;
+  const cadence = settings?.cadence === "weekly" ? "weekly" : "daily";
+
+  const update = async (changes: Parameters<typeof updateSettingsMutation.mutateAsync>[0]) => {
+    const result = await updateSettingsMutation.mutateAsync(changes);
+    if (result.success) {
+      refetch();
+    } else {
+      toast.error(result.error || "更新に失敗しました");
+    }
+  };
+
+  const handleToggleChannel = (id: number, checked: boolean) => {
+    const current = selectedChannelIds ?? channels.map((channel) => channel.id);
+    const next = checked ? [...current, id] : current.filter((channelId) => channelId !== id);
+    update({ channelIds: next.length === channels.length ? null : next });
+  };
+
+  const handlePreview = async () => {
+    const result = await previewMutation.mutateAsync({ cadence });
+    if (result.markdown && result.html) {
+      setPreview({ markdown: result.markdown, html: result.html });
+    } else {
+      toast.error(result.error || "プレビューの作成に失敗しました");
+    }
+  };
+
+  const handleSendNow = async () => {
+    const result = await sendNowMutation.mutateAsync({ cadence });
+    if (result.success) {
+      toast.success(`ダイジェストを送信しました（${result.sent}件成功${result.failed ? ` / ${result.failed}件失敗` : ""}）`);
+    } else {
+      toast.error(result.error || "送信に失敗しました");
+    }
+    refetchReports();
+  };
+
+  if (!settings) {
+    return <p className="text-sm text-muted-foreground">ログインするとダイジェストを設定できます</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <Select value={settings.cadence} onValueChange={(value) => update({ cadence: value as "off" | "daily" | "weekly" })}>
+          <SelectTrigger size="sm" className="text-xs font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">配信しない</SelectItem>
+            <SelectItem value="daily">毎日</SelectItem>
+            <SelectItem value="weekly">毎週</SelectItem>
+          </SelectContent>
+        </Select>
+        {settings.cadence === "weekly" && (
+          <Select value={String(settings.sendWeekday)} onValueChange={(value) => update({ sendWeekday: Number(value) })}>
+            <SelectTrigger size="sm" className="text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((label, index) => (
+                <SelectItem key={label} value={String(index)}>{label}曜日</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={String(settings.sendHour)} onValueChange={(value) => update({ sendHour: Number(value) })}>
+          <SelectTrigger size="sm" className="text-xs font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <SelectItem key={hour} value={String(hour)}>{hour}:00</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          defaultValue={settings.timezone}
+          onBlur={(e) => e.target.value !== settings.timezone && update({ timezone: e.target.value })}
+          className="bg-white/5 border-border/50 text-xs font-mono"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <Switch checked={settings.includeAiSummary} onCheckedChange={(checked) => update({ includeAiSummary: checked })} />
+        AIによるエグゼクティブサマリーを追加
+      </label>
+
+      <div>
+        <h3 className="text-sm font-mono text-muted-foreground mb-2">送信先</h3>
+        {channels.length === 0 ? (
+          <p className="text-xs text-muted-foreground">有効な通知チャネルがありません。上の「通知チャネル」で追加してください</p>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {channels.map((channel) => (
+              <label key={channel.id} className="flex items-center gap-2 text-xs text-foreground">
+                <Switch
+                  checked={selectedChannelIds === null || selectedChannelIds.includes(channel.id)}
+                  onCheckedChange={(checked) => handleToggleChannel(channel.id, checked)}
+                />
+                {channel.name}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handlePreview} disabled={previewMutation.isPending} className="gap-2">
+          {previewMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+          プレビュー
+        </Button>
+        <Button size="sm" onClick={handleSendNow} disabled={sendNowMutation.isPending || channels.length === 0} className="gap-2">
+          {sendNowMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          今すぐ送信
+        </Button>
+        {nextSendAt && (
+          <span className="text-xs text-muted-foreground font-mono ml-auto">
+            次回: {new Date(nextSendAt).toLocaleString("ja-JP")}
+          </span>
+        )}
+      </div>
+
+      {preview && (
+        <div className="rounded-lg border border-border/50 overflow-hidden">
+          <div className="flex items-center gap-1 p-2 bg-white/5">
+            <Button variant={previewFormat === "html" ? "secondary" : "ghost"} size="sm" onClick={() => setPreviewFormat("html")} className="text-xs">
+              HTML
+            </Button>
+            <Button variant={previewFormat === "markdown" ? "secondary" : "ghost"} size="sm" onClick={() => setPreviewFormat("markdown")} className="text-xs">
+              Markdown
+            </Button>
+          </div>
+          {previewFormat === "html" ? (
+            <iframe title="ダイジェストのプレビュー" srcDoc={preview.html} sandbox="" className="w-full h-96 bg-white" />
+          ) : (
+            <pre className="p-3 text-xs text-foreground whitespace-pre-wrap max-h-96 overflow-auto">{preview.markdown}</pre>
+          )}
+        </div>
+      )}
+
+      {reports.length > 0 && (
+        <div>
+          <h3 className="text-sm font-mono text-muted-foreground mb-2">過去のダイジェスト</h3>
+          <div className="space-y-1">
+            {reports.map((report) => (
+              <div key={report.id} className="flex items-center gap-2 text-xs">
+                <Mail className="w-3 h-3 text-muted-foreground shrink-0" />
+                <span className="text-muted-foreground font-mono whitespace-nowrap">
+                  {new Date(report.createdAt).toLocaleString("ja-JP")}
+                </span>
+                <span className="text-foreground">{report.cadence === "weekly" ? "週次" : "日次"}</span>
+                {report.summary && <span className="text-muted-foreground truncate" title={report.summary}>{report.summary}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  search_console: "Search Console同期",
+  pagespeed: "PageSpeed計測",
+  serp: "順位チェック",
+  ai_visibility: "LLM可視性チェック",
+  digest: "ダイジェスト配信",
+};
+
+const JOB_STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  pending: { label: "待機中", className: "bg-white/10 text-muted-foreground" },
+  running: { label: "実行中", className: "bg-[#22d3ee]/20 text-[#22d3ee]" },
+  completed: { label: "成功", className: "bg-[#22c55e]/20 text-[#22c55e]" },
+  failed: { label: "失敗", className: "bg-[#ef4444]/20 text-[#ef4444]" },
+};
+
+// 所要時間を表示用に整形
+function formatDuration(ms: number | null) {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}秒`;
+  return `${Math.floor(ms / 60000)}分${Math.round((ms % 60000) / 1000)}秒`;
+}
+
+// ジョブの実行履歴とログ
+function JobRunHistory({ jobId }: { jobId: number }) {
+  const { data, isLoading } = trpc.jobs.logs.useQuery({ jobId, limit: 10 });
+  const runs = data?.runs || [];
+
+  if (isLoading) return <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />;
+  if (runs.length === 0) return <p className="text-xs text-muted-foreground">実行履歴はまだありません</p>;
+
+  return (
+    <div className="space-y-2">
+      {runs.map((run) => (
+        <div key={run.id} className="text-xs">
+          <div className="flex items-center gap-2">
+            {run.status === "completed" ? (
+              <CheckCircle className="w-3 h-3 text-[#22c55e] shrink-0" />
+            ) : run.status === "failed" ? (
+              <AlertCircle className="w-3 h-3 text-[#ef4444] shrink-0" />
+            ) : (
+              <Loader2 className="w-3 h-3 animate-spin text-[#22d3ee] shrink-0" />
+            )}
+            <span className="text-muted-foreground font-mono whitespace-nowrap">
+              {new Date(run.startedAt).toLocaleString("ja-JP")}
+            </span>
+            <span className="text-foreground font-mono">{formatDuration(run.durationMs)}</span>
+            {run.attempt > 1 && <span className="text-[#f59e0b]">{run.attempt}回目</span>}
+            {run.workerId && <span className="text-muted-foreground font-mono truncate">{run.workerId}</span>}
+          </div>
+          {run.logs && (
+            <pre className="mt-1 ml-5 p-2 rounded bg-black/30 text-[10px] text-muted-foreground whitespace-pre-wrap max-h-32 overflow-auto">
+              {run.logs}
+            </pre>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// 同期ジョブの状態・実行履歴・失敗を表示
+function SyncJobList() {
+  const [allUsers, setAllUsers] = useState(false);
+  const [expandedJobId, setExpandedJobId] = useState<number | null>(null);
+  const { data, refetch } = trpc.jobs.list.useQuery({ allUsers }, { refetchInterval: 30000 });
+  const runNowMutation = trpc.jobs.runNow.useMutation();
+  const retryMutation = trpc.jobs.retry.useMutation();
+  const cancelMutation = trpc.jobs.cancel.useMutation();
+  const jobs = data?.jobs || [];
+  const staleJobs = jobs.filter((job) => job.isStale);
+  const isAdmin = data && "isAdmin" in data ? data.isAdmin : false;
+  const worker = data && "worker" in data ? data.worker : null;
+
+  const handleAction = async (action: "runNow" | "retry" | "cancel", id: number) => {
+    const mutation = { runNow: runNowMutation, retry: retryMutation, cancel: cancelMutation }[action];
+    const result = await mutation.mutateAsync({ id });
+    if (result.success) {
+      toast.success({ runNow: "ジョブを実行キューに追加しました", retry: "ジョブを再試行します", cancel: "ジョブを停止しました" }[action]);
+      refetch();
+    } else {
+      toast.error(result.error || "操作に失敗しました");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3 text-xs">
+        <span className={`flex items-center gap-1 ${worker?.isRunning ? "text-[#22c55e]" : "text-muted-foreground"}`}>
+          <Activity className="w-3 h-3" />
+          {worker?.isRunning ? `ワーカー稼働中（実行中 ${worker.activeJobs.length}件）` : "このサーバーではワーカーは停止中"}
+        </span>
+        {isAdmin && (
+          <label className="flex items-center gap-2 ml-auto text-muted-foreground">
+            <Switch checked={allUsers} onCheckedChange={setAllUsers} />
+            全ユーザーのジョブを表示
+          </label>
+        )}
+      </div>
+
+      {staleJobs.length > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-[#f59e0b]/10 border border-[#f59e0b]/30 text-sm text-[#f59e0b]">
+          <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span>
+            {staleJobs.length}件のジョブが予定どおりに成功していないため、データが古くなっています:
+            {" "}{staleJobs.map((job) => `${JOB_TYPE_LABELS[job.jobType]}${job.domain ? `（${job.domain}）` : ""}`).join("、")}
+          </span>
+        </div>
+      )}
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">登録されたジョブはありません。ドメインを追加すると定期ジョブが登録されます</p>
+      ) : (
+        <div className="space-y-2">
+          {jobs.map((job) => {
+            const status = JOB_STATUS_STYLES[job.status];
+            return (
+              <div key={job.id} className="p-3 rounded-lg bg-white/5 border border-border/50">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-foreground">{JOB_TYPE_LABELS[job.jobType]}</span>
+                  {job.domain && <span className="text-xs text-muted-foreground font-mono">{job.domain}</span>}
+                  {allUsers && <span className="text-xs text-muted-foreground font-mono">user #{job.userId}</span>}
+                  <span className={`px-2 py-0.5 rounded text-[10px] ${job.isEnabled ? status.className : "bg-white/10 text-muted-foreground"}`}>
+                    {job.isEnabled ? status.label : "停止中"}
+                  </span>
+                  {job.isStale && (
+                    <span className="px-2 py-0.5 rounded text-[10px] bg-[#f59e0b]/20 text-[#f59e0b]">データが古い</span>
+                  )}
+                  <div className="flex items-center gap-1 ml-auto">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleAction("runNow", job.id)}
+                      disabled={job.status === "running" || runNowMutation.isPending}
+                      className="gap-1 text-xs"
+                    >
+                      <Play className="w-3 h-3" />
+                      {job.isEnabled ? "今すぐ実行" : "再開"}
+                    </Button>
+                    {job.status === "failed" && job.isEnabled && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAction("retry", job.id)} disabled={retryMutation.isPending} className="gap-1 text-xs">
+                        <RotateCcw className="w-3 h-3" />
+                        再試行
+                      </Button>
+                    )}
+                    {job.isEnabled && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAction("cancel", job.id)} disabled={cancelMutation.isPending} className="gap-1 text-xs">
+                        <Pause className="w-3 h-3" />
+                        停止
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                      className="gap-1 text-xs"
+                    >
+                      <History className="w-3 h-3" />
+                      履歴
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-[10px] text-muted-foreground font-mono">
+                  <span>スケジュール: {job.cronExpression ?? "1回のみ"}（{job.timezone}）</span>
+                  <span>前回: {job.lastRunAt ? new Date(job.lastRunAt).toLocaleString("ja-JP") : "—"}</span>
+                  <span>所要時間: {formatDuration(job.lastDurationMs)}</span>
+                  <span>最終成功: {job.lastSuccessAt ? new Date(job.lastSuccessAt).toLocaleString("ja-JP") : "—"}</span>
+                  <span>次回: {job.isEnabled && job.nextRunAt ? new Date(job.nextRunAt).toLocaleString("ja-JP") : "—"}</span>
+                  {job.attempts > 0 && job.status !== "completed" && <span className="text-[#f59e0b]">試行 {job.attempts}/{job.maxAttempts}</span>}
+                </div>
+                {job.errorMessage && (
+                  <p className="mt-1 text-xs text-[#ef4444] truncate" title={job.errorMessage}>{job.errorMessage}</p>
+                )}
+                {expandedJobId === job.id && (
+                  <div className="mt-3 pt-3 border-t border-border/50">
+                    <JobRunHistory jobId={job.id} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// PageSpeed推移グラフで切り替える指標
+const PAGESPEED_TREND_METRICS = [
+  { value: "performanceScore", label: "スコア", unit: "" },
+  { value: "lcp", label: "LCP", unit: "ms" },
+  { value: "cls", label: "CLS", unit: "" },
+  { value: "tbt", label: "TBT", unit: "ms" },
+  { value: "fcp", label: "FCP", unit: "ms" },
+] as const;
+
+type PageSpeedTrendMetric = (typeof PAGESPEED_TREND_METRICS)[number]["value"];
+
+// スコアの色（Lighthouseの良好・改善が必要・不良の区分）
+function scoreColor(score: number | null | undefined) {
+  if (score === null || score === undefined) return "text-muted-foreground";
+  return score >= 90 ? "text-[#22c55e]" : score >= 50 ? "text-[#f59e0b]" : "text-[#ef4444]";
+}
+
+// ストラテジーごとの最新スコアと前回からの変化
+function StrategyScoreBadge({
+  icon: Icon,
+  score,
+}: {
+  icon: typeof Smartphone;
+  score?: { performanceScore: number | null; previousScore: number | null };
+}) {
+  const change = score && score.performanceScore !== null && score.previousScore !== null
+    ? score.performanceScore - score.previousScore
+    : null;
+
+  return (
+    <span className="flex items-center gap-1 font-mono text-xs w-20">
+      <Icon className="w-3 h-3 text-muted-foreground" />
+      <span className={scoreColor(score?.performanceScore)}>{score?.performanceScore ?? "—"}</span>
+      {change !== null && change !== 0 && (
+        <span className={change > 0 ? "text-[#22c55e]" : "text-[#ef4444]"}>
+          {change > 0 ? "+" : ""}{change}
+        </span>
+      )}
+    </span>
+  );
+}
+
+const METRIC_RATING_COLORS: Record<string, string> = {
+  good: "text-[#22c55e]",
+  needs_improvement: "text-[#f59e0b]",
+  poor: "text-[#ef4444]",
+};
+
+const FIELD_CATEGORY_LABELS: Record<string, { label: string; className: string }> = {
+  FAST: { label: "合格", className: "bg-[#22c55e]/20 text-[#22c55e]" },
+  AVERAGE: { label: "要改善", className: "bg-[#f59e0b]/20 text-[#f59e0b]" },
+  SLOW: { label: "不合格", className: "bg-[#ef4444]/20 text-[#ef4444]" },
+};
+
+// CLSは1000倍値で保存しているので小数に戻して表示
+function formatWebVital(label: string, value: number | null) {
+  if (value === null) return "—";
+  return label === "CLS" ? formatCls(value) : `${value.toLocaleString()}ms`;
+}
+
+// 最新テストのラボ値とフィールド値（CrUX p75と良好・要改善・不良の分布）の比較
+function LabFieldComparison({ domainId, url }: { domainId: number; url: string }) {
+  const { data } = trpc.pageSpeed.getLabVsField.useQuery({ domainId, url });
+  const strategies = data?.strategies || [];
+  if (strategies.length === 0) return null;
+
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      {strategies.map((entry) => {
+        const category = entry.overallCategory ? FIELD_CATEGORY_LABELS[entry.overallCategory] : null;
+        return (
+          <div key={entry.strategy} className="space-y-2">
+            <div className="flex items-center gap-2 text-xs">
+              {entry.strategy === "mobile" ? <Smartphone className="w-3 h-3" /> : <Monitor className="w-3 h-3" />}
+              <span className="text-foreground">{entry.strategy === "mobile" ? "モバイル" : "デスクトップ"}</span>
+              {category && <span className={`px-1.5 py-0.5 rounded ${category.className}`}>CWV {category.label}</span>}
+              <span className="text-muted-foreground">
+                {entry.fieldScope === "origin" ? "フィールド値はオリジン全体" : entry.fieldScope === null ? "フィールドデータなし" : ""}
+              </span>
+            </div>
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-muted-foreground border-b border-border/30">
+                  <th className="text-left py-1 font-normal">指標</th>
+                  <th className="text-right py-1 font-normal">ラボ</th>
+                  <th className="text-right py-1 font-normal">フィールド p75</th>
+                  <th className="py-1 pl-3 font-normal w-24">分布</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entry.metrics.map((metric) => (
+                  <tr key={metric.key} className="border-b border-border/20">
+                    <td className="py-1 text-foreground">{metric.label}</td>
+                    <td className={`py-1 text-right ${metric.labRating ? METRIC_RATING_COLORS[metric.labRating] : "text-muted-foreground"}`}>
+                      {metric.labLabel !== metric.label && metric.lab !== null && (
+                        <span className="text-muted-foreground mr-1">{metric.labLabel}</span>
+                      )}
+                      {formatWebVital(metric.label, metric.lab)}
+                    </td>
+                    <td className={`py-1 text-right ${metric.fieldRating ? METRIC_RATING_COLORS[metric.fieldRating] : "text-muted-foreground"}`}>
+                      {formatWebVital(metric.label, metric.field)}
+                    </td>
+                    <td className="py-1 pl-3">
+                      {metric.distribution ? (
+                        <div
+                          className="flex h-2 rounded overflow-hidden"
+                          title={`良好 ${Math.round(metric.distribution.good * 100)}% / 要改善 ${Math.round(metric.distribution.needsImprovement * 100)}% / 不良 ${Math.round(metric.distribution.poor * 100)}%`}
+                        >
+                          <div className="bg-[#22c55e]" style={{ width: `${metric.distribution.good * 100}%` }} />
+                          <div className="bg-[#f59e0b]" style={{ width: `${metric.distribution.needsImprovement * 100}%` }} />
+                          <div className="bg-[#ef4444]" style={{ width: `${metric.distribution.poor * 100}%` }} />
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+const FIX_TREND_STYLES: Record<string, { label: string; className: string }> = {
+  new: { label: "新規", className: "bg-[#ef4444]/20 text-[#ef4444]" },
+  regressed: { label: "悪化", className: "bg-[#f59e0b]/20 text-[#f59e0b]" },
+  improved: { label: "改善", className: "bg-[#22c55e]/20 text-[#22c55e]" },
+  unchanged: { label: "継続", className: "bg-white/10 text-muted-foreground" },
+};
+
+// 推定削減量の表示（時間とサイズ）
+function formatSavings(savingsMs: number | null, savingsBytes: number | null) {
+  const parts: string[] = [];
+  if (savingsMs !== null) parts.push(savingsMs >= 1000 ? `${(savingsMs / 1000).toFixed(1)}秒` : `${savingsMs}ms`);
+  if (savingsBytes !== null) parts.push(`${Math.round(savingsBytes / 1024).toLocaleString()}KB`);
+  return parts.length > 0 ? `約${parts.join(" / ")}` : null;
+}
+
+// URLの優先度付き改善リスト（Lighthouseの改善機会・診断と実行ごとの推移）
+function PageSpeedFixList({ domainId, url }: { domainId: number; url: string }) {
+  const [strategy, setStrategy] = useState<"mobile" | "desktop">("mobile");
+  const { data, isLoading } = trpc.pageSpeed.getFixList.useQuery({ domainId, url, strategy });
+  const fixes = data?.fixes || [];
+  const resolved = data?.resolved || [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-foreground">改善リスト</p>
+        <div className="flex gap-1">
+          {(["mobile", "desktop"] as const).map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={strategy === value ? "secondary" : "ghost"}
+              onClick={() => setStrategy(value)}
+              className="h-7 gap-1 text-xs"
+            >
+              {value === "mobile" ? <Smartphone className="w-3 h-3" /> : <Monitor className="w-3 h-3" />}
+              {value === "mobile" ? "モバイル" : "デスクトップ"}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+      ) : fixes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {(data?.runs.length ?? 0) === 0 ? "まだテスト結果がありません" : "改善が必要な項目はありません"}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {fixes.map((fix) => {
+            const trend = FIX_TREND_STYLES[fix.trend];
+            const savings = formatSavings(fix.savingsMs, fix.savingsBytes);
+            const maxSavings = Math.max(...fix.history.map((h) => h.savingsMs ?? h.savingsBytes ?? 0), 1);
+            return (
+              <div key={fix.auditId} className="py-2 border-b border-border/20 space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className={`px-1.5 py-0.5 rounded ${trend.className}`}>{trend.label}</span>
+                  <span className="text-foreground">{fix.title}</span>
+                  {fix.kind === "diagnostic" && <span className="text-muted-foreground">診断</span>}
+                  {savings && <span className="font-mono text-[#f59e0b]">{savings}</span>}
+                  {!savings && fix.displayValue && <span className="font-mono text-muted-foreground">{fix.displayValue}</span>}
+                  <div className="flex items-end gap-0.5 h-4 ml-auto" title="実行ごとの推定削減量">
+                    {fix.history.map((point) => (
+                      <div
+                        key={point.testId}
+                        className={point.savingsMs === null && point.savingsBytes === null ? "w-1.5 bg-[#22c55e]/40" : "w-1.5 bg-[#f59e0b]/70"}
+                        style={{ height: `${Math.max(((point.savingsMs ?? point.savingsBytes ?? 0) / maxSavings) * 100, 12)}%` }}
+                      />
+                    ))}
+                  </div>
+                </div>
+                {fix.items.slice(0, 3).map((item, i) => (
+                  <p key={i} className="text-xs text-muted-foreground font-mono truncate pl-2">
+                    {item.label}
+                    {item.wastedBytes !== undefined && ` (${Math.round(item.wastedBytes / 1024)}KB)`}
+                  </p>
+                ))}
+                <p className="text-xs text-muted-foreground pl-2">
+                  {new Date(fix.failingSince).toLocaleDateString("ja-JP")}から継続
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {resolved.length > 0 && (
+        <p className="text-xs text-[#22c55e]">
+          前回から解決: {resolved.map((fix) => fix.title).join("、")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// 監視URLのモバイル・デスクトップ推移グラフと、ラボ値・フィールド値の比較
+function PageSpeedUrlTrend({ domainId, url }: { domainId: number; url: string }) {
+  const [metric, setMetric] = useState<PageSpeedTrendMetric>("performanceScore");
+  const { data, isLoading } = trpc.pageSpeed.getUrlTrend.useQuery({ domainId, url });
+  const points = data?.points || [];
+  const unit = PAGESPEED_TREND_METRICS.find((m) => m.value === metric)?.unit ?? "";
+
+  const chartData = points.map((point) => ({
+    date: point.date.slice(5),
+    mobile: point.mobile?.[metric] ?? null,
+    desktop: point.desktop?.[metric] ?? null,
+  }));
+
+  return (
+    <div className="p-3 rounded-lg bg-black/20 border border-border/30 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground font-mono truncate">{url}</p>
+        <Select value={metric} onValueChange={(value) => setMetric(value as PageSpeedTrendMetric)}>
+          <SelectTrigger size="sm" className="w-[110px] text-xs font-mono">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGESPEED_TREND_METRICS.map((m) => (
+              <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : chartData.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-4 text-center">まだテスト結果がありません</p>
+      ) : (
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(139, 92, 246, 0.1)" />
+              <XAxis
+                dataKey="date"
+                stroke="rgba(255,255,255,0.3)"
+                tick={{ fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" }}
+              />
+              <YAxis
+                domain={metric === "performanceScore" ? [0, 100] : [0, "auto"]}
+                unit={unit}
+                stroke="rgba(255,255,255,0.3)"
+                tick={{ fill: "rgba(255,255,255,0.5)", fontSize: 10, fontFamily: "JetBrains Mono" }}
+              />
+              <Tooltip
+                contentStyle={{
+                  background: "rgba(26, 26, 46, 0.95)",
+                  border: "1px solid rgba(139, 92, 246, 0.3)",
+                  borderRadius: "8px",
+                  fontFamily: "JetBrains Mono",
+                }}
+              />
+              <Legend />
+              <Line
+                type="monotone"
+                dataKey="mobile"
+                name="モバイル"
+                stroke="#ec4899"
+                strokeWidth={2}
+                connectNulls
+                dot={{ fill: "#ec4899", strokeWidth: 0 }}
+              />
+              <Line
+                type="monotone"
+                dataKey="desktop"
+                name="デスクトップ"
+                stroke="#22d3ee"
+                strokeWidth={2}
+                connectNulls
+                dot={{ fill: "#22d3ee", strokeWidth: 0 }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      <LabFieldComparison domainId={domainId} url={url} />
+      <PageSpeedFixList domainId={domainId} url={url} />
+    </div>
+  );
+}
+
+// ドメインごとのPageSpeed監視URL（主要テンプレート・上位ランディングページ）
+function PageSpeedMonitor({ domains }: { domains: Array<{ id: number; domain: string }> }) {
+  const [domainId, setDomainId] = useState<number | null>(domains[0]?.id ?? null);
+  const [newUrl, setNewUrl] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [trendUrl, setTrendUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (domainId === null && domains[0]) setDomainId(domains[0].id);
+  }, [domains, domainId]);
+
+  const { data, refetch } = trpc.pageSpeed.listMonitoredUrls.useQuery(
+    { domainId: domainId ?? 0 },
+    { enabled: domainId !== null }
+  );
+  const { data: suggestionsData, isLoading: isLoadingSuggestions } = trpc.pageSpeed.suggestMonitoredUrls.useQuery(
+    { domainId: domainId ?? 0 },
+    { enabled: domainId !== null && showSuggestions }
+  );
+  const addMutation = trpc.pageSpeed.addMonitoredUrl.useMutation();
+  const updateMutation = trpc.pageSpeed.updateMonitoredUrl.useMutation();
+  const removeMutation = trpc.pageSpeed.removeMonitoredUrl.useMutation();
+  const testMutation = trpc.pageSpeed.testMonitoredUrl.useMutation();
+  const urls = data?.urls || [];
+  const suggestions = suggestionsData?.suggestions || [];
+  const utils = trpc.useUtils();
+
+  const handleAdd = async (url: string, label: string, source: "manual" | "search_console") => {
+    if (!domainId || !url.trim()) return;
+    const result = await addMutation.mutateAsync({ domainId, url, label: label || undefined, source });
+    if (result.success) {
+      toast.success("監視URLを追加しました");
+      if (source === "manual") {
+        setNewUrl("");
+        setNewLabel("");
+      }
+      refetch();
+      utils.pageSpeed.suggestMonitoredUrls.invalidate();
+    } else {
+      toast.error(result.error || "追加に失敗しました");
+    }
+  };
+
+  const handleToggle = async (id: number, isActive: boolean) => {
+    const result = await updateMutation.mutateAsync({ id, isActive });
+    if (result.success) {
+      refetch();
+    } else {
+      toast.error(result.error || "更新に失敗しました");
+    }
+  };
+
+  const handleRemove = async (id: number, url: string) => {
+    const result = await removeMutation.mutateAsync({ id });
+    if (result.success) {
+      if (trendUrl === url) setTrendUrl(null);
+      refetch();
+    } else {
+      toast.error(result.error || "削除に失敗しました");
+    }
+  };
+
+  const handleTest = async (id: number) => {
+    const result = await testMutation.mutateAsync({ id });
+    if (result.success) {
+      toast.success("モバイルとデスクトップでテストを開始しました");
+    } else {
+      toast.error(result.error || "テストの開始に失敗しました");
+    }
+  };
+
+  if (domains.length === 0) {
+    return <p className="text-sm text-muted-foreground">※ 先にドメインを追加してください</p>;
+  }
 
-const itemVariants = {
-  hidden: { opacity: 0, y: 20 },
-  visible: {
-    opacity: 1,
-    y: 0,
-  },
-};
+  return (
+    <div className="space-y-3">
+      <Select
+        value={domainId ? String(domainId) : undefined}
+        onValueChange={(value) => {
+          setDomainId(Number(value));
+          setTrendUrl(null);
+          setShowSuggestions(false);
+        }}
+      >
+        <SelectTrigger size="sm" className="w-[240px] text-xs font-mono">
+          <SelectValue placeholder="ドメインを選択" />
+        </SelectTrigger>
+        <SelectContent>
+          {domains.map((domain) => (
+            <SelectItem key={domain.id} value={String(domain.id)}>{domain.domain}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {urls.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          監視URLが未登録のため、トップページとサイトマップ掲載URLをテストしています
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {urls.map((item) => (
+            <div key={item.id} className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-white/5 border border-border/50">
+                <Switch checked={item.isActive} onCheckedChange={(checked) => handleToggle(item.id, checked)} />
+                <button
+                  type="button"
+                  onClick={() => setTrendUrl(trendUrl === item.url ? null : item.url)}
+                  className="min-w-0 flex-1 text-left"
+                >
+                  <p className="text-sm text-foreground truncate">{item.label || item.url}</p>
+                  {item.label && <p className="text-xs text-muted-foreground font-mono truncate">{item.url}</p>}
+                </button>
+                <StrategyScoreBadge icon={Smartphone} score={item.scores.mobile} />
+                <StrategyScoreBadge icon={Monitor} score={item.scores.desktop} />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleTest(item.id)}
+                  disabled={testMutation.isPending}
+                  title="今すぐテスト"
+                >
+                  <Play className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(item.id, item.url)}
+                  className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {trendUrl === item.url && domainId && <PageSpeedUrlTrend domainId={domainId} url={item.url} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 pt-2">
+        <Input
+          placeholder="https://example.com/products/sample"
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          className="flex-1 min-w-[220px] bg-white/5 border-border/50 font-mono text-xs"
+        />
+        <Input
+          placeholder="テンプレート名（任意）"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          className="w-44 bg-white/5 border-border/50 text-xs"
+        />
+        <Button
+          size="sm"
+          onClick={() => handleAdd(newUrl, newLabel, "manual")}
+          disabled={!newUrl.trim() || addMutation.isPending}
+          className="gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          URLを追加
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setShowSuggestions(!showSuggestions)} className="gap-2">
+          <Search className="w-4 h-4" />
+          GSCの上位ページから選ぶ
+        </Button>
+      </div>
+
+      {showSuggestions && (
+        <div className="space-y-1">
+          {isLoadingSuggestions ? (
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          ) : suggestions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              候補がありません（Search Consoleのデータを同期してください）
+            </p>
+          ) : (
+            suggestions.map((suggestion) => (
+              <div
+                key={suggestion.url}
+                className="flex items-center justify-between gap-2 text-xs py-1.5 border-b border-border/20"
+              >
+                <span className="font-mono text-foreground truncate">{suggestion.url}</span>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="font-mono text-muted-foreground">
+                    {suggestion.clicks.toLocaleString()}クリック
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleAdd(suggestion.url, "", "search_console")}
+                    disabled={addMutation.isPending}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// パフォーマンス予算の指標（CLSはスコアで入力し、1000倍値で保存）
+const BUDGET_LIMIT_FIELDS = [
+  { key: "maxLcp", label: "LCP", unit: "ms以下", step: 100 },
+  { key: "maxCls", label: "CLS", unit: "以下", step: 0.01 },
+  { key: "maxTbt", label: "TBT", unit: "ms以下", step: 50 },
+  { key: "maxFcp", label: "FCP", unit: "ms以下", step: 100 },
+  { key: "maxTtfb", label: "TTFB", unit: "ms以下", step: 100 },
+  { key: "minPerformanceScore", label: "スコア", unit: "以上", step: 1 },
+] as const;
+
+type BudgetLimitKey = (typeof BUDGET_LIMIT_FIELDS)[number]["key"];
+
+// 予算の上限・下限を入力欄の表示値に変換
+function budgetLimitValue(key: BudgetLimitKey, value: number | null) {
+  if (value === null) return "";
+  return key === "maxCls" ? String(value / 1000) : String(value);
+}
+
+// 超過した指標の値を表示用に整形（CLSは1000倍値）
+function formatBudgetMetric(metric: string, value: number) {
+  if (metric === "cls") return formatCls(value);
+  if (metric === "performanceScore") return String(value);
+  return `${value}ms`;
+}
+
+// パフォーマンス予算（URLパターン・デバイスごとの上限、超過履歴、デプロイパイプライン用トークン）
+function PerformanceBudgetPanel({ domains }: { domains: Array<{ id: number; domain: string; hasBudgetToken: boolean }> }) {
+  const [domainId, setDomainId] = useState<number | null>(domains[0]?.id ?? null);
+  const [newName, setNewName] = useState("");
+  const [newPattern, setNewPattern] = useState("");
+  const [newStrategy, setNewStrategy] = useState<"all" | "mobile" | "desktop">("all");
+  const [newLimits, setNewLimits] = useState<Partial<Record<BudgetLimitKey, string>>>({ maxLcp: "2500", maxCls: "0.1", maxTbt: "200" });
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    if (domainId === null && domains[0]) setDomainId(domains[0].id);
+  }, [domains, domainId]);
+
+  const { data, refetch } = trpc.budgets.list.useQuery(
+    { domainId: domainId ?? 0 },
+    { enabled: domainId !== null }
+  );
+  const { data: violationsData } = trpc.budgets.listViolations.useQuery(
+    { domainId: domainId ?? 0, limit: 10 },
+    { enabled: domainId !== null }
+  );
+  const addMutation = trpc.budgets.add.useMutation();
+  const updateMutation = trpc.budgets.update.useMutation();
+  const deleteMutation = trpc.budgets.delete.useMutation();
+  const issueTokenMutation = trpc.budgets.issueToken.useMutation();
+  const budgets = data?.budgets || [];
+  const violations = violationsData?.violations || [];
+  const domain = domains.find((d) => d.id === domainId);
+
+  const parseLimit = (key: BudgetLimitKey, value: string | undefined) => {
+    const parsed = parseFloat(value ?? "");
+    if (!(parsed > 0)) return null;
+    return key === "maxCls" ? parsed : Math.round(parsed);
+  };
+
+  const handleAdd = async () => {
+    if (!domainId || !newName.trim()) return;
+    const limits = Object.fromEntries(BUDGET_LIMIT_FIELDS.map((field) => [field.key, parseLimit(field.key, newLimits[field.key])]));
+    const result = await addMutation.mutateAsync({
+      domainId,
+      name: newName,
+      urlPattern: newPattern || null,
+      strategy: newStrategy === "all" ? null : newStrategy,
+      ...limits,
+    });
+    if (result.success) {
+      toast.success("パフォーマンス予算を追加しました");
+      setNewName("");
+      setNewPattern("");
+      refetch();
+      utils.alerts.listRules.invalidate();
+    } else {
+      toast.error(result.error || "追加に失敗しました");
+    }
+  };
+
+  const handleUpdate = async (id: number, changes: Partial<Record<BudgetLimitKey, number | null>> & { isEnabled?: boolean }) => {
+    const result = await updateMutation.mutateAsync({ id, ...changes });
+    if (result.success) {
+      refetch();
+    } else {
+      toast.error(result.error || "更新に失敗しました");
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    const result = await deleteMutation.mutateAsync({ id });
+    if (result.success) {
+      refetch();
+      utils.budgets.listViolations.invalidate();
+    } else {
+      toast.error(result.error || "削除に失敗しました");
+    }
+  };
+
+  const handleIssueToken = async () => {
+    if (!domainId) return;
+    const result = await issueTokenMutation.mutateAsync({ domainId });
+    if (result.success && result.token) {
+      setIssuedToken(result.token);
+      utils.domains.list.invalidate();
+    } else {
+      toast.error(result.error || "トークンの発行に失敗しました");
+    }
+  };
+
+  if (domains.length === 0) {
+    return <p className="text-sm text-muted-foreground">※ 先にドメインを追加してください</p>;
+  }
+
+  const curlExample = `curl -X POST ${window.location.origin}/api/trpc/budgets.check \\
+  -H "Content-Type: application/json" \\
+  -d '{"json":{"url":"https://${domain?.domain ?? "example.com"}/","strategy":"mobile","token":"${issuedToken ?? "<トークン>"}"}}'`;
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={domainId ? String(domainId) : undefined}
+        onValueChange={(value) => {
+          setDomainId(Number(value));
+          setIssuedToken(null);
+        }}
+      >
+        <SelectTrigger size="sm" className="w-[240px] text-xs font-mono">
+          <SelectValue placeholder="ドメインを選択" />
+        </SelectTrigger>
+        <SelectContent>
+          {domains.map((d) => (
+            <SelectItem key={d.id} value={String(d.id)}>{d.domain}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {budgets.length === 0 ? (
+        <p className="text-xs text-muted-foreground">予算が未設定です</p>
+      ) : (
+        <div className="space-y-2">
+          {budgets.map((budget) => (
+            <div key={budget.id} className="p-3 rounded-lg bg-white/5 border border-border/50 space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={budget.isEnabled}
+                  onCheckedChange={(checked) => handleUpdate(budget.id, { isEnabled: checked })}
+                />
+                <span className="text-sm text-foreground">{budget.name}</span>
+                <span className="text-xs text-muted-foreground font-mono truncate">
+                  {budget.urlPattern || "全URL"} / {budget.strategy === "mobile" ? "モバイル" : budget.strategy === "desktop" ? "デスクトップ" : "両方"}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(budget.id)}
+                  className="ml-auto text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {BUDGET_LIMIT_FIELDS.map((field) => (
+                  <label key={field.key} className="flex items-center gap-1 text-xs text-muted-foreground">
+                    {field.label}
+                    <Input
+                      type="number"
+                      step={field.step}
+                      defaultValue={budgetLimitValue(field.key, budget[field.key])}
+                      onBlur={(e) => {
+                        const value = parseLimit(field.key, e.target.value);
+                        if (budgetLimitValue(field.key, budget[field.key]) !== (value === null ? "" : String(value))) {
+                          handleUpdate(budget.id, { [field.key]: value });
+                        }
+                      }}
+                      className="w-20 h-7 bg-white/5 border-border/50 font-mono text-xs"
+                    />
+                    {field.unit}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2">
+        <div className="flex flex-wrap gap-2">
+          <Input
+            placeholder="予算名（例: 商品ページ）"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="w-44 bg-white/5 border-border/50 text-xs"
+          />
+          <Input
+            placeholder="URLパターン（例: /products/*、空欄で全URL）"
+            value={newPattern}
+            onChange={(e) => setNewPattern(e.target.value)}
+            className="flex-1 min-w-[220px] bg-white/5 border-border/50 font-mono text-xs"
+          />
+          <Select value={newStrategy} onValueChange={(value) => setNewStrategy(value as "all" | "mobile" | "desktop")}>
+            <SelectTrigger size="sm" className="w-[130px] text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">両方</SelectItem>
+              <SelectItem value="mobile">モバイル</SelectItem>
+              <SelectItem value="desktop">デスクトップ</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {BUDGET_LIMIT_FIELDS.map((field) => (
+            <label key={field.key} className="flex items-center gap-1 text-xs text-muted-foreground">
+              {field.label}
+              <Input
+                type="number"
+                step={field.step}
+                value={newLimits[field.key] ?? ""}
+                onChange={(e) => setNewLimits({ ...newLimits, [field.key]: e.target.value })}
+                className="w-20 h-7 bg-white/5 border-border/50 font-mono text-xs"
+              />
+              {field.unit}
+            </label>
+          ))}
+          <Button size="sm" onClick={handleAdd} disabled={!newName.trim() || addMutation.isPending} className="gap-2 ml-auto">
+            <Plus className="w-4 h-4" />
+            予算を追加
+          </Button>
+        </div>
+      </div>
+
+      {violations.length > 0 && (
+        <div className="space-y-1 pt-2">
+          <p className="text-xs font-medium text-foreground">最近の超過</p>
+          {violations.map((violation) => (
+            <div key={violation.id} className="flex items-center justify-between gap-2 text-xs py-1.5 border-b border-border/20">
+              <span className="font-mono text-foreground truncate">
+                {violation.url}（{violation.strategy === "mobile" ? "モバイル" : "デスクトップ"}）
+              </span>
+              <span className="text-[#ef4444] shrink-0">
+                {violation.budgetName}: {(violation.violations as Array<{ metric: string; label: string; actual: number; limit: number }>)
+                  .map((v) => `${v.label} ${formatBudgetMetric(v.metric, v.actual)} / ${formatBudgetMetric(v.metric, v.limit)}`)
+                  .join("、")}
+              </span>
+              <span className="text-muted-foreground font-mono shrink-0">
+                {new Date(violation.date).toLocaleString("ja-JP")}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={handleIssueToken} disabled={issueTokenMutation.isPending} className="gap-2">
+            <KeyRound className="w-4 h-4" />
+            {domain?.hasBudgetToken ? "トークンを再発行" : "デプロイ用トークンを発行"}
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            {domain?.hasBudgetToken ? "再発行すると以前のトークンは使えなくなります" : "CI/CDからログインなしで予算チェックを呼び出せます"}
+          </span>
+        </div>
+        {issuedToken && (
+          <p className="text-xs text-[#f59e0b]">このトークンは今だけ表示されます。CIのシークレットに保存してください。</p>
+        )}
+        {(issuedToken || domain?.hasBudgetToken) && (
+          <div className="relative">
+            <pre className="p-3 rounded-lg bg-black/30 border border-border/50 text-xs font-mono text-foreground overflow-x-auto whitespace-pre">
+              {curlExample}
+            </pre>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                navigator.clipboard.writeText(curlExample);
+                toast.success("コピーしました");
+              }}
+              className="absolute top-1 right-1"
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          レスポンスの passed が false の場合はデプロイを失敗させてください（超過した指標は results[].violations に含まれます）
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ドメインごとのSearch Consoleバックフィル（最大16ヶ月分）
+function SearchConsoleBackfill({ domainId, domain }: { domainId: number; domain: string }) {
+  const { data, refetch } = trpc.google.listBackfills.useQuery(
+    { domainId, limit: 1 },
+    {
+      refetchInterval: (query) => (query.state.data?.runs[0]?.inProgress ? 5000 : false),
+    }
+  );
+  const backfillMutation = trpc.google.backfill.useMutation();
+  const latest = data?.runs[0];
+  const isRunning = !!latest?.inProgress;
+  // 実行中のままジョブが残っていないラン（デプロイなどで中断）は続きから再開できる
+  const isInterrupted = !isRunning && (latest?.status === "pending" || latest?.status === "running");
+
+  const handleBackfill = async () => {
+    const result = await backfillMutation.mutateAsync({ domainId });
+    if (result.success) {
+      toast.success(result.resumed ? "中断されたバックフィルを再開しました" : "バックフィルを開始しました");
+      refetch();
+    } else {
+      toast.error(result.error || "開始に失敗しました");
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 p-3 rounded-lg bg-white/5 border border-border/50">
+      <div className="min-w-0">
+        <p className="text-sm text-foreground font-mono truncate">{domain}</p>
+        <p className="text-xs text-muted-foreground">
+          {latest
+            ? `${isInterrupted ? "中断" : latest.status === "failed" ? (isRunning ? "再試行待ち" : "失敗") : isRunning ? "取り込み中" : "完了"}: ${latest.daysSynced}日 / ${latest.rowsUpserted}行` +
+              (latest.syncedThrough ? `（${new Date(latest.syncedThrough).toLocaleDateString("ja-JP")}まで）` : "")
+            : "未実行"}
+        </p>
+        {latest?.status === "failed" && latest.errorMessage && (
+          <p className="text-xs text-[#ef4444] truncate">{latest.errorMessage}</p>
+        )}
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={handleBackfill}
+        disabled={isRunning || backfillMutation.isPending}
+        className="gap-2 shrink-0"
+      >
+        {isRunning || backfillMutation.isPending ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Database className="w-4 h-4" />
+        )}
+        {isInterrupted ? "再開" : latest?.status === "completed" ? "続きを取り込み" : "16ヶ月分をバックフィル"}
+      </Button>
+    </div>
+  );
+}
 
 export default function Settings() {
   const [newDomain, setNewDomain] = useState("");
   const [newKeyword, setNewKeyword] = useState("");
+  const [profileDraft, setProfileDraft] = useState<TrackingProfileDraft>({
+    country: "jp",
+    city: "",
+    language: "",
+    device: "desktop",
+  });
   const [selectedDomainId, setSelectedDomainId] = useState<number | null>(null);
   const [isConnectingGoogle, setIsConnectingGoogle] = useState(false);
 
@@ -58,6 +1846,7 @@ export default function Settings() {
   // tRPC mutations
   const addDomainMutation = trpc.domains.add.useMutation();
   const deleteDomainMutation = trpc.domains.delete.useMutation();
+  const setSerpProviderMutation = trpc.domains.setSerpProvider.useMutation();
   const addKeywordMutation = trpc.keywords.add.useMutation();
   const deleteKeywordMutation = trpc.keywords.delete.useMutation();
   const syncDataMutation = trpc.google.syncData.useMutation();
@@ -113,6 +1902,22 @@ export default function Settings() {
     }
   };
 
+  // SERPプロバイダー変更
+  const handleSerpProviderChange = async (id: number, value: string) => {
+    try {
+      const provider = value === "default" ? null : (value as "scraper" | "dataforseo" | "serpapi");
+      const result = await setSerpProviderMutation.mutateAsync({ id, provider });
+      if (result.success) {
+        toast.success("SERPプロバイダーを変更しました");
+        refetchDomains();
+      } else {
+        toast.error(result.error || "変更に失敗しました");
+      }
+    } catch (error) {
+      toast.error("変更に失敗しました");
+    }
+  };
+
   // キーワード追加
   const handleAddKeyword = async () => {
     if (!newKeyword.trim() || !selectedDomainId) {
@@ -124,6 +1929,7 @@ export default function Settings() {
       const result = await addKeywordMutation.mutateAsync({
         domainId: selectedDomainId,
         keyword: newKeyword.trim(),
+        profiles: [toProfileInput(profileDraft)],
       });
 
       if (result.success) {
@@ -157,6 +1963,9 @@ export default function Settings() {
       const result = await syncDataMutation.mutateAsync();
       if (result.success && 'domainsUpdated' in result) {
         toast.success(`同期完了: ${result.domainsUpdated}ドメイン、${result.keywordsUpdated}キーワード更新`);
+        if (result.failedDomains.length > 0) {
+          toast.error(`同期に失敗したドメイン: ${result.failedDomains.map((failed) => failed.domain).join("、")}`);
+        }
       } else {
         toast.error(result.error || "同期に失敗しました");
       }
@@ -290,6 +2099,16 @@ export default function Settings() {
                   再接続
                 </Button>
               </div>
+              {domains.some((domain) => domain.searchConsoleProperty) && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-mono text-muted-foreground">過去データの取り込み</h3>
+                  {domains
+                    .filter((domain) => domain.searchConsoleProperty)
+                    .map((domain) => (
+                      <SearchConsoleBackfill key={domain.id} domainId={domain.id} domain={domain.domain} />
+                    ))}
+                </div>
+              )}
             </div>
           ) : (
             <Button
@@ -350,6 +2169,156 @@ export default function Settings() {
           )}
         </motion.div>
 
+        {/* PageSpeed監視 */}
+        <motion.div
+          variants={itemVariants}
+          className="rounded-xl p-6"
+          style={{
+            background: "linear-gradient(135deg, rgba(245, 158, 11, 0.1) 0%, rgba(236, 72, 153, 0.05) 100%)",
+            border: "1px solid rgba(245, 158, 11, 0.2)",
+          }}
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-lg bg-[#f59e0b]/20 flex items-center justify-center">
+              <Gauge className="w-5 h-5 text-[#f59e0b]" />
+            </div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-foreground">
+                PageSpeed監視
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                主要テンプレートや上位ランディングページをモバイル・デスクトップの両方で毎日テストし、URLごとの推移を確認
+              </p>
+            </div>
+          </div>
+          <PageSpeedMonitor domains={domains} />
+        </motion.div>
+
+        {/* パフォーマンス予算 */}
+        <motion.div
+          variants={itemVariants}
+          className="rounded-xl p-6"
+          style={{
+            background: "linear-gradient(135deg, rgba(239, 68, 68, 0.1) 0%, rgba(245, 158, 11, 0.05) 100%)",
+            border: "1px solid rgba(239, 68, 68, 0.2)",
+          }}
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-lg bg-[#ef4444]/20 flex items-center justify-center">
+              <Target className="w-5 h-5 text-[#ef4444]" />
+            </div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-foreground">
+                パフォーマンス予算
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                URLパターンとデバイスごとにLCP・CLS・TBTなどの上限を設定し、超過したテストをアラートやデプロイ前のチェックで検出
+              </p>
+            </div>
+          </div>
+          <PerformanceBudgetPanel domains={domains} />
+        </motion.div>
+
+        {/* アラートルール */}
+        <motion.div
+          variants={itemVariants}
+          className="rounded-xl p-6"
+          style={{
+            background: "linear-gradient(135deg, rgba(236, 72, 153, 0.1) 0%, rgba(139, 92, 246, 0.05) 100%)",
+            border: "1px solid rgba(236, 72, 153, 0.2)",
+          }}
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-lg bg-[#ec4899]/20 flex items-center justify-center">
+              <Bell className="w-5 h-5 text-[#ec4899]" />
+            </div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-foreground">
+                アラートルール
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                同期後に評価され、条件を満たすとダッシュボードに通知
+              </p>
+            </div>
+          </div>
+          <AlertRuleList domains={domains} />
+        </motion.div>
+
+        {/* 通知チャネル */}
+        <motion.div
+          variants={itemVariants}
+          className="rounded-xl p-6"
+          style={{
+            background: "linear-gradient(135deg, rgba(34, 197, 94, 0.1) 0%, rgba(34, 211, 238, 0.05) 100%)",
+            border: "1px solid rgba(34, 197, 94, 0.2)",
+          }}
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-lg bg-[#22c55e]/20 flex items-center justify-center">
+              <Send className="w-5 h-5 text-[#22c55e]" />
+            </div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-foreground">
+                通知チャネル
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                アラートをSlack・Teams・メール・Webhookに配信（失敗時は自動で再試行）
+              </p>
+            </div>
+          </div>
+          <NotificationChannelList />
+        </motion.div>
+
+        {/* ダイジェスト */}
+        <motion.div
+          variants={itemVariants}
+          className="rounded-xl p-6"
+          style={{
+            background: "linear-gradient(135deg, rgba(139, 92, 246, 0.1) 0%, rgba(236, 72, 153, 0.05) 100%)",
+            border: "1px solid rgba(139, 92, 246, 0.2)",
+          }}
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-lg bg-[#8b5cf6]/20 flex items-center justify-center">
+              <Mail className="w-5 h-5 text-[#8b5cf6]" />
+            </div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-foreground">
+                ダイジェスト
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                順位の上昇・下落、トラフィックの増減、Core Web Vitalsの変化、新しいアラートを定期的に配信
+              </p>
+            </div>
+          </div>
+          <DigestSettingsPanel />
+        </motion.div>
+
+        {/* 同期ジョブ */}
+        <motion.div
+          variants={itemVariants}
+          className="rounded-xl p-6"
+          style={{
+            background: "linear-gradient(135deg, rgba(34, 211, 238, 0.1) 0%, rgba(139, 92, 246, 0.05) 100%)",
+            border: "1px solid rgba(34, 211, 238, 0.2)",
+          }}
+        >
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-lg bg-[#22d3ee]/20 flex items-center justify-center">
+              <Activity className="w-5 h-5 text-[#22d3ee]" />
+            </div>
+            <div>
+              <h2 className="text-lg font-display font-bold text-foreground">
+                同期ジョブ
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                定期同期の実行状況・所要時間・失敗を確認し、再試行や停止を行う
+              </p>
+            </div>
+          </div>
+          <SyncJobList />
+        </motion.div>
+
         {/* ドメイン管理 */}
         <motion.div
           variants={itemVariants}
@@ -416,17 +2385,30 @@ export default function Settings() {
                       <CheckCircle className="w-4 h-4 text-[#22c55e]" />
                     )}
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeleteDomain(domain.id);
-                    }}
-                    className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+                  <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                    <Select
+                      value={domain.serpProvider || "default"}
+                      onValueChange={(value) => handleSerpProviderChange(domain.id, value)}
+                    >
+                      <SelectTrigger size="sm" className="w-[150px] text-xs font-mono">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">SERP: 既定</SelectItem>
+                        <SelectItem value="scraper">SERP: スクレイピング</SelectItem>
+                        <SelectItem value="dataforseo">SERP: DataForSEO</SelectItem>
+                        <SelectItem value="serpapi">SERP: SerpApi</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteDomain(domain.id)}
+                      className="text-[#ef4444] hover:text-[#ef4444] hover:bg-[#ef4444]/10"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -484,6 +2466,49 @@ export default function Settings() {
               </Button>
             </div>
 
+            {/* トラッキング条件（国・都市・言語・デバイス） */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+              <Select
+                value={profileDraft.country}
+                onValueChange={(value) => setProfileDraft({ ...profileDraft, country: value })}
+              >
+                <SelectTrigger size="sm" className="text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRACKING_COUNTRIES.map((country) => (
+                    <SelectItem key={country.value} value={country.value}>{country.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={profileDraft.device}
+                onValueChange={(value) => setProfileDraft({ ...profileDraft, device: value as "desktop" | "mobile" })}
+              >
+                <SelectTrigger size="sm" className="text-xs font-mono">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="desktop">デスクトップ</SelectItem>
+                  <SelectItem value="mobile">モバイル</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="text"
+                placeholder="言語 (例: ja, en)"
+                value={profileDraft.language}
+                onChange={(e) => setProfileDraft({ ...profileDraft, language: e.target.value })}
+                className="h-8 bg-white/5 border-border/50 font-mono text-xs"
+              />
+              <Input
+                type="text"
+                placeholder="都市 (例: Osaka,Osaka,Japan)"
+                value={profileDraft.city}
+                onChange={(e) => setProfileDraft({ ...profileDraft, city: e.target.value })}
+                className="h-8 bg-white/5 border-border/50 font-mono text-xs"
+              />
+            </div>
+
             {/* キーワード一覧 */}
             {keywords.length > 0 ? (
               <div className="space-y-2">
@@ -492,7 +2517,10 @@ export default function Settings() {
                     key={keyword.id}
                     className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-border/50"
                   >
-                    <span className="text-sm text-foreground font-mono">{keyword.keyword}</span>
+                    <div>
+                      <span className="text-sm text-foreground font-mono">{keyword.keyword}</span>
+                      <KeywordProfileList keywordId={keyword.id} draft={profileDraft} />
+                    </div>
                     <Button
                       variant="ghost"
                       size="sm"
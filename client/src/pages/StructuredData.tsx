@@ -0,0 +1,513 @@
+/*
+ * Structured Data Page - 構造化データ（JSON-LD・Microdata・RDFa）の抽出とリッチリザルト要件の検証、AIによるJSON-LDの提案
+ */
+
+import DashboardLayout from "@/components/DashboardLayout";
+import { motion } from "framer-motion";
+import { useMemo, useState } from "react";
+import {
+  Braces,
+  Globe,
+  FileCode,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Loader2,
+  ChevronDown,
+  ChevronRight,
+  Sparkles,
+  Copy,
+  Download,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: {
+      staggerChildren: 0.1,
+    },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 20 },
+  visible: {
+    opacity: 1,
+    y: 0,
+  },
+};
+
+const SYNTAX_LABELS: Record<string, string> = {
+  "json-ld": "JSON-LD",
+  microdata: "Microdata",
+  rdfa: "RDFa",
+};
+
+// 検証したGoogleリッチリザルトの種類
+const RICH_RESULT_LABELS: Record<string, string> = {
+  Article: "記事",
+  Product: "商品",
+  FAQPage: "よくある質問",
+  HowTo: "手順",
+  LocalBusiness: "ローカルビジネス",
+  BreadcrumbList: "パンくずリスト",
+  Organization: "組織",
+};
+
+type StructuredDataItemResult = {
+  syntax: string;
+  types: string[];
+  richResult: string | null;
+  data: Record<string, unknown>;
+  errors: Array<{ path: string; message: string }>;
+  warnings: Array<{ path: string; message: string }>;
+};
+
+// 1件の構造化データの検証結果
+function StructuredDataItemCard({ item }: { item: StructuredDataItemResult }) {
+  const [showData, setShowData] = useState(false);
+  const isValid = item.errors.length === 0;
+
+  return (
+    <div className="p-4 rounded-lg bg-white/5 border border-border/50 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {isValid ? (
+          <CheckCircle className="w-4 h-4 text-[#22c55e]" />
+        ) : (
+          <XCircle className="w-4 h-4 text-[#ef4444]" />
+        )}
+        <span className="text-sm font-bold text-foreground">{item.types.join(", ") || "（@typeなし）"}</span>
+        <span className="text-xs px-2 py-0.5 rounded bg-[#22d3ee]/20 text-[#22d3ee] font-mono">
+          {SYNTAX_LABELS[item.syntax] ?? item.syntax}
+        </span>
+        {item.richResult && (
+          <span className="text-xs px-2 py-0.5 rounded bg-[#8b5cf6]/20 text-[#8b5cf6]">
+            リッチリザルト: {RICH_RESULT_LABELS[item.richResult] ?? item.richResult}
+          </span>
+        )}
+        <span className="ml-auto text-xs font-mono text-muted-foreground">
+          エラー {item.errors.length} / 警告 {item.warnings.length}
+        </span>
+      </div>
+
+      {(item.errors.length > 0 || item.warnings.length > 0) && (
+        <ul className="space-y-1">
+          {item.errors.map((issue, i) => (
+            <li key={`error-${i}`} className="flex items-start gap-2 text-xs">
+              <XCircle className="w-3 h-3 mt-0.5 text-[#ef4444] shrink-0" />
+              <span className="text-foreground">{issue.message}</span>
+              <span className="ml-auto font-mono text-muted-foreground shrink-0">{issue.path}</span>
+            </li>
+          ))}
+          {item.warnings.map((issue, i) => (
+            <li key={`warning-${i}`} className="flex items-start gap-2 text-xs">
+              <AlertTriangle className="w-3 h-3 mt-0.5 text-[#f59e0b] shrink-0" />
+              <span className="text-muted-foreground">{issue.message}</span>
+              <span className="ml-auto font-mono text-muted-foreground shrink-0">{issue.path}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setShowData(!showData)}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        {showData ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        抽出したデータ
+      </button>
+      {showData && (
+        <pre className="p-3 rounded-lg bg-black/30 border border-border/50 text-xs font-mono text-foreground overflow-x-auto max-h-80">
+          {JSON.stringify(item.data, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+// ファイルとしてダウンロード
+function downloadText(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(href);
+}
+
+// ダウンロード時のファイル名（URLのパスから作成）
+function suggestionFilename(url: string): string {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const slug = `${hostname}${pathname}`.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "");
+    return slug ? `schema-${slug}` : "schema";
+  } catch {
+    return "schema";
+  }
+}
+
+// クロール済みページを選んでAIにJSON-LDを生成させ、検証結果・コード・既存マークアップとの差分を表示
+function SchemaSuggestionPanel() {
+  const [selectedDomainId, setSelectedDomainId] = useState<number | null>(null);
+  const [pageId, setPageId] = useState<number | null>(null);
+  const [view, setView] = useState<"code" | "diff">("code");
+
+  const { data: domainsData } = trpc.domains.list.useQuery();
+  const domains = domainsData?.domains || [];
+  const domainId = selectedDomainId ?? domains[0]?.id ?? null;
+
+  const { data: runsData } = trpc.crawler.listRuns.useQuery(
+    { domainId: domainId ?? 0, limit: 1 },
+    { enabled: domainId !== null }
+  );
+  const latestRun = runsData?.runs[0];
+  const { data: pagesData, isLoading: pagesLoading } = trpc.crawler.getPages.useQuery(
+    { crawlId: latestRun?.id ?? 0, limit: 200 },
+    { enabled: !!latestRun }
+  );
+  // 提案の対象はHTMLとして取得できたページのみ
+  const pages = useMemo(
+    () => (pagesData?.pages || []).filter(page =>
+      page.statusCode !== null && page.statusCode < 400 && (!page.contentType || page.contentType.includes("html"))
+    ),
+    [pagesData]
+  );
+
+  const suggestMutation = trpc.structuredData.suggest.useMutation();
+  const suggestion = suggestMutation.data?.success ? suggestMutation.data.suggestion : null;
+
+  const handleSuggest = async () => {
+    if (pageId === null) return;
+    const response = await suggestMutation.mutateAsync({ pageId });
+    if (!response.success) {
+      toast.error(response.error || "JSON-LDの生成に失敗しました");
+    } else {
+      setView("code");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!suggestion) return;
+    try {
+      await navigator.clipboard.writeText(suggestion.script);
+      toast.success("コピーしました");
+    } catch {
+      toast.error("コピーに失敗しました");
+    }
+  };
+
+  return (
+    <motion.div
+      variants={itemVariants}
+      className="rounded-xl p-6 space-y-4"
+      style={{
+        background: "linear-gradient(135deg, rgba(236, 72, 153, 0.1) 0%, rgba(139, 92, 246, 0.05) 100%)",
+        border: "1px solid rgba(236, 72, 153, 0.2)",
+      }}
+    >
+      <div>
+        <div className="flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-[#ec4899]" />
+          <h2 className="text-lg font-display font-bold text-foreground">AIによるJSON-LD提案</h2>
+        </div>
+        <p className="text-xs text-muted-foreground font-mono mt-1">
+          最新のクロールからページを選ぶと、内容に合ったJSON-LDを生成し、リッチリザルト要件で検証します
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Select
+          value={domainId !== null ? String(domainId) : undefined}
+          onValueChange={(value) => {
+            setSelectedDomainId(Number(value));
+            setPageId(null);
+          }}
+        >
+          <SelectTrigger size="sm" className="w-[200px] text-xs font-mono">
+            <SelectValue placeholder="ドメインを選択" />
+          </SelectTrigger>
+          <SelectContent>
+            {domains.map((domain) => (
+              <SelectItem key={domain.id} value={String(domain.id)}>{domain.domain}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={pageId !== null ? String(pageId) : undefined}
+          onValueChange={(value) => setPageId(Number(value))}
+          disabled={pages.length === 0}
+        >
+          <SelectTrigger size="sm" className="flex-1 min-w-[240px] text-xs font-mono">
+            <SelectValue placeholder={pagesLoading ? "読み込み中..." : pages.length === 0 ? "クロール済みのページがありません" : "ページを選択"} />
+          </SelectTrigger>
+          <SelectContent>
+            {pages.map((page) => (
+              <SelectItem key={page.id} value={String(page.id)}>{page.url}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={handleSuggest}
+          disabled={suggestMutation.isPending || pageId === null}
+          className="gap-2"
+        >
+          {suggestMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          生成する
+        </Button>
+      </div>
+
+      {suggestion && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-xs px-2 py-0.5 rounded bg-[#ec4899]/20 text-[#ec4899] font-mono">{suggestion.contentType}</span>
+            <span className="text-xs font-mono text-muted-foreground truncate">{suggestion.url}</span>
+            <div className="flex gap-4 ml-auto text-xs font-mono">
+              <span className={cn(suggestion.report.errorCount > 0 ? "text-[#ef4444]" : "text-[#22c55e]")}>
+                エラー {suggestion.report.errorCount}
+              </span>
+              <span className="text-[#f59e0b]">警告 {suggestion.report.warningCount}</span>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {suggestion.report.items.map((item, i) => (
+              <StructuredDataItemCard key={i} item={item} />
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" variant={view === "code" ? "default" : "outline"} onClick={() => setView("code")}>
+              コード
+            </Button>
+            <Button size="sm" variant={view === "diff" ? "default" : "outline"} onClick={() => setView("diff")}>
+              既存との差分
+            </Button>
+            <div className="flex gap-2 ml-auto">
+              <Button size="sm" variant="outline" onClick={handleCopy} className="gap-2">
+                <Copy className="w-4 h-4" />
+                コピー
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => downloadText(JSON.stringify(suggestion.jsonLd, null, 2), `${suggestionFilename(suggestion.url)}.json`, "application/ld+json")}
+                className="gap-2"
+              >
+                <Download className="w-4 h-4" />
+                JSON
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => downloadText(suggestion.script, `${suggestionFilename(suggestion.url)}.html`, "text/html")}
+                className="gap-2"
+              >
+                <Download className="w-4 h-4" />
+                HTML
+              </Button>
+            </div>
+          </div>
+
+          {view === "code" ? (
+            <pre className="p-3 rounded-lg bg-black/30 border border-border/50 text-xs font-mono text-foreground overflow-x-auto max-h-[32rem]">
+              {suggestion.script}
+            </pre>
+          ) : (
+            <div className="space-y-2">
+              {suggestion.existing === null && (
+                <p className="text-xs text-muted-foreground">このページには既存のJSON-LD・Microdata・RDFaがありません（すべて追加行として表示）</p>
+              )}
+              <pre className="p-3 rounded-lg bg-black/30 border border-border/50 text-xs font-mono overflow-x-auto max-h-[32rem]">
+                {suggestion.diff.map((line, i) => (
+                  <div
+                    key={i}
+                    className={cn(
+                      line.type === "added" && "bg-[#22c55e]/10 text-[#22c55e]",
+                      line.type === "removed" && "bg-[#ef4444]/10 text-[#ef4444]",
+                      line.type === "same" && "text-muted-foreground"
+                    )}
+                  >
+                    {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+export default function StructuredData() {
+  const [mode, setMode] = useState<"url" | "snippet">("url");
+  const [url, setUrl] = useState("");
+  const [snippet, setSnippet] = useState("");
+  const validateMutation = trpc.structuredData.validate.useMutation();
+  const result = validateMutation.data?.success ? validateMutation.data : null;
+  const report = result?.report;
+
+  const handleValidate = async () => {
+    const response = await validateMutation.mutateAsync(mode === "url" ? { url } : { snippet });
+    if (!response.success) {
+      toast.error(response.error || "検証に失敗しました");
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <motion.div
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+        className="space-y-6"
+      >
+        {/* Header */}
+        <motion.div
+          variants={itemVariants}
+          className="relative overflow-hidden rounded-2xl p-8"
+          style={{
+            background: "linear-gradient(135deg, rgba(139, 92, 246, 0.2) 0%, rgba(34, 211, 238, 0.1) 100%)",
+            border: "1px solid rgba(139, 92, 246, 0.3)",
+          }}
+        >
+          <div className="relative z-10">
+            <div className="flex items-center gap-2 mb-2">
+              <Braces className="w-5 h-5 text-[#8b5cf6]" />
+              <span className="text-xs font-mono text-[#8b5cf6] uppercase tracking-widest">
+                構造化データ
+              </span>
+            </div>
+            <h1 className="text-3xl font-display font-bold text-foreground mb-2">
+              構造化データの抽出 & 検証
+            </h1>
+            <p className="text-muted-foreground max-w-2xl">
+              ページのJSON-LD・Microdata・RDFaを抽出し、schema.orgの型とGoogleのリッチリザルト要件（必須・推奨プロパティ）で検証します。
+            </p>
+          </div>
+        </motion.div>
+
+        {/* 入力 */}
+        <motion.div
+          variants={itemVariants}
+          className="rounded-xl p-6 space-y-4"
+          style={{
+            background: "linear-gradient(135deg, rgba(34, 211, 238, 0.1) 0%, rgba(139, 92, 246, 0.05) 100%)",
+            border: "1px solid rgba(34, 211, 238, 0.2)",
+          }}
+        >
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant={mode === "url" ? "default" : "outline"}
+              onClick={() => setMode("url")}
+              className="gap-2"
+            >
+              <Globe className="w-4 h-4" />
+              URL
+            </Button>
+            <Button
+              size="sm"
+              variant={mode === "snippet" ? "default" : "outline"}
+              onClick={() => setMode("snippet")}
+              className="gap-2"
+            >
+              <FileCode className="w-4 h-4" />
+              スニペット
+            </Button>
+          </div>
+
+          {mode === "url" ? (
+            <Input
+              placeholder="https://example.com/products/sample"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && url.trim() && handleValidate()}
+              className="bg-white/5 border-border/50 font-mono text-sm"
+            />
+          ) : (
+            <Textarea
+              placeholder={'{"@context": "https://schema.org", "@type": "Product", ...} またはHTML'}
+              value={snippet}
+              onChange={(e) => setSnippet(e.target.value)}
+              rows={10}
+              className="bg-white/5 border-border/50 font-mono text-xs"
+            />
+          )}
+
+          <Button
+            onClick={handleValidate}
+            disabled={validateMutation.isPending || !(mode === "url" ? url.trim() : snippet.trim())}
+            className="gap-2"
+          >
+            {validateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+            検証する
+          </Button>
+        </motion.div>
+
+        {/* 検証結果 */}
+        {report && (
+          <motion.div
+            variants={itemVariants}
+            initial="hidden"
+            animate="visible"
+            className="rounded-xl p-6 space-y-4"
+            style={{
+              background: "linear-gradient(135deg, rgba(139, 92, 246, 0.1) 0%, rgba(236, 72, 153, 0.05) 100%)",
+              border: "1px solid rgba(139, 92, 246, 0.2)",
+            }}
+          >
+            <div className="flex flex-wrap items-center gap-4">
+              <h2 className="text-lg font-display font-bold text-foreground">検証結果</h2>
+              {result?.url && <span className="text-xs font-mono text-muted-foreground truncate">{result.url}</span>}
+              <div className="flex gap-4 ml-auto text-xs font-mono">
+                <span className="text-foreground">{report.items.length}件</span>
+                <span className={cn(report.errorCount > 0 ? "text-[#ef4444]" : "text-[#22c55e]")}>
+                  エラー {report.errorCount}
+                </span>
+                <span className="text-[#f59e0b]">警告 {report.warningCount}</span>
+              </div>
+            </div>
+
+            {report.parseErrors.map((error, i) => (
+              <div key={i} className="flex items-start gap-2 text-xs p-3 rounded-lg bg-[#ef4444]/10 border border-[#ef4444]/30">
+                <XCircle className="w-3 h-3 mt-0.5 text-[#ef4444] shrink-0" />
+                <span className="text-foreground font-mono break-all">{error.message}</span>
+              </div>
+            ))}
+
+            {report.items.length === 0 && report.parseErrors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">構造化データが見つかりませんでした</p>
+            ) : (
+              <div className="space-y-3">
+                {report.items.map((item, i) => (
+                  <StructuredDataItemCard key={i} item={item} />
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
+
+        <SchemaSuggestionPanel />
+      </motion.div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,18 @@
+-- query_page_history: 以前の同期は直近7日間の合計を同期時刻付きの日付で毎日追加していたため、
+-- 期間が重なった行が残っている。日別の行（UTCの0時）だけを残し、一意インデックスを作成できるようにする。
+-- 削除した期間は次回以降の同期で日別に取り込み直される。テーブルがまだない場合は何もしない。
+DO $$
+BEGIN
+  IF to_regclass('query_page_history') IS NOT NULL THEN
+    DELETE FROM query_page_history
+    WHERE date <> date_trunc('day', date);
+
+    DELETE FROM query_page_history a
+    USING query_page_history b
+    WHERE a.domain_id = b.domain_id
+      AND a.query = b.query
+      AND a.page = b.page
+      AND a.date = b.date
+      AND a.id < b.id;
+  END IF;
+END $$;
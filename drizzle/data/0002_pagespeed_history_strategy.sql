@@ -0,0 +1,18 @@
+-- pagespeed_history: 以前のスケジューラーは戦略をURLの末尾に付けて保存していた（"https://example.com (mobile)"）。
+-- 接尾辞を取り除いてstrategy列に移し、監視URLや推移・CWVアラート・ダイジェストで同じURLとして扱えるようにする。
+-- strategy列はスキーマのプッシュで追加されるため、列がまだない場合は何もしない。
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pagespeed_history' AND column_name = 'strategy'
+  ) THEN
+    UPDATE pagespeed_history
+    SET url = left(url, length(url) - length(' (mobile)')), strategy = 'mobile'
+    WHERE url LIKE '% (mobile)';
+
+    UPDATE pagespeed_history
+    SET url = left(url, length(url) - length(' (desktop)')), strategy = 'desktop'
+    WHERE url LIKE '% (desktop)';
+  END IF;
+END $$;
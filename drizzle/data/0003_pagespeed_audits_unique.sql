@@ -0,0 +1,12 @@
+-- pagespeed_audits: 同じテストの監査が重複して抽出された行を整理し、(page_speed_id, audit_id)の一意インデックスを作成できるようにする。
+-- テーブルがまだない場合は何もしない。
+DO $$
+BEGIN
+  IF to_regclass('pagespeed_audits') IS NOT NULL THEN
+    DELETE FROM pagespeed_audits a
+    USING pagespeed_audits b
+    WHERE a.page_speed_id = b.page_speed_id
+      AND a.audit_id = b.audit_id
+      AND a.id > b.id;
+  END IF;
+END $$;
@@ -0,0 +1,28 @@
+-- keyword_history / domain_history: 以前の同期は直近7日間の合計を同期時刻付きの日付で追加していたため、
+-- 日別の行と7日間の合計が混在し、同じ日付の行が重複していることがある。日別の行（UTCの0時）だけを残し、
+-- 一意インデックスを作成できるようにする。削除した期間は設定画面のSearch Consoleバックフィルで日別に取り込み直せる。
+-- テーブルがまだない場合は何もしない。
+DO $$
+BEGIN
+  IF to_regclass('keyword_history') IS NOT NULL THEN
+    DELETE FROM keyword_history
+    WHERE date <> date_trunc('day', date);
+
+    DELETE FROM keyword_history a
+    USING keyword_history b
+    WHERE a.keyword_id = b.keyword_id
+      AND a.date = b.date
+      AND a.id < b.id;
+  END IF;
+
+  IF to_regclass('domain_history') IS NOT NULL THEN
+    DELETE FROM domain_history
+    WHERE date <> date_trunc('day', date);
+
+    DELETE FROM domain_history a
+    USING domain_history b
+    WHERE a.domain_id = b.domain_id
+      AND a.date = b.date
+      AND a.id < b.id;
+  END IF;
+END $$;
@@ -1,9 +1,19 @@
-import { integer, pgEnum, pgTable, text, timestamp, varchar, decimal, json, boolean, serial } from "drizzle-orm/pg-core";
+import { integer, pgEnum, pgTable, text, timestamp, varchar, decimal, json, boolean, serial, uniqueIndex, index } from "drizzle-orm/pg-core";
 
 // Enums for PostgreSQL
 export const roleEnum = pgEnum("role", ["user", "admin"]);
-export const jobTypeEnum = pgEnum("job_type", ["search_console", "pagespeed", "ai_visibility"]);
+export const jobTypeEnum = pgEnum("job_type", ["search_console", "pagespeed", "ai_visibility", "serp", "digest"]);
 export const statusEnum = pgEnum("status", ["pending", "running", "completed", "failed"]);
+export const severityEnum = pgEnum("severity", ["critical", "warning", "info"]);
+export const deviceEnum = pgEnum("device", ["desktop", "mobile"]);
+export const alertRuleTypeEnum = pgEnum("alert_rule_type", ["position_drop", "ctr_collapse", "cwv_regression", "lost_ai_citation", "budget_violation"]);
+export const notificationChannelTypeEnum = pgEnum("notification_channel_type", ["email", "slack", "teams", "webhook"]);
+export const deliveryStatusEnum = pgEnum("delivery_status", ["sent", "failed"]);
+export const digestCadenceEnum = pgEnum("digest_cadence", ["off", "daily", "weekly"]);
+export const fieldMetricScopeEnum = pgEnum("field_metric_scope", ["url", "origin"]);
+export const lighthouseAuditKindEnum = pgEnum("lighthouse_audit_kind", ["opportunity", "diagnostic"]);
+export const monitoredUrlSourceEnum = pgEnum("monitored_url_source", ["manual", "search_console", "sitemap"]);
+export const promptScheduleEnum = pgEnum("prompt_schedule", ["daily", "weekly", "monthly"]);
 
 /**
  * Core user table backing auth flow.
@@ -45,6 +55,10 @@ export const trackedDomains = pgTable("tracked_domains", {
   domain: varchar("domain", { length: 255 }).notNull(),
   /** Google Search Console property URL (e.g., sc-domain:example.com) */
   searchConsoleProperty: varchar("search_console_property", { length: 500 }),
+  /** SERP provider override (scraper, dataforseo, serpapi); null uses the deployment default */
+  serpProvider: varchar("serp_provider", { length: 32 }),
+  /** SHA-256 of the token deploy pipelines use to run budget checks; null when none was issued */
+  budgetTokenHash: varchar("budget_token_hash", { length: 64 }),
   isVerified: boolean("is_verified").default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -53,6 +67,20 @@ export const trackedDomains = pgTable("tracked_domains", {
 export type TrackedDomain = typeof trackedDomains.$inferSelect;
 export type InsertTrackedDomain = typeof trackedDomains.$inferInsert;
 
+/**
+ * Competitor domains - domains compared against a tracked domain in rank tracking
+ */
+export const competitorDomains = pgTable("competitor_domains", {
+  id: serial("id").primaryKey(),
+  /** Tracked domain the competitor is attached to */
+  domainId: integer("domain_id").notNull(),
+  domain: varchar("domain", { length: 255 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CompetitorDomain = typeof competitorDomains.$inferSelect;
+export type InsertCompetitorDomain = typeof competitorDomains.$inferInsert;
+
 /**
  * Tracked keywords - keywords the user wants to monitor
  */
@@ -70,7 +98,28 @@ export type TrackedKeyword = typeof trackedKeywords.$inferSelect;
 export type InsertTrackedKeyword = typeof trackedKeywords.$inferInsert;
 
 /**
- * Keyword ranking history - daily snapshots of keyword performance
+ * Keyword tracking profiles - market / device combinations a keyword's SERP is checked for
+ */
+export const keywordProfiles = pgTable("keyword_profiles", {
+  id: serial("id").primaryKey(),
+  keywordId: integer("keyword_id").notNull(),
+  /** Country code (e.g., jp, us) */
+  country: varchar("country", { length: 8 }).default("jp").notNull(),
+  /** Canonical location name for city-level results (e.g., Osaka,Osaka,Japan) */
+  city: varchar("city", { length: 255 }),
+  /** Explicit UULE parameter; derived from city when empty */
+  uule: varchar("uule", { length: 512 }),
+  /** Interface language (e.g., ja, en); null uses the country default */
+  language: varchar("language", { length: 16 }),
+  device: deviceEnum("device").default("desktop").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type KeywordProfile = typeof keywordProfiles.$inferSelect;
+export type InsertKeywordProfile = typeof keywordProfiles.$inferInsert;
+
+/**
+ * Keyword ranking history - daily snapshots of keyword performance (one row per keyword and day)
  */
 export const keywordHistory = pgTable("keyword_history", {
   id: serial("id").primaryKey(),
@@ -88,13 +137,38 @@ export const keywordHistory = pgTable("keyword_history", {
   /** AI visibility scores as JSON */
   aiVisibility: json("ai_visibility"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("keyword_history_keyword_date_idx").on(table.keywordId, table.date),
+]);
 
 export type KeywordHistory = typeof keywordHistory.$inferSelect;
 export type InsertKeywordHistory = typeof keywordHistory.$inferInsert;
 
 /**
- * Domain metrics history - daily snapshots of domain performance
+ * Query + page history - daily Search Console performance of each of our URLs per query
+ */
+export const queryPageHistory = pgTable("query_page_history", {
+  id: serial("id").primaryKey(),
+  domainId: integer("domain_id").notNull(),
+  query: varchar("query", { length: 500 }).notNull(),
+  page: varchar("page", { length: 2000 }).notNull(),
+  /** Day of the data (UTC midnight) */
+  date: timestamp("date").notNull(),
+  clicks: integer("clicks").default(0).notNull(),
+  impressions: integer("impressions").default(0).notNull(),
+  ctr: decimal("ctr", { precision: 5, scale: 4 }),
+  /** Average position of the page for the query */
+  position: decimal("position", { precision: 5, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("query_page_history_domain_query_page_date_idx").on(table.domainId, table.query, table.page, table.date),
+]);
+
+export type QueryPageHistory = typeof queryPageHistory.$inferSelect;
+export type InsertQueryPageHistory = typeof queryPageHistory.$inferInsert;
+
+/**
+ * Domain metrics history - daily snapshots of domain performance (one row per domain and day)
  */
 export const domainHistory = pgTable("domain_history", {
   id: serial("id").primaryKey(),
@@ -110,7 +184,9 @@ export const domainHistory = pgTable("domain_history", {
   /** Average CTR */
   avgCtr: decimal("avg_ctr", { precision: 5, scale: 4 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  uniqueIndex("domain_history_domain_date_idx").on(table.domainId, table.date),
+]);
 
 export type DomainHistory = typeof domainHistory.$inferSelect;
 export type InsertDomainHistory = typeof domainHistory.$inferInsert;
@@ -122,6 +198,8 @@ export const pageSpeedHistory = pgTable("pagespeed_history", {
   id: serial("id").primaryKey(),
   domainId: integer("domain_id").notNull(),
   url: varchar("url", { length: 2000 }).notNull(),
+  /** Lighthouse strategy the URL was tested with */
+  strategy: deviceEnum("strategy").default("mobile").notNull(),
   /** Date of the test */
   date: timestamp("date").notNull(),
   /** Performance score (0-100) */
@@ -148,26 +226,744 @@ export const pageSpeedHistory = pgTable("pagespeed_history", {
   tbt: integer("tbt"),
   /** Raw Lighthouse data as JSON */
   rawData: json("raw_data"),
+  /** When opportunities and diagnostics were extracted from rawData into pagespeed_audits */
+  auditsExtractedAt: timestamp("audits_extracted_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("pagespeed_history_domain_url_idx").on(table.domainId, table.url, table.date),
+]);
 
 export type PageSpeedHistory = typeof pageSpeedHistory.$inferSelect;
 export type InsertPageSpeedHistory = typeof pageSpeedHistory.$inferInsert;
 
 /**
- * Data sync jobs - track scheduled data updates
+ * Field metrics - Chrome UX Report (CrUX) data returned with a PageSpeed test: p75 values and good / needs improvement / poor distributions
+ */
+export const fieldMetrics = pgTable("field_metrics", {
+  id: serial("id").primaryKey(),
+  /** PageSpeed test the data was returned with */
+  pageSpeedId: integer("page_speed_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  /** Tested URL */
+  url: varchar("url", { length: 2000 }).notNull(),
+  strategy: deviceEnum("strategy").default("mobile").notNull(),
+  /** Whether the data describes the URL itself or its whole origin */
+  scope: fieldMetricScopeEnum("scope").notNull(),
+  /** Page or origin CrUX aggregated the data for */
+  cruxId: varchar("crux_id", { length: 2000 }),
+  /** Date of the test */
+  date: timestamp("date").notNull(),
+  /** Overall Core Web Vitals assessment (FAST, AVERAGE, SLOW) */
+  overallCategory: varchar("overall_category", { length: 20 }),
+  /** p75 Largest Contentful Paint (ms) */
+  lcp: integer("lcp"),
+  /** p75 Interaction to Next Paint (ms) */
+  inp: integer("inp"),
+  /** p75 Cumulative Layout Shift (score * 1000) */
+  cls: integer("cls"),
+  /** p75 First Contentful Paint (ms) */
+  fcp: integer("fcp"),
+  /** p75 Time to First Byte (ms) */
+  ttfb: integer("ttfb"),
+  /** p75 First Input Delay (ms), deprecated in favour of INP */
+  fid: integer("fid"),
+  /** Share of page loads per bucket as JSON: { lcp: { good, needsImprovement, poor }, ... } (0-1) */
+  distributions: json("distributions"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("field_metrics_domain_url_idx").on(table.domainId, table.url, table.date),
+]);
+
+export type FieldMetric = typeof fieldMetrics.$inferSelect;
+export type InsertFieldMetric = typeof fieldMetrics.$inferInsert;
+
+/**
+ * PageSpeed audits - failing Lighthouse opportunities and diagnostics of a PageSpeed test with their estimated savings
+ */
+export const pageSpeedAudits = pgTable("pagespeed_audits", {
+  id: serial("id").primaryKey(),
+  pageSpeedId: integer("page_speed_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  url: varchar("url", { length: 2000 }).notNull(),
+  strategy: deviceEnum("strategy").default("mobile").notNull(),
+  /** Date of the test */
+  date: timestamp("date").notNull(),
+  /** Lighthouse audit id (e.g., render-blocking-resources) */
+  auditId: varchar("audit_id", { length: 100 }).notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  kind: lighthouseAuditKindEnum("kind").notNull(),
+  /** Lighthouse score (0-100), null for informative audits */
+  score: integer("score"),
+  /** Audit value as Lighthouse measured it (ms, bytes or count depending on the audit) */
+  numericValue: integer("numeric_value"),
+  displayValue: varchar("display_value", { length: 255 }),
+  /** Estimated load time savings (ms) */
+  savingsMs: integer("savings_ms"),
+  /** Estimated transfer size savings (bytes) */
+  savingsBytes: integer("savings_bytes"),
+  /** Top offending resources or elements as JSON: [{ label, wastedMs, wastedBytes, totalBytes, score }] */
+  items: json("items"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("pagespeed_audits_test_audit_idx").on(table.pageSpeedId, table.auditId),
+  index("pagespeed_audits_domain_url_idx").on(table.domainId, table.url, table.date),
+]);
+
+export type PageSpeedAudit = typeof pageSpeedAudits.$inferSelect;
+export type InsertPageSpeedAudit = typeof pageSpeedAudits.$inferInsert;
+
+/**
+ * Performance budgets - metric limits for a tracked domain or the URLs matching a pattern; every PageSpeed test is checked against the most specific one
+ */
+export const performanceBudgets = pgTable("performance_budgets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  /** URL path pattern with * wildcards (e.g., /products/*); null applies the budget to the whole domain */
+  urlPattern: varchar("url_pattern", { length: 500 }),
+  /** Strategy the budget applies to; null applies it to both */
+  strategy: deviceEnum("strategy"),
+  /** Largest Contentful Paint limit (ms) */
+  maxLcp: integer("max_lcp"),
+  /** Cumulative Layout Shift limit (score * 1000) */
+  maxCls: integer("max_cls"),
+  /** Total Blocking Time limit (ms) */
+  maxTbt: integer("max_tbt"),
+  /** First Contentful Paint limit (ms) */
+  maxFcp: integer("max_fcp"),
+  /** Time to First Byte limit (ms) */
+  maxTtfb: integer("max_ttfb"),
+  /** Minimum performance score (0-100) */
+  minPerformanceScore: integer("min_performance_score"),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type PerformanceBudget = typeof performanceBudgets.$inferSelect;
+export type InsertPerformanceBudget = typeof performanceBudgets.$inferInsert;
+
+/**
+ * Budget violations - PageSpeed tests that exceeded their performance budget
+ */
+export const budgetViolations = pgTable("budget_violations", {
+  id: serial("id").primaryKey(),
+  budgetId: integer("budget_id").notNull(),
+  pageSpeedId: integer("page_speed_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  url: varchar("url", { length: 2000 }).notNull(),
+  strategy: deviceEnum("strategy").notNull(),
+  /** Date of the test */
+  date: timestamp("date").notNull(),
+  /** Exceeded limits as JSON: [{ metric, label, limit, actual, overPercent }] */
+  violations: json("violations").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("budget_violations_domain_date_idx").on(table.domainId, table.date),
+]);
+
+export type BudgetViolation = typeof budgetViolations.$inferSelect;
+export type InsertBudgetViolation = typeof budgetViolations.$inferInsert;
+
+/**
+ * Monitored URLs - pages of a tracked domain tested by PageSpeed on every sync (key templates, top landing pages)
+ */
+export const monitoredUrls = pgTable("monitored_urls", {
+  id: serial("id").primaryKey(),
+  domainId: integer("domain_id").notNull(),
+  url: varchar("url", { length: 2000 }).notNull(),
+  /** Page template or note shown with the URL (e.g., "Product page") */
+  label: varchar("label", { length: 255 }),
+  /** How the URL was added */
+  source: monitoredUrlSourceEnum("source").default("manual").notNull(),
+  /** Inactive URLs keep their history but are not tested */
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("monitored_urls_domain_url_idx").on(table.domainId, table.url),
+]);
+
+export type MonitoredUrl = typeof monitoredUrls.$inferSelect;
+export type InsertMonitoredUrl = typeof monitoredUrls.$inferInsert;
+
+/**
+ * Data sync jobs - durable job queue; recurring jobs are rescheduled from their cron expression after each run
  */
 export const syncJobs = pgTable("sync_jobs", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
+  /** Tracked domain the job works on; null for user-level jobs (digests) */
+  domainId: integer("domain_id"),
   jobType: jobTypeEnum("job_type").notNull(),
+  /** Identifies a recurring job so it is registered only once (e.g., pagespeed:12); null for one-off jobs */
+  jobKey: varchar("job_key", { length: 128 }).unique(),
+  /** Cron expression (minute hour day-of-month month day-of-week); null runs the job once */
+  cronExpression: varchar("cron_expression", { length: 64 }),
+  /** IANA timezone the cron expression is interpreted in */
+  timezone: varchar("timezone", { length: 64 }).default("Asia/Tokyo").notNull(),
+  /** Handler-specific options */
+  payload: json("payload"),
   status: statusEnum("status").default("pending").notNull(),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  /** Attempts of the current run, reset after it succeeds or is rescheduled */
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  /** Worker holding the lease while the job runs */
+  lockedBy: varchar("locked_by", { length: 128 }),
+  /** Lease expiry; a running job whose lease expired is picked up by another worker */
+  lockedUntil: timestamp("locked_until"),
   lastRunAt: timestamp("last_run_at"),
+  /** Duration of the last finished run in milliseconds */
+  lastDurationMs: integer("last_duration_ms"),
+  /** End of the last successful run; the job's data is stale when this falls behind the schedule */
+  lastSuccessAt: timestamp("last_success_at"),
   nextRunAt: timestamp("next_run_at"),
   errorMessage: text("error_message"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("sync_jobs_next_run_idx").on(table.nextRunAt),
+]);
 
 export type SyncJob = typeof syncJobs.$inferSelect;
 export type InsertSyncJob = typeof syncJobs.$inferInsert;
+
+/**
+ * Job runs - one row per attempt of a sync job, with its duration, error and log
+ */
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull(),
+  /** Attempt number within the job's current run (1 = first try) */
+  attempt: integer("attempt").notNull(),
+  status: statusEnum("status").default("running").notNull(),
+  /** Worker that ran the attempt */
+  workerId: varchar("worker_id", { length: 128 }),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  errorMessage: text("error_message"),
+  /** Log lines written by the job handler */
+  logs: text("logs"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("job_runs_job_idx").on(table.jobId),
+]);
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
+
+/**
+ * Site crawl runs - one row per crawler execution for a tracked domain
+ */
+export const crawlRuns = pgTable("crawl_runs", {
+  id: serial("id").primaryKey(),
+  domainId: integer("domain_id").notNull(),
+  status: statusEnum("status").default("pending").notNull(),
+  startUrl: varchar("start_url", { length: 2000 }).notNull(),
+  /** Maximum link depth from the start URL */
+  maxDepth: integer("max_depth").notNull(),
+  /** Maximum number of pages to fetch */
+  maxPages: integer("max_pages").notNull(),
+  /** Number of parallel requests */
+  concurrency: integer("concurrency").notNull(),
+  /** Whether robots.txt rules were applied */
+  respectRobots: boolean("respect_robots").default(true).notNull(),
+  pagesCrawled: integer("pages_crawled").default(0).notNull(),
+  /** URLs skipped because robots.txt disallows them */
+  blockedByRobots: integer("blocked_by_robots").default(0).notNull(),
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CrawlRun = typeof crawlRuns.$inferSelect;
+export type InsertCrawlRun = typeof crawlRuns.$inferInsert;
+
+/**
+ * Crawled pages - every URL fetched during a crawl run
+ */
+export const crawledPages = pgTable("crawled_pages", {
+  id: serial("id").primaryKey(),
+  crawlId: integer("crawl_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  url: varchar("url", { length: 2000 }).notNull(),
+  /** Link depth from the start URL (0 = start page) */
+  depth: integer("depth").notNull(),
+  /** HTTP status of the first response (before following redirects) */
+  statusCode: integer("status_code"),
+  /** HTTP status of the last response (after following redirects) */
+  finalStatusCode: integer("final_status_code"),
+  /** URL after following redirects */
+  finalUrl: varchar("final_url", { length: 2000 }),
+  /** Redirect hops as JSON: [{ url, statusCode }] */
+  redirectChain: json("redirect_chain"),
+  contentType: varchar("content_type", { length: 255 }),
+  title: text("title"),
+  metaDescription: text("meta_description"),
+  canonical: varchar("canonical", { length: 2000 }),
+  /** Meta robots directives (e.g., noindex, nofollow) */
+  metaRobots: varchar("meta_robots", { length: 255 }),
+  /** Headings as JSON: [{ level, text }] */
+  headings: json("headings"),
+  wordCount: integer("word_count"),
+  /** Outgoing links as JSON: [{ url, anchor, internal, nofollow }] */
+  outlinks: json("outlinks"),
+  imageCount: integer("image_count"),
+  /** Number of <img> elements without an alt attribute */
+  imagesMissingAlt: integer("images_missing_alt"),
+  responseTimeMs: integer("response_time_ms"),
+  /** Network or timeout error, if the fetch failed */
+  fetchError: text("fetch_error"),
+  /** Per-page AI readability audit as JSON */
+  aiReadability: json("ai_readability"),
+  crawledAt: timestamp("crawled_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CrawledPage = typeof crawledPages.$inferSelect;
+export type InsertCrawledPage = typeof crawledPages.$inferInsert;
+
+/**
+ * Site audit runs - technical SEO audit over a crawl, with issue counts by severity
+ */
+export const auditRuns = pgTable("audit_runs", {
+  id: serial("id").primaryKey(),
+  domainId: integer("domain_id").notNull(),
+  /** Crawl run the audit was evaluated against */
+  crawlId: integer("crawl_id"),
+  status: statusEnum("status").default("pending").notNull(),
+  pagesAudited: integer("pages_audited").default(0).notNull(),
+  criticalCount: integer("critical_count").default(0).notNull(),
+  warningCount: integer("warning_count").default(0).notNull(),
+  infoCount: integer("info_count").default(0).notNull(),
+  /** Site-wide AI readability averages as JSON */
+  aiReadability: json("ai_readability"),
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AuditRun = typeof auditRuns.$inferSelect;
+export type InsertAuditRun = typeof auditRuns.$inferInsert;
+
+/**
+ * Audit issues - individual findings of an audit run
+ */
+export const auditIssues = pgTable("audit_issues", {
+  id: serial("id").primaryKey(),
+  auditId: integer("audit_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  /** Check identifier from the issue catalog (e.g., duplicate_title) */
+  issueType: varchar("issue_type", { length: 64 }).notNull(),
+  severity: severityEnum("severity").notNull(),
+  url: varchar("url", { length: 2000 }).notNull(),
+  /** Stable hash of type + URL + subject, used to diff issues between runs */
+  fingerprint: varchar("fingerprint", { length: 40 }).notNull(),
+  /** Check-specific evidence as JSON */
+  details: json("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AuditIssue = typeof auditIssues.$inferSelect;
+export type InsertAuditIssue = typeof auditIssues.$inferInsert;
+
+/**
+ * Sitemap scans - sitemap discovery and validation run for a tracked domain
+ */
+export const sitemapScans = pgTable("sitemap_scans", {
+  id: serial("id").primaryKey(),
+  domainId: integer("domain_id").notNull(),
+  status: statusEnum("status").default("pending").notNull(),
+  /** Sitemap files fetched as JSON: [{ url, source, type, gzipped, urlCount, errors }] */
+  sitemaps: json("sitemaps"),
+  urlsFound: integer("urls_found").default(0).notNull(),
+  /** URLs whose HTTP status was checked (capped per scan) */
+  urlsChecked: integer("urls_checked").default(0).notNull(),
+  /** URLs with an invalid format or lastmod */
+  invalidCount: integer("invalid_count").default(0).notNull(),
+  blockedCount: integer("blocked_count").default(0).notNull(),
+  redirectCount: integer("redirect_count").default(0).notNull(),
+  /** URLs returning 4xx/5xx or failing to fetch */
+  errorCount: integer("error_count").default(0).notNull(),
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SitemapScan = typeof sitemapScans.$inferSelect;
+export type InsertSitemapScan = typeof sitemapScans.$inferInsert;
+
+/**
+ * Sitemap URLs - every URL listed in a domain's sitemaps with its validation result
+ */
+export const sitemapUrls = pgTable("sitemap_urls", {
+  id: serial("id").primaryKey(),
+  scanId: integer("scan_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  url: varchar("url", { length: 2000 }).notNull(),
+  /** Sitemap file that listed the URL */
+  sitemapUrl: varchar("sitemap_url", { length: 2000 }).notNull(),
+  /** <lastmod> as written in the sitemap */
+  lastmod: varchar("lastmod", { length: 64 }),
+  /** Parsed <lastmod>, null when missing or invalid */
+  lastmodAt: timestamp("lastmod_at"),
+  /** HTTP status of the first response, null when not checked */
+  statusCode: integer("status_code"),
+  finalUrl: varchar("final_url", { length: 2000 }),
+  blockedByRobots: boolean("blocked_by_robots").default(false).notNull(),
+  /** Validation issue codes as JSON (e.g., ["invalid_lastmod", "redirect"]) */
+  issues: json("issues"),
+  /** Listed, allowed, and returned 200 without redirect */
+  indexable: boolean("indexable").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SitemapUrl = typeof sitemapUrls.$inferSelect;
+export type InsertSitemapUrl = typeof sitemapUrls.$inferInsert;
+
+/**
+ * SERP snapshots - top-100 organic results and SERP features for a tracked keyword per rank check
+ */
+export const serpSnapshots = pgTable("serp_snapshots", {
+  id: serial("id").primaryKey(),
+  keywordId: integer("keyword_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  /** Tracking profile the SERP was fetched for */
+  profileId: integer("profile_id"),
+  /** SERP provider that produced the snapshot (scraper, dataforseo, serpapi) */
+  provider: varchar("provider", { length: 32 }).notNull(),
+  /** Country code the SERP was fetched for */
+  location: varchar("location", { length: 16 }),
+  city: varchar("city", { length: 255 }),
+  language: varchar("language", { length: 16 }),
+  device: deviceEnum("device").default("desktop").notNull(),
+  /** Our organic position, null when not in the fetched results */
+  position: integer("position"),
+  /** Our URL that ranked for the keyword */
+  matchedUrl: varchar("matched_url", { length: 2000 }),
+  /** Result count shown by Google, if reported */
+  totalResults: decimal("total_results", { precision: 15, scale: 0 }),
+  /** Organic results as JSON: [{ position, url, domain, title }] */
+  results: json("results"),
+  /** Detected SERP features as JSON (featured_snippet, people_also_ask, ai_overview, ...) */
+  features: json("features"),
+  checkedAt: timestamp("checked_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SerpSnapshotRow = typeof serpSnapshots.$inferSelect;
+export type InsertSerpSnapshotRow = typeof serpSnapshots.$inferInsert;
+
+/**
+ * Competitor positions - competitor rankings read from the same SERP snapshot as our own
+ */
+export const competitorPositions = pgTable("competitor_positions", {
+  id: serial("id").primaryKey(),
+  snapshotId: integer("snapshot_id").notNull(),
+  keywordId: integer("keyword_id").notNull(),
+  profileId: integer("profile_id"),
+  /** Tracked domain the competitor belongs to */
+  domainId: integer("domain_id").notNull(),
+  competitorDomain: varchar("competitor_domain", { length: 255 }).notNull(),
+  /** Competitor's best organic position, null when not in the fetched results */
+  position: integer("position"),
+  url: varchar("url", { length: 2000 }),
+  checkedAt: timestamp("checked_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type CompetitorPosition = typeof competitorPositions.$inferSelect;
+export type InsertCompetitorPosition = typeof competitorPositions.$inferInsert;
+
+/**
+ * Visibility history - daily CTR-weighted visibility and share of voice for a tracked domain and its competitors
+ */
+export const visibilityHistory = pgTable("visibility_history", {
+  id: serial("id").primaryKey(),
+  /** Tracked domain the comparison belongs to */
+  domainId: integer("domain_id").notNull(),
+  /** Day of the index (UTC midnight) */
+  date: timestamp("date").notNull(),
+  /** Domain the row describes: the tracked domain itself or one of its competitors */
+  subjectDomain: varchar("subject_domain", { length: 255 }).notNull(),
+  isCompetitor: boolean("is_competitor").default(false).notNull(),
+  /** Expected CTR summed over tracked SERPs, relative to holding #1 everywhere (0-100) */
+  visibility: decimal("visibility", { precision: 6, scale: 2 }).notNull(),
+  /** Share of the expected clicks across all results of the tracked SERPs (0-100) */
+  shareOfVoice: decimal("share_of_voice", { precision: 6, scale: 2 }).notNull(),
+  /** Tracked SERPs where the domain ranked in the fetched results */
+  keywordsRanked: integer("keywords_ranked").default(0).notNull(),
+  /** Keyword/profile SERPs checked that day */
+  keywordsChecked: integer("keywords_checked").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type VisibilityHistory = typeof visibilityHistory.$inferSelect;
+export type InsertVisibilityHistory = typeof visibilityHistory.$inferInsert;
+
+/**
+ * Search Console backfill runs - day-by-day import of up to 16 months of performance data
+ */
+export const gscBackfillRuns = pgTable("gsc_backfill_runs", {
+  id: serial("id").primaryKey(),
+  domainId: integer("domain_id").notNull(),
+  status: statusEnum("status").default("pending").notNull(),
+  /** First day requested (UTC midnight) */
+  startDate: timestamp("start_date").notNull(),
+  /** Last day requested (UTC midnight) */
+  endDate: timestamp("end_date").notNull(),
+  /** Last day fully imported; the next run resumes the day after */
+  syncedThrough: timestamp("synced_through"),
+  daysSynced: integer("days_synced").default(0).notNull(),
+  /** keyword_history rows inserted or updated */
+  rowsUpserted: integer("rows_upserted").default(0).notNull(),
+  errorMessage: text("error_message"),
+  /** Queue job (sync_jobs) executing the run; retried or re-claimed after a worker stops mid-run */
+  jobId: integer("job_id"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type GscBackfillRun = typeof gscBackfillRuns.$inferSelect;
+export type InsertGscBackfillRun = typeof gscBackfillRuns.$inferInsert;
+
+/**
+ * AI citation checks - per-platform result of each LLM citation probe for a tracked domain
+ */
+export const aiCitationChecks = pgTable("ai_citation_checks", {
+  id: serial("id").primaryKey(),
+  domainId: integer("domain_id").notNull(),
+  /** chatgpt / perplexity / gemini */
+  platform: varchar("platform", { length: 32 }).notNull(),
+  /** Model the prompts were asked to; null for checks recorded before probing */
+  model: varchar("model", { length: 100 }),
+  /** % of answered prompts that mention or cite the domain (0-100) */
+  score: integer("score").notNull(),
+  /** Number of answers that mention the brand or domain */
+  mentions: integer("mentions").default(0).notNull(),
+  /** At least one answer cites a page on the domain */
+  cited: boolean("cited").default(false).notNull(),
+  sentiment: varchar("sentiment", { length: 16 }),
+  /** Recorded answers as JSON: [{ prompt, answer, citations, mentioned, cited, citationRank, contexts, error }] */
+  answers: json("answers"),
+  checkedAt: timestamp("checked_at").defaultNow().notNull(),
+});
+
+export type AiCitationCheck = typeof aiCitationChecks.$inferSelect;
+export type InsertAiCitationCheck = typeof aiCitationChecks.$inferInsert;
+
+/**
+ * Tracked prompts - natural-language questions asked to AI platforms on a schedule for a tracked domain
+ */
+export const trackedPrompts = pgTable("tracked_prompts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  prompt: text("prompt").notNull(),
+  /** Tags used to group prompts in reports, as JSON: string[] */
+  tags: json("tags"),
+  /** Platforms the prompt is asked on, as JSON: ["chatgpt", "perplexity", "gemini"]; empty asks every configured platform */
+  platforms: json("platforms"),
+  schedule: promptScheduleEnum("schedule").default("weekly").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type TrackedPrompt = typeof trackedPrompts.$inferSelect;
+export type InsertTrackedPrompt = typeof trackedPrompts.$inferInsert;
+
+/**
+ * Prompt runs - one answer of one AI platform to a tracked prompt
+ */
+export const promptRuns = pgTable("prompt_runs", {
+  id: serial("id").primaryKey(),
+  promptId: integer("prompt_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  /** chatgpt / perplexity / gemini */
+  platform: varchar("platform", { length: 32 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  /** Full answer text; empty when the request failed */
+  answer: text("answer").notNull(),
+  /** Cited sources in citation order as JSON: [{ url, title }] */
+  citations: json("citations"),
+  /** Brand name or domain appears in the answer */
+  mentioned: boolean("mentioned").default(false).notNull(),
+  /** A cited source is on the domain */
+  cited: boolean("cited").default(false).notNull(),
+  /** Order of our first mention among the brands mentioned (1 = mentioned first), null when not mentioned */
+  mentionPosition: integer("mention_position"),
+  /** 1-based position of the first citation on the domain */
+  citationRank: integer("citation_rank"),
+  /** Competitors mentioned or cited as JSON: [{ domain, mentionPosition, cited }] */
+  competitorMentions: json("competitor_mentions"),
+  /** positive / neutral / negative toward our brand, null when not mentioned */
+  sentiment: varchar("sentiment", { length: 16 }),
+  /** Sentences that mention the brand or domain, as JSON: string[] */
+  contexts: json("contexts"),
+  errorMessage: text("error_message"),
+  ranAt: timestamp("ran_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("prompt_runs_prompt_ran_at_idx").on(table.promptId, table.ranAt),
+  index("prompt_runs_domain_ran_at_idx").on(table.domainId, table.ranAt),
+]);
+
+export type PromptRun = typeof promptRuns.$inferSelect;
+export type InsertPromptRun = typeof promptRuns.$inferInsert;
+
+/**
+ * Alert rules - user-defined conditions evaluated after each sync
+ */
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  /** Restrict the rule to one domain; null applies it to all of the user's domains */
+  domainId: integer("domain_id"),
+  ruleType: alertRuleTypeEnum("rule_type").notNull(),
+  /**
+   * position_drop: places lost, ctr_collapse: % drop vs the 7-day baseline,
+   * cwv_regression: % worse than the previous test, lost_ai_citation: score points lost,
+   * budget_violation: consecutive tests over the budget limit
+   */
+  threshold: decimal("threshold", { precision: 10, scale: 2 }).notNull(),
+  severity: severityEnum("severity").default("warning").notNull(),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  lastTriggeredAt: timestamp("last_triggered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = typeof alertRules.$inferInsert;
+
+/**
+ * Alerts - history of triggered alert rules
+ */
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  ruleId: integer("rule_id").notNull(),
+  domainId: integer("domain_id").notNull(),
+  keywordId: integer("keyword_id"),
+  ruleType: alertRuleTypeEnum("rule_type").notNull(),
+  severity: severityEnum("severity").notNull(),
+  title: varchar("title", { length: 255 }).notNull(),
+  message: text("message").notNull(),
+  /** Values that triggered the alert (before/after, URL, metric, ...) */
+  data: json("data"),
+  /** Identifies the triggering event so re-evaluating the same data does not duplicate alerts */
+  fingerprint: varchar("fingerprint", { length: 255 }).notNull(),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  /** Hidden from the alert list until this time */
+  snoozedUntil: timestamp("snoozed_until"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("alerts_rule_fingerprint_idx").on(table.ruleId, table.fingerprint),
+]);
+
+export type AlertRow = typeof alerts.$inferSelect;
+export type InsertAlertRow = typeof alerts.$inferInsert;
+
+/**
+ * Notification channels - per-user delivery targets for alerts
+ */
+export const notificationChannels = pgTable("notification_channels", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  channelType: notificationChannelTypeEnum("channel_type").notNull(),
+  /**
+   * email: { host, port, secure, username, password, from, to[] },
+   * slack / teams: { webhookUrl }, webhook: { url, secret }
+   */
+  config: json("config").notNull(),
+  /** Alerts below this severity are not delivered */
+  minSeverity: severityEnum("min_severity").default("warning").notNull(),
+  /** Alert rule types delivered to the channel; null delivers every type */
+  ruleTypes: json("rule_types"),
+  /** Message body template with {{placeholders}}; null uses the channel default */
+  template: text("template"),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+export type InsertNotificationChannel = typeof notificationChannels.$inferInsert;
+
+/**
+ * Alert deliveries - log of every alert, digest or test message sent to a notification channel
+ */
+export const alertDeliveries = pgTable("alert_deliveries", {
+  id: serial("id").primaryKey(),
+  /** Null for digests and test messages */
+  alertId: integer("alert_id"),
+  /** Set when a digest report was delivered */
+  digestReportId: integer("digest_report_id"),
+  channelId: integer("channel_id").notNull(),
+  status: deliveryStatusEnum("status").notNull(),
+  /** Attempts made including retries */
+  attempts: integer("attempts").notNull(),
+  /** HTTP status of the last webhook attempt */
+  responseStatus: integer("response_status"),
+  errorMessage: text("error_message"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AlertDelivery = typeof alertDeliveries.$inferSelect;
+export type InsertAlertDelivery = typeof alertDeliveries.$inferInsert;
+
+/**
+ * Digest settings - per-user cadence and send time of the summary report
+ */
+export const digestSettings = pgTable("digest_settings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  cadence: digestCadenceEnum("cadence").default("off").notNull(),
+  /** Local hour the digest is sent at (0-23) */
+  sendHour: integer("send_hour").default(9).notNull(),
+  /** Local weekday of weekly digests (0 = Sunday) */
+  sendWeekday: integer("send_weekday").default(1).notNull(),
+  /** IANA timezone the send time is interpreted in */
+  timezone: varchar("timezone", { length: 64 }).default("Asia/Tokyo").notNull(),
+  /** Add an LLM-written executive summary */
+  includeAiSummary: boolean("include_ai_summary").default(false).notNull(),
+  /** Notification channels to send to; null sends to every enabled channel */
+  channelIds: json("channel_ids"),
+  lastSentAt: timestamp("last_sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type DigestSettings = typeof digestSettings.$inferSelect;
+export type InsertDigestSettings = typeof digestSettings.$inferInsert;
+
+/**
+ * Digest reports - generated daily / weekly summaries
+ */
+export const digestReports = pgTable("digest_reports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  cadence: digestCadenceEnum("cadence").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  markdown: text("markdown").notNull(),
+  html: text("html").notNull(),
+  /** LLM-written executive summary, when enabled */
+  summary: text("summary"),
+  /** Structured digest data (movers, deltas, CWV changes, alerts) */
+  data: json("data"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type DigestReport = typeof digestReports.$inferSelect;
+export type InsertDigestReport = typeof digestReports.$inferInsert;
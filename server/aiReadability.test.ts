@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { analyzeAIReadability, parseLlmsTxt } from "./services/aiReadability";
+
+const article = `<!doctype html>
+<html><head>
+<title>Guide</title>
+<meta name="author" content="Meta Author">
+<meta property="article:modified_time" content="2024-05-03">
+<script type="application/ld+json">
+{"@context":"https://schema.org","@graph":[
+  {"@type":"Article","headline":"Guide","author":{"@type":"Person","name":"Hanako Yamada"},"datePublished":"2024-05-01"},
+  {"@type":"BreadcrumbList","itemListElement":[]}
+]}
+</script>
+<script type="application/ld+json">{ broken</script>
+</head><body>
+<header><nav><ul><li><a href="/">Home</a></li></ul></nav></header>
+<main><article>
+<h1>Setup guide</h1>
+<h2>Installation steps</h2>
+<ol><li>Download</li><li>Install</li><li>Run</li></ol>
+<h4>What does it cost?</h4>
+<p>Nothing.</p>
+<table><tr><td>a</td></tr></table>
+</article></main>
+<footer>© Example</footer>
+</body></html>`;
+
+describe("parseLlmsTxt", () => {
+  it("reads the site name, summary, sections and links", () => {
+    const status = parseLlmsTxt("# Example\n\n> An example site\n\n## Docs\n- [Guide](https://example.com/guide): setup\n- [API](https://example.com/api)\n", "https://example.com/llms.txt");
+    expect(status).toEqual({ url: "https://example.com/llms.txt", found: true, title: "Example", summary: "An example site", sections: 1, links: 2 });
+  });
+});
+
+describe("analyzeAIReadability", () => {
+  it("returns sub-scores with the elements found and missing", () => {
+    const audit = analyzeAIReadability(article);
+    const sub = (key: string) => audit.subScores!.find(s => s.key === key)!;
+
+    expect(sub("structuredData")).toMatchObject({
+      score: 100,
+      missing: ["JSON-LDの構文エラー（1件）"],
+    });
+    expect(sub("structuredData").found[0]).toBe("JSON-LD: Article, Person, BreadcrumbList");
+    expect(sub("headingOutline").score).toBe(90);
+    expect(sub("headingOutline").missing).toEqual(["見出しレベルの飛ばし: H2→H4「What does it cost?」"]);
+    expect(sub("landmarks").score).toBe(100);
+    expect(sub("answerBlocks").found).toEqual(["質問形式の見出し × 1（「What does it cost?」など）", "手順リスト × 1（「Installation steps」）"]);
+    expect(sub("answerBlocks").score).toBe(60);
+    // ナビゲーション内のリストは数えない
+    expect(sub("listsAndTables").found).toEqual(["リスト × 1（項目 3）", "表 × 1"]);
+    expect(sub("authorship").found).toEqual([
+      "著者: Hanako Yamada（JSON-LD）",
+      "公開日: 2024-05-01（JSON-LD）",
+      "更新日: 2024-05-03（meta article:modified_time）",
+    ]);
+    expect(audit.subScores!.some(s => s.key === "llmsTxt")).toBe(false);
+  });
+
+  it("scores llms.txt only when its status is known", () => {
+    const missing = { url: "https://example.com/llms.txt", found: false, title: null, summary: null, sections: 0, links: 0 };
+    const withLlms = analyzeAIReadability(article, { llmsTxt: missing });
+
+    expect(withLlms.subScores!.find(s => s.key === "llmsTxt")).toMatchObject({ score: 0, missing: ["https://example.com/llms.txt"] });
+    expect(withLlms.overallScore).toBeLessThan(analyzeAIReadability(article).overallScore);
+    expect(withLlms.recommendations[0]).toBe("サイトの概要と主要ページを示す/llms.txtを公開してください");
+  });
+});
@@ -0,0 +1,194 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer as createHttpServer, type IncomingMessage, type Server } from "http";
+import { createServer as createTcpServer, type Server as TcpServer } from "net";
+import type { AddressInfo } from "net";
+import {
+  deliverDigestToChannel,
+  deliverToChannel,
+  meetsSeverity,
+  renderTemplate,
+  signWebhookPayload,
+  toSlackMrkdwn,
+  type AlertMessage,
+} from "./services/alertDelivery";
+import { sendSmtpMail } from "./services/smtpClient";
+
+const alert: AlertMessage = {
+  id: 42,
+  ruleType: "position_drop",
+  severity: "critical",
+  title: "1ページ目から下落",
+  message: "「料金」が9位から11位に下落しました（SERP）",
+  domain: "example.com",
+  data: { previous: 9, current: 11 },
+  createdAt: new Date("2024-05-01T00:00:00Z"),
+};
+
+let http: Server;
+let baseUrl: string;
+const requests: Array<{ path: string; headers: IncomingMessage["headers"]; body: string }> = [];
+let flakyCalls = 0;
+
+beforeAll(async () => {
+  http = createHttpServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      requests.push({ path: req.url || "", headers: req.headers, body });
+      if (req.url === "/flaky" && flakyCalls++ === 0) {
+        res.writeHead(503);
+        res.end("unavailable");
+      } else if (req.url === "/rejected") {
+        res.writeHead(400);
+        res.end("invalid_payload");
+      } else {
+        res.writeHead(200);
+        res.end("ok");
+      }
+    });
+  });
+  await new Promise<void>(resolve => http.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => http.close(resolve));
+});
+
+describe("templates", () => {
+  it("fills placeholders and keeps unknown ones", () => {
+    expect(renderTemplate("[{{severityLabel}}] {{ title }} {{domain}} {{unknown}}", alert))
+      .toBe("[重大] 1ページ目から下落 example.com {{unknown}}");
+  });
+
+  it("orders severities", () => {
+    expect(meetsSeverity("critical", "warning")).toBe(true);
+    expect(meetsSeverity("info", "warning")).toBe(false);
+  });
+});
+
+describe("deliverToChannel", () => {
+  it("retries transient webhook failures with backoff", async () => {
+    requests.length = 0;
+    const result = await deliverToChannel(
+      { channelType: "slack", config: { webhookUrl: `${baseUrl}/flaky` }, template: "{{title}}: {{message}}" },
+      alert,
+      { baseDelayMs: 1 }
+    );
+
+    expect(result).toMatchObject({ status: "sent", attempts: 2, responseStatus: 200 });
+    expect(JSON.parse(requests[1].body)).toMatchObject({
+      text: "1ページ目から下落: 「料金」が9位から11位に下落しました（SERP）",
+      attachments: [{ color: "#ef4444" }],
+    });
+  });
+
+  it("does not retry client errors", async () => {
+    requests.length = 0;
+    const result = await deliverToChannel(
+      { channelType: "teams", config: { webhookUrl: `${baseUrl}/rejected` }, template: null },
+      alert,
+      { baseDelayMs: 1 }
+    );
+
+    expect(result).toMatchObject({ status: "failed", attempts: 1, responseStatus: 400 });
+    expect(result.error).toContain("invalid_payload");
+    expect(JSON.parse(requests[0].body)).toMatchObject({ "@type": "MessageCard", title: "[重大] 1ページ目から下落" });
+  });
+
+  it("signs generic webhooks", async () => {
+    requests.length = 0;
+    const secret = "0123456789abcdef";
+    await deliverToChannel({ channelType: "webhook", config: { url: `${baseUrl}/hook`, secret }, template: null }, alert);
+
+    const { headers, body } = requests[0];
+    const timestamp = Number(headers["x-nexus-timestamp"]);
+    expect(headers["x-nexus-event"]).toBe("alert.created");
+    expect(headers["x-nexus-signature"]).toBe(`sha256=${signWebhookPayload(secret, timestamp, body)}`);
+    expect(JSON.parse(body).alert).toMatchObject({ id: 42, severity: "critical", domain: "example.com" });
+  });
+});
+
+describe("deliverDigestToChannel", () => {
+  const digest = { id: 7, subject: "週次ダイジェスト", markdown: "## トラフィック\n- **example.com**: +10%", html: "<h2>トラフィック</h2>", data: {} };
+
+  it("converts Markdown for Slack", async () => {
+    requests.length = 0;
+    await deliverDigestToChannel({ channelType: "slack", config: { webhookUrl: `${baseUrl}/digest` } }, digest);
+    expect(JSON.parse(requests[0].body).text).toBe(toSlackMrkdwn(digest.markdown));
+    expect(toSlackMrkdwn(digest.markdown)).toBe("*トラフィック*\n- *example.com*: +10%");
+  });
+
+  it("sends signed digest events to webhooks", async () => {
+    requests.length = 0;
+    await deliverDigestToChannel({ channelType: "webhook", config: { url: `${baseUrl}/hook`, secret: "0123456789abcdef" } }, digest);
+    expect(requests[0].headers["x-nexus-event"]).toBe("digest.created");
+    expect(JSON.parse(requests[0].body).digest).toMatchObject({ id: 7, subject: "週次ダイジェスト" });
+  });
+});
+
+describe("sendSmtpMail", () => {
+  let smtp: TcpServer;
+  let port: number;
+  const commands: string[] = [];
+  let data = "";
+
+  beforeAll(async () => {
+    smtp = createTcpServer(socket => {
+      let buffer = "";
+      let inData = false;
+      socket.write("220 mock ESMTP\r\n");
+      socket.on("data", chunk => {
+        buffer += chunk.toString("utf8");
+        let index: number;
+        while ((index = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 queued\r\n");
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith("EHLO")) socket.write("250-mock\r\n250 AUTH PLAIN\r\n");
+          else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+          else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") socket.end("221 bye\r\n");
+          else socket.write("250 ok\r\n");
+        }
+      });
+    });
+    await new Promise<void>(resolve => smtp.listen(0, "127.0.0.1", resolve));
+    port = (smtp.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => smtp.close(resolve));
+  });
+
+  it("authenticates and sends a UTF-8 message", async () => {
+    await sendSmtpMail(
+      { host: "127.0.0.1", port, secure: false, username: "seo", password: "pw", from: "alerts@example.com", to: ["oncall@example.com", "seo@example.com"] },
+      { subject: "[重大] 1ページ目から下落", text: ".先頭のドット\n本文" }
+    );
+
+    expect(commands).toEqual([
+      "EHLO example.com",
+      `AUTH PLAIN ${Buffer.from("\u0000seo\u0000pw").toString("base64")}`,
+      "MAIL FROM:<alerts@example.com>",
+      "RCPT TO:<oncall@example.com>",
+      "RCPT TO:<seo@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(data).toContain(`Subject: =?UTF-8?B?${Buffer.from("[重大] 1ページ目から下落").toString("base64")}?=`);
+    const body = data.split("\r\n\r\n")[1].replace(/\r\n/g, "");
+    expect(Buffer.from(body, "base64").toString("utf8")).toBe(".先頭のドット\n本文");
+  });
+});
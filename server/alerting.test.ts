@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  CTR_MIN_IMPRESSIONS,
+  detectBudgetViolations,
+  detectCtrCollapse,
+  detectCwvRegressions,
+  detectLostCitations,
+  detectPositionDrops,
+} from "./services/alerting";
+
+const day = (n: number) => new Date(Date.UTC(2024, 4, n));
+
+describe("detectPositionDrops", () => {
+  it("reports drops past the threshold, off page one and out of the results", () => {
+    const candidates = detectPositionDrops([
+      { keywordId: 1, keyword: "seo ツール", source: "search_console", measurementKey: "2024-05-02", previous: 3.24, current: 9.1 },
+      { keywordId: 2, keyword: "順位チェック", source: "search_console", measurementKey: "2024-05-02", previous: 4, current: 6 },
+      { keywordId: 3, keyword: "被リンク", source: "serp", measurementKey: "77", previous: 8, current: null, profileLabel: "JP / mobile" },
+      { keywordId: 4, keyword: "新規", source: "serp", measurementKey: "78", previous: null, current: 50 },
+      { keywordId: 5, keyword: "料金", source: "serp", measurementKey: "79", previous: 9, current: 11 },
+    ], 5);
+
+    expect(candidates.map(c => c.keywordId)).toEqual([1, 3, 5]);
+    expect(candidates.map(c => c.title)).toEqual(["順位下落", "1ページ目から下落", "1ページ目から下落"]);
+    expect(candidates[0]).toMatchObject({
+      fingerprint: "position:search_console:1:2024-05-02",
+      message: "「seo ツール」が3.2位から9.1位に下落しました（Search Console）",
+    });
+    expect(candidates[1].message).toBe("「被リンク」が8位から圏外に下落しました（SERP（JP / mobile））");
+  });
+});
+
+describe("detectCtrCollapse", () => {
+  const baseline = [1, 2, 3, 4, 5, 6, 7].map(n => ({ date: day(n), clicks: 50, impressions: 1000 }));
+
+  it("compares the latest day with the impression-weighted baseline", () => {
+    const candidates = detectCtrCollapse([
+      { keywordId: null, label: "サイト全体", days: [...baseline, { date: day(8), clicks: 20, impressions: 1000 }] },
+      { keywordId: 5, label: "「seo」", days: [...baseline, { date: day(8), clicks: 40, impressions: 1000 }] },
+    ], 50);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({ fingerprint: "ctr:domain:2024-05-08", keywordId: null });
+    expect(candidates[0].data).toMatchObject({ baselineCtr: 5, currentCtr: 2, dropPercent: 60 });
+  });
+
+  it("needs enough impressions and baseline days", () => {
+    expect(detectCtrCollapse([
+      { keywordId: 1, label: "a", days: [...baseline, { date: day(8), clicks: 0, impressions: CTR_MIN_IMPRESSIONS - 1 }] },
+      { keywordId: 2, label: "b", days: [...baseline.slice(0, 2), { date: day(8), clicks: 0, impressions: 1000 }] },
+    ], 50)).toEqual([]);
+  });
+});
+
+describe("detectCwvRegressions", () => {
+  const test = (id: number, metrics: { lcp: number; cls: number; tbt: number; fcp: number }) =>
+    ({ id, url: "https://example.com/", strategy: "mobile" as const, date: day(id), ...metrics });
+
+  it("reports metrics that got worse past the threshold and out of the good range", () => {
+    const candidates = detectCwvRegressions([{
+      previous: test(1, { lcp: 2400, cls: 50, tbt: 100, fcp: 1000 }),
+      current: test(2, { lcp: 3600, cls: 90, tbt: 400, fcp: 1100 }),
+    }], 20);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].fingerprint).toBe("cwv:2");
+    expect(candidates[0].message).toMatch(/^https:\/\/example\.com\/（モバイル）で LCP 2400→3600/);
+    expect((candidates[0].data.regressions as Array<{ metric: string }>).map(r => r.metric)).toEqual(["LCP", "TBT"]);
+  });
+});
+
+describe("detectBudgetViolations", () => {
+  const violation = (id: number) => ({
+    id,
+    budgetName: "商品ページ",
+    violations: [{ metric: "lcp" as const, label: "LCP", limit: 2500, actual: 3100, overPercent: 24 }],
+  });
+  const test = (testId: number, url: string, violationId: number | null) =>
+    ({ testId, url, strategy: "mobile" as const, date: day(testId), violation: violationId !== null ? violation(violationId) : null });
+
+  it("reports URLs whose latest tests violate their budget the given number of times in a row", () => {
+    const tests = [
+      test(1, "https://example.com/a", null),
+      test(2, "https://example.com/a", 11),
+      test(3, "https://example.com/a", 12),
+      test(1, "https://example.com/b", 21),
+      test(2, "https://example.com/b", 22),
+      test(3, "https://example.com/b", null),
+      test(3, "https://example.com/c", 31),
+    ];
+
+    expect(detectBudgetViolations(tests, 2).map(c => c.fingerprint)).toEqual(["budget:12"]);
+    const candidates = detectBudgetViolations(tests, 1);
+    expect(candidates.map(c => [c.data.url, c.fingerprint])).toEqual([
+      ["https://example.com/a", "budget:12"],
+      ["https://example.com/c", "budget:31"],
+    ]);
+    expect(candidates[0].message).toBe("https://example.com/a（モバイル）が予算「商品ページ」を超過: LCP 3100ms（上限 2500ms）（2回連続）");
+  });
+});
+
+describe("detectLostCitations", () => {
+  it("reports platforms that stopped citing or lost score", () => {
+    const candidates = detectLostCitations([
+      { previous: { id: 1, platform: "chatgpt", score: 60, cited: true }, current: { id: 4, platform: "chatgpt", score: 55, cited: false } },
+      { previous: { id: 2, platform: "perplexity", score: 70, cited: true }, current: { id: 5, platform: "perplexity", score: 45, cited: true } },
+      { previous: { id: 3, platform: "gemini", score: 40, cited: false }, current: { id: 6, platform: "gemini", score: 35, cited: false } },
+    ], 20);
+
+    expect(candidates.map(c => [c.fingerprint, c.title])).toEqual([
+      ["citation:4", "AI引用の消失"],
+      ["citation:5", "AI可視性の低下"],
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { detectCannibalization } from "./services/cannibalization";
+
+const day = (n: number) => new Date(Date.UTC(2024, 4, n));
+const row = (query: string, page: string, date: Date, impressions: number, clicks: number, position: number) =>
+  ({ query, page, date, impressions, clicks, position });
+
+describe("detectCannibalization", () => {
+  it("flags queries where our URLs split impressions and suggests the URL with most clicks", () => {
+    const findings = detectCannibalization([
+      row("seo ツール", "https://ex.jp/tools", day(1), 300, 12, 4.2),
+      row("seo ツール", "https://ex.jp/blog/seo-tools", day(1), 200, 20, 6.1),
+      row("seo ツール", "https://ex.jp/about", day(1), 10, 0, 40),
+    ]);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      query: "seo ツール",
+      reasons: ["split_impressions"],
+      totalImpressions: 510,
+      suggestedPrimaryUrl: "https://ex.jp/blog/seo-tools",
+    });
+    expect(findings[0].pages.map(p => p.url)).toEqual(["https://ex.jp/tools", "https://ex.jp/blog/seo-tools"]);
+    expect(findings[0].pages[0].impressionShare).toBe(58.8);
+  });
+
+  it("flags URLs swapping the top position over time", () => {
+    const findings = detectCannibalization([
+      row("順位 チェック", "https://ex.jp/a", day(1), 100, 5, 3),
+      row("順位 チェック", "https://ex.jp/b", day(1), 8, 0, 9),
+      row("順位 チェック", "https://ex.jp/a", day(8), 100, 5, 8),
+      row("順位 チェック", "https://ex.jp/b", day(8), 6, 0, 5),
+      row("順位 チェック", "https://ex.jp/a", day(15), 100, 5, 3),
+    ]);
+
+    expect(findings[0].reasons).toEqual(["position_swaps"]);
+    expect(findings[0].leaderSwaps).toBe(2);
+    expect(findings[0].pages.find(p => p.url === "https://ex.jp/b")?.periodsLeading).toBe(1);
+  });
+
+  it("ignores single-URL and low-impression queries", () => {
+    expect(detectCannibalization([
+      row("one", "https://ex.jp/a", day(1), 500, 10, 2),
+      row("tiny", "https://ex.jp/a", day(1), 5, 0, 2),
+      row("tiny", "https://ex.jp/b", day(1), 5, 0, 3),
+    ])).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  brandTermsForDomain,
+  detectBrandMention,
+  extractAnswerUrls,
+  GeminiProbeAdapter,
+  OpenAICompatibleProbeAdapter,
+  PerplexityProbeAdapter,
+  runCitationProbes,
+  type CitationProbeAdapter,
+} from "./services/citationProbe";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", "citations", name), "utf8");
+const responses: Record<string, string> = {
+  "/openai/v1/chat/completions": fixture("openai-chat-completion.json"),
+  "/perplexity/chat/completions": fixture("perplexity-chat-completion.json"),
+  "/gemini/v1beta/models/gemini-2.5-flash:generateContent": fixture("gemini-generate-content.json"),
+};
+
+let server: Server;
+let baseUrl: string;
+const requests: Array<{ path: string; headers: IncomingMessage["headers"]; body: string }> = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      requests.push({ path: req.url || "", headers: req.headers, body });
+      const response = responses[req.url || ""];
+      if (req.headers.authorization === "Bearer bad") {
+        res.writeHead(401, { "content-type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "Incorrect API key provided" } }));
+      } else if (response) {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(response);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const target = { domain: "nexus-seo.example", brandTerms: brandTermsForDomain("nexus-seo.example") };
+
+describe("CitationProbe adapters", () => {
+  const adapters = (): CitationProbeAdapter[] => [
+    new OpenAICompatibleProbeAdapter({ apiKey: "key", baseUrl: `${baseUrl}/openai/v1` }),
+    new PerplexityProbeAdapter({ apiKey: "key", baseUrl: `${baseUrl}/perplexity` }),
+    new GeminiProbeAdapter({ apiKey: "key", baseUrl: `${baseUrl}/gemini/v1beta` }),
+  ];
+
+  it("records the answer text and cited sources of each platform", async () => {
+    const [openai, perplexity, gemini] = await Promise.all(adapters().map(adapter => adapter.ask("順位チェックツールのおすすめは？")));
+
+    expect(openai.answer).toContain("Search ConsoleとSERPのデータを組み合わせて");
+    expect(openai.citations).toEqual([
+      { url: "https://www.nexus-seo.example/tools/rank?utm_source=openai", title: "順位トラッキング | Nexus SEO" },
+      { url: "https://www.gyro-n.com/seo/rank-checker/?utm_source=openai", title: "無料の検索順位チェックツール｜GyroSEO" },
+    ]);
+
+    expect(perplexity.citations.map(source => source.url)).toEqual([
+      "https://www.gyro-n.com/seo/rank-checker/",
+      "https://seopack.jp/seoanalysis/",
+    ]);
+    expect(perplexity.citations[1].title).toBe("SEOチェキ！ 無料で使えるSEOツール");
+
+    expect(gemini.answer).toBe("検索順位を継続的に追跡するには、専用のツールを使うのが一般的です。たとえばnexus-seo.exampleでは、Search Consoleのデータと実際の検索結果を組み合わせて順位の推移を確認できます。GRCのようなデスクトップツールも根強い人気があります。");
+    expect(gemini.citations.map(source => source.title)).toEqual(["seopack.jp", "nexus-seo.example"]);
+  });
+
+  it("sends the prompt, model and credentials the way each API expects", async () => {
+    requests.length = 0;
+    for (const adapter of adapters()) {
+      await adapter.ask("seo tools");
+    }
+
+    expect(requests[0].headers.authorization).toBe("Bearer key");
+    expect(JSON.parse(requests[0].body)).toEqual({ model: "gpt-4o-search-preview", messages: [{ role: "user", content: "seo tools" }] });
+    expect(JSON.parse(requests[1].body).model).toBe("sonar");
+    expect(requests[2].headers["x-goog-api-key"]).toBe("key");
+    expect(JSON.parse(requests[2].body)).toEqual({
+      contents: [{ role: "user", parts: [{ text: "seo tools" }] }],
+      tools: [{ google_search: {} }],
+    });
+  });
+
+  it("surfaces API errors", async () => {
+    await expect(new OpenAICompatibleProbeAdapter({ apiKey: "bad", baseUrl: `${baseUrl}/openai/v1` }).ask("seo"))
+      .rejects.toThrow("401");
+    await expect(new GeminiProbeAdapter({ apiKey: "key", baseUrl: `${baseUrl}/gemini/v1beta`, model: "missing" }).ask("seo"))
+      .rejects.toThrow("404");
+  });
+});
+
+describe("detectBrandMention", () => {
+  it("matches the brand and domain in the text and ranks citations on the domain", () => {
+    const mention = detectBrandMention({
+      answer: "おすすめはGyroSEOです。Nexus SEOも人気があります。",
+      citations: [
+        { url: "https://www.gyro-n.com/", title: null },
+        { url: "https://blog.nexus-seo.example/rank", title: null },
+      ],
+    }, target);
+
+    expect(mention).toEqual({
+      mentioned: true,
+      cited: true,
+      citationRank: 2,
+      mentionOffset: "おすすめはGyroSEOです。".length,
+      contexts: ["Nexus SEOも人気があります。"],
+    });
+  });
+
+  it("resolves grounding redirect URLs by their title and ignores look-alike names", () => {
+    const mention = detectBrandMention({
+      answer: "mynexus-seo.example.net is a different site.",
+      citations: [{ url: "https://vertexaisearch.cloud.google.com/grounding-api-redirect/abc", title: "nexus-seo.example" }],
+    }, target);
+
+    expect(mention.mentioned).toBe(false);
+    expect(mention.cited).toBe(true);
+    expect(mention.citationRank).toBe(1);
+  });
+
+  it("derives brand terms from the registrable label", () => {
+    expect(brandTermsForDomain("www.nexus-seo.co.jp")).toEqual(["nexus-seo.co.jp", "nexus-seo", "nexus seo", "nexusseo"]);
+    expect(brandTermsForDomain("shop.example.com", ["エグザンプル"])).toEqual(["shop.example.com", "example", "エグザンプル"]);
+  });
+
+  it("extracts bare and Markdown URLs from answers without citation metadata", () => {
+    expect(extractAnswerUrls("詳しくは[公式](https://nexus-seo.example/docs)や https://gyro-n.com/seo/。を参照")).toEqual([
+      { url: "https://nexus-seo.example/docs", title: "公式" },
+      { url: "https://gyro-n.com/seo/", title: null },
+    ]);
+  });
+});
+
+describe("runCitationProbes", () => {
+  it("scores platforms from the answers that mention or cite the domain and keeps failed requests", async () => {
+    const report = await runCitationProbes(target, ["順位チェックツールのおすすめは？"], [
+      new OpenAICompatibleProbeAdapter({ apiKey: "key", baseUrl: `${baseUrl}/openai/v1` }),
+      new PerplexityProbeAdapter({ apiKey: "key", baseUrl: `${baseUrl}/perplexity` }),
+      new GeminiProbeAdapter({ apiKey: "bad", baseUrl: `${baseUrl}/gemini/v1beta`, model: "missing" }),
+    ]);
+
+    expect(report.platforms.map(platform => [platform.platform, platform.score])).toEqual([
+      ["chatgpt", 100],
+      ["perplexity", 0],
+      ["gemini", null],
+    ]);
+    expect(report.platforms[0].answers[0]).toMatchObject({ mentioned: true, cited: true, citationRank: 1, error: null });
+    expect(report.platforms[2].answers[0].error).toContain("404");
+    expect(report.overallVisibility).toBe(50);
+  });
+});
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { crawlSite } from "./services/siteCrawler";
+import { isAllowedByRobots, parseRobotsTxt } from "./services/robotsTxt";
+
+const pages: Record<string, string> = {
+  "/": `<html><head><title>Home</title><meta name="description" content="Top page"></head>
+    <body><h1>Welcome</h1><a href="/about">About</a><a href="/blog/">Blog</a>
+    <a href="/private/secret">Secret</a><a href="https://external.example/">Ext</a>
+    <a href="/moved">Moved</a><a href="/broken">Broken</a>
+    <img src="/a.png"><img src="/b.png" alt="B"></body></html>`,
+  "/about": `<html><head><title>About</title><link rel="canonical" href="/about"></head>
+    <body><h1>About us</h1><h2>Team</h2><p>We build SEO tools for teams.</p><a href="/old">Old</a><a href="/retired">Retired</a></body></html>`,
+  "/blog/": `<html><head><title>Blog</title></head><body><a href="/blog/post-1">Post</a><a href="/landing">Landing</a></body></html>`,
+  "/blog/post-1": `<html><head><title>Post 1</title></head><body><a href="/blog/post-2">Next</a></body></html>`,
+  "/private/secret": `<html><head><title>Secret</title></head><body></body></html>`,
+  "/landing": `<html><head><title>Landing</title></head><body></body></html>`,
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = req.url || "/";
+    if (path === "/robots.txt") {
+      res.writeHead(200, { "content-type": "text/plain" });
+      res.end("User-agent: *\nDisallow: /private/\n");
+      return;
+    }
+    if (path === "/old") {
+      res.writeHead(301, { location: "/about" });
+      res.end();
+      return;
+    }
+    if (path === "/retired") {
+      res.writeHead(301, { location: "/missing" });
+      res.end();
+      return;
+    }
+    if (path === "/moved") {
+      res.writeHead(301, { location: "/landing" });
+      res.end();
+      return;
+    }
+    if (path === "/broken") {
+      // 本文の途中で接続を切る
+      res.writeHead(200, { "content-type": "text/html", "content-length": "1000" });
+      res.write("<html><head><title>Broken");
+      setTimeout(() => res.destroy(), 10);
+      return;
+    }
+    const body = pages[path];
+    if (!body) {
+      res.writeHead(404, { "content-type": "text/html" });
+      res.end("<html><title>Not found</title></html>");
+      return;
+    }
+    res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+    res.end(body);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("robotsTxt", () => {
+  it("applies the longest matching rule", () => {
+    const robots = parseRobotsTxt(
+      "User-agent: *\nDisallow: /shop/\nAllow: /shop/public\n\nUser-agent: OtherBot\nDisallow: /\nSitemap: https://example.com/sitemap.xml"
+    );
+
+    expect(robots.sitemaps).toEqual(["https://example.com/sitemap.xml"]);
+    expect(isAllowedByRobots(robots, "https://example.com/shop/cart", "NexusSEOBot")).toBe(false);
+    expect(isAllowedByRobots(robots, "https://example.com/shop/public/item", "NexusSEOBot")).toBe(true);
+    expect(isAllowedByRobots(robots, "https://example.com/", "OtherBot/2.0")).toBe(false);
+  });
+});
+
+describe("crawlSite", () => {
+  it("crawls internal links breadth-first and respects robots.txt", async () => {
+    const result = await crawlSite(baseUrl, { maxDepth: 2, maxPages: 50, concurrency: 2 });
+    const urls = result.pages.map(p => new URL(p.url).pathname);
+
+    expect(urls).toContain("/");
+    expect(urls).toContain("/about");
+    expect(urls).toContain("/blog/post-1");
+    // depth 3 is beyond maxDepth
+    expect(urls).not.toContain("/blog/post-2");
+    expect(urls).not.toContain("/private/secret");
+    expect(result.blockedByRobots.map(u => new URL(u).pathname)).toEqual(["/private/secret"]);
+
+    const home = result.pages.find(p => new URL(p.url).pathname === "/")!;
+    expect(home.title).toBe("Home");
+    expect(home.metaDescription).toBe("Top page");
+    expect(home.headings).toEqual([{ level: 1, text: "Welcome" }]);
+    expect(home.imageCount).toBe(2);
+    expect(home.imagesMissingAlt).toBe(1);
+    expect(home.outlinks.find(l => l.url === "https://external.example/")?.internal).toBe(false);
+
+    const old = result.pages.find(p => new URL(p.url).pathname === "/old")!;
+    expect(old.statusCode).toBe(301);
+    expect(old.finalStatusCode).toBe(200);
+    expect(old.redirectChain).toHaveLength(1);
+    expect(new URL(old.finalUrl).pathname).toBe("/about");
+
+    // 301 → 404
+    const retired = result.pages.find(p => new URL(p.url).pathname === "/retired")!;
+    expect(retired.statusCode).toBe(301);
+    expect(retired.finalStatusCode).toBe(404);
+  });
+
+  it("records body read failures per page and does not refetch redirect targets", async () => {
+    const result = await crawlSite(baseUrl, { maxDepth: 2, maxPages: 50, concurrency: 1 });
+    const urls = result.pages.map(p => new URL(p.url).pathname);
+
+    const broken = result.pages.find(p => new URL(p.url).pathname === "/broken")!;
+    expect(broken.statusCode).toBe(200);
+    expect(broken.fetchError).toBeTruthy();
+    expect(broken.title).toBeNull();
+
+    expect(urls).toContain("/moved");
+    expect(urls).not.toContain("/landing");
+  });
+
+  it("stops at the page cap", async () => {
+    const result = await crawlSite(baseUrl, { maxDepth: 5, maxPages: 2, concurrency: 1 });
+    expect(result.pages).toHaveLength(2);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  isDigestDue,
+  latestScheduledSend,
+  renderDigestHtml,
+  renderDigestMarkdown,
+  resolveDigestPeriod,
+  searchConsoleDigestPeriod,
+  summarizeCwvChanges,
+  summarizeDomainDeltas,
+  summarizeKeywordMovers,
+  type DigestData,
+} from "./services/digest";
+
+const day = (n: number) => new Date(Date.UTC(2024, 4, n));
+const weekly = resolveDigestPeriod("weekly", new Date("2024-05-15T09:30:00Z"));
+
+describe("resolveDigestPeriod", () => {
+  it("covers the last full days and the equally long period before", () => {
+    expect(weekly).toEqual({ start: day(8), end: day(15), previousStart: day(1) });
+    expect(resolveDigestPeriod("daily", new Date("2024-05-15T09:30:00Z")).start).toEqual(day(14));
+  });
+
+  it("shifts the Search Console period back until its data is final", () => {
+    const daily = resolveDigestPeriod("daily", new Date("2024-05-15T09:30:00Z"));
+    expect(searchConsoleDigestPeriod(daily)).toEqual({ start: day(11), end: day(12), previousStart: day(10) });
+    expect(searchConsoleDigestPeriod(weekly)).toEqual({ start: day(5), end: day(12), previousStart: new Date(Date.UTC(2024, 3, 28)) });
+  });
+});
+
+describe("summarizeKeywordMovers", () => {
+  it("compares the latest position in each period", () => {
+    const point = (keywordId: number, date: Date, position: number | null) =>
+      ({ keywordId, keyword: `kw${keywordId}`, domain: "example.com", date, position });
+
+    const { winners, losers } = summarizeKeywordMovers([
+      point(1, day(3), 12), point(1, day(6), 10), point(1, day(12), 4),
+      point(2, day(6), 3), point(2, day(14), 8.25),
+      point(3, day(6), 5), point(3, day(14), 5),
+      point(4, day(14), 1),
+      point(5, day(6), 7), point(5, day(13), null),
+    ], weekly);
+
+    expect(winners).toEqual([{ keywordId: 1, keyword: "kw1", domain: "example.com", previous: 10, current: 4, change: 6 }]);
+    expect(losers.map(m => [m.keywordId, m.change])).toEqual([[2, -5.3]]);
+  });
+});
+
+describe("summarizeDomainDeltas", () => {
+  it("sums clicks and impressions per period", () => {
+    const row = (date: Date, clicks: number, impressions: number) =>
+      ({ domainId: 1, domain: "example.com", date, clicks, impressions });
+
+    expect(summarizeDomainDeltas([
+      row(day(2), 100, 1000), row(day(5), 100, 1000),
+      row(day(9), 150, 1500), row(day(12), 150, 1000),
+      row(day(15), 999, 9999),
+    ], weekly)).toEqual([{
+      domainId: 1,
+      domain: "example.com",
+      clicks: 300,
+      previousClicks: 200,
+      clicksChange: 50,
+      impressions: 2500,
+      previousImpressions: 2000,
+      impressionsChange: 25,
+    }]);
+  });
+});
+
+describe("summarizeCwvChanges", () => {
+  it("lists URLs and strategies whose score or metrics changed", () => {
+    const test = (strategy: "mobile" | "desktop", date: Date, performanceScore: number, lcp: number) =>
+      ({ url: "https://example.com/", strategy, domain: "example.com", date, performanceScore, lcp, cls: 50, tbt: 100, fcp: 1000 });
+
+    const changes = summarizeCwvChanges([
+      test("mobile", day(1), 90, 2000),
+      test("mobile", day(10), 70, 3200),
+      test("desktop", day(1), 98, 900),
+      test("desktop", day(10), 98, 900),
+    ], weekly);
+
+    expect(changes).toEqual([{
+      url: "https://example.com/",
+      strategy: "mobile",
+      domain: "example.com",
+      previousScore: 90,
+      currentScore: 70,
+      metrics: [{ label: "LCP", previous: 2000, current: 3200, good: 2500 }],
+    }]);
+  });
+});
+
+describe("renderers", () => {
+  const data: DigestData = {
+    cadence: "weekly",
+    periodStart: day(8),
+    periodEnd: day(15),
+    searchConsoleStart: day(5),
+    searchConsoleEnd: day(12),
+    winners: [{ keywordId: 1, keyword: "seo <ツール>", domain: "example.com", previous: 10, current: 4, change: 6 }],
+    losers: [],
+    domains: [],
+    cwv: [],
+    alerts: [{ title: "順位下落", message: "「料金」が3位から9位に下落しました", severity: "warning", domain: "example.com", createdAt: day(10) }],
+    summary: "クリックは横ばいです。",
+  };
+
+  it("renders Markdown sections", () => {
+    const markdown = renderDigestMarkdown(data);
+    expect(markdown).toContain("# [Nexus SEO] 週次ダイジェスト 2024/5/8〜2024/5/14");
+    expect(markdown).toContain("Search Consoleの集計期間: 2024/5/5〜2024/5/11");
+    expect(markdown).toContain("## エグゼクティブサマリー\n\nクリックは横ばいです。");
+    expect(markdown).toContain("- 「seo <ツール>」（example.com）: 10位 → 4位（+6）");
+    expect(markdown).toContain("- [警告] **順位下落**（example.com）");
+  });
+
+  it("escapes HTML", () => {
+    const html = renderDigestHtml(data);
+    expect(html).toContain("seo &lt;ツール&gt;");
+    expect(html).not.toContain("<ツール>");
+  });
+});
+
+describe("isDigestDue", () => {
+  const settings = { cadence: "weekly" as const, sendHour: 9, sendWeekday: 1, timezone: "Asia/Tokyo", lastSentAt: null };
+
+  it("finds the latest send time in the user's timezone", () => {
+    // 2024-05-15 (Wed) 12:00 JST → Monday 2024-05-13 09:00 JST
+    expect(latestScheduledSend(settings, new Date("2024-05-15T03:00:00Z"))).toEqual(new Date("2024-05-13T00:00:00Z"));
+    // 2024-05-13 (Mon) 08:00 JST → the previous Monday
+    expect(latestScheduledSend(settings, new Date("2024-05-12T23:00:00Z"))).toEqual(new Date("2024-05-06T00:00:00Z"));
+    expect(latestScheduledSend({ ...settings, cadence: "daily", timezone: "America/New_York" }, new Date("2024-05-15T12:00:00Z")))
+      .toEqual(new Date("2024-05-14T13:00:00Z"));
+  });
+
+  it("is due once per scheduled time", () => {
+    const now = new Date("2024-05-13T00:30:00Z");
+    expect(isDigestDue(settings, now)).toBe(true);
+    expect(isDigestDue({ ...settings, lastSentAt: new Date("2024-05-13T00:05:00Z") }, now)).toBe(false);
+    expect(isDigestDue({ ...settings, cadence: "off" }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { nextCronRun, parseCron } from "./services/cron";
+import { isJobStale, planNextRun, retryDelayMs, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from "./services/jobQueue";
+
+describe("parseCron", () => {
+  it("expands lists, ranges, steps and macros", () => {
+    const schedule = parseCron("*/15 9-11 1,15 * 1-5");
+    expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours).toEqual([9, 10, 11]);
+    expect(schedule.daysOfMonth).toEqual([1, 15]);
+    expect(schedule.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.matchEitherDay).toBe(true);
+    expect(parseCron("@weekly").daysOfWeek).toEqual([0]);
+    expect(parseCron("0 0 * * 7").daysOfWeek).toEqual([0]);
+  });
+
+  it("rejects invalid expressions", () => {
+    expect(() => parseCron("0 24 * * *")).toThrow("hour");
+    expect(() => parseCron("*/0 * * * *")).toThrow("step");
+    expect(() => parseCron("0 3 * *")).toThrow("Invalid cron expression");
+  });
+});
+
+describe("nextCronRun", () => {
+  it("interprets the schedule in the job's timezone", () => {
+    // 03:00 JST = 18:00 UTC of the previous day
+    expect(nextCronRun("0 3 * * *", "Asia/Tokyo", new Date("2024-05-15T10:00:00Z"))).toEqual(new Date("2024-05-15T18:00:00Z"));
+    expect(nextCronRun("0 3 * * *", "Asia/Tokyo", new Date("2024-05-15T18:00:00Z"))).toEqual(new Date("2024-05-16T18:00:00Z"));
+    // Monday 05:00 JST
+    expect(nextCronRun("0 5 * * 1", "Asia/Tokyo", new Date("2024-05-15T00:00:00Z"))).toEqual(new Date("2024-05-19T20:00:00Z"));
+  });
+
+  it("follows daylight saving time", () => {
+    // New York switches to EDT on 2024-03-10
+    expect(nextCronRun("30 9 * * *", "America/New_York", new Date("2024-03-09T15:00:00Z"))).toEqual(new Date("2024-03-10T13:30:00Z"));
+    expect(nextCronRun("30 9 * * *", "America/New_York", new Date("2024-03-08T15:00:00Z"))).toEqual(new Date("2024-03-09T14:30:00Z"));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 2024-05-15 is a Wednesday: Friday the 17th comes before the 20th
+    expect(nextCronRun("0 0 20 * 5", "UTC", new Date("2024-05-15T12:00:00Z"))).toEqual(new Date("2024-05-17T00:00:00Z"));
+  });
+});
+
+describe("planNextRun", () => {
+  const now = new Date("2024-05-15T10:00:00Z");
+  const recurring = { cronExpression: "0 3 * * *", timezone: "Asia/Tokyo", maxAttempts: 3 };
+
+  it("backs off exponentially up to the maximum", () => {
+    expect([1, 2, 3].map(retryDelayMs)).toEqual([RETRY_BASE_DELAY_MS, RETRY_BASE_DELAY_MS * 2, RETRY_BASE_DELAY_MS * 4]);
+    expect(retryDelayMs(20)).toBe(RETRY_MAX_DELAY_MS);
+  });
+
+  it("retries failures until attempts run out", () => {
+    expect(planNextRun({ ...recurring, attempts: 2 }, "failed", now)).toEqual({
+      status: "pending",
+      attempts: 2,
+      nextRunAt: new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2),
+    });
+  });
+
+  it("reschedules recurring jobs from the cron expression", () => {
+    const next = new Date("2024-05-15T18:00:00Z");
+    expect(planNextRun({ ...recurring, attempts: 1 }, "completed", now)).toEqual({ status: "completed", attempts: 0, nextRunAt: next });
+    expect(planNextRun({ ...recurring, attempts: 3 }, "failed", now)).toEqual({ status: "failed", attempts: 0, nextRunAt: next });
+  });
+
+  it("reschedules from the schedule saved while the job was running", () => {
+    const claimed = { ...recurring, attempts: 1 };
+    // 実行中に送信時刻が 03:00 JST から 09:00 UTC に変更された
+    const current = { cronExpression: "0 9 * * *", timezone: "UTC" };
+    expect(planNextRun({ ...claimed, ...current }, "completed", now).nextRunAt).toEqual(new Date("2024-05-16T09:00:00Z"));
+    expect(planNextRun(claimed, "completed", now).nextRunAt).toEqual(new Date("2024-05-15T18:00:00Z"));
+  });
+
+  it("finishes one-off jobs", () => {
+    expect(planNextRun({ cronExpression: null, timezone: "UTC", maxAttempts: 1, attempts: 1 }, "failed", now))
+      .toEqual({ status: "failed", attempts: 1, nextRunAt: null });
+  });
+});
+
+describe("isJobStale", () => {
+  const now = new Date("2024-05-15T10:00:00Z");
+  const daily = {
+    cronExpression: "0 3 * * *",
+    timezone: "Asia/Tokyo",
+    isEnabled: true,
+    createdAt: new Date("2024-04-01T00:00:00Z"),
+  };
+
+  it("flags recurring jobs without a success in 1.5 intervals", () => {
+    expect(isJobStale({ ...daily, lastSuccessAt: new Date("2024-05-14T18:05:00Z") }, now)).toBe(false);
+    expect(isJobStale({ ...daily, lastSuccessAt: new Date("2024-05-13T18:05:00Z") }, now)).toBe(true);
+    expect(isJobStale({ ...daily, lastSuccessAt: null }, now)).toBe(true);
+  });
+
+  it("ignores stopped and one-off jobs", () => {
+    expect(isJobStale({ ...daily, isEnabled: false, lastSuccessAt: null }, now)).toBe(false);
+    expect(isJobStale({ ...daily, cronExpression: null, lastSuccessAt: null }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { buildFixList, extractLighthouseAudits, type ExtractedAudit } from "./services/lighthouseAudits";
+
+const rawData = {
+  lighthouseResult: {
+    audits: {
+      "render-blocking-resources": {
+        score: 0.3,
+        displayValue: "Potential savings of 820 ms",
+        details: {
+          type: "opportunity",
+          overallSavingsMs: 820,
+          items: [{ url: "https://example.com/app.css", wastedMs: 610.4, totalBytes: 40210 }],
+        },
+      },
+      "unused-javascript": {
+        score: 0.5,
+        details: {
+          type: "opportunity",
+          overallSavingsMs: 450,
+          overallSavingsBytes: 183000,
+          items: [{ url: "https://example.com/vendor.js", wastedBytes: 120000.6, totalBytes: 250000 }],
+        },
+      },
+      "uses-text-compression": { score: 1, details: { type: "opportunity", overallSavingsMs: 0, items: [] } },
+      "offscreen-images": { score: null, scoreDisplayMode: "notApplicable" },
+      "third-party-summary": {
+        score: 0,
+        displayValue: "Third-party code blocked the main thread for 350 ms",
+        details: {
+          type: "table",
+          summary: { wastedMs: 350, wastedBytes: 90000 },
+          items: [{ entity: "Google Tag Manager", transferSize: 90000, blockingTime: 350 }],
+        },
+      },
+      "largest-contentful-paint-element": {
+        score: null,
+        scoreDisplayMode: "informative",
+        details: {
+          type: "list",
+          items: [{ type: "table", items: [{ node: { selector: "main > img.hero", snippet: "<img class=\"hero\">" } }] }],
+        },
+      },
+      "layout-shifts": {
+        score: null,
+        scoreDisplayMode: "informative",
+        details: { type: "table", items: [] },
+      },
+    },
+  },
+};
+
+describe("extractLighthouseAudits", () => {
+  it("keeps failing audits with their savings and normalized items", () => {
+    const audits = extractLighthouseAudits(rawData);
+
+    expect(audits.map(a => [a.auditId, a.kind, a.savingsMs, a.savingsBytes])).toEqual([
+      ["render-blocking-resources", "opportunity", 820, null],
+      ["unused-javascript", "opportunity", 450, 183000],
+      ["third-party-summary", "diagnostic", 350, 90000],
+      ["largest-contentful-paint-element", "diagnostic", null, null],
+    ]);
+    expect(audits[0]).toMatchObject({ score: 30, displayValue: "Potential savings of 820 ms" });
+    expect(audits[0].items).toEqual([{ label: "https://example.com/app.css", wastedMs: 610, totalBytes: 40210 }]);
+    expect(audits[2].items).toEqual([{ label: "Google Tag Manager", wastedMs: 350, totalBytes: 90000 }]);
+    expect(audits[3].items).toEqual([{ label: "main > img.hero" }]);
+  });
+
+  it("ignores data without a Lighthouse result", () => {
+    expect(extractLighthouseAudits(null)).toEqual([]);
+    expect(extractLighthouseAudits({ error: "quota" })).toEqual([]);
+  });
+});
+
+describe("buildFixList", () => {
+  const audit = (auditId: string, savingsMs: number | null, savingsBytes: number | null = null): ExtractedAudit => ({
+    auditId,
+    title: auditId,
+    kind: "opportunity",
+    score: 40,
+    numericValue: null,
+    displayValue: null,
+    savingsMs,
+    savingsBytes,
+    items: [],
+  });
+  const run = (testId: number, day: number, audits: ExtractedAudit[]) =>
+    ({ testId, date: new Date(Date.UTC(2024, 4, day)), audits });
+
+  it("compares the latest run with the one before it", () => {
+    const { fixes, resolved } = buildFixList([
+      run(1, 1, [audit("render-blocking-resources", 900), audit("unused-css-rules", 300)]),
+      run(3, 3, [audit("render-blocking-resources", 600), audit("unused-javascript", 400), audit("modern-image-formats", null, 80000)]),
+      run(2, 2, [audit("render-blocking-resources", 900), audit("modern-image-formats", null, 50000), audit("unused-css-rules", 300)]),
+    ]);
+
+    expect(fixes.map(f => [f.auditId, f.trend])).toEqual([
+      ["render-blocking-resources", "improved"],
+      ["unused-javascript", "new"],
+      ["modern-image-formats", "regressed"],
+    ]);
+    expect(fixes[0].history.map(h => h.savingsMs)).toEqual([900, 900, 600]);
+    expect(fixes[0].failingSince).toEqual(new Date(Date.UTC(2024, 4, 1)));
+    expect(fixes[2].failingSince).toEqual(new Date(Date.UTC(2024, 4, 2)));
+    expect(resolved).toEqual([{ auditId: "unused-css-rules", title: "unused-css-rules", resolvedAt: new Date(Date.UTC(2024, 4, 3)) }]);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareLabAndField,
+  dailyPageSpeedTrend,
+  latestUrlScores,
+  normalizeMonitoredUrl,
+  parseLoadingExperience,
+  suggestLandingPages,
+  type PageSpeedTrendTest,
+} from "./services/pageSpeedInsights";
+
+const test = (strategy: "mobile" | "desktop", date: string, performanceScore: number, url = "https://example.com/products/a"): PageSpeedTrendTest =>
+  ({ url, strategy, date: new Date(date), performanceScore, lcp: 2000, cls: 50, tbt: 100, fcp: 1000 });
+
+describe("normalizeMonitoredUrl", () => {
+  it("accepts URLs of the domain and its subdomains", () => {
+    expect(normalizeMonitoredUrl("example.com/products/a#reviews", "example.com")).toBe("https://example.com/products/a");
+    expect(normalizeMonitoredUrl("https://www.example.com/", "https://example.com")).toBe("https://www.example.com/");
+    expect(normalizeMonitoredUrl("https://shop.example.com/cart", "www.example.com")).toBe("https://shop.example.com/cart");
+  });
+
+  it("rejects other hosts", () => {
+    expect(() => normalizeMonitoredUrl("https://example.com.evil.test/", "example.com")).toThrow("is not a URL of");
+    expect(() => normalizeMonitoredUrl("https://notexample.com/", "example.com")).toThrow("is not a URL of");
+  });
+});
+
+describe("suggestLandingPages", () => {
+  it("ranks pages by clicks across queries and skips monitored URLs", () => {
+    const row = (page: string, clicks: number, impressions: number) => ({ page, clicks, impressions });
+    expect(suggestLandingPages([
+      row("https://example.com/a", 10, 100),
+      row("https://example.com/b", 30, 300),
+      row("https://example.com/a", 25, 200),
+      row("https://example.com/c", 50, 500),
+      row("https://example.com/d", 0, 900),
+    ], ["https://example.com/c"], 3)).toEqual([
+      { url: "https://example.com/a", clicks: 35, impressions: 300 },
+      { url: "https://example.com/b", clicks: 30, impressions: 300 },
+      { url: "https://example.com/d", clicks: 0, impressions: 900 },
+    ]);
+  });
+});
+
+describe("dailyPageSpeedTrend", () => {
+  it("keeps the latest test per day and strategy", () => {
+    const points = dailyPageSpeedTrend([
+      test("mobile", "2024-05-02T18:30:00Z", 60),
+      test("mobile", "2024-05-01T18:30:00Z", 70),
+      test("mobile", "2024-05-01T21:00:00Z", 72),
+      test("desktop", "2024-05-01T18:31:00Z", 95),
+    ]);
+
+    expect(points.map(p => [p.date, p.mobile?.performanceScore, p.desktop?.performanceScore ?? null])).toEqual([
+      ["2024-05-01", 72, 95],
+      ["2024-05-02", 60, null],
+    ]);
+  });
+});
+
+describe("latestUrlScores", () => {
+  it("pairs the latest score of each strategy with the previous test", () => {
+    const scores = latestUrlScores([
+      test("mobile", "2024-05-01T18:30:00Z", 80),
+      test("mobile", "2024-05-03T18:30:00Z", 62),
+      test("mobile", "2024-05-02T18:30:00Z", 75),
+      test("desktop", "2024-05-03T18:31:00Z", 97),
+      test("mobile", "2024-05-03T18:30:00Z", 90, "https://example.com/"),
+    ]);
+
+    const product = scores.get("https://example.com/products/a");
+    expect(product?.mobile).toMatchObject({ performanceScore: 62, previousScore: 75 });
+    expect(product?.desktop).toMatchObject({ performanceScore: 97, previousScore: null });
+    expect(scores.get("https://example.com/")?.mobile?.previousScore).toBeNull();
+  });
+});
+
+describe("parseLoadingExperience", () => {
+  const metric = (percentile: number, proportions: [number, number, number]) => ({
+    percentile,
+    distributions: [
+      { min: 0, max: 1, proportion: proportions[0] },
+      { min: 1, max: 2, proportion: proportions[1] },
+      { min: 2, proportion: proportions[2] },
+    ],
+  });
+  const experience = {
+    id: "https://example.com/products/a",
+    overall_category: "AVERAGE",
+    metrics: {
+      LARGEST_CONTENTFUL_PAINT_MS: metric(2900, [0.7, 0.2, 0.1]),
+      INTERACTION_TO_NEXT_PAINT: metric(180, [0.8, 0.15, 0.05]),
+      CUMULATIVE_LAYOUT_SHIFT_SCORE: metric(12, [0.72, 0.2, 0.08]),
+      EXPERIMENTAL_TIME_TO_FIRST_BYTE: metric(950, [0.6, 0.3, 0.1]),
+    },
+  };
+
+  it("reads p75 values and distributions", () => {
+    const field = parseLoadingExperience(experience, "url");
+    expect(field).toMatchObject({
+      scope: "url",
+      cruxId: "https://example.com/products/a",
+      overallCategory: "AVERAGE",
+      lcp: 2900,
+      inp: 180,
+      cls: 120,
+      ttfb: 950,
+      fcp: null,
+      fid: null,
+    });
+    expect(field?.distributions.lcp).toEqual({ good: 0.7, needsImprovement: 0.2, poor: 0.1 });
+  });
+
+  it("skips URL data that fell back to the origin", () => {
+    expect(parseLoadingExperience({ ...experience, origin_fallback: true }, "url")).toBeNull();
+    expect(parseLoadingExperience({ ...experience, origin_fallback: true }, "origin")?.lcp).toBe(2900);
+    expect(parseLoadingExperience({ metrics: {} }, "origin")).toBeNull();
+    expect(parseLoadingExperience(undefined, "url")).toBeNull();
+  });
+});
+
+describe("compareLabAndField", () => {
+  it("rates lab and field values and shows TBT in place of lab INP", () => {
+    const rows = compareLabAndField(
+      { lcp: 2100, cls: 30, fcp: 1200, ttfb: 400, tbt: 700 },
+      { lcp: 4200, inp: 250, cls: 120, fcp: null, ttfb: 700, fid: null, distributions: {} }
+    );
+
+    expect(rows.map(r => [r.label, r.labLabel, r.labRating, r.fieldRating])).toEqual([
+      ["LCP", "LCP", "good", "poor"],
+      ["INP", "TBT", "poor", "needs_improvement"],
+      ["CLS", "CLS", "good", "needs_improvement"],
+      ["FCP", "FCP", "good", null],
+      ["TTFB", "TTFB", "good", "good"],
+    ]);
+    expect(compareLabAndField({ lcp: 2100, cls: 30, fcp: 1200, ttfb: 400, tbt: 100 }, null).every(r => r.field === null)).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { evaluateBudget, formatBudgetValue, hashBudgetToken, selectApplicableBudget, urlPatternMatches } from "./services/performanceBudgets";
+
+describe("urlPatternMatches", () => {
+  it("matches paths or full URLs with * wildcards", () => {
+    expect(urlPatternMatches("/products/*", "https://example.com/products/a?color=red")).toBe(true);
+    expect(urlPatternMatches("/products/*", "https://example.com/blog/products/a")).toBe(false);
+    expect(urlPatternMatches("/", "https://example.com/")).toBe(true);
+    expect(urlPatternMatches("https://shop.example.com/*", "https://shop.example.com/cart")).toBe(true);
+    expect(urlPatternMatches("https://shop.example.com/*", "https://example.com/cart")).toBe(false);
+    expect(urlPatternMatches("/a.b", "https://example.com/axb")).toBe(false);
+  });
+});
+
+describe("selectApplicableBudget", () => {
+  const budget = (id: number, urlPattern: string | null, strategy: "mobile" | "desktop" | null = null, isEnabled = true) =>
+    ({ id, urlPattern, strategy, isEnabled });
+
+  it("prefers the most specific pattern, then strategy-specific budgets", () => {
+    const budgets = [
+      budget(1, null),
+      budget(2, "/products/*"),
+      budget(3, "/products/*", "mobile"),
+      budget(4, "/products/sale/*", "desktop"),
+      budget(5, "/products/sale/*", null, false),
+    ];
+
+    expect(selectApplicableBudget(budgets, "https://example.com/products/sale/a", "mobile")?.id).toBe(3);
+    expect(selectApplicableBudget(budgets, "https://example.com/products/sale/a", "desktop")?.id).toBe(4);
+    expect(selectApplicableBudget(budgets, "https://example.com/about", "desktop")?.id).toBe(1);
+    expect(selectApplicableBudget([budget(2, "/products/*")], "https://example.com/about", "mobile")).toBeNull();
+  });
+});
+
+describe("evaluateBudget", () => {
+  it("reports maximums exceeded and minimums missed, skipping unset limits and missing metrics", () => {
+    const violations = evaluateBudget(
+      { maxLcp: 2500, maxCls: 100, maxTbt: 200, maxFcp: null, maxTtfb: 800, minPerformanceScore: 80 },
+      { lcp: 3000, cls: 100, tbt: null, fcp: 5000, ttfb: 600, performanceScore: 72 }
+    );
+
+    expect(violations).toEqual([
+      { metric: "lcp", label: "LCP", limit: 2500, actual: 3000, overPercent: 20 },
+      { metric: "performanceScore", label: "スコア", limit: 80, actual: 72, overPercent: 10 },
+    ]);
+  });
+});
+
+describe("formatBudgetValue", () => {
+  it("formats CLS like the digest does", () => {
+    expect(formatBudgetValue("cls", 104)).toBe("0.104");
+    expect(formatBudgetValue("lcp", 2500)).toBe("2500ms");
+    expect(formatBudgetValue("performanceScore", 72)).toBe("72");
+  });
+});
+
+describe("hashBudgetToken", () => {
+  it("hashes tokens deterministically", () => {
+    expect(hashBudgetToken("nxb_a")).toBe(hashBudgetToken("nxb_a"));
+    expect(hashBudgetToken("nxb_a")).toHaveLength(64);
+    expect(hashBudgetToken("nxb_a")).not.toBe(hashBudgetToken("nxb_b"));
+  });
+});
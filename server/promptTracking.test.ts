@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { brandTermsForDomain, detectBrandMention, mergeCitationProbeReports } from "./services/citationProbe";
+import { isPromptDue, promptPlatforms, promptTags, rankBrandMentions } from "./services/promptTracking";
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date("2026-10-19T05:00:00Z");
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * HOUR);
+
+describe("isPromptDue", () => {
+  it("runs new prompts and prompts whose interval has passed", () => {
+    expect(isPromptDue({ schedule: "weekly", isActive: true, lastRunAt: null }, now)).toBe(true);
+    expect(isPromptDue({ schedule: "weekly", isActive: true, lastRunAt: hoursAgo(7 * 24) }, now)).toBe(true);
+    expect(isPromptDue({ schedule: "weekly", isActive: true, lastRunAt: hoursAgo(6 * 24) }, now)).toBe(false);
+    expect(isPromptDue({ schedule: "monthly", isActive: true, lastRunAt: hoursAgo(29 * 24) }, now)).toBe(false);
+  });
+
+  it("tolerates a daily job starting slightly earlier than the last run", () => {
+    expect(isPromptDue({ schedule: "daily", isActive: true, lastRunAt: hoursAgo(23.9) }, now)).toBe(true);
+    expect(isPromptDue({ schedule: "daily", isActive: true, lastRunAt: hoursAgo(12) }, now)).toBe(false);
+  });
+
+  it("never runs paused prompts", () => {
+    expect(isPromptDue({ schedule: "daily", isActive: false, lastRunAt: null }, now)).toBe(false);
+  });
+});
+
+describe("promptPlatforms and promptTags", () => {
+  it("keeps known platforms in a fixed order and defaults to all of them", () => {
+    expect(promptPlatforms(["gemini", "chatgpt", "bing"])).toEqual(["chatgpt", "gemini"]);
+    expect(promptPlatforms([])).toEqual(["chatgpt", "perplexity", "gemini"]);
+    expect(promptPlatforms(null)).toEqual(["chatgpt", "perplexity", "gemini"]);
+  });
+
+  it("trims and de-duplicates tags", () => {
+    expect(promptTags([" 比較 ", "比較", "", 3, "ツール"])).toEqual(["比較", "ツール"]);
+    expect(promptTags(undefined)).toEqual([]);
+  });
+});
+
+describe("rankBrandMentions", () => {
+  const target = { domain: "nexus-seo.example", brandTerms: brandTermsForDomain("nexus-seo.example") };
+  const competitors = [
+    { domain: "gyro-n.com", brandTerms: ["gyro-n.com", "GyroSEO"] },
+    { domain: "seopack.jp", brandTerms: brandTermsForDomain("seopack.jp") },
+    { domain: "ahrefs.com", brandTerms: brandTermsForDomain("ahrefs.com") },
+  ];
+
+  it("orders our brand among the competitors the answer mentions", () => {
+    const answer = {
+      answer: "おすすめはGyroSEOです。Nexus SEOも人気があります。",
+      citations: [{ url: "https://seopack.jp/seoanalysis/", title: null }],
+    };
+    const ranked = rankBrandMentions(answer, detectBrandMention(answer, target), competitors);
+
+    expect(ranked.mentionPosition).toBe(2);
+    expect(ranked.competitorMentions).toEqual([
+      { domain: "gyro-n.com", mentionPosition: 1, cited: false },
+      { domain: "seopack.jp", mentionPosition: null, cited: true },
+    ]);
+  });
+
+  it("leaves the position empty when our brand is not mentioned", () => {
+    const answer = { answer: "Ahrefsが定番です。", citations: [] };
+    const ranked = rankBrandMentions(answer, detectBrandMention(answer, target), competitors);
+
+    expect(ranked.mentionPosition).toBeNull();
+    expect(ranked.competitorMentions).toEqual([{ domain: "ahrefs.com", mentionPosition: 1, cited: false }]);
+  });
+});
+
+describe("mergeCitationProbeReports", () => {
+  it("combines the answers of several prompts per platform and rescores them", () => {
+    const answer = (mentioned: boolean, error: string | null = null) => ({
+      prompt: "q",
+      answer: "",
+      citations: [],
+      mentioned,
+      cited: false,
+      citationRank: null,
+      mentionOffset: null,
+      contexts: [],
+      error,
+    });
+    const merged = mergeCitationProbeReports([
+      {
+        domain: "nexus-seo.example",
+        checkedAt: now,
+        overallVisibility: 100,
+        platforms: [{ platform: "chatgpt", model: "gpt", score: 100, answers: [answer(true)] }],
+      },
+      {
+        domain: "nexus-seo.example",
+        checkedAt: now,
+        overallVisibility: 0,
+        platforms: [
+          { platform: "chatgpt", model: "gpt", score: 0, answers: [answer(false)] },
+          { platform: "gemini", model: "gemini", score: null, answers: [answer(false, "HTTP 500")] },
+        ],
+      },
+    ]);
+
+    expect(merged?.platforms.map(platform => [platform.platform, platform.score, platform.answers.length])).toEqual([
+      ["chatgpt", 50, 2],
+      ["gemini", null, 1],
+    ]);
+    expect(merged?.overallVisibility).toBe(50);
+    expect(mergeCitationProbeReports([])).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffCompetitorsAbove,
+  findCompetitorsAbove,
+  pairWithGscPositions,
+  toCompetitorPositionRows,
+  toSerpSnapshotRow,
+  toSerpTarget,
+} from "./services/rankTracker";
+import type { SerpSnapshot } from "./services/serpParser";
+
+const result = (position: number, domain: string) => ({ position, url: `https://${domain}/`, domain, title: domain });
+
+describe("toSerpSnapshotRow", () => {
+  it("keeps at most 100 compact organic results with features and our match", () => {
+    const snapshot: SerpSnapshot = {
+      keyword: "seo",
+      engine: "google",
+      provider: "serpapi",
+      location: "jp",
+      fetchedAt: new Date("2024-05-02T03:00:00Z"),
+      totalResults: 98400,
+      organic: Array.from({ length: 120 }, (_, i) => ({
+        ...result(i + 1, `site${i + 1}.example`),
+        snippet: "snippet",
+        displayedUrl: null,
+        sitelinks: [],
+      })),
+      features: [{ type: "people_also_ask", position: 2, questions: ["?"] }],
+    };
+
+    const profile = { id: 11, country: "jp", city: "Osaka,Osaka,Japan", uule: null, language: null, device: "mobile" as const };
+    const row = toSerpSnapshotRow({ id: 7, domainId: 3 }, profile, snapshot, { position: 5, url: "https://site5.example/" });
+
+    expect(row).toMatchObject({
+      keywordId: 7,
+      domainId: 3,
+      profileId: 11,
+      provider: "serpapi",
+      city: "Osaka,Osaka,Japan",
+      device: "mobile",
+      position: 5,
+      totalResults: "98400",
+    });
+    expect(row.results).toHaveLength(100);
+    expect((row.results as object[])[0]).toEqual(result(1, "site1.example"));
+    expect(row.features).toEqual(snapshot.features);
+  });
+});
+
+describe("toSerpTarget", () => {
+  it("maps a tracking profile to provider query options", () => {
+    expect(toSerpTarget({ country: "us", city: "", uule: null, language: "es", device: "mobile" })).toEqual({
+      location: "us",
+      city: null,
+      uule: null,
+      language: "es",
+      device: "mobile",
+    });
+  });
+});
+
+describe("competitor movement", () => {
+  const previous = { position: 2, results: [result(1, "a.com"), result(2, "www.ours.jp"), result(3, "b.com"), result(4, "c.com")] };
+  const current = { position: 4, results: [result(1, "a.com"), result(2, "c.com"), result(3, "d.com"), result(4, "ours.jp")] };
+
+  it("lists domains ranking above us", () => {
+    expect(findCompetitorsAbove(current, "https://ours.jp").map(r => r.domain)).toEqual(["a.com", "c.com", "d.com"]);
+    expect(findCompetitorsAbove({ position: null, results: [result(1, "a.com")] }, "ours.jp")).toHaveLength(1);
+  });
+
+  it("records each competitor's position from the same snapshot", () => {
+    const snapshot = { id: 9, keywordId: 7, profileId: 11, domainId: 3, checkedAt: new Date("2024-05-02T00:00:00Z"), ...current };
+
+    expect(toCompetitorPositionRows(snapshot, ["c.com", "e.com"])).toEqual([
+      expect.objectContaining({ snapshotId: 9, profileId: 11, competitorDomain: "c.com", position: 2, url: "https://c.com/" }),
+      expect.objectContaining({ competitorDomain: "e.com", position: null, url: null }),
+    ]);
+  });
+
+  it("reports competitors that moved above us since the previous check", () => {
+    expect(diffCompetitorsAbove(previous, current, "ours.jp")).toEqual([
+      { domain: "c.com", url: "https://c.com/", position: 2, previousPosition: 4 },
+      { domain: "d.com", url: "https://d.com/", position: 3, previousPosition: null },
+    ]);
+  });
+});
+
+describe("pairWithGscPositions", () => {
+  it("uses the latest GSC day on or before each check", () => {
+    const snapshots = [
+      { id: 1, checkedAt: new Date("2024-05-03T09:00:00Z"), provider: "scraper", position: 4, matchedUrl: null },
+      { id: 2, checkedAt: new Date("2024-05-01T09:00:00Z"), provider: "scraper", position: null, matchedUrl: null },
+    ];
+    const gsc = [
+      { date: new Date("2024-05-02T00:00:00Z"), position: "5.40" },
+      { date: new Date("2024-05-04T00:00:00Z"), position: "3.10" },
+    ];
+
+    expect(pairWithGscPositions(snapshots, gsc).map(p => p.gscPosition)).toEqual([5.4, null]);
+  });
+});
@@ -5,8 +5,9 @@ import { publicProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import { invokeLLM } from "./_core/llm";
 import { getDb } from "./db";
-import { trackedDomains, trackedKeywords, keywordHistory, domainHistory, pageSpeedHistory } from "../drizzle/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { trackedDomains, gscBackfillRuns, competitorDomains, trackedKeywords, keywordProfiles, keywordHistory, domainHistory, queryPageHistory, pageSpeedHistory, fieldMetrics, monitoredUrls, crawlRuns, crawledPages, auditRuns, auditIssues, sitemapScans, sitemapUrls, alertRules, alerts, notificationChannels, alertDeliveries, digestSettings, digestReports, syncJobs, jobRuns, performanceBudgets, budgetViolations, trackedPrompts, promptRuns } from "../drizzle/schema";
+import type { NotificationChannel, PerformanceBudget } from "../drizzle/schema";
+import { eq, and, desc, gte, inArray, isNull, lt, or } from "drizzle-orm";
 import {
   getGoogleAuthUrl,
   exchangeCodeForTokens,
@@ -14,19 +15,63 @@ import {
   listSearchConsoleSites,
   getValidAccessToken,
   syncSearchConsoleData,
+  startBackfillRun,
+  isBackfillJobLive,
 } from "./services/googleSearchConsole";
 import {
   fetchPageSpeedInsights,
   analyzeAndSavePageSpeed,
   syncPageSpeedData,
-  calculateAIReadabilityScore,
+  normalizeMonitoredUrl,
+  suggestLandingPages,
+  dailyPageSpeedTrend,
+  latestUrlScores,
+  compareLabAndField,
+  MAX_MONITORED_URLS_PER_DOMAIN,
+  PAGESPEED_STRATEGIES,
 } from "./services/pageSpeedInsights";
+import type { FieldData } from "./services/pageSpeedInsights";
+import { getFixList } from "./services/lighthouseAudits";
+import { generateBudgetToken, hashBudgetToken } from "./services/performanceBudgets";
 import {
   analyzeDomainWithAI,
   analyzeKeywordWithAI,
-  checkLLMCitationsWithAI,
   generateImprovementSuggestions,
 } from "./services/aiSeoAnalyzer";
+import { brandTermsForDomain, CITATION_PLATFORMS, createCitationProbeAdapters, promptsForKeywords, runCitationProbes } from "./services/citationProbe";
+import { promptPlatforms, promptTags, runTrackedPrompts } from "./services/promptTracking";
+import { getShareOfModel } from "./services/shareOfModel";
+import {
+  crawlSite,
+  createCrawlRun,
+  executeCrawlRun,
+  summarizeCrawlForAnalysis,
+  toStartUrl,
+  fetchWithRedirects,
+  CRAWLER_USER_AGENT,
+  QUICK_ANALYSIS_CRAWL_OPTIONS,
+} from "./services/siteCrawler";
+import { auditPageAIReadability } from "./services/aiReadability";
+import { extractStructuredData, validateStructuredData, validateStructuredDataSnippet } from "./services/structuredData";
+import { suggestSchemaMarkup } from "./services/schemaSuggestions";
+import {
+  createAuditRun,
+  executeAuditRun,
+  compareAuditRuns,
+  AUDIT_ISSUE_CATALOG,
+} from "./services/siteAudit";
+import { createSitemapScan, executeSitemapScan } from "./services/sitemap";
+import { SERP_COUNTRIES, SERP_PROVIDER_NAMES } from "./services/serpProvider";
+import { checkDomainKeywordRankings, checkKeywordRanking, getKeywordProfiles, getSerpHistory } from "./services/rankTracker";
+import { getVisibilityHistory, updateVisibilityHistory } from "./services/visibility";
+import { normalizeDomain } from "./services/serpParser";
+import { getCannibalizationReport } from "./services/cannibalization";
+import { DEFAULT_ALERT_RULES, ensureAlertRule, getAlertRules, recordAiCitationCheck, runAlertEvaluation } from "./services/alerting";
+import { DEFAULT_TEMPLATES, sendTestNotification } from "./services/alertDelivery";
+import { buildDigest, createDigestReport, getDigestSettings, nextScheduledSend, sendDigestReport } from "./services/digest";
+import { isValidTimezone } from "./services/cron";
+import { scheduleDigestJob, scheduleDomainJobs, unscheduleDomainJobs, SchedulerService } from "./services/scheduler";
+import { cancelJob, isJobStale, requeueJob } from "./services/jobQueue";
 
 // Google Search Console連携用のルーター
 const googleRouter = router({
@@ -95,9 +140,70 @@ const googleRouter = router({
       const result = await syncSearchConsoleData(ctx.user.id);
       return result;
     } catch (error) {
-      return { success: false, error: String(error), domainsUpdated: 0, keywordsUpdated: 0 };
+      return { success: false, error: String(error), domainsUpdated: 0, keywordsUpdated: 0, failedDomains: [] };
     }
   }),
+
+  // 最大16ヶ月分のデータを日別に取り込み（前回の続きから再開、ジョブキューで実行）
+  backfill: publicProcedure
+    .input(z.object({ domainId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+        if (!domain[0].searchConsoleProperty) {
+          return { success: false, error: "Search Consoleプロパティが設定されていません" };
+        }
+
+        const started = await startBackfillRun(domain[0]);
+        if (!started) {
+          return { success: false, error: "バックフィルは実行中です" };
+        }
+
+        return { success: true, runId: started.runId, resumed: started.resumed };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // バックフィル履歴を取得
+  listBackfills: publicProcedure
+    .input(z.object({ domainId: z.number(), limit: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, runs: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, runs: [] };
+
+        const runs = await db
+          .select({ run: gscBackfillRuns, job: syncJobs })
+          .from(gscBackfillRuns)
+          .innerJoin(trackedDomains, eq(gscBackfillRuns.domainId, trackedDomains.id))
+          .leftJoin(syncJobs, eq(gscBackfillRuns.jobId, syncJobs.id))
+          .where(and(eq(gscBackfillRuns.domainId, input.domainId), eq(trackedDomains.userId, ctx.user.id)))
+          .orderBy(desc(gscBackfillRuns.createdAt))
+          .limit(input.limit || 10);
+
+        // inProgress: キューのジョブが実行待ち・実行中・再試行待ち（ジョブのない実行中のランは中断されたもの）
+        return { success: true, runs: runs.map(row => ({ ...row.run, inProgress: isBackfillJobLive(row.job) })) };
+      } catch (error) {
+        return { success: false, runs: [], error: String(error) };
+      }
+    }),
 });
 
 // ドメイン管理用のルーター
@@ -123,6 +229,9 @@ const domainsRouter = router({
           searchConsoleProperty: input.searchConsoleProperty,
         }).returning();
 
+        // 定期同期ジョブを登録
+        if (inserted[0]) await scheduleDomainJobs(inserted[0]);
+
         return { success: true, id: inserted[0]?.id };
       } catch (error) {
         return { success: false, error: String(error) };
@@ -140,7 +249,10 @@ const domainsRouter = router({
       if (!db) return { success: false, domains: [] };
 
       const domains = await db.select().from(trackedDomains).where(eq(trackedDomains.userId, ctx.user.id));
-      return { success: true, domains };
+      return {
+        success: true,
+        domains: domains.map(({ budgetTokenHash, ...domain }) => ({ ...domain, hasBudgetToken: budgetTokenHash !== null })),
+      };
     } catch (error) {
       return { success: false, domains: [], error: String(error) };
     }
@@ -158,9 +270,36 @@ const domainsRouter = router({
         const db = await getDb();
         if (!db) return { success: false, error: "データベースに接続できません" };
 
-        await db.delete(trackedDomains).where(
+        const deleted = await db.delete(trackedDomains).where(
           and(eq(trackedDomains.id, input.id), eq(trackedDomains.userId, ctx.user.id))
-        );
+        ).returning({ id: trackedDomains.id });
+
+        if (deleted[0]) await unscheduleDomainJobs(deleted[0].id);
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 順位取得に使うSERPプロバイダーを設定（nullでデプロイ既定値に戻す）
+  setSerpProvider: publicProcedure
+    .input(z.object({
+      id: z.number(),
+      provider: z.enum(SERP_PROVIDER_NAMES).nullable(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        await db.update(trackedDomains)
+          .set({ serpProvider: input.provider, updatedAt: new Date() })
+          .where(and(eq(trackedDomains.id, input.id), eq(trackedDomains.userId, ctx.user.id)));
 
         return { success: true };
       } catch (error) {
@@ -192,9 +331,165 @@ const domainsRouter = router({
         return { success: false, history: [], error: String(error) };
       }
     }),
+
+  // 競合ドメイン一覧を取得
+  listCompetitors: publicProcedure
+    .input(z.object({ domainId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, competitors: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, competitors: [] };
+
+        const competitors = await db
+          .select({ competitor: competitorDomains })
+          .from(competitorDomains)
+          .innerJoin(trackedDomains, eq(competitorDomains.domainId, trackedDomains.id))
+          .where(and(eq(competitorDomains.domainId, input.domainId), eq(trackedDomains.userId, ctx.user.id)));
+
+        return { success: true, competitors: competitors.map(row => row.competitor) };
+      } catch (error) {
+        return { success: false, competitors: [], error: String(error) };
+      }
+    }),
+
+  // 競合ドメインを追加（次回の順位チェックから同じSERPで順位を記録）
+  addCompetitor: publicProcedure
+    .input(z.object({ domainId: z.number(), domain: z.string().min(1).max(255) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        const competitor = normalizeDomain(input.domain);
+        if (!competitor || competitor === normalizeDomain(domain[0].domain)) {
+          return { success: false, error: "競合ドメインが不正です" };
+        }
+
+        const existing = await db.select().from(competitorDomains).where(
+          and(eq(competitorDomains.domainId, input.domainId), eq(competitorDomains.domain, competitor))
+        ).limit(1);
+        if (existing[0]) {
+          return { success: false, error: "この競合ドメインは登録済みです" };
+        }
+
+        const inserted = await db.insert(competitorDomains).values({
+          domainId: input.domainId,
+          domain: competitor,
+        }).returning();
+
+        return { success: true, id: inserted[0]?.id };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 競合ドメインを削除（記録済みの順位は残す）
+  deleteCompetitor: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const competitor = await db
+          .select({ competitor: competitorDomains })
+          .from(competitorDomains)
+          .innerJoin(trackedDomains, eq(competitorDomains.domainId, trackedDomains.id))
+          .where(and(eq(competitorDomains.id, input.id), eq(trackedDomains.userId, ctx.user.id)))
+          .limit(1);
+        if (!competitor[0]) {
+          return { success: false, error: "競合ドメインが見つかりません" };
+        }
+
+        await db.delete(competitorDomains).where(eq(competitorDomains.id, input.id));
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 自ドメインと競合の日次可視性・シェア・オブ・ボイスを取得
+  getVisibility: publicProcedure
+    .input(z.object({ domainId: z.number(), days: z.number().int().min(1).max(365).optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, history: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, history: [] };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, history: [], error: "ドメインが見つかりません" };
+        }
+
+        const history = await getVisibilityHistory(input.domainId, input.days);
+        return { success: true, history };
+      } catch (error) {
+        return { success: false, history: [], error: String(error) };
+      }
+    }),
+
+  // 当日の可視性指数を再計算（競合の追加・削除後に使用）
+  recomputeVisibility: publicProcedure
+    .input(z.object({ domainId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        const scores = await updateVisibilityHistory(input.domainId);
+        return { success: true, scores };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
 });
 
 // キーワード管理用のルーター
+// 順位トラッキングのプロファイル（国・都市/UULE・言語・デバイス）
+const trackingProfileInput = z.object({
+  country: z.string().transform(value => value.toLowerCase()).refine(value => SERP_COUNTRIES.includes(value), "未対応の国コードです"),
+  city: z.string().max(255).nullable().optional(),
+  uule: z.string().max(512).nullable().optional(),
+  language: z.string().max(16).nullable().optional(),
+  device: z.enum(["desktop", "mobile"]).default("desktop"),
+});
+
 const keywordsRouter = router({
   // キーワードを追加
   add: publicProcedure
@@ -202,6 +497,7 @@ const keywordsRouter = router({
       domainId: z.number(),
       keyword: z.string(),
       targetUrl: z.string().optional(),
+      profiles: z.array(trackingProfileInput).max(10).optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       try {
@@ -219,6 +515,12 @@ const keywordsRouter = router({
           targetUrl: input.targetUrl,
         }).returning();
 
+        if (input.profiles?.length) {
+          await db.insert(keywordProfiles).values(
+            input.profiles.map(profile => ({ keywordId: inserted[0].id, ...profile }))
+          );
+        }
+
         return { success: true, id: inserted[0]?.id };
       } catch (error) {
         return { success: false, error: String(error) };
@@ -294,62 +596,685 @@ const keywordsRouter = router({
         return { success: false, history: [], error: String(error) };
       }
     }),
-});
+  // キーワードのトラッキングプロファイル一覧を取得（未設定なら既定プロファイルを作成）
+  listProfiles: publicProcedure
+    .input(z.object({ keywordId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, profiles: [] };
+        }
 
-// PageSpeed分析用のルーター
-const pageSpeedRouter = router({
-  // URLを分析
-  analyze: publicProcedure
-    .input(z.object({
-      url: z.string(),
-      domainId: z.number().optional(),
-    }))
-    .mutation(async ({ input }) => {
+        const db = await getDb();
+        if (!db) return { success: false, profiles: [] };
+
+        const keyword = await db.select().from(trackedKeywords).where(
+          and(eq(trackedKeywords.id, input.keywordId), eq(trackedKeywords.userId, ctx.user.id))
+        ).limit(1);
+        if (!keyword[0]) {
+          return { success: false, profiles: [], error: "キーワードが見つかりません" };
+        }
+
+        const profiles = await getKeywordProfiles(input.keywordId);
+        return { success: true, profiles };
+      } catch (error) {
+        return { success: false, profiles: [], error: String(error) };
+      }
+    }),
+
+  // トラッキングプロファイルを追加
+  addProfile: publicProcedure
+    .input(trackingProfileInput.extend({ keywordId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
       try {
-        const metrics = await fetchPageSpeedInsights(input.url);
-        const aiReadability = calculateAIReadabilityScore(metrics);
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
 
-        // domainIdがあればデータベースに保存
-        if (input.domainId) {
-          await analyzeAndSavePageSpeed(input.domainId, input.url);
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const keyword = await db.select().from(trackedKeywords).where(
+          and(eq(trackedKeywords.id, input.keywordId), eq(trackedKeywords.userId, ctx.user.id))
+        ).limit(1);
+        if (!keyword[0]) {
+          return { success: false, error: "キーワードが見つかりません" };
+        }
+
+        const inserted = await db.insert(keywordProfiles).values(input).returning();
+        return { success: true, id: inserted[0]?.id };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // トラッキングプロファイルを削除（スナップショット履歴は残す）
+  deleteProfile: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const profile = await db
+          .select({ id: keywordProfiles.id })
+          .from(keywordProfiles)
+          .innerJoin(trackedKeywords, eq(keywordProfiles.keywordId, trackedKeywords.id))
+          .where(and(eq(keywordProfiles.id, input.id), eq(trackedKeywords.userId, ctx.user.id)))
+          .limit(1);
+        if (!profile[0]) {
+          return { success: false, error: "プロファイルが見つかりません" };
+        }
+
+        await db.delete(keywordProfiles).where(eq(keywordProfiles.id, input.id));
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // キーワードのSERPを取得してスナップショットを保存
+  checkRanking: publicProcedure
+    .input(z.object({ keywordId: z.number(), profileId: z.number().optional() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
         }
 
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const keyword = await db.select().from(trackedKeywords).where(
+          and(eq(trackedKeywords.id, input.keywordId), eq(trackedKeywords.userId, ctx.user.id))
+        ).limit(1);
+        if (!keyword[0]) {
+          return { success: false, error: "キーワードが見つかりません" };
+        }
+
+        const snapshots = await checkKeywordRanking(input.keywordId, input.profileId);
+        await runAlertEvaluation(keyword[0].domainId, "serp");
         return {
           success: true,
-          metrics,
-          aiReadability,
+          results: snapshots.map(snapshot => ({
+            profileId: snapshot.profileId,
+            position: snapshot.position,
+            matchedUrl: snapshot.matchedUrl,
+          })),
         };
       } catch (error) {
         return { success: false, error: String(error) };
       }
     }),
 
-  // PageSpeed履歴を取得
-  getHistory: publicProcedure
-    .input(z.object({ domainId: z.number(), limit: z.number().optional() }))
-    .query(async ({ input }) => {
+  // ドメインの全キーワードの順位チェックを開始（バックグラウンドで実行）
+  checkAllRankings: publicProcedure
+    .input(z.object({ domainId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        checkDomainKeywordRankings(input.domainId).catch(error => {
+          console.error(`Background rank check for domain ${input.domainId} failed:`, error);
+        });
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // プロファイル別のSERP実順位履歴（GSC平均順位と並べて）と上位に来た競合を取得
+  getSerpHistory: publicProcedure
+    .input(z.object({
+      keywordId: z.number(),
+      profileId: z.number().optional(),
+      limit: z.number().int().min(1).max(365).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
       try {
+        if (!ctx.user?.id) {
+          return { success: false, history: [] };
+        }
+
         const db = await getDb();
         if (!db) return { success: false, history: [] };
 
-        const history = await db
-          .select()
-          .from(pageSpeedHistory)
-          .where(eq(pageSpeedHistory.domainId, input.domainId))
-          .orderBy(desc(pageSpeedHistory.date))
-          .limit(input.limit || 30);
+        const keyword = await db.select().from(trackedKeywords).where(
+          and(eq(trackedKeywords.id, input.keywordId), eq(trackedKeywords.userId, ctx.user.id))
+        ).limit(1);
+        if (!keyword[0]) {
+          return { success: false, history: [], error: "キーワードが見つかりません" };
+        }
 
-        return { success: true, history };
+        const serpHistory = await getSerpHistory(input.keywordId, input.profileId, input.limit);
+        return { success: true, ...serpHistory };
       } catch (error) {
         return { success: false, history: [], error: String(error) };
       }
     }),
 
-  // 全ドメインのPageSpeedを同期
-  syncAll: publicProcedure.mutation(async ({ ctx }) => {
-    try {
-      if (!ctx.user?.id) {
-        return { success: false, error: "ログインが必要です" };
+  // カニバリゼーション（同一クエリで複数URLが競合）レポートを取得
+  getCannibalization: publicProcedure
+    .input(z.object({ domainId: z.number(), days: z.number().int().min(7).max(480).optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, findings: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, findings: [] };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, findings: [], error: "ドメインが見つかりません" };
+        }
+
+        const findings = await getCannibalizationReport(input.domainId, input.days);
+        return { success: true, findings };
+      } catch (error) {
+        return { success: false, findings: [], error: String(error) };
+      }
+    }),
+});
+
+// PageSpeed分析用のルーター
+const pageSpeedRouter = router({
+  // URLを分析
+  analyze: publicProcedure
+    .input(z.object({
+      url: z.string(),
+      domainId: z.number().optional(),
+      strategy: z.enum(["mobile", "desktop"]).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const strategy = input.strategy ?? "mobile";
+
+        // domainIdがあればデータベースに保存
+        // AI可読性はページのHTMLから評価（取得できなくてもPageSpeedの結果は返す）
+        const [metrics, aiReadability] = await Promise.all([
+          input.domainId
+            ? analyzeAndSavePageSpeed(input.domainId, input.url, strategy)
+            : fetchPageSpeedInsights(input.url, strategy),
+          auditPageAIReadability(input.url, CRAWLER_USER_AGENT).catch(error => {
+            console.error("AI readability analysis error:", error);
+            return null;
+          }),
+        ]);
+
+        if (input.domainId) {
+          await runAlertEvaluation(input.domainId, "pagespeed");
+        }
+
+        return {
+          success: true,
+          metrics,
+          aiReadability,
+        };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // PageSpeed履歴を取得（URL・ストラテジーで絞り込み可能）
+  getHistory: publicProcedure
+    .input(z.object({
+      domainId: z.number(),
+      url: z.string().optional(),
+      strategy: z.enum(["mobile", "desktop"]).optional(),
+      limit: z.number().optional(),
+    }))
+    .query(async ({ input }) => {
+      try {
+        const db = await getDb();
+        if (!db) return { success: false, history: [] };
+
+        const conditions = [eq(pageSpeedHistory.domainId, input.domainId)];
+        if (input.url) conditions.push(eq(pageSpeedHistory.url, input.url));
+        if (input.strategy) conditions.push(eq(pageSpeedHistory.strategy, input.strategy));
+
+        const history = await db
+          .select()
+          .from(pageSpeedHistory)
+          .where(and(...conditions))
+          .orderBy(desc(pageSpeedHistory.date))
+          .limit(input.limit || 30);
+
+        return { success: true, history };
+      } catch (error) {
+        return { success: false, history: [], error: String(error) };
+      }
+    }),
+
+  // 監視URLの一覧と、ストラテジーごとの最新スコア・前回スコアを取得
+  listMonitoredUrls: publicProcedure
+    .input(z.object({ domainId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, urls: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, urls: [] };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, urls: [], error: "ドメインが見つかりません" };
+        }
+
+        const urls = await db.select().from(monitoredUrls)
+          .where(eq(monitoredUrls.domainId, input.domainId))
+          .orderBy(monitoredUrls.createdAt);
+        if (urls.length === 0) {
+          return { success: true, urls: [] };
+        }
+
+        const tests = await db.select({
+          url: pageSpeedHistory.url,
+          strategy: pageSpeedHistory.strategy,
+          date: pageSpeedHistory.date,
+          performanceScore: pageSpeedHistory.performanceScore,
+          lcp: pageSpeedHistory.lcp,
+          cls: pageSpeedHistory.cls,
+          tbt: pageSpeedHistory.tbt,
+          fcp: pageSpeedHistory.fcp,
+        })
+          .from(pageSpeedHistory)
+          .where(and(
+            eq(pageSpeedHistory.domainId, input.domainId),
+            inArray(pageSpeedHistory.url, urls.map(u => u.url)),
+            gte(pageSpeedHistory.date, new Date(Date.now() - 90 * 24 * 60 * 60 * 1000))
+          ));
+        const scores = latestUrlScores(tests);
+
+        return {
+          success: true,
+          urls: urls.map(u => ({ ...u, scores: scores.get(u.url) ?? {} })),
+        };
+      } catch (error) {
+        return { success: false, urls: [], error: String(error) };
+      }
+    }),
+
+  // 監視URLを追加
+  addMonitoredUrl: publicProcedure
+    .input(z.object({
+      domainId: z.number(),
+      url: z.string().min(1),
+      label: z.string().max(255).optional(),
+      source: z.enum(["manual", "search_console", "sitemap"]).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        let url: string;
+        try {
+          url = normalizeMonitoredUrl(input.url, domain[0].domain);
+        } catch {
+          return { success: false, error: `${domain[0].domain} のURLを入力してください` };
+        }
+
+        const existing = await db.select({ id: monitoredUrls.id }).from(monitoredUrls)
+          .where(eq(monitoredUrls.domainId, input.domainId));
+        if (existing.length >= MAX_MONITORED_URLS_PER_DOMAIN) {
+          return { success: false, error: `監視URLは1ドメインあたり${MAX_MONITORED_URLS_PER_DOMAIN}件までです` };
+        }
+
+        const [created] = await db.insert(monitoredUrls).values({
+          domainId: input.domainId,
+          url,
+          label: input.label?.trim() || null,
+          source: input.source ?? "manual",
+        }).onConflictDoNothing().returning();
+        if (!created) {
+          return { success: false, error: "このURLはすでに登録されています" };
+        }
+
+        return { success: true, monitoredUrl: created };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 監視URLのラベル・有効状態を更新
+  updateMonitoredUrl: publicProcedure
+    .input(z.object({
+      id: z.number(),
+      label: z.string().max(255).nullable().optional(),
+      isActive: z.boolean().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const owned = await db.select({ id: monitoredUrls.id })
+          .from(monitoredUrls)
+          .innerJoin(trackedDomains, eq(monitoredUrls.domainId, trackedDomains.id))
+          .where(and(eq(monitoredUrls.id, input.id), eq(trackedDomains.userId, ctx.user.id)))
+          .limit(1);
+        if (!owned[0]) {
+          return { success: false, error: "監視URLが見つかりません" };
+        }
+
+        await db.update(monitoredUrls)
+          .set({
+            ...(input.label !== undefined ? { label: input.label?.trim() || null } : {}),
+            ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+          })
+          .where(eq(monitoredUrls.id, input.id));
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 監視URLを削除（テスト履歴は残す）
+  removeMonitoredUrl: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const owned = await db.select({ id: monitoredUrls.id })
+          .from(monitoredUrls)
+          .innerJoin(trackedDomains, eq(monitoredUrls.domainId, trackedDomains.id))
+          .where(and(eq(monitoredUrls.id, input.id), eq(trackedDomains.userId, ctx.user.id)))
+          .limit(1);
+        if (!owned[0]) {
+          return { success: false, error: "監視URLが見つかりません" };
+        }
+
+        await db.delete(monitoredUrls).where(eq(monitoredUrls.id, input.id));
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 監視URLをモバイル・デスクトップの両方で今すぐテスト（バックグラウンドで実行）
+  testMonitoredUrl: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const owned = await db.select({ monitoredUrl: monitoredUrls })
+          .from(monitoredUrls)
+          .innerJoin(trackedDomains, eq(monitoredUrls.domainId, trackedDomains.id))
+          .where(and(eq(monitoredUrls.id, input.id), eq(trackedDomains.userId, ctx.user.id)))
+          .limit(1);
+        if (!owned[0]) {
+          return { success: false, error: "監視URLが見つかりません" };
+        }
+
+        const { domainId, url } = owned[0].monitoredUrl;
+        (async () => {
+          for (const strategy of PAGESPEED_STRATEGIES) {
+            await analyzeAndSavePageSpeed(domainId, url, strategy);
+          }
+          await runAlertEvaluation(domainId, "pagespeed");
+        })().catch(error => {
+          console.error(`Background PageSpeed test of ${url} failed:`, error);
+        });
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // Search Consoleのクリック数上位のランディングページを監視URLの候補として取得
+  suggestMonitoredUrls: publicProcedure
+    .input(z.object({
+      domainId: z.number(),
+      days: z.number().int().min(7).max(480).optional(),
+      limit: z.number().int().min(1).max(50).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, suggestions: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, suggestions: [] };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, suggestions: [], error: "ドメインが見つかりません" };
+        }
+
+        const since = new Date(Date.now() - (input.days ?? 28) * 24 * 60 * 60 * 1000);
+        const rows = await db.select({
+          page: queryPageHistory.page,
+          clicks: queryPageHistory.clicks,
+          impressions: queryPageHistory.impressions,
+        })
+          .from(queryPageHistory)
+          .where(and(eq(queryPageHistory.domainId, input.domainId), gte(queryPageHistory.date, since)));
+        const monitored = await db.select({ url: monitoredUrls.url }).from(monitoredUrls)
+          .where(eq(monitoredUrls.domainId, input.domainId));
+
+        return {
+          success: true,
+          suggestions: suggestLandingPages(rows, monitored.map(m => m.url), input.limit ?? 10),
+        };
+      } catch (error) {
+        return { success: false, suggestions: [], error: String(error) };
+      }
+    }),
+
+  // URLごとのモバイル・デスクトップのスコアとCore Web Vitalsの日次推移を取得
+  getUrlTrend: publicProcedure
+    .input(z.object({
+      domainId: z.number(),
+      url: z.string(),
+      days: z.number().int().min(7).max(365).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, points: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, points: [] };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, points: [], error: "ドメインが見つかりません" };
+        }
+
+        const since = new Date(Date.now() - (input.days ?? 90) * 24 * 60 * 60 * 1000);
+        const tests = await db.select({
+          url: pageSpeedHistory.url,
+          strategy: pageSpeedHistory.strategy,
+          date: pageSpeedHistory.date,
+          performanceScore: pageSpeedHistory.performanceScore,
+          lcp: pageSpeedHistory.lcp,
+          cls: pageSpeedHistory.cls,
+          tbt: pageSpeedHistory.tbt,
+          fcp: pageSpeedHistory.fcp,
+        })
+          .from(pageSpeedHistory)
+          .where(and(
+            eq(pageSpeedHistory.domainId, input.domainId),
+            eq(pageSpeedHistory.url, input.url),
+            gte(pageSpeedHistory.date, since)
+          ));
+
+        return { success: true, points: dailyPageSpeedTrend(tests) };
+      } catch (error) {
+        return { success: false, points: [], error: String(error) };
+      }
+    }),
+
+  // URLの最新テストについて、ラボ値（Lighthouse）とフィールド値（CrUXのp75と分布）を並べて取得
+  getLabVsField: publicProcedure
+    .input(z.object({ domainId: z.number(), url: z.string() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, strategies: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, strategies: [] };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, strategies: [], error: "ドメインが見つかりません" };
+        }
+
+        const tests = await db.select({
+          id: pageSpeedHistory.id,
+          strategy: pageSpeedHistory.strategy,
+          date: pageSpeedHistory.date,
+          performanceScore: pageSpeedHistory.performanceScore,
+          lcp: pageSpeedHistory.lcp,
+          cls: pageSpeedHistory.cls,
+          fcp: pageSpeedHistory.fcp,
+          ttfb: pageSpeedHistory.ttfb,
+          tbt: pageSpeedHistory.tbt,
+        })
+          .from(pageSpeedHistory)
+          .where(and(eq(pageSpeedHistory.domainId, input.domainId), eq(pageSpeedHistory.url, input.url)))
+          .orderBy(desc(pageSpeedHistory.date))
+          .limit(20);
+        const latest = PAGESPEED_STRATEGIES
+          .map(strategy => tests.find(test => test.strategy === strategy))
+          .filter((test): test is (typeof tests)[number] => test !== undefined);
+        if (latest.length === 0) {
+          return { success: true, strategies: [] };
+        }
+
+        const fields = await db.select().from(fieldMetrics)
+          .where(inArray(fieldMetrics.pageSpeedId, latest.map(test => test.id)));
+
+        return {
+          success: true,
+          strategies: latest.map(test => {
+            // URL単位のデータを優先し、なければオリジン全体のデータを使う
+            const field = fields.find(f => f.pageSpeedId === test.id && f.scope === "url")
+              ?? fields.find(f => f.pageSpeedId === test.id && f.scope === "origin")
+              ?? null;
+            return {
+              strategy: test.strategy,
+              testedAt: test.date,
+              performanceScore: test.performanceScore,
+              fieldScope: field?.scope ?? null,
+              overallCategory: field?.overallCategory ?? null,
+              metrics: compareLabAndField(test, field ? {
+                lcp: field.lcp,
+                inp: field.inp,
+                cls: field.cls,
+                fcp: field.fcp,
+                ttfb: field.ttfb,
+                fid: field.fid,
+                distributions: (field.distributions ?? {}) as FieldData["distributions"],
+              } : null),
+            };
+          }),
+        };
+      } catch (error) {
+        return { success: false, strategies: [], error: String(error) };
+      }
+    }),
+
+  // URLの優先度付き改善リスト（Lighthouseの改善機会・診断と推定削減量の推移）を取得
+  getFixList: publicProcedure
+    .input(z.object({
+      domainId: z.number(),
+      url: z.string(),
+      strategy: z.enum(["mobile", "desktop"]),
+      runs: z.number().int().min(2).max(30).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, fixes: [], resolved: [], runs: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, fixes: [], resolved: [], runs: [] };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, fixes: [], resolved: [], runs: [], error: "ドメインが見つかりません" };
+        }
+
+        const fixList = await getFixList(input.domainId, input.url, input.strategy, input.runs);
+        return { success: true, ...fixList };
+      } catch (error) {
+        return { success: false, fixes: [], resolved: [], runs: [], error: String(error) };
+      }
+    }),
+
+  // 全ドメインのPageSpeedを同期
+  syncAll: publicProcedure.mutation(async ({ ctx }) => {
+    try {
+      if (!ctx.user?.id) {
+        return { success: false, error: "ログインが必要です" };
       }
 
       const result = await syncPageSpeedData(ctx.user.id);
@@ -733,19 +1658,43 @@ const aiAnalysisRouter = router({
       }
     }),
 
-  // LLM引用状況をチェック
+  // 各AIプラットフォームに質問し、回答と引用元からLLM引用状況をチェック
   checkLLMCitations: publicProcedure
     .input(z.object({
       domain: z.string(),
-      keywords: z.array(z.string()),
+      keywords: z.array(z.string()).min(1).max(20),
+      brandTerms: z.array(z.string()).optional(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        const result = await checkLLMCitationsWithAI(input.domain, input.keywords);
-        return { success: true, citations: result };
-      } catch (error) {
-        console.error("LLM citation check error:", error);
-        return { success: false, error: String(error) };
+        const adapters = createCitationProbeAdapters();
+        if (adapters.length === 0) {
+          return { success: false, error: "AIプラットフォームのAPIキーが設定されていません" };
+        }
+
+        const domainName = input.domain.replace(/^https?:\/\//, '').replace(/\/$/, '');
+        const result = await runCitationProbes(
+          { domain: domainName, brandTerms: brandTermsForDomain(domainName, input.brandTerms) },
+          promptsForKeywords(input.keywords),
+          adapters
+        );
+
+        // トラッキング中のドメインであれば結果を保存し、AI引用の消失をチェック
+        const db = await getDb();
+        if (db && ctx.user?.id) {
+          const tracked = await db.select().from(trackedDomains).where(
+            and(eq(trackedDomains.userId, ctx.user.id), eq(trackedDomains.domain, domainName))
+          ).limit(1);
+          if (tracked[0]) {
+            await recordAiCitationCheck(tracked[0].id, result);
+            await runAlertEvaluation(tracked[0].id, "ai_citation");
+          }
+        }
+
+        return { success: true, citations: result };
+      } catch (error) {
+        console.error("LLM citation check error:", error);
+        return { success: false, error: String(error) };
       }
     }),
 
@@ -777,51 +1726,81 @@ const aiAnalysisRouter = router({
       }
     }),
 
-  // Webサイトのコンテンツを取得して分析
+  // ページのHTMLとllms.txtからAI可読性を評価（サブスコアごとに見つかった要素・不足している要素を返す）
+  analyzeReadability: publicProcedure
+    .input(z.object({
+      url: z.string().min(1),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        const audit = await auditPageAIReadability(toStartUrl(input.url.trim()), CRAWLER_USER_AGENT);
+        return { success: true, audit };
+      } catch (error) {
+        console.error("AI readability analysis error:", error);
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // Webサイトをクロールして分析
   fetchAndAnalyzeDomain: publicProcedure
     .input(z.object({
       domain: z.string(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       try {
-        // まずドメインのコンテンツを取得
-        const url = input.domain.startsWith('http') ? input.domain : `https://${input.domain}`;
         let siteContent = '';
-        
+        let pagesCrawled = 0;
+        let trackedDomainId: number | null = null;
+
         try {
-          const response = await fetch(url, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; NexusSEOBot/1.0)',
-            },
-          });
-          if (response.ok) {
-            const html = await response.text();
-            // HTMLからテキストを抽出（簡易版）
-            siteContent = html
-              .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-              .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-              .replace(/<[^>]+>/g, ' ')
-              .replace(/\s+/g, ' ')
-              .trim()
-              .substring(0, 10000);
+          // ログインユーザーがトラッキング中のドメインであればクロール結果を保存
+          const db = await getDb();
+          if (db && ctx.user?.id) {
+            const domainName = input.domain.replace(/^https?:\/\//, '').replace(/\/$/, '');
+            const tracked = await db.select().from(trackedDomains).where(
+              and(eq(trackedDomains.userId, ctx.user.id), eq(trackedDomains.domain, domainName))
+            ).limit(1);
+            trackedDomainId = tracked[0]?.id ?? null;
           }
-        } catch (fetchError) {
-          console.log('Could not fetch site content, using domain name only');
+
+          const crawl = trackedDomainId
+            ? await executeCrawlRun(await createCrawlRun(trackedDomainId, QUICK_ANALYSIS_CRAWL_OPTIONS))
+            : await crawlSite(toStartUrl(input.domain), QUICK_ANALYSIS_CRAWL_OPTIONS);
+
+          pagesCrawled = crawl.pages.length;
+          siteContent = summarizeCrawlForAnalysis(crawl.pages);
+        } catch (crawlError) {
+          console.log('Could not crawl site content, using domain name only');
+        }
+
+        if (!siteContent) {
           siteContent = `ドメイン: ${input.domain}`;
         }
 
         // AIで分析
         const analysis = await analyzeDomainWithAI(input.domain, siteContent);
         
-        // LLM引用状況もチェック
+        // APIキーが設定されていれば、強みキーワードでLLM引用状況もチェック
+        const adapters = createCitationProbeAdapters();
         const mainKeywords = analysis.strengthKeywords.slice(0, 5).map(k => k.keyword);
-        const citations = await checkLLMCitationsWithAI(input.domain, mainKeywords);
+        const citations = adapters.length > 0 && mainKeywords.length > 0
+          ? await runCitationProbes(
+            { domain: input.domain, brandTerms: brandTermsForDomain(input.domain) },
+            promptsForKeywords(mainKeywords),
+            adapters
+          )
+          : null;
+        if (citations && trackedDomainId) {
+          await recordAiCitationCheck(trackedDomainId, citations);
+          await runAlertEvaluation(trackedDomainId, "ai_citation");
+        }
 
         return {
           success: true,
           analysis,
           citations,
           fetchedContentLength: siteContent.length,
+          pagesCrawled,
         };
       } catch (error) {
         console.error("Fetch and analyze error:", error);
@@ -830,6 +1809,363 @@ const aiAnalysisRouter = router({
     }),
 });
 
+// サイトクローラー用のルーター
+const crawlerRouter = router({
+  // クロールを開始（バックグラウンドで実行）
+  start: publicProcedure
+    .input(z.object({
+      domainId: z.number(),
+      maxDepth: z.number().int().min(0).max(10).optional(),
+      maxPages: z.number().int().min(1).max(10000).optional(),
+      concurrency: z.number().int().min(1).max(20).optional(),
+      respectRobots: z.boolean().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        const { domainId, ...options } = input;
+        const crawlId = await createCrawlRun(domainId, options);
+
+        // 大規模サイトはリクエスト時間内に終わらないため待たずに返す
+        executeCrawlRun(crawlId).catch(error => {
+          console.error(`Background crawl ${crawlId} failed:`, error);
+        });
+
+        return { success: true, crawlId };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // クロール実行履歴を取得
+  listRuns: publicProcedure
+    .input(z.object({ domainId: z.number(), limit: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, runs: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, runs: [] };
+
+        const runs = await db
+          .select({ run: crawlRuns })
+          .from(crawlRuns)
+          .innerJoin(trackedDomains, eq(crawlRuns.domainId, trackedDomains.id))
+          .where(and(eq(crawlRuns.domainId, input.domainId), eq(trackedDomains.userId, ctx.user.id)))
+          .orderBy(desc(crawlRuns.createdAt))
+          .limit(input.limit || 20);
+
+        return { success: true, runs: runs.map(r => r.run) };
+      } catch (error) {
+        return { success: false, runs: [], error: String(error) };
+      }
+    }),
+
+  // クロールしたページ一覧を取得
+  getPages: publicProcedure
+    .input(z.object({
+      crawlId: z.number(),
+      limit: z.number().optional(),
+      offset: z.number().optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, pages: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, pages: [] };
+
+        const pages = await db
+          .select({ page: crawledPages })
+          .from(crawledPages)
+          .innerJoin(trackedDomains, eq(crawledPages.domainId, trackedDomains.id))
+          .where(and(eq(crawledPages.crawlId, input.crawlId), eq(trackedDomains.userId, ctx.user.id)))
+          .orderBy(crawledPages.depth, crawledPages.id)
+          .limit(input.limit || 100)
+          .offset(input.offset || 0);
+
+        return { success: true, pages: pages.map(p => p.page) };
+      } catch (error) {
+        return { success: false, pages: [], error: String(error) };
+      }
+    }),
+});
+
+// 技術SEO監査用のルーター
+const auditsRouter = router({
+  // 監査を開始（クロールIDがなければ新規クロールしてから監査）
+  run: publicProcedure
+    .input(z.object({
+      domainId: z.number(),
+      crawlId: z.number().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        if (input.crawlId) {
+          const crawl = await db.select().from(crawlRuns).where(
+            and(eq(crawlRuns.id, input.crawlId), eq(crawlRuns.domainId, input.domainId))
+          ).limit(1);
+          if (!crawl[0] || crawl[0].status !== "completed") {
+            return { success: false, error: "完了したクロールが見つかりません" };
+          }
+        }
+
+        const auditId = await createAuditRun(input.domainId, input.crawlId);
+
+        executeAuditRun(auditId).catch(error => {
+          console.error(`Background audit ${auditId} failed:`, error);
+        });
+
+        return { success: true, auditId };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 監査履歴を取得
+  list: publicProcedure
+    .input(z.object({ domainId: z.number(), limit: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, runs: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, runs: [] };
+
+        const runs = await db
+          .select({ run: auditRuns })
+          .from(auditRuns)
+          .innerJoin(trackedDomains, eq(auditRuns.domainId, trackedDomains.id))
+          .where(and(eq(auditRuns.domainId, input.domainId), eq(trackedDomains.userId, ctx.user.id)))
+          .orderBy(desc(auditRuns.createdAt))
+          .limit(input.limit || 20);
+
+        return { success: true, runs: runs.map(r => r.run) };
+      } catch (error) {
+        return { success: false, runs: [], error: String(error) };
+      }
+    }),
+
+  // 監査で検出された問題を取得
+  getIssues: publicProcedure
+    .input(z.object({
+      auditId: z.number(),
+      severity: z.enum(["critical", "warning", "info"]).optional(),
+      issueType: z.string().optional(),
+      limit: z.number().optional(),
+      offset: z.number().optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, issues: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, issues: [] };
+
+        const conditions = [eq(auditIssues.auditId, input.auditId), eq(trackedDomains.userId, ctx.user.id)];
+        if (input.severity) conditions.push(eq(auditIssues.severity, input.severity));
+        if (input.issueType) conditions.push(eq(auditIssues.issueType, input.issueType));
+
+        const issues = await db
+          .select({ issue: auditIssues })
+          .from(auditIssues)
+          .innerJoin(trackedDomains, eq(auditIssues.domainId, trackedDomains.id))
+          .where(and(...conditions))
+          .orderBy(auditIssues.severity, auditIssues.issueType, auditIssues.id)
+          .limit(input.limit || 200)
+          .offset(input.offset || 0);
+
+        return { success: true, issues: issues.map(i => i.issue), catalog: AUDIT_ISSUE_CATALOG };
+      } catch (error) {
+        return { success: false, issues: [], error: String(error) };
+      }
+    }),
+
+  // 2つの監査結果を比較（新規・解決済み・継続中の問題）
+  compare: publicProcedure
+    .input(z.object({
+      baseAuditId: z.number(),
+      targetAuditId: z.number(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const runs = await db
+          .select({ run: auditRuns })
+          .from(auditRuns)
+          .innerJoin(trackedDomains, eq(auditRuns.domainId, trackedDomains.id))
+          .where(and(
+            inArray(auditRuns.id, [input.baseAuditId, input.targetAuditId]),
+            eq(trackedDomains.userId, ctx.user.id)
+          ));
+
+        const base = runs.find(r => r.run.id === input.baseAuditId)?.run;
+        const target = runs.find(r => r.run.id === input.targetAuditId)?.run;
+        if (!base || !target) {
+          return { success: false, error: "監査が見つかりません" };
+        }
+        if (base.domainId !== target.domainId) {
+          return { success: false, error: "異なるドメインの監査は比較できません" };
+        }
+
+        const diff = await compareAuditRuns(base.id, target.id);
+
+        return {
+          success: true,
+          base,
+          target,
+          ...diff,
+          summary: {
+            new: diff.newIssues.length,
+            fixed: diff.fixedIssues.length,
+            persisting: diff.persistingIssues.length,
+          },
+        };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+});
+
+// サイトマップ検証用のルーター
+const sitemapsRouter = router({
+  // サイトマップの探索と検証を開始（バックグラウンドで実行）
+  scan: publicProcedure
+    .input(z.object({
+      domainId: z.number(),
+      maxChecks: z.number().int().min(0).max(5000).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        const scanId = await createSitemapScan(input.domainId);
+
+        executeSitemapScan(scanId, input.maxChecks).catch(error => {
+          console.error(`Background sitemap scan ${scanId} failed:`, error);
+        });
+
+        return { success: true, scanId };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // サイトマップ検証履歴を取得
+  listScans: publicProcedure
+    .input(z.object({ domainId: z.number(), limit: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, scans: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, scans: [] };
+
+        const scans = await db
+          .select({ scan: sitemapScans })
+          .from(sitemapScans)
+          .innerJoin(trackedDomains, eq(sitemapScans.domainId, trackedDomains.id))
+          .where(and(eq(sitemapScans.domainId, input.domainId), eq(trackedDomains.userId, ctx.user.id)))
+          .orderBy(desc(sitemapScans.createdAt))
+          .limit(input.limit || 20);
+
+        return { success: true, scans: scans.map(s => s.scan) };
+      } catch (error) {
+        return { success: false, scans: [], error: String(error) };
+      }
+    }),
+
+  // サイトマップ掲載URLと検証結果を取得
+  getUrls: publicProcedure
+    .input(z.object({
+      scanId: z.number(),
+      indexable: z.boolean().optional(),
+      limit: z.number().optional(),
+      offset: z.number().optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, urls: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, urls: [] };
+
+        const conditions = [eq(sitemapUrls.scanId, input.scanId), eq(trackedDomains.userId, ctx.user.id)];
+        if (input.indexable !== undefined) conditions.push(eq(sitemapUrls.indexable, input.indexable));
+
+        const urls = await db
+          .select({ url: sitemapUrls })
+          .from(sitemapUrls)
+          .innerJoin(trackedDomains, eq(sitemapUrls.domainId, trackedDomains.id))
+          .where(and(...conditions))
+          .orderBy(sitemapUrls.id)
+          .limit(input.limit || 100)
+          .offset(input.offset || 0);
+
+        return { success: true, urls: urls.map(u => u.url) };
+      } catch (error) {
+        return { success: false, urls: [], error: String(error) };
+      }
+    }),
+});
+
 // CSVエクスポート用のルーター
 const exportRouter = router({
   // キーワードデータをCSV形式で生成
@@ -963,6 +2299,1323 @@ const exportRouter = router({
     }),
 });
 
+// アラート用のルーター
+const alertRuleTypeInput = z.enum(["position_drop", "ctr_collapse", "cwv_regression", "lost_ai_citation", "budget_violation"]);
+const severityInput = z.enum(["critical", "warning", "info"]);
+
+const alertsRouter = router({
+  // アラート一覧を取得（スヌーズ中は除外）
+  list: publicProcedure
+    .input(z.object({
+      domainId: z.number().optional(),
+      includeAcknowledged: z.boolean().optional(),
+      limit: z.number().int().min(1).max(200).optional(),
+    }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, alerts: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, alerts: [] };
+
+        const conditions = [
+          eq(alerts.userId, ctx.user.id),
+          or(isNull(alerts.snoozedUntil), lt(alerts.snoozedUntil, new Date())),
+        ];
+        if (input?.domainId) conditions.push(eq(alerts.domainId, input.domainId));
+        if (!input?.includeAcknowledged) conditions.push(isNull(alerts.acknowledgedAt));
+
+        const list = await db.select().from(alerts)
+          .where(and(...conditions))
+          .orderBy(desc(alerts.createdAt))
+          .limit(input?.limit || 50);
+
+        return { success: true, alerts: list };
+      } catch (error) {
+        return { success: false, alerts: [], error: String(error) };
+      }
+    }),
+
+  // アラートを確認済みにする
+  acknowledge: publicProcedure
+    .input(z.object({ ids: z.array(z.number()).min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        await db.update(alerts)
+          .set({ acknowledgedAt: new Date() })
+          .where(and(inArray(alerts.id, input.ids), eq(alerts.userId, ctx.user.id)));
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // アラートを一定時間スヌーズ
+  snooze: publicProcedure
+    .input(z.object({ id: z.number(), hours: z.number().int().min(1).max(24 * 30) }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const snoozedUntil = new Date(Date.now() + input.hours * 60 * 60 * 1000);
+        await db.update(alerts)
+          .set({ snoozedUntil })
+          .where(and(eq(alerts.id, input.id), eq(alerts.userId, ctx.user.id)));
+
+        return { success: true, snoozedUntil };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // アラートルール一覧を取得（未設定の場合は既定のルールを作成）
+  listRules: publicProcedure.query(async ({ ctx }) => {
+    try {
+      if (!ctx.user?.id) {
+        return { success: false, rules: [] };
+      }
+
+      const rules = await getAlertRules(ctx.user.id);
+      return { success: true, rules };
+    } catch (error) {
+      return { success: false, rules: [], error: String(error) };
+    }
+  }),
+
+  // アラートルールを追加
+  addRule: publicProcedure
+    .input(z.object({
+      ruleType: alertRuleTypeInput,
+      domainId: z.number().nullable().optional(),
+      threshold: z.number().positive().optional(),
+      severity: severityInput.optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        if (input.domainId) {
+          const domain = await db.select().from(trackedDomains).where(
+            and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+          ).limit(1);
+          if (!domain[0]) {
+            return { success: false, error: "ドメインが見つかりません" };
+          }
+        }
+
+        const defaults = DEFAULT_ALERT_RULES.find(rule => rule.ruleType === input.ruleType)!;
+        const inserted = await db.insert(alertRules).values({
+          userId: ctx.user.id,
+          domainId: input.domainId ?? null,
+          ruleType: input.ruleType,
+          threshold: input.threshold !== undefined ? String(input.threshold) : defaults.threshold,
+          severity: input.severity ?? defaults.severity,
+        }).returning();
+
+        return { success: true, rule: inserted[0] };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // アラートルールを更新
+  updateRule: publicProcedure
+    .input(z.object({
+      id: z.number(),
+      threshold: z.number().positive().optional(),
+      severity: severityInput.optional(),
+      isEnabled: z.boolean().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        await db.update(alertRules)
+          .set({
+            ...(input.threshold !== undefined ? { threshold: String(input.threshold) } : {}),
+            ...(input.severity ? { severity: input.severity } : {}),
+            ...(input.isEnabled !== undefined ? { isEnabled: input.isEnabled } : {}),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(alertRules.id, input.id), eq(alertRules.userId, ctx.user.id)));
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // アラートルールを削除
+  deleteRule: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        await db.delete(alertRules).where(and(eq(alertRules.id, input.id), eq(alertRules.userId, ctx.user.id)));
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+});
+
+// 通知チャネル用のルーター
+const channelConfigInput = z.discriminatedUnion("channelType", [
+  z.object({
+    channelType: z.literal("email"),
+    config: z.object({
+      host: z.string().min(1),
+      port: z.number().int().min(1).max(65535),
+      secure: z.boolean(),
+      username: z.string().optional(),
+      password: z.string().optional(),
+      from: z.string().email(),
+      to: z.array(z.string().email()).min(1),
+    }),
+  }),
+  z.object({ channelType: z.literal("slack"), config: z.object({ webhookUrl: z.string().url() }) }),
+  z.object({ channelType: z.literal("teams"), config: z.object({ webhookUrl: z.string().url() }) }),
+  z.object({ channelType: z.literal("webhook"), config: z.object({ url: z.string().url(), secret: z.string().min(16) }) }),
+]);
+
+// パスワード・署名キー・Webhook URLのトークン部分を伏せて返す
+function maskChannelConfig(channel: NotificationChannel) {
+  const config = channel.config as Record<string, unknown>;
+  const masked: Record<string, unknown> = { ...config };
+  if (config.password) masked.password = "********";
+  if (config.secret) masked.secret = "********";
+  if (typeof config.webhookUrl === "string") masked.webhookUrl = config.webhookUrl.replace(/^(https?:\/\/[^/]+\/).+$/, "$1…");
+  return { ...channel, config: masked };
+}
+
+const notificationsRouter = router({
+  // 通知チャネル一覧を取得
+  listChannels: publicProcedure.query(async ({ ctx }) => {
+    try {
+      if (!ctx.user?.id) {
+        return { success: false, channels: [], defaultTemplates: DEFAULT_TEMPLATES };
+      }
+
+      const db = await getDb();
+      if (!db) return { success: false, channels: [], defaultTemplates: DEFAULT_TEMPLATES };
+
+      const channels = await db.select().from(notificationChannels)
+        .where(eq(notificationChannels.userId, ctx.user.id))
+        .orderBy(notificationChannels.id);
+
+      return { success: true, channels: channels.map(maskChannelConfig), defaultTemplates: DEFAULT_TEMPLATES };
+    } catch (error) {
+      return { success: false, channels: [], defaultTemplates: DEFAULT_TEMPLATES, error: String(error) };
+    }
+  }),
+
+  // 通知チャネルを追加
+  addChannel: publicProcedure
+    .input(z.object({
+      name: z.string().min(1).max(100),
+      minSeverity: severityInput.optional(),
+      ruleTypes: z.array(alertRuleTypeInput).nullable().optional(),
+      template: z.string().max(2000).nullable().optional(),
+    }).and(channelConfigInput))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const inserted = await db.insert(notificationChannels).values({
+          userId: ctx.user.id,
+          name: input.name,
+          channelType: input.channelType,
+          config: input.config,
+          minSeverity: input.minSeverity ?? "warning",
+          ruleTypes: input.ruleTypes?.length ? input.ruleTypes : null,
+          template: input.template?.trim() || null,
+        }).returning();
+
+        return { success: true, channel: maskChannelConfig(inserted[0]) };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 通知チャネルを更新
+  updateChannel: publicProcedure
+    .input(z.object({
+      id: z.number(),
+      name: z.string().min(1).max(100).optional(),
+      minSeverity: severityInput.optional(),
+      ruleTypes: z.array(alertRuleTypeInput).nullable().optional(),
+      template: z.string().max(2000).nullable().optional(),
+      isEnabled: z.boolean().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const { id, ruleTypes, template, ...changes } = input;
+        await db.update(notificationChannels)
+          .set({
+            ...changes,
+            ...(ruleTypes !== undefined ? { ruleTypes: ruleTypes?.length ? ruleTypes : null } : {}),
+            ...(template !== undefined ? { template: template?.trim() || null } : {}),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(notificationChannels.id, id), eq(notificationChannels.userId, ctx.user.id)));
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 通知チャネルを削除
+  deleteChannel: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        await db.delete(notificationChannels)
+          .where(and(eq(notificationChannels.id, input.id), eq(notificationChannels.userId, ctx.user.id)));
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // テスト通知を送信
+  testChannel: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const channel = await db.select().from(notificationChannels).where(
+          and(eq(notificationChannels.id, input.id), eq(notificationChannels.userId, ctx.user.id))
+        ).limit(1);
+        if (!channel[0]) {
+          return { success: false, error: "通知チャネルが見つかりません" };
+        }
+
+        const result = await sendTestNotification(channel[0]);
+        return result.status === "sent"
+          ? { success: true }
+          : { success: false, error: result.error || "送信に失敗しました" };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 配信ログを取得
+  listDeliveries: publicProcedure
+    .input(z.object({ channelId: z.number().optional(), limit: z.number().int().min(1).max(200).optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, deliveries: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, deliveries: [] };
+
+        const conditions = [eq(notificationChannels.userId, ctx.user.id)];
+        if (input?.channelId) conditions.push(eq(alertDeliveries.channelId, input.channelId));
+
+        const rows = await db
+          .select({
+            delivery: alertDeliveries,
+            channelName: notificationChannels.name,
+            channelType: notificationChannels.channelType,
+            alertTitle: alerts.title,
+          })
+          .from(alertDeliveries)
+          .innerJoin(notificationChannels, eq(alertDeliveries.channelId, notificationChannels.id))
+          .leftJoin(alerts, eq(alertDeliveries.alertId, alerts.id))
+          .where(and(...conditions))
+          .orderBy(desc(alertDeliveries.createdAt))
+          .limit(input?.limit || 50);
+
+        return {
+          success: true,
+          deliveries: rows.map(row => ({
+            ...row.delivery,
+            channelName: row.channelName,
+            channelType: row.channelType,
+            alertTitle: row.alertTitle ?? (row.delivery.digestReportId ? "ダイジェスト" : "テスト通知"),
+          })),
+        };
+      } catch (error) {
+        return { success: false, deliveries: [], error: String(error) };
+      }
+    }),
+});
+
+const digestCadenceInput = z.enum(["daily", "weekly"]);
+
+const digestsRouter = router({
+  // ダイジェスト設定を取得
+  getSettings: publicProcedure.query(async ({ ctx }) => {
+    try {
+      if (!ctx.user?.id) {
+        return { success: false, error: "ログインが必要です" };
+      }
+
+      const settings = await getDigestSettings(ctx.user.id);
+      return {
+        success: true,
+        settings,
+        nextSendAt: nextScheduledSend(settings),
+      };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  }),
+
+  // ダイジェスト設定を更新
+  updateSettings: publicProcedure
+    .input(z.object({
+      cadence: z.enum(["off", "daily", "weekly"]).optional(),
+      sendHour: z.number().int().min(0).max(23).optional(),
+      sendWeekday: z.number().int().min(0).max(6).optional(),
+      timezone: z.string().min(1).max(64).refine(isValidTimezone, "不明なタイムゾーンです").optional(),
+      includeAiSummary: z.boolean().optional(),
+      channelIds: z.array(z.number()).nullable().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const settings = await getDigestSettings(ctx.user.id);
+        const [updated] = await db.update(digestSettings)
+          .set({ ...input, updatedAt: new Date() })
+          .where(eq(digestSettings.id, settings.id))
+          .returning();
+        await scheduleDigestJob(updated);
+
+        return { success: true, settings: updated };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // ダイジェストをプレビュー（保存・送信はしない）
+  preview: publicProcedure
+    .input(z.object({ cadence: digestCadenceInput }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const settings = await getDigestSettings(ctx.user.id);
+        const digest = await buildDigest(ctx.user.id, input.cadence, { includeAiSummary: settings.includeAiSummary });
+        return { success: true, subject: digest.subject, markdown: digest.markdown, html: digest.html };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // ダイジェストを今すぐ作成して送信
+  sendNow: publicProcedure
+    .input(z.object({ cadence: digestCadenceInput }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const settings = await getDigestSettings(ctx.user.id);
+        const report = await createDigestReport(ctx.user.id, input.cadence, { includeAiSummary: settings.includeAiSummary });
+        const results = await sendDigestReport(report, settings.channelIds as number[] | null);
+        if (results.length === 0) {
+          return { success: false, reportId: report.id, error: "送信先の通知チャネルがありません" };
+        }
+
+        return {
+          success: true,
+          reportId: report.id,
+          sent: results.filter(r => r.status === "sent").length,
+          failed: results.filter(r => r.status === "failed").length,
+        };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 過去のダイジェスト一覧を取得
+  listReports: publicProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(100).optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, reports: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, reports: [] };
+
+        const reports = await db.select({
+          id: digestReports.id,
+          cadence: digestReports.cadence,
+          periodStart: digestReports.periodStart,
+          periodEnd: digestReports.periodEnd,
+          summary: digestReports.summary,
+          markdown: digestReports.markdown,
+          createdAt: digestReports.createdAt,
+        })
+          .from(digestReports)
+          .where(eq(digestReports.userId, ctx.user.id))
+          .orderBy(desc(digestReports.createdAt))
+          .limit(input?.limit || 20);
+
+        return { success: true, reports };
+      } catch (error) {
+        return { success: false, reports: [], error: String(error) };
+      }
+    }),
+});
+
+// ジョブの参照権限を確認（管理者はすべてのジョブを操作できる）
+async function findAccessibleJob(user: { id: number; role: string }, jobId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const conditions = [eq(syncJobs.id, jobId)];
+  if (user.role !== "admin") conditions.push(eq(syncJobs.userId, user.id));
+  const job = await db.select().from(syncJobs).where(and(...conditions)).limit(1);
+  return job[0] ?? null;
+}
+
+const jobsRouter = router({
+  // 同期ジョブ一覧を取得（管理者は全ユーザー分を取得可能）
+  list: publicProcedure
+    .input(z.object({ allUsers: z.boolean().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, jobs: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, jobs: [] };
+
+        const allUsers = input?.allUsers === true && ctx.user.role === "admin";
+        const rows = await db
+          .select({ job: syncJobs, domain: trackedDomains.domain })
+          .from(syncJobs)
+          .leftJoin(trackedDomains, eq(syncJobs.domainId, trackedDomains.id))
+          .where(allUsers ? undefined : eq(syncJobs.userId, ctx.user.id))
+          .orderBy(syncJobs.userId, syncJobs.domainId, syncJobs.jobType);
+
+        const now = new Date();
+        return {
+          success: true,
+          isAdmin: ctx.user.role === "admin",
+          worker: SchedulerService.getStatus(),
+          jobs: rows.map(row => ({
+            ...row.job,
+            domain: row.domain,
+            isStale: isJobStale(row.job, now),
+          })),
+        };
+      } catch (error) {
+        return { success: false, jobs: [], error: String(error) };
+      }
+    }),
+
+  // ジョブの実行履歴とログを取得
+  logs: publicProcedure
+    .input(z.object({ jobId: z.number(), limit: z.number().int().min(1).max(100).optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, runs: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, runs: [] };
+
+        const job = await findAccessibleJob(ctx.user, input.jobId);
+        if (!job) {
+          return { success: false, runs: [], error: "ジョブが見つかりません" };
+        }
+
+        const runs = await db.select().from(jobRuns)
+          .where(eq(jobRuns.jobId, job.id))
+          .orderBy(desc(jobRuns.startedAt))
+          .limit(input.limit || 20);
+
+        return { success: true, runs };
+      } catch (error) {
+        return { success: false, runs: [], error: String(error) };
+      }
+    }),
+
+  // 失敗したジョブを再試行（試行回数をリセット）
+  retry: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const job = await findAccessibleJob(ctx.user, input.id);
+        if (!job) {
+          return { success: false, error: "ジョブが見つかりません" };
+        }
+
+        const updated = await requeueJob(job.id, { resetAttempts: true });
+        return updated ? { success: true } : { success: false, error: "実行中のジョブは再試行できません" };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // ジョブを今すぐ実行
+  runNow: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const job = await findAccessibleJob(ctx.user, input.id);
+        if (!job) {
+          return { success: false, error: "ジョブが見つかりません" };
+        }
+
+        const updated = await requeueJob(job.id);
+        return updated ? { success: true } : { success: false, error: "ジョブはすでに実行中です" };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // ジョブを停止（実行中の処理は最後まで実行され、以降は実行されない）
+  cancel: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const job = await findAccessibleJob(ctx.user, input.id);
+        if (!job) {
+          return { success: false, error: "ジョブが見つかりません" };
+        }
+
+        await cancelJob(job.id);
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+});
+
+// パフォーマンス予算の上限・下限（CLSはスコアで受け取り、1000倍値で保存）
+const budgetLimitsInput = z.object({
+  name: z.string().min(1).max(255),
+  urlPattern: z.string().max(500).nullable().optional(),
+  strategy: z.enum(["mobile", "desktop"]).nullable().optional(),
+  maxLcp: z.number().int().positive().nullable().optional(),
+  maxCls: z.number().positive().max(10).nullable().optional(),
+  maxTbt: z.number().int().positive().nullable().optional(),
+  maxFcp: z.number().int().positive().nullable().optional(),
+  maxTtfb: z.number().int().positive().nullable().optional(),
+  minPerformanceScore: z.number().int().min(1).max(100).nullable().optional(),
+});
+
+// 入力を予算テーブルの列に変換（未指定の項目は含めない）
+function toBudgetColumns(input: Partial<z.infer<typeof budgetLimitsInput>>) {
+  const pattern = input.urlPattern?.trim();
+  return {
+    ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+    ...(input.urlPattern !== undefined ? { urlPattern: pattern || null } : {}),
+    ...(input.strategy !== undefined ? { strategy: input.strategy } : {}),
+    ...(input.maxLcp !== undefined ? { maxLcp: input.maxLcp } : {}),
+    ...(input.maxCls !== undefined ? { maxCls: input.maxCls === null ? null : Math.round(input.maxCls * 1000) } : {}),
+    ...(input.maxTbt !== undefined ? { maxTbt: input.maxTbt } : {}),
+    ...(input.maxFcp !== undefined ? { maxFcp: input.maxFcp } : {}),
+    ...(input.maxTtfb !== undefined ? { maxTtfb: input.maxTtfb } : {}),
+    ...(input.minPerformanceScore !== undefined ? { minPerformanceScore: input.minPerformanceScore } : {}),
+  };
+}
+
+// 上限または下限が1つ以上設定されているか
+function hasBudgetLimit(columns: Partial<Pick<PerformanceBudget, "maxLcp" | "maxCls" | "maxTbt" | "maxFcp" | "maxTtfb" | "minPerformanceScore">>) {
+  return [columns.maxLcp, columns.maxCls, columns.maxTbt, columns.maxFcp, columns.maxTtfb, columns.minPerformanceScore].some(v => v != null);
+}
+
+// パフォーマンス予算用のルーター
+const budgetsRouter = router({
+  // 予算一覧を取得
+  list: publicProcedure
+    .input(z.object({ domainId: z.number().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, budgets: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, budgets: [] };
+
+        const conditions = [eq(performanceBudgets.userId, ctx.user.id)];
+        if (input?.domainId) conditions.push(eq(performanceBudgets.domainId, input.domainId));
+
+        const budgets = await db.select().from(performanceBudgets)
+          .where(and(...conditions))
+          .orderBy(performanceBudgets.id);
+
+        return { success: true, budgets };
+      } catch (error) {
+        return { success: false, budgets: [], error: String(error) };
+      }
+    }),
+
+  // 予算を追加（最初の予算の追加時に予算超過のアラートルールも作成）
+  add: publicProcedure
+    .input(budgetLimitsInput.extend({ domainId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        const columns = toBudgetColumns(input);
+        if (!hasBudgetLimit(columns)) {
+          return { success: false, error: "少なくとも1つの指標に上限または下限を設定してください" };
+        }
+
+        const [budget] = await db.insert(performanceBudgets).values({
+          ...columns,
+          name: input.name.trim(),
+          userId: ctx.user.id,
+          domainId: input.domainId,
+        }).returning();
+        await ensureAlertRule(ctx.user.id, "budget_violation");
+
+        return { success: true, budget };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 予算を更新（すべての上限・下限を外す更新は受け付けない）
+  update: publicProcedure
+    .input(budgetLimitsInput.partial().extend({ id: z.number(), isEnabled: z.boolean().optional() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const existing = await db.select().from(performanceBudgets)
+          .where(and(eq(performanceBudgets.id, input.id), eq(performanceBudgets.userId, ctx.user.id)))
+          .limit(1);
+        if (!existing[0]) {
+          return { success: false, error: "予算が見つかりません" };
+        }
+
+        const columns = toBudgetColumns(input);
+        if (!hasBudgetLimit({ ...existing[0], ...columns })) {
+          return { success: false, error: "少なくとも1つの指標に上限または下限を設定してください" };
+        }
+
+        const [updated] = await db.update(performanceBudgets)
+          .set({
+            ...columns,
+            ...(input.isEnabled !== undefined ? { isEnabled: input.isEnabled } : {}),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(performanceBudgets.id, input.id), eq(performanceBudgets.userId, ctx.user.id)))
+          .returning();
+        if (!updated) {
+          return { success: false, error: "予算が見つかりません" };
+        }
+
+        return { success: true, budget: updated };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 予算を削除（超過履歴も削除）
+  delete: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const deleted = await db.delete(performanceBudgets)
+          .where(and(eq(performanceBudgets.id, input.id), eq(performanceBudgets.userId, ctx.user.id)))
+          .returning({ id: performanceBudgets.id });
+        if (deleted[0]) {
+          await db.delete(budgetViolations).where(eq(budgetViolations.budgetId, deleted[0].id));
+        }
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 予算超過の履歴を取得
+  listViolations: publicProcedure
+    .input(z.object({ domainId: z.number(), limit: z.number().int().min(1).max(200).optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, violations: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, violations: [] };
+
+        const violations = await db.select({ violation: budgetViolations, budgetName: performanceBudgets.name })
+          .from(budgetViolations)
+          .innerJoin(performanceBudgets, eq(budgetViolations.budgetId, performanceBudgets.id))
+          .where(and(eq(budgetViolations.domainId, input.domainId), eq(performanceBudgets.userId, ctx.user.id)))
+          .orderBy(desc(budgetViolations.date))
+          .limit(input.limit || 50);
+
+        return { success: true, violations: violations.map(v => ({ ...v.violation, budgetName: v.budgetName })) };
+      } catch (error) {
+        return { success: false, violations: [], error: String(error) };
+      }
+    }),
+
+  // デプロイパイプライン用のトークンを発行（再発行すると以前のトークンは無効）
+  issueToken: publicProcedure
+    .input(z.object({ domainId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const { token, hash } = generateBudgetToken();
+        const updated = await db.update(trackedDomains)
+          .set({ budgetTokenHash: hash, updatedAt: new Date() })
+          .where(and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id)))
+          .returning({ id: trackedDomains.id });
+        if (!updated[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        return { success: true, token };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // デプロイパイプライン向け：URLをPageSpeedでテストし、予算に対する合否と超過した項目を返す
+  // ログインセッションの代わりにドメインのトークンでも呼び出せる
+  check: publicProcedure
+    .input(z.object({
+      url: z.string().min(1),
+      strategy: z.enum(["mobile", "desktop"]).optional(),
+      token: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        let candidates: Array<typeof trackedDomains.$inferSelect> = [];
+        if (input.token) {
+          candidates = await db.select().from(trackedDomains)
+            .where(eq(trackedDomains.budgetTokenHash, hashBudgetToken(input.token)));
+        } else if (ctx.user?.id) {
+          candidates = await db.select().from(trackedDomains).where(eq(trackedDomains.userId, ctx.user.id));
+        } else {
+          return { success: false, error: "ログインまたはトークンが必要です" };
+        }
+
+        let url: string | null = null;
+        const domain = candidates.find(candidate => {
+          try {
+            url = normalizeMonitoredUrl(input.url, candidate.domain);
+            return true;
+          } catch {
+            return false;
+          }
+        });
+        if (!domain || !url) {
+          return { success: false, error: input.token ? "トークンが無効か、URLがドメインに含まれません" : "URLに対応する追跡ドメインがありません" };
+        }
+
+        const results = [];
+        for (const strategy of input.strategy ? [input.strategy] : PAGESPEED_STRATEGIES) {
+          const test = await analyzeAndSavePageSpeed(domain.id, url, strategy);
+          results.push({
+            strategy,
+            testId: test.testId,
+            performanceScore: test.performanceScore,
+            budgetName: test.budgetCheck?.budgetName ?? null,
+            // 予算の確認自体が失敗した場合は不合格として扱う
+            passed: test.budgetError === null && (test.budgetCheck?.passed ?? true),
+            violations: test.budgetCheck?.violations ?? [],
+            error: test.budgetError,
+          });
+        }
+        await runAlertEvaluation(domain.id, "pagespeed");
+
+        return {
+          success: true,
+          url,
+          passed: results.every(result => result.passed),
+          results,
+        };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+});
+
+// 構造化データ用のルーター
+const structuredDataRouter = router({
+  // 貼り付けたスニペット（JSON-LDまたはHTML）かURLのページから構造化データを抽出し、schema.orgとリッチリザルトの要件で検証
+  validate: publicProcedure
+    .input(z.object({
+      url: z.string().optional(),
+      snippet: z.string().max(500000).optional(),
+    }))
+    .mutation(async ({ input }) => {
+      try {
+        if (input.snippet?.trim()) {
+          return { success: true, url: null, report: validateStructuredDataSnippet(input.snippet) };
+        }
+        if (!input.url?.trim()) {
+          return { success: false, error: "URLまたはスニペットを入力してください" };
+        }
+
+        const { response, finalUrl, error } = await fetchWithRedirects(toStartUrl(input.url.trim()));
+        if (!response) {
+          return { success: false, error: error || "ページを取得できませんでした" };
+        }
+        if (!response.ok) {
+          await response.body?.cancel();
+          return { success: false, error: `ページを取得できませんでした（HTTP ${response.status}）` };
+        }
+
+        const html = await response.text();
+        return { success: true, url: finalUrl, report: validateStructuredData(extractStructuredData(html)) };
+      } catch (error) {
+        console.error("Structured data validation error:", error);
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // クロールしたページの内容からAIでJSON-LDを生成（検証結果と既存マークアップとの差分を含む）
+  suggest: publicProcedure
+    .input(z.object({ pageId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const rows = await db
+          .select({ page: crawledPages })
+          .from(crawledPages)
+          .innerJoin(trackedDomains, eq(crawledPages.domainId, trackedDomains.id))
+          .where(and(eq(crawledPages.id, input.pageId), eq(trackedDomains.userId, ctx.user.id)))
+          .limit(1);
+        const page = rows[0]?.page;
+        if (!page) {
+          return { success: false, error: "ページが見つかりません" };
+        }
+
+        // 生成時点のマークアップと比較するため、ページを取得し直す
+        const { response, finalUrl, error } = await fetchWithRedirects(page.finalUrl || page.url);
+        if (!response) {
+          return { success: false, error: error || "ページを取得できませんでした" };
+        }
+        if (!response.ok) {
+          await response.body?.cancel();
+          return { success: false, error: `ページを取得できませんでした（HTTP ${response.status}）` };
+        }
+
+        const suggestion = await suggestSchemaMarkup(await response.text(), finalUrl);
+        return { success: true, suggestion };
+      } catch (error) {
+        console.error("Schema suggestion error:", error);
+        return { success: false, error: String(error) };
+      }
+    }),
+});
+
+// 追跡プロンプトの入力（タグ・対象プラットフォーム・スケジュール）
+const promptSettingsInput = z.object({
+  prompt: z.string().trim().min(1).max(2000),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  platforms: z.array(z.enum(CITATION_PLATFORMS)).optional(),
+  schedule: z.enum(["daily", "weekly", "monthly"]).optional(),
+});
+
+// 追跡プロンプト（AIプラットフォームへの質問）と回答履歴のルーター
+const promptsRouter = router({
+  // ドメインの追跡プロンプトを、プラットフォームごとの最新の回答とあわせて取得
+  list: publicProcedure
+    .input(z.object({ domainId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, prompts: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, prompts: [] };
+
+        const prompts = await db.select().from(trackedPrompts)
+          .where(and(eq(trackedPrompts.domainId, input.domainId), eq(trackedPrompts.userId, ctx.user.id)))
+          .orderBy(trackedPrompts.id);
+        const promptIds = prompts.map(prompt => prompt.id);
+
+        // 新しい順に読み、プロンプト×プラットフォームごとに最初の1件を最新とする
+        const runs = promptIds.length > 0
+          ? await db.select({
+            promptId: promptRuns.promptId,
+            platform: promptRuns.platform,
+            mentioned: promptRuns.mentioned,
+            cited: promptRuns.cited,
+            mentionPosition: promptRuns.mentionPosition,
+            sentiment: promptRuns.sentiment,
+            errorMessage: promptRuns.errorMessage,
+            ranAt: promptRuns.ranAt,
+          })
+            .from(promptRuns)
+            .where(and(inArray(promptRuns.promptId, promptIds), gte(promptRuns.ranAt, new Date(Date.now() - 90 * 24 * 60 * 60 * 1000))))
+            .orderBy(desc(promptRuns.ranAt))
+          : [];
+        const latest = new Map<string, (typeof runs)[number]>();
+        for (const run of runs) {
+          const key = `${run.promptId}:${run.platform}`;
+          if (!latest.has(key)) latest.set(key, run);
+        }
+
+        return {
+          success: true,
+          prompts: prompts.map(prompt => ({
+            ...prompt,
+            tags: promptTags(prompt.tags),
+            platforms: promptPlatforms(prompt.platforms),
+            latestRuns: promptPlatforms(prompt.platforms)
+              .map(platform => latest.get(`${prompt.id}:${platform}`))
+              .filter((run): run is (typeof runs)[number] => !!run),
+          })),
+        };
+      } catch (error) {
+        return { success: false, prompts: [], error: String(error) };
+      }
+    }),
+
+  // 全ドメインの有効な追跡プロンプトのうち、最新の回答で自社が言及・引用されたものの数
+  citedCount: publicProcedure
+    .query(async ({ ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, cited: 0, total: 0 };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, cited: 0, total: 0 };
+
+        const prompts = await db.select().from(trackedPrompts)
+          .where(and(eq(trackedPrompts.userId, ctx.user.id), eq(trackedPrompts.isActive, true)));
+        const promptIds = prompts.map(prompt => prompt.id);
+
+        // 失敗した回答は除き、新しい順に読んでプロンプト×プラットフォームごとに最初の1件を最新とする
+        const runs = promptIds.length > 0
+          ? await db.select({
+            promptId: promptRuns.promptId,
+            platform: promptRuns.platform,
+            mentioned: promptRuns.mentioned,
+            cited: promptRuns.cited,
+          })
+            .from(promptRuns)
+            .where(and(
+              inArray(promptRuns.promptId, promptIds),
+              isNull(promptRuns.errorMessage),
+              gte(promptRuns.ranAt, new Date(Date.now() - 90 * 24 * 60 * 60 * 1000))
+            ))
+            .orderBy(desc(promptRuns.ranAt))
+          : [];
+        const latest = new Map<string, (typeof runs)[number]>();
+        for (const run of runs) {
+          const key = `${run.promptId}:${run.platform}`;
+          if (!latest.has(key)) latest.set(key, run);
+        }
+
+        const cited = prompts.filter(prompt => promptPlatforms(prompt.platforms).some(platform => {
+          const run = latest.get(`${prompt.id}:${platform}`);
+          return !!run && (run.mentioned || run.cited);
+        })).length;
+        return { success: true, cited, total: prompts.length };
+      } catch (error) {
+        return { success: false, cited: 0, total: 0, error: String(error) };
+      }
+    }),
+
+  // 追跡プロンプトを追加
+  add: publicProcedure
+    .input(promptSettingsInput.extend({ domainId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, error: "ドメインが見つかりません" };
+        }
+
+        const [prompt] = await db.insert(trackedPrompts).values({
+          userId: ctx.user.id,
+          domainId: input.domainId,
+          prompt: input.prompt,
+          tags: promptTags(input.tags),
+          platforms: input.platforms ?? [],
+          schedule: input.schedule ?? "weekly",
+        }).returning();
+
+        return { success: true, prompt };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 追跡プロンプトを更新
+  update: publicProcedure
+    .input(promptSettingsInput.partial().extend({ id: z.number(), isActive: z.boolean().optional() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const [updated] = await db.update(trackedPrompts)
+          .set({
+            ...(input.prompt !== undefined ? { prompt: input.prompt } : {}),
+            ...(input.tags !== undefined ? { tags: promptTags(input.tags) } : {}),
+            ...(input.platforms !== undefined ? { platforms: input.platforms } : {}),
+            ...(input.schedule !== undefined ? { schedule: input.schedule } : {}),
+            ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+            updatedAt: new Date(),
+          })
+          .where(and(eq(trackedPrompts.id, input.id), eq(trackedPrompts.userId, ctx.user.id)))
+          .returning();
+        if (!updated) {
+          return { success: false, error: "プロンプトが見つかりません" };
+        }
+
+        return { success: true, prompt: updated };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // 追跡プロンプトを削除（回答履歴も削除）
+  delete: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const deleted = await db.delete(trackedPrompts)
+          .where(and(eq(trackedPrompts.id, input.id), eq(trackedPrompts.userId, ctx.user.id)))
+          .returning({ id: trackedPrompts.id });
+        if (deleted[0]) {
+          await db.delete(promptRuns).where(eq(promptRuns.promptId, deleted[0].id));
+        }
+
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // プロンプトをすぐに質問（スケジュールとは別に実行し、回答履歴に保存）
+  run: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, error: "ログインが必要です" };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, error: "データベースに接続できません" };
+
+        const rows = await db.select({ prompt: trackedPrompts, domain: trackedDomains })
+          .from(trackedPrompts)
+          .innerJoin(trackedDomains, eq(trackedPrompts.domainId, trackedDomains.id))
+          .where(and(eq(trackedPrompts.id, input.id), eq(trackedDomains.userId, ctx.user.id)))
+          .limit(1);
+        if (!rows[0]) {
+          return { success: false, error: "プロンプトが見つかりません" };
+        }
+
+        const report = await runTrackedPrompts(rows[0].domain, [rows[0].prompt], createCitationProbeAdapters());
+        if (!report) {
+          return { success: false, error: "対象プラットフォームのAPIキーが設定されていません" };
+        }
+
+        return { success: true, report };
+      } catch (error) {
+        console.error("Prompt run error:", error);
+        return { success: false, error: String(error) };
+      }
+    }),
+
+  // プロンプトの回答履歴を取得（新しい順）
+  history: publicProcedure
+    .input(z.object({ promptId: z.number(), limit: z.number().int().min(1).max(500).optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, runs: [] };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, runs: [] };
+
+        const runs = await db.select({ run: promptRuns })
+          .from(promptRuns)
+          .innerJoin(trackedPrompts, eq(promptRuns.promptId, trackedPrompts.id))
+          .where(and(eq(promptRuns.promptId, input.promptId), eq(trackedPrompts.userId, ctx.user.id)))
+          .orderBy(desc(promptRuns.ranAt))
+          .limit(input.limit || 100);
+
+        return { success: true, runs: runs.map(r => r.run) };
+      } catch (error) {
+        return { success: false, runs: [], error: String(error) };
+      }
+    }),
+
+  // 保存済みの回答からShare of Model（ブランドごとの言及率・平均言及順・同時言及）を集計
+  shareOfModel: publicProcedure
+    .input(z.object({ domainId: z.number(), days: z.number().int().min(7).max(365).optional() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        if (!ctx.user?.id) {
+          return { success: false, report: null };
+        }
+
+        const db = await getDb();
+        if (!db) return { success: false, report: null };
+
+        const domain = await db.select().from(trackedDomains).where(
+          and(eq(trackedDomains.id, input.domainId), eq(trackedDomains.userId, ctx.user.id))
+        ).limit(1);
+        if (!domain[0]) {
+          return { success: false, report: null, error: "ドメインが見つかりません" };
+        }
+
+        return { success: true, report: await getShareOfModel(domain[0], input.days) };
+      } catch (error) {
+        return { success: false, report: null, error: String(error) };
+      }
+    }),
+});
+
 export const appRouter = router({
   system: systemRouter,
   auth: router({
@@ -982,6 +3635,16 @@ export const appRouter = router({
   seo: seoRouter,
   export: exportRouter,
   aiAnalysis: aiAnalysisRouter,
+  crawler: crawlerRouter,
+  audits: auditsRouter,
+  sitemaps: sitemapsRouter,
+  alerts: alertsRouter,
+  notifications: notificationsRouter,
+  digests: digestsRouter,
+  jobs: jobsRouter,
+  budgets: budgetsRouter,
+  structuredData: structuredDataRouter,
+  prompts: promptsRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { combineJsonLd, detectPageContentType, diffLines, formatJsonLdScript, summarizePageForSchema } from "./services/schemaSuggestions";
+import { extractStructuredData, validateStructuredData } from "./services/structuredData";
+
+describe("summarizePageForSchema", () => {
+  it("collects the title, headings, main text, absolute images and existing types", () => {
+    const page = summarizePageForSchema(`
+      <html><head>
+        <title>Widget | Example</title>
+        <meta name="description" content="A small widget">
+        <script type="application/ld+json">{"@context":"https://schema.org","@type":"BreadcrumbList","itemListElement":[]}</script>
+      </head><body>
+        <nav>Menu</nav>
+        <main><h1>Widget</h1><p>Price 1,980 yen</p><img src="/img/widget.png"></main>
+      </body></html>
+    `, "https://example.com/products/widget");
+
+    expect(page.title).toBe("Widget | Example");
+    expect(page.description).toBe("A small widget");
+    expect(page.headings).toEqual([{ level: 1, text: "Widget" }]);
+    expect(page.text).toContain("Price 1,980 yen");
+    expect(page.text).not.toContain("Menu");
+    expect(page.images).toEqual(["https://example.com/img/widget.png"]);
+    expect(page.existingTypes).toEqual(["BreadcrumbList"]);
+  });
+});
+
+describe("detectPageContentType", () => {
+  const page = (url: string, headings: Array<{ level: number; text: string }> = [], existingTypes: string[] = []) => ({ url, headings, existingTypes });
+
+  it("prefers a type already marked up on the page", () => {
+    expect(detectPageContentType(page("https://example.com/blog/post", [], ["Organization", "Product"]))).toBe("Product");
+  });
+
+  it("falls back to URL patterns and the heading outline", () => {
+    expect(detectPageContentType(page("https://example.com/products/widget"))).toBe("Product");
+    expect(detectPageContentType(page("https://example.com/blog/hello"))).toBe("BlogPosting");
+    expect(detectPageContentType(page("https://example.com/support", [
+      { level: 2, text: "送料はいくらですか？" },
+      { level: 2, text: "返品できますか？" },
+    ]))).toBe("FAQPage");
+    expect(detectPageContentType(page("https://example.com/guide", [{ level: 2, text: "設定の手順" }]))).toBe("HowTo");
+    expect(detectPageContentType(page("https://example.com/"))).toBe("Organization");
+    expect(detectPageContentType(page("https://example.com/company"))).toBe("WebPage");
+  });
+});
+
+describe("combineJsonLd", () => {
+  it("keeps a single entity and wraps several in an @graph with one @context", () => {
+    expect(combineJsonLd([{ "@context": "https://schema.org", "@type": "Product", name: "Widget" }]))
+      .toEqual({ "@context": "https://schema.org", "@type": "Product", name: "Widget" });
+
+    const combined = combineJsonLd([
+      { "@context": "https://schema.org", "@type": "Product", name: "Widget" },
+      { "@type": "BreadcrumbList", itemListElement: [] },
+    ]);
+    expect(combined).toEqual({
+      "@context": "https://schema.org",
+      "@graph": [
+        { "@type": "Product", name: "Widget" },
+        { "@type": "BreadcrumbList", itemListElement: [] },
+      ],
+    });
+  });
+
+  it("produces a script the structured data validator reads back", () => {
+    const script = formatJsonLdScript(combineJsonLd([
+      { "@type": "Organization", name: "Example Inc.", url: "https://example.com/", logo: "https://example.com/logo.png" },
+    ]));
+    const report = validateStructuredData(extractStructuredData(script));
+    expect(report.items).toHaveLength(1);
+    expect(report.items[0].types).toEqual(["Organization"]);
+    expect(report.errorCount).toBe(0);
+  });
+});
+
+describe("formatJsonLdScript", () => {
+  it("escapes markup characters so page text cannot close the script tag", () => {
+    const script = formatJsonLdScript({ "@context": "https://schema.org", "@type": "Article", headline: "A & B </script><script>alert(1)</script>" });
+    expect(script.match(/<\/script>/g)).toHaveLength(1);
+    expect(script).toContain("A \\u0026 B \\u003c/script\\u003e");
+
+    const report = validateStructuredData(extractStructuredData(script));
+    expect(report.items[0].data.headline).toBe("A & B </script><script>alert(1)</script>");
+  });
+});
+
+describe("diffLines", () => {
+  it("marks added and removed lines around the common ones", () => {
+    expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  it("shows everything as added when there is no existing markup", () => {
+    expect(diffLines("", "{\n}")).toEqual([
+      { type: "added", text: "{" },
+      { type: "added", text: "}" },
+    ]);
+  });
+});
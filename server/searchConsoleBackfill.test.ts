@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { isBackfillJobLive, listBackfillDays, resolveBackfillRange, toKeywordHistoryRows, toQueryPageHistoryRows } from "./services/googleSearchConsole";
+
+const iso = (date: Date) => date.toISOString().split("T")[0];
+
+describe("resolveBackfillRange", () => {
+  const today = new Date("2024-06-10T15:30:00Z");
+
+  it("goes back 16 months from the last final day on a fresh start", () => {
+    const { startDate, endDate } = resolveBackfillRange(null, today);
+    expect(iso(endDate)).toBe("2024-06-07");
+    expect(iso(startDate)).toBe("2023-02-07");
+  });
+
+  it("resumes the day after the last synced day", () => {
+    const { startDate, endDate } = resolveBackfillRange(new Date("2024-05-31T00:00:00Z"), today);
+    expect(iso(startDate)).toBe("2024-06-01");
+    expect(iso(endDate)).toBe("2024-06-07");
+  });
+
+  it("yields no days once everything is synced", () => {
+    const { startDate, endDate } = resolveBackfillRange(new Date("2024-06-07T00:00:00Z"), today);
+    expect(listBackfillDays(startDate, endDate)).toEqual([]);
+  });
+});
+
+describe("listBackfillDays", () => {
+  it("lists UTC days inclusive of both ends", () => {
+    const days = listBackfillDays(new Date("2024-02-28T12:00:00Z"), new Date("2024-03-01T00:00:00Z"));
+    expect(days.map(iso)).toEqual(["2024-02-28", "2024-02-29", "2024-03-01"]);
+  });
+});
+
+describe("toKeywordHistoryRows", () => {
+  it("maps date + query rows onto every matching tracked keyword, ignoring case", () => {
+    const keywordIds = new Map([["seo ツール", [1, 7]], ["順位チェック", [2]]]);
+    const rows = toKeywordHistoryRows([
+      { keys: ["2024-05-01", "SEO ツール"], clicks: 12, impressions: 340, ctr: 0.035, position: 4.2 },
+      { keys: ["2024-05-01", "順位チェック"], clicks: 0, impressions: 15, ctr: 0, position: 18 },
+      { keys: ["2024-05-01", "untracked"], clicks: 3, impressions: 40, ctr: 0.075, position: 9 },
+    ], keywordIds);
+
+    expect(rows.map(row => row.keywordId)).toEqual([1, 7, 2]);
+    expect(rows[0]).toEqual({
+      keywordId: 1,
+      date: new Date("2024-05-01T00:00:00Z"),
+      position: "4.2",
+      clicks: 12,
+      impressions: 340,
+      ctr: "0.035",
+    });
+  });
+});
+
+describe("toKeywordHistoryRows aggregation", () => {
+  it("combines query variants of one keyword into a single row per day", () => {
+    const rows = toKeywordHistoryRows([
+      { keys: ["2024-05-01", "SEO ツール"], clicks: 10, impressions: 300, ctr: 0.0333, position: 4 },
+      { keys: ["2024-05-01", "seo ツール "], clicks: 2, impressions: 100, ctr: 0.02, position: 8 },
+      { keys: ["2024-05-02", "seo ツール"], clicks: 1, impressions: 50, ctr: 0.02, position: 6 },
+    ], new Map([["seo ツール", [1]]]));
+
+    expect(rows).toEqual([
+      { keywordId: 1, date: new Date("2024-05-01T00:00:00Z"), position: "5", clicks: 12, impressions: 400, ctr: "0.03" },
+      { keywordId: 1, date: new Date("2024-05-02T00:00:00Z"), position: "6", clicks: 1, impressions: 50, ctr: "0.02" },
+    ]);
+  });
+});
+
+describe("toQueryPageHistoryRows", () => {
+  it("stamps each row with its own day and keeps one row per query and page", () => {
+    const longPage = `https://example.com/${"a".repeat(2100)}`;
+    const rows = toQueryPageHistoryRows([
+      { keys: ["2024-05-01", "seo ツール", "https://example.com/tools"], clicks: 5, impressions: 80, ctr: 0.0625, position: 3.1 },
+      { keys: ["2024-05-01", "seo ツール", `${longPage}?x=1`], clicks: 1, impressions: 10, ctr: 0.1, position: 8 },
+      { keys: ["2024-05-01", "seo ツール", `${longPage}?x=2`], clicks: 0, impressions: 4, ctr: 0, position: 9 },
+    ], 3);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      domainId: 3,
+      query: "seo ツール",
+      page: "https://example.com/tools",
+      date: new Date("2024-05-01T00:00:00Z"),
+      clicks: 5,
+      impressions: 80,
+      ctr: "0.0625",
+      position: "3.1",
+    });
+    expect(rows[1].page).toHaveLength(2000);
+  });
+});
+
+describe("isBackfillJobLive", () => {
+  it("treats runs without a queued, running or retrying job as interrupted", () => {
+    expect(isBackfillJobLive({ status: "running", isEnabled: true })).toBe(true);
+    expect(isBackfillJobLive({ status: "pending", isEnabled: true })).toBe(true);
+    expect(isBackfillJobLive({ status: "pending", isEnabled: false })).toBe(false);
+    expect(isBackfillJobLive({ status: "failed", isEnabled: true })).toBe(false);
+    expect(isBackfillJobLive(null)).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { findDomainResult, parseSerpHtml, resolveResultUrl } from "./services/serpParser";
+
+// 保存したSERP HTMLと期待値JSONの組（<name>.html / <name>.expected.json）
+const FIXTURE_DIR = join(__dirname, "fixtures", "serp");
+const fixtures = readdirSync(FIXTURE_DIR)
+  .filter(file => file.endsWith(".html"))
+  .map(file => file.replace(/\.html$/, ""));
+
+describe("parseSerpHtml fixtures", () => {
+  it.each(fixtures)("%s", name => {
+    const html = readFileSync(join(FIXTURE_DIR, `${name}.html`), "utf8");
+    const expected = JSON.parse(readFileSync(join(FIXTURE_DIR, `${name}.expected.json`), "utf8"));
+
+    const snapshot = parseSerpHtml(html, { keyword: name });
+
+    expect(snapshot).toMatchObject(expected);
+  });
+});
+
+describe("serpParser helpers", () => {
+  it("unwraps Google redirect links and drops Google-internal URLs", () => {
+    expect(resolveResultUrl("/url?q=https://example.com/a%3Fb%3D1&amp;sa=U")).toBe("https://example.com/a?b=1");
+    expect(resolveResultUrl("/search?q=seo&tbm=isch")).toBeNull();
+    expect(resolveResultUrl("https://www.googleadservices.com/pagead/aclk?sa=L")).toBeNull();
+    expect(resolveResultUrl("https://support.google.com/websearch")).toBe("https://support.google.com/websearch");
+  });
+
+  it("matches the target domain including subdomains but not lookalikes", () => {
+    const snapshot = {
+      organic: [
+        { position: 1, url: "https://notexample.com/", domain: "notexample.com", title: "", snippet: "", displayedUrl: null, sitelinks: [] },
+        { position: 2, url: "https://blog.example.com/", domain: "blog.example.com", title: "", snippet: "", displayedUrl: null, sitelinks: [] },
+      ],
+    };
+
+    expect(findDomainResult(snapshot, "https://www.example.com/")?.position).toBe(2);
+    expect(findDomainResult(snapshot, "other.com")).toBeNull();
+  });
+});
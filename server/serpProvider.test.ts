@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  DataForSeoSerpProvider,
+  encodeUule,
+  ScraperSerpProvider,
+  SerpApiSerpProvider,
+  type SerpProvider,
+} from "./services/serpProvider";
+import { getKeywordRanking } from "./services/seoScraper";
+
+const serpHtml = readFileSync(join(__dirname, "fixtures", "serp", "ja-no-javascript.html"), "utf8");
+
+const dataForSeoResponse = {
+  status_code: 20000,
+  status_message: "Ok.",
+  tasks: [{
+    status_code: 20000,
+    status_message: "Ok.",
+    result: [{
+      se_results_count: 98400,
+      items: [
+        { type: "people_also_ask", rank_absolute: 3, items: [{ type: "people_also_ask_element", title: "検索順位を調べる方法は？" }] },
+        { type: "organic", rank_group: 1, rank_absolute: 1, url: "https://www.gyro-n.com/seo/rank-checker/", domain: "www.gyro-n.com", title: "無料の検索順位チェックツール｜GyroSEO", description: "キーワードの検索順位を毎日自動でチェック" },
+        { type: "organic", rank_group: 2, rank_absolute: 2, url: "https://seopack.jp/seoanalysis/", domain: "seopack.jp", title: "SEOチェキ！ 無料で使えるSEOツール", description: "URLを入力するだけ", links: [{ type: "link_element", title: "順位チェック", url: "https://seopack.jp/seoanalysis/rank.php" }] },
+        { type: "organic", rank_group: 3, rank_absolute: 4, url: "https://www.nexus-seo.example/tools/rank", domain: "www.nexus-seo.example", title: "順位トラッキング | Nexus SEO", description: "GSCとSERPを組み合わせた順位計測。" },
+      ],
+    }],
+  }],
+};
+
+const serpApiResponse = {
+  search_information: { total_results: 98400 },
+  organic_results: [
+    { position: 1, title: "無料の検索順位チェックツール｜GyroSEO", link: "https://www.gyro-n.com/seo/rank-checker/", snippet: "キーワードの検索順位を毎日自動でチェック" },
+    { position: 2, title: "SEOチェキ！ 無料で使えるSEOツール", link: "https://seopack.jp/seoanalysis/", sitelinks: { inline: [{ title: "順位チェック", link: "https://seopack.jp/seoanalysis/rank.php" }] } },
+    { position: 3, title: "順位トラッキング | Nexus SEO", link: "https://www.nexus-seo.example/tools/rank" },
+  ],
+  related_questions: [{ question: "検索順位を調べる方法は？" }],
+};
+
+let server: Server;
+let baseUrl: string;
+const requests: Array<{ path: string; headers: IncomingMessage["headers"]; body: string }> = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      requests.push({ path: req.url || "", headers: req.headers, body });
+      const path = new URL(req.url || "/", "http://localhost").pathname;
+
+      if (path === "/search") {
+        res.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+        res.end(serpHtml);
+      } else if (path === "/v3/serp/google/organic/live/advanced") {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(dataForSeoResponse));
+      } else if (path === "/serpapi/search") {
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify(new URL(req.url!, "http://localhost").searchParams.get("api_key") === "bad"
+          ? { error: "Invalid API key." }
+          : serpApiResponse));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("SerpProvider adapters", () => {
+  const providers: Array<[string, () => SerpProvider]> = [
+    ["scraper", () => new ScraperSerpProvider({ baseUrl })],
+    ["dataforseo", () => new DataForSeoSerpProvider({ login: "user", password: "pass", baseUrl: `${baseUrl}/v3` })],
+    ["serpapi", () => new SerpApiSerpProvider({ apiKey: "key", baseUrl: `${baseUrl}/serpapi/search` })],
+  ];
+
+  it.each(providers)("%s normalizes results into a SerpSnapshot", async (name, create) => {
+    const snapshot = await create().fetchSerp({ keyword: "キーワード 順位チェック", location: "jp" });
+
+    expect(snapshot.provider).toBe(name);
+    expect(snapshot.totalResults).toBe(98400);
+    expect(snapshot.organic.map(r => [r.position, r.domain])).toEqual([
+      [1, "gyro-n.com"],
+      [2, "seopack.jp"],
+      [3, "nexus-seo.example"],
+    ]);
+    expect(snapshot.organic[1].sitelinks[0]).toEqual({ title: "順位チェック", url: "https://seopack.jp/seoanalysis/rank.php" });
+    expect(snapshot.features.find(f => f.type === "people_also_ask")).toMatchObject({
+      questions: expect.arrayContaining(["検索順位を調べる方法は？"]),
+    });
+  });
+
+  it("sends credentials and locale parameters to each API", async () => {
+    requests.length = 0;
+    await new DataForSeoSerpProvider({ login: "user", password: "pass", baseUrl: `${baseUrl}/v3` })
+      .fetchSerp({ keyword: "seo", location: "us", device: "mobile" });
+    await new SerpApiSerpProvider({ apiKey: "key", baseUrl: `${baseUrl}/serpapi/search` })
+      .fetchSerp({ keyword: "seo", location: "jp" });
+
+    expect(requests[0].headers.authorization).toBe(`Basic ${Buffer.from("user:pass").toString("base64")}`);
+    expect(JSON.parse(requests[0].body)[0]).toMatchObject({ keyword: "seo", location_code: 2840, language_code: "en", device: "mobile" });
+
+    const serpApiParams = new URL(requests[1].path, baseUrl).searchParams;
+    expect(serpApiParams.get("api_key")).toBe("key");
+    expect(serpApiParams.get("gl")).toBe("jp");
+    expect(serpApiParams.get("hl")).toBe("ja");
+  });
+
+  it("passes city, language and device from tracking profiles", async () => {
+    requests.length = 0;
+    const target = { location: "us", city: "Austin,Texas,United States", language: "es", device: "mobile" as const };
+    await new ScraperSerpProvider({ baseUrl }).fetchSerp({ keyword: "seo", ...target });
+    await new DataForSeoSerpProvider({ login: "user", password: "pass", baseUrl: `${baseUrl}/v3` })
+      .fetchSerp({ keyword: "seo", ...target });
+    await new SerpApiSerpProvider({ apiKey: "key", baseUrl: `${baseUrl}/serpapi/search` })
+      .fetchSerp({ keyword: "seo", ...target });
+
+    const scraperParams = new URL(requests[0].path, baseUrl).searchParams;
+    expect(scraperParams.get("uule")).toBe(encodeUule("Austin,Texas,United States"));
+    expect(scraperParams.get("hl")).toBe("es");
+    expect(requests[0].headers["user-agent"]).toContain("iPhone");
+
+    const dataForSeoTask = JSON.parse(requests[1].body)[0];
+    expect(dataForSeoTask).toMatchObject({ location_name: "Austin,Texas,United States", language_code: "es", device: "mobile" });
+    expect(dataForSeoTask.location_code).toBeUndefined();
+
+    const serpApiParams = new URL(requests[2].path, baseUrl).searchParams;
+    expect(serpApiParams.get("location")).toBe("Austin,Texas,United States");
+    expect(serpApiParams.get("device")).toBe("mobile");
+  });
+
+  it("encodes canonical location names as UULE", () => {
+    expect(encodeUule("Tokyo,Tokyo,Japan")).toBe(`w+CAIQICIR${Buffer.from("Tokyo,Tokyo,Japan").toString("base64")}`);
+  });
+
+  it("surfaces provider errors", async () => {
+    await expect(new SerpApiSerpProvider({ apiKey: "bad", baseUrl: `${baseUrl}/serpapi/search` })
+      .fetchSerp({ keyword: "seo", location: "jp" })).rejects.toThrow("Invalid API key");
+    await expect(new DataForSeoSerpProvider({ login: "u", password: "p", baseUrl: `${baseUrl}/missing` })
+      .fetchSerp({ keyword: "seo", location: "jp" })).rejects.toThrow("404");
+  });
+});
+
+describe("getKeywordRanking", () => {
+  it("returns the same ranking regardless of provider", async () => {
+    const ranks = await Promise.all([
+      getKeywordRanking("順位", "nexus-seo.example", "jp", new ScraperSerpProvider({ baseUrl })),
+      getKeywordRanking("順位", "nexus-seo.example", "jp", new SerpApiSerpProvider({ apiKey: "key", baseUrl: `${baseUrl}/serpapi/search` })),
+    ]);
+
+    for (const ranking of ranks) {
+      expect(ranking.rank).toBe(3);
+      expect(ranking.url).toBe("https://www.nexus-seo.example/tools/rank");
+      expect(ranking.topResults).toHaveLength(3);
+    }
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * AI Readability Service
+ * ページのHTML構造（構造化データ・見出し・ランドマーク・FAQ/HowTo・リストと表・著者と日付）とllms.txtから
+ * LLMクローラーにとっての読みやすさを評価し、見つかった要素・不足している要素を根拠として返す
+ */
+
+import { extractHeadings, extractMetaContent, findElements, findTags, parseAttributes, removeNonContent, stripTags } from "./htmlExtractor";
+import { collectTypedNodes, extractStructuredData, typesOf } from "./structuredData";
+import type { StructuredDataExtraction, StructuredDataSyntax } from "./structuredData";
+
+export type ReadabilitySubScoreKey =
+  | "structuredData"
+  | "headingOutline"
+  | "landmarks"
+  | "answerBlocks"
+  | "listsAndTables"
+  | "authorship"
+  | "llmsTxt";
+
+/** Sub-scores and their weight in the overall score */
+export const READABILITY_SUBSCORES: Array<{ key: ReadabilitySubScoreKey; label: string; weight: number }> = [
+  { key: "structuredData", label: "構造化データ", weight: 25 },
+  { key: "headingOutline", label: "見出し構造", weight: 15 },
+  { key: "landmarks", label: "ランドマーク要素", weight: 15 },
+  { key: "answerBlocks", label: "FAQ・HowTo", weight: 10 },
+  { key: "listsAndTables", label: "リスト・表", weight: 10 },
+  { key: "authorship", label: "著者・日付", weight: 15 },
+  { key: "llmsTxt", label: "llms.txt", weight: 10 },
+];
+
+export interface ReadabilitySubScore {
+  key: ReadabilitySubScoreKey;
+  label: string;
+  score: number;
+  /** Elements found on the page that earned points */
+  found: string[];
+  /** Expected elements that are missing or broken */
+  missing: string[];
+}
+
+export interface AIReadabilityAudit {
+  semanticHtmlScore: number;
+  schemaOrgScore: number;
+  contentClarityScore: number;
+  overallScore: number;
+  /** Evidence per area; absent on audits stored before sub-scores were introduced */
+  subScores?: ReadabilitySubScore[];
+  recommendations: string[];
+}
+
+export interface LlmsTxtStatus {
+  url: string;
+  found: boolean;
+  /** Site name from the H1 line */
+  title: string | null;
+  /** Summary from the blockquote line */
+  summary: string | null;
+  sections: number;
+  links: number;
+}
+
+export interface PageAIReadabilityAudit extends AIReadabilityAudit {
+  /** URL after redirects */
+  url: string;
+  llmsTxt: LlmsTxtStatus;
+}
+
+// ページ内容そのものを表す型
+const MAIN_ENTITY_TYPES = new Set([
+  "Article", "NewsArticle", "BlogPosting", "TechArticle", "Report", "Product", "Service", "FAQPage", "HowTo",
+  "QAPage", "Recipe", "Event", "Course", "JobPosting", "LocalBusiness", "SoftwareApplication", "VideoObject",
+  "Review", "Book", "Dataset", "AboutPage", "ContactPage", "CollectionPage", "ItemPage", "ProfilePage",
+]);
+
+// 運営者・著者を示す型
+const IDENTITY_TYPES = new Set([
+  "Organization", "Corporation", "NewsMediaOrganization", "EducationalOrganization", "LocalBusiness", "Person",
+]);
+
+const ANSWER_TYPES = ["FAQPage", "HowTo", "QAPage"];
+
+const QUESTION_HEADING = /(?:[?？]\s*$|^\s*(?:Q\s*\d*\s*[.:：]|質問))/i;
+const STEP_HEADING = /手順|やり方|方法|ステップ|how to|steps?\b/i;
+
+const SYNTAX_LABELS: Record<StructuredDataSyntax, string> = {
+  "json-ld": "JSON-LD",
+  microdata: "Microdata",
+  rdfa: "RDFa",
+};
+
+const MAX_EVIDENCE_TEXT = 60;
+const LLMS_TXT_TIMEOUT_MS = 10000;
+const PAGE_TIMEOUT_MS = 15000;
+
+// 根拠として表示する文字列を短縮
+function truncate(text: string): string {
+  return text.length > MAX_EVIDENCE_TEXT ? `${text.slice(0, MAX_EVIDENCE_TEXT)}…` : text;
+}
+
+/**
+ * Parse an llms.txt file: H1 site name, blockquote summary, H2 sections and Markdown links
+ */
+export function parseLlmsTxt(text: string, url: string): LlmsTxtStatus {
+  const lines = text.split(/\r?\n/);
+  const title = lines.find(line => /^#\s+\S/.test(line))?.replace(/^#\s+/, "").trim() ?? null;
+  const summary = lines.find(line => /^>\s*\S/.test(line))?.replace(/^>\s*/, "").trim() ?? null;
+
+  return {
+    url,
+    found: true,
+    title,
+    summary,
+    sections: lines.filter(line => /^##\s+\S/.test(line)).length,
+    links: Array.from(text.matchAll(/\[[^\]]+\]\([^)\s]+\)/g)).length,
+  };
+}
+
+/**
+ * Fetch /llms.txt of an origin; HTML responses (soft 404 pages) count as missing
+ */
+export async function fetchLlmsTxt(origin: string, userAgent: string): Promise<LlmsTxtStatus> {
+  const url = new URL("/llms.txt", origin).toString();
+  const missing: LlmsTxtStatus = { url, found: false, title: null, summary: null, sections: 0, links: 0 };
+
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": userAgent },
+      signal: AbortSignal.timeout(LLMS_TXT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      return missing;
+    }
+
+    const text = await response.text();
+    if ((response.headers.get("content-type") || "").includes("html") || /^\s*</.test(text)) {
+      return missing;
+    }
+    return parseLlmsTxt(text, url);
+  } catch (error) {
+    console.error(`llms.txt fetch error for ${origin}:`, error);
+    return missing;
+  }
+}
+
+// サブスコアを集計（加点した要素と不足している要素、推奨事項を記録）
+function createSubScore(key: ReadabilitySubScoreKey) {
+  const definition = READABILITY_SUBSCORES.find(s => s.key === key)!;
+  let score = 0;
+  const found: string[] = [];
+  const missing: string[] = [];
+  const recommendations: Array<{ text: string; impact: number }> = [];
+
+  return {
+    pass(points: number, evidence: string) {
+      score += points;
+      found.push(evidence);
+    },
+    fail(points: number, element: string, recommendation: string) {
+      missing.push(element);
+      recommendations.push({ text: recommendation, impact: points * definition.weight });
+    },
+    result(): { subScore: ReadabilitySubScore; recommendations: Array<{ text: string; impact: number }> } {
+      return {
+        subScore: { key, label: definition.label, score: Math.min(100, score), found, missing },
+        recommendations,
+      };
+    },
+  };
+}
+
+// 指定した要素（ナビゲーションなど）を除いたHTML
+function withoutElements(html: string, tagNames: string[]): string {
+  let result = html;
+  for (const tagName of tagNames) {
+    for (const element of findElements(result, tagName).reverse()) {
+      result = result.slice(0, element.start) + result.slice(element.end);
+    }
+  }
+  return result;
+}
+
+// 構造化データから最初に見つかったプロパティ値（文字列または名前）とその記法を取得
+function structuredDataValue(extraction: StructuredDataExtraction, property: string): [string | null, string] {
+  for (const item of extraction.items) {
+    for (const node of collectTypedNodes(item.data)) {
+      const value = node[property];
+      const first = Array.isArray(value) ? value[0] : value;
+      if (typeof first === "string" && first.trim()) return [first.trim(), SYNTAX_LABELS[item.syntax]];
+      if (first && typeof first === "object" && typeof (first as Record<string, unknown>).name === "string") {
+        return [((first as Record<string, unknown>).name as string).trim(), SYNTAX_LABELS[item.syntax]];
+      }
+    }
+  }
+  return [null, ""];
+}
+
+// 記法ごとのschema.orgの型（入れ子のエンティティを含む）
+function typesBySyntax(extraction: StructuredDataExtraction): Map<StructuredDataSyntax, string[]> {
+  const result = new Map<StructuredDataSyntax, string[]>();
+  for (const item of extraction.items) {
+    const types = collectTypedNodes(item.data).flatMap(typesOf);
+    result.set(item.syntax, Array.from(new Set([...(result.get(item.syntax) ?? []), ...types])));
+  }
+  return result;
+}
+
+// 構造化データ（JSON-LD・Microdata・RDFa）の評価
+function scoreStructuredData(extraction: StructuredDataExtraction, types: string[]) {
+  const sub = createSubScore("structuredData");
+
+  if (types.length > 0) {
+    for (const [syntax, syntaxTypes] of Array.from(typesBySyntax(extraction).entries())) {
+      if (syntaxTypes.length > 0) sub.pass(0, `${SYNTAX_LABELS[syntax]}: ${syntaxTypes.join(", ")}`);
+    }
+    sub.pass(35, `schema.orgの型 ${types.length}種類`);
+  } else {
+    sub.fail(35, "schema.orgの構造化データ", "JSON-LD形式の構造化データを追加してください");
+  }
+  if (extraction.parseErrors.length > 0) {
+    sub.fail(0, `JSON-LDの構文エラー（${extraction.parseErrors.length}件）`, "JSON-LDの構文エラーを修正してください");
+  }
+
+  const mainTypes = types.filter(type => MAIN_ENTITY_TYPES.has(type));
+  if (mainTypes.length > 0) {
+    sub.pass(30, `ページ内容の型: ${mainTypes.join(", ")}`);
+  } else {
+    sub.fail(30, "ページ内容を表す型（Article・Product・FAQPageなど）", "ページ内容に合ったschema.orgの型（Article・Productなど）を指定してください");
+  }
+
+  if (types.includes("BreadcrumbList")) {
+    sub.pass(15, "BreadcrumbList");
+  } else {
+    sub.fail(15, "BreadcrumbList", "パンくずリストにBreadcrumbListの構造化データを付与してください");
+  }
+
+  const identityTypes = types.filter(type => IDENTITY_TYPES.has(type));
+  if (identityTypes.length > 0) {
+    sub.pass(20, `運営者・著者: ${identityTypes.join(", ")}`);
+  } else {
+    sub.fail(20, "Organization または Person", "運営者（Organization）や著者（Person）を構造化データで明示してください");
+  }
+
+  return sub.result();
+}
+
+// 見出し構造（H1の数・H2の有無・レベルの飛ばし）の評価
+function scoreHeadingOutline(content: string) {
+  const sub = createSubScore("headingOutline");
+  const headings = extractHeadings(content);
+  const h1s = headings.filter(h => h.level === 1);
+  const h2Count = headings.filter(h => h.level === 2).length;
+
+  if (h1s.length === 1) {
+    sub.pass(40, `H1「${truncate(h1s[0].text)}」`);
+  } else if (h1s.length > 1) {
+    sub.pass(20, `H1 × ${h1s.length}`);
+    sub.fail(20, `H1は1つ（現在${h1s.length}個）`, "H1見出しを1つにまとめてください");
+  } else {
+    sub.fail(40, "H1見出し", "ページの主題を示すH1見出しを1つ追加してください");
+  }
+
+  if (h2Count > 0) {
+    sub.pass(30, `H2 × ${h2Count}`);
+  } else {
+    sub.fail(30, "H2見出し", "H2見出しで内容をセクションに分けてください");
+  }
+
+  const skips = headings
+    .map((heading, i) => ({ heading, previous: headings[i - 1] }))
+    .filter(({ heading, previous }) => previous && heading.level > previous.level + 1);
+  for (const { heading, previous } of skips.slice(0, 3)) {
+    sub.fail(10, `見出しレベルの飛ばし: H${previous.level}→H${heading.level}「${truncate(heading.text)}」`, "見出しレベルを飛ばさずに階層化してください");
+  }
+  if (headings.length > 0 && skips.length < 3) {
+    sub.pass(30 - skips.length * 10, skips.length === 0 ? "見出しレベルの飛ばしなし" : `見出し ${headings.length}個`);
+  }
+
+  return sub.result();
+}
+
+// ランドマーク要素（main・header・nav・footer・article）の評価
+function scoreLandmarks(content: string) {
+  const sub = createSubScore("landmarks");
+  const landmarks = [
+    { tag: "main", role: "main", points: 40, recommendation: "本文を<main>要素で囲んでください" },
+    { tag: "header", role: "banner", points: 15, recommendation: "<header>要素でページのヘッダーを示してください" },
+    { tag: "nav", role: "navigation", points: 15, recommendation: "<nav>要素でナビゲーションを示してください" },
+    { tag: "footer", role: "contentinfo", points: 15, recommendation: "<footer>要素でフッターを示してください" },
+    { tag: "article", role: "article", points: 15, recommendation: "記事本体を<article>要素で囲んでください" },
+  ];
+
+  for (const landmark of landmarks) {
+    if (findTags(content, landmark.tag).length > 0) {
+      sub.pass(landmark.points, `<${landmark.tag}>`);
+    } else if (new RegExp(`\\brole\\s*=\\s*["']?${landmark.role}\\b`, "i").test(content)) {
+      sub.pass(landmark.points, `role="${landmark.role}"`);
+    } else {
+      sub.fail(landmark.points, `<${landmark.tag}>`, landmark.recommendation);
+    }
+  }
+
+  return sub.result();
+}
+
+// FAQ・HowToのブロック（質問形式の見出し・details/summary・手順リスト）と構造化データの評価
+function scoreAnswerBlocks(content: string, types: string[]) {
+  const sub = createSubScore("answerBlocks");
+  const headings = extractHeadings(content).filter(h => h.level >= 2 && h.level <= 4);
+  const questions = headings.filter(h => QUESTION_HEADING.test(h.text));
+  const summaries = findTags(content, "summary").length;
+  const stepHeading = headings.find(h => STEP_HEADING.test(h.text));
+  const stepLists = stepHeading
+    ? findElements(content, "ol").filter(list => findTags(list.innerHtml, "li").length >= 3).length
+    : 0;
+
+  const blocks: string[] = [];
+  if (questions.length > 0) blocks.push(`質問形式の見出し × ${questions.length}（「${truncate(questions[0].text)}」など）`);
+  if (summaries > 0) blocks.push(`<details>/<summary> × ${summaries}`);
+  if (stepHeading && stepLists > 0) blocks.push(`手順リスト × ${stepLists}（「${truncate(stepHeading.text)}」）`);
+
+  if (blocks.length > 0) {
+    blocks.forEach((block, i) => sub.pass(i === 0 ? 60 : 0, block));
+  } else {
+    sub.fail(60, "質問と回答・手順のブロック", "よくある質問や手順をQ&A形式・番号付きリストで記述してください");
+  }
+
+  const answerTypes = types.filter(type => ANSWER_TYPES.includes(type));
+  if (answerTypes.length > 0) {
+    sub.pass(40, `構造化データ: ${answerTypes.join(", ")}`);
+  } else {
+    sub.fail(40, "FAQPage / HowToの構造化データ", "Q&Aや手順にFAQPage・HowToの構造化データを付与してください");
+  }
+
+  return sub.result();
+}
+
+// 本文中のリストと表の評価（ナビゲーション・ヘッダー・フッター内のリストは除外）
+function scoreListsAndTables(content: string) {
+  const sub = createSubScore("listsAndTables");
+  const body = withoutElements(content, ["nav", "header", "footer"]);
+  const lists = [...findElements(body, "ul"), ...findElements(body, "ol")];
+  const items = lists.reduce((sum, list) => sum + findTags(list.innerHtml, "li").length, 0);
+
+  if (lists.length > 0) {
+    sub.pass(70, `リスト × ${lists.length}（項目 ${items}）`);
+  } else {
+    sub.fail(70, "本文中のリスト（<ul>/<ol>）", "箇条書きや番号付きリストで情報を整理してください");
+  }
+
+  const tables = findElements(body, "table");
+  const headedTables = tables.filter(table => findTags(table.innerHtml, "th").length > 0);
+  if (headedTables.length > 0) {
+    sub.pass(30, `表 × ${tables.length}（見出しセルあり ${headedTables.length}）`);
+  } else if (tables.length > 0) {
+    sub.pass(15, `表 × ${tables.length}`);
+    sub.fail(15, "表の見出しセル（<th>）", "表に見出しセル（<th>）を設定してください");
+  } else {
+    sub.fail(30, "比較・仕様をまとめた表（<table>）", "比較や仕様は<table>で表形式にまとめてください");
+  }
+
+  return sub.result();
+}
+
+// 著者・公開日・更新日のメタデータの評価
+function scoreAuthorship(html: string, content: string, extraction: StructuredDataExtraction) {
+  const sub = createSubScore("authorship");
+  const firstFound = (candidates: Array<[string | null, string]>) => candidates.find(([value]) => value);
+  const authorLink = findElements(content, "a", attrs => (attrs.rel || "").split(/\s+/).includes("author"))[0];
+
+  const author = firstFound([
+    structuredDataValue(extraction, "author"),
+    [extractMetaContent(html, "author"), "meta author"],
+    [authorLink ? stripTags(authorLink.innerHtml) || authorLink.attrs.href || null : null, "rel=\"author\""],
+  ]);
+  if (author) {
+    sub.pass(40, `著者: ${truncate(author[0]!)}（${author[1]}）`);
+  } else {
+    sub.fail(40, "著者", "著者名をJSON-LDのauthorやmeta authorで明示してください");
+  }
+
+  const timeTag = findTags(content, "time").map(tag => parseAttributes(tag).datetime).find(Boolean) ?? null;
+  const published = firstFound([
+    structuredDataValue(extraction, "datePublished"),
+    [extractMetaContent(html, "article:published_time"), "meta article:published_time"],
+    [timeTag, "<time datetime>"],
+  ]);
+  if (published) {
+    sub.pass(35, `公開日: ${truncate(published[0]!)}（${published[1]}）`);
+  } else {
+    sub.fail(35, "公開日", "公開日をdatePublishedやarticle:published_timeで明示してください");
+  }
+
+  const modified = firstFound([
+    structuredDataValue(extraction, "dateModified"),
+    [extractMetaContent(html, "article:modified_time"), "meta article:modified_time"],
+  ]);
+  if (modified) {
+    sub.pass(25, `更新日: ${truncate(modified[0]!)}（${modified[1]}）`);
+  } else {
+    sub.fail(25, "更新日", "最終更新日をdateModifiedやarticle:modified_timeで明示してください");
+  }
+
+  return sub.result();
+}
+
+// llms.txtの評価
+function scoreLlmsTxt(llmsTxt: LlmsTxtStatus) {
+  const sub = createSubScore("llmsTxt");
+  if (!llmsTxt.found) {
+    sub.fail(100, llmsTxt.url, "サイトの概要と主要ページを示す/llms.txtを公開してください");
+    return sub.result();
+  }
+
+  sub.pass(50, llmsTxt.url);
+  if (llmsTxt.title) {
+    sub.pass(20, `# ${truncate(llmsTxt.title)}`);
+  } else {
+    sub.fail(20, "H1のサイト名（# サイト名）", "llms.txtの先頭にH1でサイト名を記載してください");
+  }
+  if (llmsTxt.links > 0) {
+    sub.pass(30, `リンク × ${llmsTxt.links}（セクション ${llmsTxt.sections}）`);
+  } else {
+    sub.fail(30, "主要ページへのリンク", "llms.txtに主要ページへのMarkdownリンクを記載してください");
+  }
+  return sub.result();
+}
+
+/**
+ * Analyze page structure for AI readability
+ * Each sub-score lists the elements found and missing; llms.txt is only scored when its status is given
+ */
+export function analyzeAIReadability(html: string, options: { llmsTxt?: LlmsTxtStatus | null } = {}): AIReadabilityAudit {
+  const content = removeNonContent(html);
+  // JSON-LDはscriptタグ内のためremoveNonContent前のHTMLから抽出
+  const extraction = extractStructuredData(html);
+  const types = Array.from(new Set(extraction.items.flatMap(item => collectTypedNodes(item.data).flatMap(typesOf))));
+
+  const results = [
+    scoreStructuredData(extraction, types),
+    scoreHeadingOutline(content),
+    scoreLandmarks(content),
+    scoreAnswerBlocks(content, types),
+    scoreListsAndTables(content),
+    scoreAuthorship(html, content, extraction),
+    ...(options.llmsTxt ? [scoreLlmsTxt(options.llmsTxt)] : []),
+  ];
+  const subScores = results.map(r => r.subScore);
+  const score = (key: ReadabilitySubScoreKey) => subScores.find(s => s.key === key)?.score ?? 0;
+
+  // 重みの合計で正規化した加重平均
+  const weights = subScores.map(s => READABILITY_SUBSCORES.find(d => d.key === s.key)!.weight);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const overallScore = Math.round(subScores.reduce((sum, s, i) => sum + s.score * weights[i], 0) / totalWeight);
+
+  // 失う点数（重み付き）が大きい推奨事項を優先
+  const recommendations = Array.from(new Set(
+    results
+      .flatMap(r => r.recommendations)
+      .sort((a, b) => b.impact - a.impact)
+      .map(r => r.text)
+  )).slice(0, 5);
+
+  return {
+    semanticHtmlScore: Math.round((score("headingOutline") + score("landmarks")) / 2),
+    schemaOrgScore: score("structuredData"),
+    contentClarityScore: Math.round((score("answerBlocks") + score("listsAndTables") + score("authorship")) / 3),
+    overallScore,
+    subScores,
+    recommendations,
+  };
+}
+
+/**
+ * Fetch a page and its site's llms.txt and analyze them for AI readability
+ */
+export async function auditPageAIReadability(url: string, userAgent: string): Promise<PageAIReadabilityAudit> {
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": userAgent,
+      Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+    },
+    signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+  }
+  if (!(response.headers.get("content-type") || "").includes("html")) {
+    await response.body?.cancel();
+    throw new Error(`${url} is not an HTML page`);
+  }
+
+  const html = await response.text();
+  const finalUrl = response.url || url;
+  const llmsTxt = await fetchLlmsTxt(new URL(finalUrl).origin, userAgent);
+
+  return { ...analyzeAIReadability(html, { llmsTxt }), url: finalUrl, llmsTxt };
+}
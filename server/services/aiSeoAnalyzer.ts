@@ -89,17 +89,6 @@ export interface KeywordAnalysisResult {
   };
 }
 
-// LLM引用状況の型
-export interface LLMCitationResult {
-  overallVisibility: number;
-  platforms: {
-    chatgpt: { score: number; mentions: string[]; sentiment: string };
-    perplexity: { score: number; mentions: string[]; sentiment: string };
-    gemini: { score: number; mentions: string[]; sentiment: string };
-  };
-  recommendations: string[];
-}
-
 // JSONをパースするヘルパー関数
 function parseJSONResponse<T>(content: string): T {
   // コードブロックを除去
@@ -284,74 +273,6 @@ JSONのみを出力してください。説明文は不要です。
   }
 }
 
-// LLM引用状況をチェック
-export async function checkLLMCitationsWithAI(domain: string, keywords: string[]): Promise<LLMCitationResult> {
-  const prompt = `
-あなたはLLMO（Large Language Model Optimization）の専門家です。
-以下のドメインが各AIプラットフォームでどのように引用・言及されているかを分析し、JSON形式で出力してください。
-
-## 分析対象ドメイン
-${domain}
-
-## 関連キーワード
-${keywords.join(", ")}
-
-## 出力形式（必ずこのJSON形式で出力）
-{
-  "overallVisibility": 65,
-  "platforms": {
-    "chatgpt": {
-      "score": 70,
-      "mentions": ["言及される文脈1", "言及される文脈2"],
-      "sentiment": "positive/neutral/negative"
-    },
-    "perplexity": {
-      "score": 60,
-      "mentions": ["言及される文脈1"],
-      "sentiment": "positive/neutral/negative"
-    },
-    "gemini": {
-      "score": 55,
-      "mentions": ["言及される文脈1"],
-      "sentiment": "positive/neutral/negative"
-    }
-  },
-  "recommendations": [
-    "AI検索での可視性を向上させるための具体的な提案1",
-    "提案2"
-  ]
-}
-
-JSONのみを出力してください。説明文は不要です。
-`;
-
-  try {
-    const result = await invokeLLM({
-      messages: [
-        { role: "system", content: "あなたはLLMO分析の専門家です。必ずJSON形式で回答してください。" },
-        { role: "user", content: prompt }
-      ],
-    });
-
-    const content = typeof result.choices[0].message.content === "string" 
-      ? result.choices[0].message.content 
-      : JSON.stringify(result.choices[0].message.content);
-
-    return parseJSONResponse<LLMCitationResult>(content);
-  } catch (error) {
-    console.error("AI LLM citation check error:", error);
-    return {
-      overallVisibility: 50,
-      platforms: {
-        chatgpt: { score: 50, mentions: [], sentiment: "neutral" },
-        perplexity: { score: 50, mentions: [], sentiment: "neutral" },
-        gemini: { score: 50, mentions: [], sentiment: "neutral" },
-      },
-      recommendations: ["AI検索での可視性を向上させるため、構造化データを実装してください。"],
-    };
-  }
-}
-
 // 改善提案を生成
 export async function generateImprovementSuggestions(
   domain: string,
@@ -429,6 +350,5 @@ JSONのみを出力してください。説明文は不要です。
 export default {
   analyzeDomainWithAI,
   analyzeKeywordWithAI,
-  checkLLMCitationsWithAI,
   generateImprovementSuggestions,
 };
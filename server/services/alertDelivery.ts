@@ -0,0 +1,391 @@
+/**
+ * Alert Delivery
+ * アラートとダイジェストをユーザーごとの通知チャネル（メール / Slack / Teams / 署名付きWebhook）に配信し、配信ログを保存
+ */
+
+import { createHmac } from "crypto";
+import { HttpError } from "@shared/_core/errors";
+import { getDb } from "../db";
+import { alertDeliveries, notificationChannels, trackedDomains } from "../../drizzle/schema";
+import type { AlertRow, InsertAlertDelivery, NotificationChannel } from "../../drizzle/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { sendSmtpMail } from "./smtpClient";
+import type { SmtpConfig } from "./smtpClient";
+
+export type Severity = AlertRow["severity"];
+export type ChannelType = NotificationChannel["channelType"];
+
+export interface WebhookConfig {
+  url: string;
+  /** HMAC-SHA256 key used to sign the payload */
+  secret: string;
+}
+
+export interface ChatWebhookConfig {
+  webhookUrl: string;
+}
+
+/** Alert fields available to templates and payloads */
+export interface AlertMessage {
+  id: number | null;
+  ruleType: string;
+  severity: Severity;
+  title: string;
+  message: string;
+  domain: string;
+  data: unknown;
+  createdAt: Date;
+}
+
+/** Digest report fields sent to channels */
+export interface DigestMessage {
+  id: number;
+  subject: string;
+  markdown: string;
+  html: string;
+  data: unknown;
+}
+
+export interface DeliveryResult {
+  status: "sent" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 0, warning: 1, critical: 2 };
+const SEVERITY_LABELS: Record<Severity, string> = { critical: "重大", warning: "警告", info: "情報" };
+const SEVERITY_COLORS: Record<Severity, string> = { critical: "ef4444", warning: "f59e0b", info: "22d3ee" };
+
+/** Default body template of each channel type */
+export const DEFAULT_TEMPLATES: Record<ChannelType, string> = {
+  email: "{{title}}（{{domain}}）\n\n{{message}}\n\n重要度: {{severityLabel}}\n発生日時: {{createdAt}}",
+  slack: ":rotating_light: *[{{severityLabel}}] {{title}}* — {{domain}}\n{{message}}",
+  teams: "**[{{severityLabel}}] {{title}}** — {{domain}}\n\n{{message}}",
+  webhook: "[{{severityLabel}}] {{title}} — {{domain}}: {{message}}",
+};
+const EMAIL_SUBJECT_TEMPLATE = "[{{severityLabel}}] {{title}}（{{domain}}）";
+
+/**
+ * Whether an alert severity reaches a channel's minimum severity
+ */
+export function meetsSeverity(severity: Severity, minSeverity: Severity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minSeverity];
+}
+
+/**
+ * Replace {{placeholders}} with alert fields; unknown placeholders are left as is
+ */
+export function renderTemplate(template: string, alert: AlertMessage): string {
+  const values: Record<string, string> = {
+    title: alert.title,
+    message: alert.message,
+    severity: alert.severity,
+    severityLabel: SEVERITY_LABELS[alert.severity],
+    domain: alert.domain,
+    ruleType: alert.ruleType,
+    createdAt: alert.createdAt.toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" }),
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Slack incoming webhook payload
+ */
+export function buildSlackPayload(text: string, alert: AlertMessage) {
+  return {
+    text,
+    attachments: [{ color: `#${SEVERITY_COLORS[alert.severity]}`, fallback: alert.title }],
+  };
+}
+
+/**
+ * Microsoft Teams incoming webhook payload (MessageCard)
+ */
+export function buildTeamsPayload(text: string, alert: AlertMessage) {
+  return {
+    "@type": "MessageCard",
+    "@context": "https://schema.org/extensions",
+    themeColor: SEVERITY_COLORS[alert.severity],
+    summary: alert.title,
+    title: `[${SEVERITY_LABELS[alert.severity]}] ${alert.title}`,
+    text,
+  };
+}
+
+/**
+ * Generic webhook payload
+ */
+export function buildWebhookPayload(text: string, alert: AlertMessage) {
+  return {
+    event: alert.id === null ? "alert.test" : "alert.created",
+    text,
+    alert: {
+      id: alert.id,
+      ruleType: alert.ruleType,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      domain: alert.domain,
+      data: alert.data,
+      createdAt: alert.createdAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Sign a webhook body: hex HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// JSONをPOSTし、2xx以外はステータス付きで失敗させる
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<number> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new HttpError(response.status, `Webhook returned ${response.status}${detail ? `: ${detail.substring(0, 200)}` : ""}`);
+  }
+  return response.status;
+}
+
+// 署名付きWebhookを送信
+async function postSignedWebhook(config: WebhookConfig, event: string, payload: unknown): Promise<number> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  return postJson(config.url, body, {
+    "X-Nexus-Event": event,
+    "X-Nexus-Timestamp": String(timestamp),
+    "X-Nexus-Signature": `sha256=${signWebhookPayload(config.secret, timestamp, body)}`,
+  });
+}
+
+/**
+ * Convert Markdown emphasis and headings to Slack mrkdwn
+ */
+export function toSlackMrkdwn(markdown: string): string {
+  return markdown
+    .replace(/^#{1,6}\s+(.+)$/gm, "*$1*")
+    .replace(/\*\*(.+?)\*\*/g, "*$1*")
+    .replace(/\[([^\]]+)\]\((https?:[^)]+)\)/g, "<$2|$1>");
+}
+
+// 再試行しても成功しない失敗（429以外の4xx）は即座に諦める
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof HttpError) || error.statusCode === 429 || error.statusCode >= 500;
+}
+
+/**
+ * Run a send function with exponential backoff (base, 2×base, ...) between attempts
+ */
+export async function withRetry<T>(
+  send: () => Promise<T>,
+  options: { attempts?: number; baseDelayMs?: number } = {}
+): Promise<{ result: T; attempts: number }> {
+  const maxAttempts = options.attempts ?? MAX_DELIVERY_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? RETRY_BASE_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { result: await send(), attempts: attempt };
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error)) {
+        throw Object.assign(error instanceof Error ? error : new Error(String(error)), { attempts: attempt });
+      }
+      await new Promise(resolve => setTimeout(resolve, baseDelayMs * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+// チャネル種別ごとに1回分の送信を行う
+async function sendOnce(channel: Pick<NotificationChannel, "channelType" | "config" | "template">, alert: AlertMessage): Promise<number | null> {
+  const text = renderTemplate(channel.template || DEFAULT_TEMPLATES[channel.channelType], alert);
+
+  switch (channel.channelType) {
+    case "email":
+      await sendSmtpMail(channel.config as SmtpConfig, { subject: renderTemplate(EMAIL_SUBJECT_TEMPLATE, alert), text });
+      return null;
+    case "slack":
+      return postJson((channel.config as ChatWebhookConfig).webhookUrl, JSON.stringify(buildSlackPayload(text, alert)));
+    case "teams":
+      return postJson((channel.config as ChatWebhookConfig).webhookUrl, JSON.stringify(buildTeamsPayload(text, alert)));
+    case "webhook": {
+      const payload = buildWebhookPayload(text, alert);
+      return postSignedWebhook(channel.config as WebhookConfig, payload.event, payload);
+    }
+  }
+}
+
+// ダイジェストを1回分送信（メールはHTML、チャットはMarkdown）
+async function sendDigestOnce(channel: Pick<NotificationChannel, "channelType" | "config">, digest: DigestMessage): Promise<number | null> {
+  switch (channel.channelType) {
+    case "email":
+      await sendSmtpMail(channel.config as SmtpConfig, { subject: digest.subject, text: digest.markdown, html: digest.html });
+      return null;
+    case "slack":
+      return postJson((channel.config as ChatWebhookConfig).webhookUrl, JSON.stringify({ text: toSlackMrkdwn(digest.markdown) }));
+    case "teams":
+      return postJson((channel.config as ChatWebhookConfig).webhookUrl, JSON.stringify({
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        themeColor: "8b5cf6",
+        summary: digest.subject,
+        title: digest.subject,
+        text: digest.markdown,
+      }));
+    case "webhook":
+      return postSignedWebhook(channel.config as WebhookConfig, "digest.created", {
+        event: "digest.created",
+        digest: { id: digest.id, subject: digest.subject, markdown: digest.markdown, html: digest.html, data: digest.data },
+      });
+  }
+}
+
+// 送信関数を再試行付きで実行し、結果をDeliveryResultにまとめる
+async function runDelivery(send: () => Promise<number | null>, options: { attempts?: number; baseDelayMs?: number }): Promise<DeliveryResult> {
+  try {
+    const { result, attempts } = await withRetry(send, options);
+    return { status: "sent", attempts, responseStatus: result, error: null };
+  } catch (error) {
+    return {
+      status: "failed",
+      attempts: (error as { attempts?: number }).attempts ?? 1,
+      responseStatus: error instanceof HttpError ? error.statusCode : null,
+      error: String(error),
+    };
+  }
+}
+
+/**
+ * Deliver one alert to one channel, retrying transient failures
+ */
+export async function deliverToChannel(
+  channel: Pick<NotificationChannel, "channelType" | "config" | "template">,
+  alert: AlertMessage,
+  options: { attempts?: number; baseDelayMs?: number } = {}
+): Promise<DeliveryResult> {
+  return runDelivery(() => sendOnce(channel, alert), options);
+}
+
+/**
+ * Deliver a digest report to one channel, retrying transient failures
+ */
+export async function deliverDigestToChannel(
+  channel: Pick<NotificationChannel, "channelType" | "config">,
+  digest: DigestMessage,
+  options: { attempts?: number; baseDelayMs?: number } = {}
+): Promise<DeliveryResult> {
+  return runDelivery(() => sendDigestOnce(channel, digest), options);
+}
+
+// 配信結果をログに保存
+async function logDelivery(
+  source: { alertId?: number | null; digestReportId?: number | null },
+  channelId: number,
+  result: DeliveryResult
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const row: InsertAlertDelivery = {
+    alertId: source.alertId ?? null,
+    digestReportId: source.digestReportId ?? null,
+    channelId,
+    status: result.status,
+    attempts: result.attempts,
+    responseStatus: result.responseStatus,
+    errorMessage: result.error,
+    deliveredAt: result.status === "sent" ? new Date() : null,
+  };
+  await db.insert(alertDeliveries).values(row);
+}
+
+/**
+ * Deliver newly created alerts to every matching channel of their owners and log each delivery
+ */
+export async function deliverAlerts(created: AlertRow[]): Promise<void> {
+  if (created.length === 0) return;
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const userIds = Array.from(new Set(created.map(alert => alert.userId)));
+  const channels = await db.select().from(notificationChannels)
+    .where(and(inArray(notificationChannels.userId, userIds), eq(notificationChannels.isEnabled, true)));
+  if (channels.length === 0) return;
+
+  const domainIds = Array.from(new Set(created.map(alert => alert.domainId)));
+  const domains = await db.select({ id: trackedDomains.id, domain: trackedDomains.domain })
+    .from(trackedDomains)
+    .where(inArray(trackedDomains.id, domainIds));
+  const domainNames = new Map(domains.map(domain => [domain.id, domain.domain]));
+
+  for (const alert of created) {
+    const message: AlertMessage = {
+      id: alert.id,
+      ruleType: alert.ruleType,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      domain: domainNames.get(alert.domainId) ?? "",
+      data: alert.data,
+      createdAt: alert.createdAt,
+    };
+    const targets = channels.filter(channel =>
+      channel.userId === alert.userId &&
+      meetsSeverity(alert.severity, channel.minSeverity) &&
+      (!channel.ruleTypes || (channel.ruleTypes as string[]).includes(alert.ruleType))
+    );
+
+    for (const channel of targets) {
+      const result = await deliverToChannel(channel, message);
+      if (result.status === "failed") {
+        console.error(`[Alerts] Delivery of alert ${alert.id} to channel ${channel.id} failed:`, result.error);
+      }
+      await logDelivery({ alertId: alert.id }, channel.id, result);
+    }
+  }
+}
+
+/**
+ * Send a test message to a channel and log the result
+ */
+export async function sendTestNotification(channel: NotificationChannel): Promise<DeliveryResult> {
+  const result = await deliverToChannel(channel, {
+    id: null,
+    ruleType: "position_drop",
+    severity: "info",
+    title: "テスト通知",
+    message: `通知チャネル「${channel.name}」の設定を確認するためのテストメッセージです`,
+    domain: "example.com",
+    data: null,
+    createdAt: new Date(),
+  }, { attempts: 1 });
+  await logDelivery({}, channel.id, result);
+  return result;
+}
+
+/**
+ * Deliver a digest report to the given channels and log each delivery
+ */
+export async function deliverDigest(digest: DigestMessage, channels: NotificationChannel[]): Promise<DeliveryResult[]> {
+  const results: DeliveryResult[] = [];
+  for (const channel of channels) {
+    const result = await deliverDigestToChannel(channel, digest);
+    if (result.status === "failed") {
+      console.error(`[Digest] Delivery of digest ${digest.id} to channel ${channel.id} failed:`, result.error);
+    }
+    await logDelivery({ digestReportId: digest.id }, channel.id, result);
+    results.push(result);
+  }
+  return results;
+}
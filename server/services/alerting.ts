@@ -0,0 +1,553 @@
+/**
+ * Alerting Engine
+ * 同期（Search Console / PageSpeed / SERP / AI引用チェック）の後にアラートルールを評価し、アラート履歴に保存
+ */
+
+import { getDb } from "../db";
+import {
+  aiCitationChecks,
+  alertRules,
+  alerts,
+  budgetViolations,
+  domainHistory,
+  keywordHistory,
+  pageSpeedHistory,
+  performanceBudgets,
+  serpSnapshots,
+  trackedDomains,
+  trackedKeywords,
+} from "../../drizzle/schema";
+import type { AlertRow, AlertRule, InsertAiCitationCheck, InsertAlertRow, InsertAlertRule } from "../../drizzle/schema";
+import { and, desc, eq, gte, inArray } from "drizzle-orm";
+import { deliverAlerts } from "./alertDelivery";
+import type { CitationProbeReport } from "./citationProbe";
+import { formatBudgetValue } from "./performanceBudgets";
+import type { BudgetViolationDetail } from "./performanceBudgets";
+
+export type AlertSource = "search_console" | "pagespeed" | "serp" | "ai_citation";
+export type AlertRuleType = AlertRule["ruleType"];
+
+/** Rules created for users that have not configured any */
+export const DEFAULT_ALERT_RULES: Array<Pick<InsertAlertRule, "ruleType" | "threshold" | "severity">> = [
+  { ruleType: "position_drop", threshold: "5", severity: "warning" },
+  { ruleType: "ctr_collapse", threshold: "50", severity: "warning" },
+  { ruleType: "cwv_regression", threshold: "20", severity: "warning" },
+  { ruleType: "lost_ai_citation", threshold: "20", severity: "info" },
+  { ruleType: "budget_violation", threshold: "1", severity: "critical" },
+];
+
+/** Rule types evaluated after each kind of sync */
+const RULE_TYPES_BY_SOURCE: Record<AlertSource, AlertRuleType[]> = {
+  search_console: ["position_drop", "ctr_collapse"],
+  serp: ["position_drop"],
+  pagespeed: ["cwv_regression", "budget_violation"],
+  ai_citation: ["lost_ai_citation"],
+};
+
+/** The latest day needs this many impressions before a CTR collapse is reported */
+export const CTR_MIN_IMPRESSIONS = 100;
+/** Days of history the CTR baseline is averaged over */
+export const CTR_BASELINE_DAYS = 7;
+const CTR_MIN_BASELINE_DAYS = 3;
+/** Last position of the first results page; leaving it always counts as a drop */
+const FIRST_PAGE_POSITION = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Core Web Vitals checked for regressions, with the upper bound of "good" */
+export const CWV_METRICS = [
+  { key: "lcp", label: "LCP", good: 2500 },
+  { key: "cls", label: "CLS", good: 100 },
+  { key: "tbt", label: "TBT", good: 200 },
+  { key: "fcp", label: "FCP", good: 1800 },
+] as const;
+
+/** Labels of the PageSpeed strategies in alert and digest messages */
+export const STRATEGY_LABELS: Record<"mobile" | "desktop", string> = {
+  mobile: "モバイル",
+  desktop: "デスクトップ",
+};
+
+export interface AlertCandidate {
+  /** Identifies the triggering measurement so re-evaluation does not duplicate alerts */
+  fingerprint: string;
+  keywordId?: number | null;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+export interface PositionChange {
+  keywordId: number;
+  keyword: string;
+  source: "search_console" | "serp";
+  /** Identifies the newer measurement (day or snapshot id) */
+  measurementKey: string;
+  previous: number | null;
+  current: number | null;
+  /** Tracking profile of SERP checks, e.g. "JP / mobile" */
+  profileLabel?: string;
+}
+
+export interface CtrSeries {
+  /** null = whole domain */
+  keywordId: number | null;
+  label: string;
+  /** Daily values, oldest first; the last day is compared with the average of the others */
+  days: Array<{ date: Date; clicks: number; impressions: number }>;
+}
+
+export interface PageSpeedTest {
+  id: number;
+  url: string;
+  strategy: "mobile" | "desktop";
+  date: Date;
+  lcp: number | null;
+  cls: number | null;
+  tbt: number | null;
+  fcp: number | null;
+}
+
+export interface BudgetTestResult {
+  /** PageSpeed test id */
+  testId: number;
+  url: string;
+  strategy: "mobile" | "desktop";
+  date: Date;
+  /** null when the test stayed within its budget (or no budget applied) */
+  violation: { id: number; budgetName: string; violations: BudgetViolationDetail[] } | null;
+}
+
+export interface CitationState {
+  id: number;
+  platform: string;
+  score: number;
+  cited: boolean;
+}
+
+// 小数第1位で丸める
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Report keywords whose position worsened by at least `threshold` places, fell off page one or dropped out of the results
+ */
+export function detectPositionDrops(changes: PositionChange[], threshold: number): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+  for (const change of changes) {
+    if (change.previous === null) continue;
+    const lost = change.current === null;
+    const leftFirstPage = change.previous <= FIRST_PAGE_POSITION && (lost || change.current! > FIRST_PAGE_POSITION);
+    if (!lost && !leftFirstPage && change.current! - change.previous < threshold) continue;
+
+    const previous = round1(change.previous);
+    const current = lost ? null : round1(change.current!);
+    const via = change.source === "serp"
+      ? `SERP${change.profileLabel ? `（${change.profileLabel}）` : ""}`
+      : "Search Console";
+    candidates.push({
+      fingerprint: `position:${change.source}:${change.keywordId}:${change.measurementKey}`,
+      keywordId: change.keywordId,
+      title: leftFirstPage ? "1ページ目から下落" : "順位下落",
+      message: lost
+        ? `「${change.keyword}」が${previous}位から圏外に下落しました（${via}）`
+        : `「${change.keyword}」が${previous}位から${current}位に下落しました（${via}）`,
+      data: { keyword: change.keyword, source: change.source, previous, current, leftFirstPage, profile: change.profileLabel ?? null },
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Report series whose latest CTR fell at least `threshold` percent below the impression-weighted baseline
+ */
+export function detectCtrCollapse(series: CtrSeries[], threshold: number): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+  for (const item of series) {
+    const latest = item.days[item.days.length - 1];
+    const baselineDays = item.days.slice(-CTR_BASELINE_DAYS - 1, -1);
+    if (!latest || baselineDays.length < CTR_MIN_BASELINE_DAYS) continue;
+    if (latest.impressions < CTR_MIN_IMPRESSIONS) continue;
+
+    const baselineImpressions = baselineDays.reduce((sum, day) => sum + day.impressions, 0);
+    if (baselineImpressions === 0) continue;
+    const baselineCtr = baselineDays.reduce((sum, day) => sum + day.clicks, 0) / baselineImpressions;
+    if (baselineCtr === 0) continue;
+
+    const currentCtr = latest.clicks / latest.impressions;
+    const dropPercent = ((baselineCtr - currentCtr) / baselineCtr) * 100;
+    if (dropPercent < threshold) continue;
+
+    const day = latest.date.toISOString().split("T")[0];
+    candidates.push({
+      fingerprint: `ctr:${item.keywordId ?? "domain"}:${day}`,
+      keywordId: item.keywordId,
+      title: "CTR急落",
+      message: `${item.label}のCTRが${round1(baselineCtr * 100)}%から${round1(currentCtr * 100)}%に低下しました（${day}、-${Math.round(dropPercent)}%）`,
+      data: {
+        label: item.label,
+        date: day,
+        baselineCtr: round1(baselineCtr * 100),
+        currentCtr: round1(currentCtr * 100),
+        dropPercent: Math.round(dropPercent),
+        impressions: latest.impressions,
+      },
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Report URLs where a Core Web Vital got at least `threshold` percent worse and is no longer "good"
+ */
+export function detectCwvRegressions(
+  pairs: Array<{ previous: PageSpeedTest; current: PageSpeedTest }>,
+  threshold: number
+): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+  for (const { previous, current } of pairs) {
+    const regressions = CWV_METRICS.flatMap(metric => {
+      const before = previous[metric.key];
+      const after = current[metric.key];
+      if (before === null || after === null || before <= 0) return [];
+      const worsePercent = ((after - before) / before) * 100;
+      if (worsePercent < threshold || after <= metric.good) return [];
+      return [{ metric: metric.label, before, after, worsePercent: Math.round(worsePercent) }];
+    });
+    if (regressions.length === 0) continue;
+
+    candidates.push({
+      fingerprint: `cwv:${current.id}`,
+      title: "Core Web Vitals悪化",
+      message: `${current.url}（${STRATEGY_LABELS[current.strategy]}）で ${regressions.map(r => `${r.metric} ${r.before}→${r.after}（+${r.worsePercent}%）`).join("、")}`,
+      data: { url: current.url, strategy: current.strategy, previousTestId: previous.id, testId: current.id, regressions },
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Report URLs whose latest test broke its performance budget in at least `threshold` consecutive tests
+ */
+export function detectBudgetViolations(tests: BudgetTestResult[], threshold: number): AlertCandidate[] {
+  const byUrl = new Map<string, BudgetTestResult[]>();
+  for (const test of tests) {
+    const key = `${test.url}:${test.strategy}`;
+    byUrl.set(key, [...(byUrl.get(key) ?? []), test]);
+  }
+
+  const candidates: AlertCandidate[] = [];
+  for (const history of Array.from(byUrl.values())) {
+    history.sort((a, b) => b.date.getTime() - a.date.getTime());
+    const latest = history[0].violation;
+    if (!latest) continue;
+    const streak = history.findIndex(test => test.violation === null);
+    const consecutive = streak === -1 ? history.length : streak;
+    if (consecutive < threshold) continue;
+
+    const current = history[0];
+    candidates.push({
+      fingerprint: `budget:${latest.id}`,
+      title: "パフォーマンス予算の超過",
+      message: `${current.url}（${STRATEGY_LABELS[current.strategy]}）が予算「${latest.budgetName}」を超過: ${latest.violations.map(v =>
+        `${v.label} ${formatBudgetValue(v.metric, v.actual)}（${v.metric === "performanceScore" ? "下限" : "上限"} ${formatBudgetValue(v.metric, v.limit)}）`
+      ).join("、")}${consecutive > 1 ? `（${consecutive}回連続）` : ""}`,
+      data: { url: current.url, strategy: current.strategy, testId: current.testId, budgetName: latest.budgetName, violations: latest.violations, consecutive },
+    });
+  }
+  return candidates;
+}
+
+/**
+ * Report platforms that stopped citing the domain or whose score fell by at least `threshold` points
+ */
+export function detectLostCitations(
+  pairs: Array<{ previous: CitationState; current: CitationState }>,
+  threshold: number
+): AlertCandidate[] {
+  const candidates: AlertCandidate[] = [];
+  for (const { previous, current } of pairs) {
+    const lost = previous.cited && !current.cited;
+    const scoreDrop = previous.score - current.score;
+    if (!lost && scoreDrop < threshold) continue;
+
+    candidates.push({
+      fingerprint: `citation:${current.id}`,
+      title: lost ? "AI引用の消失" : "AI可視性の低下",
+      message: lost
+        ? `${current.platform}であなたのサイトが引用されなくなりました（スコア ${previous.score}→${current.score}）`
+        : `${current.platform}でのAI可視性スコアが${previous.score}から${current.score}に低下しました`,
+      data: { platform: current.platform, previousScore: previous.score, currentScore: current.score, lost },
+    });
+  }
+  return candidates;
+}
+
+// 新しい順に並んだ行をキーごとにまとめ、最新とその直前の組を返す
+function latestPairs<T>(rows: T[], keyOf: (row: T) => string): Array<{ previous: T; current: T }> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = groups.get(keyOf(row)) ?? [];
+    if (list.length < 2) list.push(row);
+    groups.set(keyOf(row), list);
+  }
+  return Array.from(groups.values())
+    .filter(list => list.length === 2)
+    .map(([current, previous]) => ({ previous, current }));
+}
+
+/**
+ * Get the alert rules of a user, creating the default rules on first use
+ */
+export async function getAlertRules(userId: number): Promise<AlertRule[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rules = await db.select().from(alertRules).where(eq(alertRules.userId, userId)).orderBy(alertRules.id);
+  if (rules.length > 0) return rules;
+
+  return db.insert(alertRules).values(DEFAULT_ALERT_RULES.map(rule => ({ ...rule, userId }))).returning();
+}
+
+/**
+ * Create the default rule of a type for a user who has none (e.g., when their first performance budget is added)
+ */
+export async function ensureAlertRule(userId: number, ruleType: AlertRuleType): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rules = await getAlertRules(userId);
+  if (rules.some(rule => rule.ruleType === ruleType)) return;
+
+  const defaults = DEFAULT_ALERT_RULES.find(rule => rule.ruleType === ruleType);
+  if (defaults) await db.insert(alertRules).values({ ...defaults, userId });
+}
+
+/**
+ * Store the per-platform result of an LLM citation probe for a tracked domain
+ * (platforms whose requests all failed are skipped so they do not read as lost citations)
+ */
+export async function recordAiCitationCheck(domainId: number, report: CitationProbeReport): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: InsertAiCitationCheck[] = report.platforms
+    .filter(platform => platform.score !== null)
+    .map(platform => ({
+      domainId,
+      platform: platform.platform,
+      model: platform.model,
+      score: platform.score!,
+      mentions: platform.answers.filter(answer => answer.mentioned).length,
+      cited: platform.answers.some(answer => answer.cited),
+      answers: platform.answers,
+      checkedAt: report.checkedAt,
+    }));
+  if (rows.length > 0) {
+    await db.insert(aiCitationChecks).values(rows);
+  }
+}
+
+// ルール種別ごとに評価対象データを読み込んで候補を作る
+async function buildCandidates(domainId: number, ruleType: AlertRuleType, source: AlertSource, threshold: number): Promise<AlertCandidate[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const keywords = await db.select({ id: trackedKeywords.id, keyword: trackedKeywords.keyword })
+    .from(trackedKeywords)
+    .where(eq(trackedKeywords.domainId, domainId));
+  const keywordNames = new Map(keywords.map(keyword => [keyword.id, keyword.keyword]));
+  const keywordIds = keywords.map(keyword => keyword.id);
+
+  if (ruleType === "position_drop" && source === "serp") {
+    const snapshots = await db.select({
+      id: serpSnapshots.id,
+      keywordId: serpSnapshots.keywordId,
+      profileId: serpSnapshots.profileId,
+      location: serpSnapshots.location,
+      device: serpSnapshots.device,
+      position: serpSnapshots.position,
+    })
+      .from(serpSnapshots)
+      .where(and(eq(serpSnapshots.domainId, domainId), gte(serpSnapshots.checkedAt, new Date(Date.now() - 30 * DAY_MS))))
+      .orderBy(desc(serpSnapshots.checkedAt));
+
+    return detectPositionDrops(
+      latestPairs(snapshots, row => `${row.keywordId}:${row.profileId ?? ""}`).map(({ previous, current }) => ({
+        keywordId: current.keywordId,
+        keyword: keywordNames.get(current.keywordId) ?? "",
+        source: "serp",
+        measurementKey: String(current.id),
+        previous: previous.position,
+        current: current.position,
+        profileLabel: [current.location?.toUpperCase(), current.device].filter(Boolean).join(" / "),
+      })),
+      threshold
+    );
+  }
+
+  if (ruleType === "position_drop") {
+    if (keywordIds.length === 0) return [];
+    const rows = await db.select().from(keywordHistory)
+      .where(and(inArray(keywordHistory.keywordId, keywordIds), gte(keywordHistory.date, new Date(Date.now() - 14 * DAY_MS))))
+      .orderBy(desc(keywordHistory.date));
+
+    return detectPositionDrops(
+      latestPairs(rows.filter(row => row.position !== null), row => String(row.keywordId)).map(({ previous, current }) => ({
+        keywordId: current.keywordId,
+        keyword: keywordNames.get(current.keywordId) ?? "",
+        source: "search_console",
+        measurementKey: current.date.toISOString().split("T")[0],
+        previous: parseFloat(previous.position!),
+        current: parseFloat(current.position!),
+      })),
+      threshold
+    );
+  }
+
+  if (ruleType === "ctr_collapse") {
+    const since = new Date(Date.now() - (CTR_BASELINE_DAYS + 7) * DAY_MS);
+    const domainRows = await db.select().from(domainHistory)
+      .where(and(eq(domainHistory.domainId, domainId), gte(domainHistory.date, since)))
+      .orderBy(domainHistory.date);
+    const keywordRows = keywordIds.length === 0 ? [] : await db.select().from(keywordHistory)
+      .where(and(inArray(keywordHistory.keywordId, keywordIds), gte(keywordHistory.date, since)))
+      .orderBy(keywordHistory.date);
+
+    const series: CtrSeries[] = [{
+      keywordId: null,
+      label: "サイト全体",
+      days: domainRows.map(row => ({ date: row.date, clicks: row.totalClicks ?? 0, impressions: row.totalImpressions ?? 0 })),
+    }];
+    const byKeyword = new Map<number, CtrSeries>();
+    for (const row of keywordRows) {
+      const item = byKeyword.get(row.keywordId) ?? {
+        keywordId: row.keywordId,
+        label: `「${keywordNames.get(row.keywordId) ?? ""}」`,
+        days: [],
+      };
+      item.days.push({ date: row.date, clicks: row.clicks ?? 0, impressions: row.impressions ?? 0 });
+      byKeyword.set(row.keywordId, item);
+    }
+    return detectCtrCollapse([...series, ...Array.from(byKeyword.values())], threshold);
+  }
+
+  if (ruleType === "cwv_regression") {
+    const tests = await db.select({
+      id: pageSpeedHistory.id,
+      url: pageSpeedHistory.url,
+      strategy: pageSpeedHistory.strategy,
+      date: pageSpeedHistory.date,
+      lcp: pageSpeedHistory.lcp,
+      cls: pageSpeedHistory.cls,
+      tbt: pageSpeedHistory.tbt,
+      fcp: pageSpeedHistory.fcp,
+    })
+      .from(pageSpeedHistory)
+      .where(and(eq(pageSpeedHistory.domainId, domainId), gte(pageSpeedHistory.date, new Date(Date.now() - 30 * DAY_MS))))
+      .orderBy(desc(pageSpeedHistory.date));
+
+    return detectCwvRegressions(latestPairs(tests, test => `${test.url}:${test.strategy}`), threshold);
+  }
+
+  if (ruleType === "budget_violation") {
+    const since = new Date(Date.now() - 30 * DAY_MS);
+    const tests = await db.select({
+      id: pageSpeedHistory.id,
+      url: pageSpeedHistory.url,
+      strategy: pageSpeedHistory.strategy,
+      date: pageSpeedHistory.date,
+    })
+      .from(pageSpeedHistory)
+      .where(and(eq(pageSpeedHistory.domainId, domainId), gte(pageSpeedHistory.date, since)));
+    const violations = await db.select({
+      id: budgetViolations.id,
+      pageSpeedId: budgetViolations.pageSpeedId,
+      budgetName: performanceBudgets.name,
+      violations: budgetViolations.violations,
+    })
+      .from(budgetViolations)
+      .innerJoin(performanceBudgets, eq(budgetViolations.budgetId, performanceBudgets.id))
+      .where(and(eq(budgetViolations.domainId, domainId), gte(budgetViolations.date, since)));
+    const byTest = new Map(violations.map(v => [v.pageSpeedId, v]));
+
+    return detectBudgetViolations(tests.map(test => {
+      const violation = byTest.get(test.id);
+      return {
+        testId: test.id,
+        url: test.url,
+        strategy: test.strategy,
+        date: test.date,
+        violation: violation
+          ? { id: violation.id, budgetName: violation.budgetName, violations: violation.violations as BudgetViolationDetail[] }
+          : null,
+      };
+    }), threshold);
+  }
+
+  const checks = await db.select().from(aiCitationChecks)
+    .where(and(eq(aiCitationChecks.domainId, domainId), gte(aiCitationChecks.checkedAt, new Date(Date.now() - 90 * DAY_MS))))
+    .orderBy(desc(aiCitationChecks.checkedAt));
+  return detectLostCitations(latestPairs(checks, check => check.platform), threshold);
+}
+
+/**
+ * Evaluate the user's rules relevant to a sync source for one domain and store new alerts
+ */
+export async function evaluateAlertRules(domainId: number, source: AlertSource): Promise<AlertRow[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const domain = await db.select().from(trackedDomains).where(eq(trackedDomains.id, domainId)).limit(1);
+  if (!domain[0]) throw new Error("Domain not found");
+
+  const rules = (await getAlertRules(domain[0].userId)).filter(rule =>
+    rule.isEnabled &&
+    (rule.domainId === null || rule.domainId === domainId) &&
+    RULE_TYPES_BY_SOURCE[source].includes(rule.ruleType)
+  );
+
+  const created: AlertRow[] = [];
+  for (const rule of rules) {
+    const candidates = await buildCandidates(domainId, rule.ruleType, source, parseFloat(rule.threshold));
+    if (candidates.length === 0) continue;
+
+    const rows: InsertAlertRow[] = candidates.map(candidate => ({
+      userId: rule.userId,
+      ruleId: rule.id,
+      domainId,
+      keywordId: candidate.keywordId ?? null,
+      ruleType: rule.ruleType,
+      severity: rule.severity,
+      title: candidate.title,
+      message: candidate.message,
+      data: candidate.data,
+      fingerprint: candidate.fingerprint.substring(0, 255),
+    }));
+    const inserted = await db.insert(alerts).values(rows)
+      .onConflictDoNothing({ target: [alerts.ruleId, alerts.fingerprint] })
+      .returning();
+
+    if (inserted.length > 0) {
+      await db.update(alertRules).set({ lastTriggeredAt: new Date() }).where(eq(alertRules.id, rule.id));
+      created.push(...inserted);
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Evaluate alert rules after a sync and deliver new alerts, without letting failures affect the sync itself
+ */
+export async function runAlertEvaluation(domainId: number, source: AlertSource): Promise<void> {
+  try {
+    const created = await evaluateAlertRules(domainId, source);
+    if (created.length > 0) {
+      console.log(`[Alerts] ${created.length} new ${source} alerts for domain ${domainId}`);
+      await deliverAlerts(created);
+    }
+  } catch (error) {
+    console.error(`[Alerts] Evaluation after ${source} sync failed for domain ${domainId}:`, error);
+  }
+}
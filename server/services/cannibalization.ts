@@ -0,0 +1,165 @@
+/**
+ * Keyword Cannibalization Detector
+ * Search Consoleのクエリ×ページデータから、同じクエリで複数の自サイトURLが表示回数を分け合う・順位が入れ替わるケースを検出
+ */
+
+import { getDb } from "../db";
+import { queryPageHistory } from "../../drizzle/schema";
+import { and, eq, gte } from "drizzle-orm";
+
+/** Queries with fewer impressions over the period are ignored */
+export const MIN_QUERY_IMPRESSIONS = 20;
+/** A page must get at least this share of a query's impressions to count as competing */
+export const MIN_PAGE_IMPRESSION_SHARE = 0.1;
+/** A page needs this many impressions in a period to be considered its leader */
+const MIN_LEADER_IMPRESSIONS = 5;
+
+export type CannibalizationReason = "split_impressions" | "position_swaps";
+
+export interface QueryPageRow {
+  query: string;
+  page: string;
+  date: Date;
+  clicks: number;
+  impressions: number;
+  /** Average position in the period */
+  position: number;
+}
+
+export interface CannibalizationPage {
+  url: string;
+  clicks: number;
+  impressions: number;
+  /** Share of the query's impressions (0-100) */
+  impressionShare: number;
+  /** Impression-weighted average position */
+  avgPosition: number;
+  /** Periods where the page was our best-ranked URL for the query */
+  periodsLeading: number;
+}
+
+export interface CannibalizationFinding {
+  query: string;
+  reasons: CannibalizationReason[];
+  totalClicks: number;
+  totalImpressions: number;
+  /** Number of times our best-ranked URL changed between periods */
+  leaderSwaps: number;
+  pages: CannibalizationPage[];
+  /** URL to consolidate on: most clicks, then impressions, then best position */
+  suggestedPrimaryUrl: string;
+}
+
+// ページごとの集計値
+interface PageTotals {
+  url: string;
+  clicks: number;
+  impressions: number;
+  weightedPosition: number;
+  periodsLeading: number;
+}
+
+/**
+ * Detect queries where two or more of our URLs split impressions or swap positions over time
+ */
+export function detectCannibalization(rows: QueryPageRow[]): CannibalizationFinding[] {
+  const byQuery = new Map<string, QueryPageRow[]>();
+  for (const row of rows) {
+    const list = byQuery.get(row.query) ?? [];
+    list.push(row);
+    byQuery.set(row.query, list);
+  }
+
+  const findings: CannibalizationFinding[] = [];
+
+  for (const [query, queryRows] of Array.from(byQuery.entries())) {
+    const totalImpressions = queryRows.reduce((sum, row) => sum + row.impressions, 0);
+    if (totalImpressions < MIN_QUERY_IMPRESSIONS) continue;
+
+    const pages = new Map<string, PageTotals>();
+    for (const row of queryRows) {
+      const totals = pages.get(row.page) ?? { url: row.page, clicks: 0, impressions: 0, weightedPosition: 0, periodsLeading: 0 };
+      totals.clicks += row.clicks;
+      totals.impressions += row.impressions;
+      totals.weightedPosition += row.position * row.impressions;
+      pages.set(row.page, totals);
+    }
+
+    // 期間ごとに最上位だったURLを並べ、入れ替わり回数を数える
+    const byDate = new Map<number, QueryPageRow[]>();
+    for (const row of queryRows) {
+      if (row.impressions < MIN_LEADER_IMPRESSIONS) continue;
+      const list = byDate.get(row.date.getTime()) ?? [];
+      list.push(row);
+      byDate.set(row.date.getTime(), list);
+    }
+    let leaderSwaps = 0;
+    let previousLeader: string | null = null;
+    for (const time of Array.from(byDate.keys()).sort((a, b) => a - b)) {
+      const leader = byDate.get(time)!.reduce((best, row) => (row.position < best.position ? row : best));
+      pages.get(leader.page)!.periodsLeading++;
+      if (previousLeader !== null && previousLeader !== leader.page) leaderSwaps++;
+      previousLeader = leader.page;
+    }
+
+    const competing = Array.from(pages.values()).filter(
+      page => page.impressions / totalImpressions >= MIN_PAGE_IMPRESSION_SHARE || page.periodsLeading > 0
+    );
+    const reasons: CannibalizationReason[] = [];
+    if (competing.filter(page => page.impressions / totalImpressions >= MIN_PAGE_IMPRESSION_SHARE).length >= 2) {
+      reasons.push("split_impressions");
+    }
+    if (leaderSwaps > 0) reasons.push("position_swaps");
+    if (reasons.length === 0) continue;
+
+    const summarized: CannibalizationPage[] = competing
+      .map(page => ({
+        url: page.url,
+        clicks: page.clicks,
+        impressions: page.impressions,
+        impressionShare: Math.round((page.impressions / totalImpressions) * 1000) / 10,
+        avgPosition: page.impressions > 0 ? Math.round((page.weightedPosition / page.impressions) * 10) / 10 : 0,
+        periodsLeading: page.periodsLeading,
+      }))
+      .sort((a, b) => b.impressions - a.impressions);
+
+    const primary = [...summarized].sort((a, b) =>
+      b.clicks - a.clicks || b.impressions - a.impressions || a.avgPosition - b.avgPosition
+    )[0];
+
+    findings.push({
+      query,
+      reasons,
+      totalClicks: queryRows.reduce((sum, row) => sum + row.clicks, 0),
+      totalImpressions,
+      leaderSwaps,
+      pages: summarized,
+      suggestedPrimaryUrl: primary.url,
+    });
+  }
+
+  return findings.sort((a, b) => b.totalImpressions - a.totalImpressions);
+}
+
+/**
+ * Build the cannibalization report of a domain from synced query + page rows
+ */
+export async function getCannibalizationReport(domainId: number, days: number = 90): Promise<CannibalizationFinding[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const rows = await db.select().from(queryPageHistory)
+    .where(and(eq(queryPageHistory.domainId, domainId), gte(queryPageHistory.date, since)));
+
+  return detectCannibalization(rows
+    .filter(row => row.position !== null)
+    .map(row => ({
+      query: row.query,
+      page: row.page,
+      date: row.date,
+      clicks: row.clicks,
+      impressions: row.impressions,
+      position: parseFloat(row.position!),
+    })));
+}
@@ -0,0 +1,412 @@
+/**
+ * Citation Probe Service
+ * OpenAI互換API・Perplexity互換API・Geminiに実際に質問し、回答本文と引用元URLを記録してブランド・ドメインの言及を判定
+ */
+
+export const CITATION_PLATFORMS = ["chatgpt", "perplexity", "gemini"] as const;
+export type CitationPlatform = typeof CITATION_PLATFORMS[number];
+
+export interface CitedSource {
+  url: string;
+  title: string | null;
+}
+
+export interface ProbeAnswer {
+  /** Full answer text as returned by the platform */
+  answer: string;
+  /** Sources in the order the platform cited them */
+  citations: CitedSource[];
+}
+
+export interface CitationProbeAdapter {
+  readonly platform: CitationPlatform;
+  readonly model: string;
+  ask(prompt: string): Promise<ProbeAnswer>;
+}
+
+/** The domain and brand names a probe looks for */
+export interface BrandTarget {
+  domain: string;
+  brandTerms: string[];
+}
+
+export interface BrandMention {
+  /** Brand name or domain appears in the answer text */
+  mentioned: boolean;
+  /** A cited source is on the domain or one of its subdomains */
+  cited: boolean;
+  /** 1-based position of the first citation on the domain */
+  citationRank: number | null;
+  /** Character offset of the first mention in the answer, used to order brands */
+  mentionOffset: number | null;
+  /** Sentences of the answer that mention the brand or domain */
+  contexts: string[];
+}
+
+export interface CitationProbeRecord extends ProbeAnswer, BrandMention {
+  prompt: string;
+  /** Request error; the answer is empty when set */
+  error: string | null;
+}
+
+export interface PlatformCitationResult {
+  platform: CitationPlatform;
+  model: string;
+  /** % of answered prompts that mention or cite the domain; null when every request failed */
+  score: number | null;
+  answers: CitationProbeRecord[];
+}
+
+export interface CitationProbeReport {
+  domain: string;
+  checkedAt: Date;
+  /** Average score of the platforms that answered */
+  overallVisibility: number;
+  platforms: PlatformCitationResult[];
+}
+
+const REQUEST_TIMEOUT_MS = 90000;
+const MAX_CONTEXTS = 3;
+const MAX_CONTEXT_LENGTH = 200;
+// 出典のURLが転送用で、titleにドメイン名が入るホスト（Geminiのグラウンディング）
+const REDIRECT_SOURCE_HOSTS = ["vertexaisearch.cloud.google.com"];
+
+async function fetchJson<T>(url: string, init: RequestInit, providerName: string): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`${providerName} request failed: ${response.status} ${body.substring(0, 200)}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// 同じURLの引用は最初の1件だけ残す
+function uniqueSources(sources: CitedSource[]): CitedSource[] {
+  const seen = new Set<string>();
+  return sources.filter(source => {
+    if (!source.url || seen.has(source.url)) return false;
+    seen.add(source.url);
+    return true;
+  });
+}
+
+/**
+ * URLs written in an answer (bare or as Markdown links), for platforms that return no citation metadata
+ */
+export function extractAnswerUrls(text: string): CitedSource[] {
+  const sources: CitedSource[] = [];
+  // 日本語の文中では全角文字の手前でURLが終わる
+  for (const match of Array.from(text.matchAll(/\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)|https?:\/\/[A-Za-z0-9\-._~:/?#@!$&*+,;=%]+/g))) {
+    const url = (match[2] ?? match[0]).replace(/[.,;:!?]+$/, "");
+    sources.push({ url, title: match[1] || null });
+  }
+  return uniqueSources(sources);
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      annotations?: Array<{ type?: string; url_citation?: { url?: string; title?: string } }>;
+    };
+  }>;
+  /** Perplexity: cited URLs in answer order */
+  citations?: string[];
+  /** Perplexity: search results backing the citations */
+  search_results?: Array<{ url?: string; title?: string }>;
+}
+
+/**
+ * OpenAI-compatible chat completions API; citations come from url_citation annotations
+ * (search-enabled models) or from URLs written in the answer
+ */
+export class OpenAICompatibleProbeAdapter implements CitationProbeAdapter {
+  readonly platform = "chatgpt" as const;
+  readonly model: string;
+
+  constructor(private readonly options: { apiKey: string; baseUrl?: string; model?: string }) {
+    this.model = options.model || "gpt-4o-search-preview";
+  }
+
+  async ask(prompt: string): Promise<ProbeAnswer> {
+    const baseUrl = (this.options.baseUrl || "https://api.openai.com/v1").replace(/\/$/, "");
+    const data = await fetchJson<ChatCompletionResponse>(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.options.apiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.model, messages: [{ role: "user", content: prompt }] }),
+    }, "OpenAI");
+
+    const message = data.choices?.[0]?.message;
+    const answer = message?.content || "";
+    const annotated = (message?.annotations || [])
+      .filter(annotation => annotation.type === "url_citation" && annotation.url_citation?.url)
+      .map(annotation => ({ url: annotation.url_citation!.url!, title: annotation.url_citation!.title || null }));
+
+    return { answer, citations: annotated.length > 0 ? uniqueSources(annotated) : extractAnswerUrls(answer) };
+  }
+}
+
+/**
+ * Perplexity-style answer API (OpenAI-compatible request with citations / search_results in the response)
+ */
+export class PerplexityProbeAdapter implements CitationProbeAdapter {
+  readonly platform = "perplexity" as const;
+  readonly model: string;
+
+  constructor(private readonly options: { apiKey: string; baseUrl?: string; model?: string }) {
+    this.model = options.model || "sonar";
+  }
+
+  async ask(prompt: string): Promise<ProbeAnswer> {
+    const baseUrl = (this.options.baseUrl || "https://api.perplexity.ai").replace(/\/$/, "");
+    const data = await fetchJson<ChatCompletionResponse>(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.options.apiKey}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.model, messages: [{ role: "user", content: prompt }] }),
+    }, "Perplexity");
+
+    const answer = data.choices?.[0]?.message?.content || "";
+    // citationsは回答中の[1]などの番号順、search_resultsはタイトル付き
+    const titles = new Map((data.search_results || []).filter(result => result.url).map(result => [result.url!, result.title || null]));
+    const citations = data.citations?.length
+      ? data.citations.map(url => ({ url, title: titles.get(url) ?? null }))
+      : (data.search_results || []).filter(result => result.url).map(result => ({ url: result.url!, title: result.title || null }));
+
+    return { answer, citations: uniqueSources(citations) };
+  }
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    groundingMetadata?: {
+      groundingChunks?: Array<{ web?: { uri?: string; title?: string } }>;
+    };
+  }>;
+  error?: { message?: string };
+}
+
+/**
+ * Gemini generateContent API with Google Search grounding; citations come from the grounding chunks
+ */
+export class GeminiProbeAdapter implements CitationProbeAdapter {
+  readonly platform = "gemini" as const;
+  readonly model: string;
+
+  constructor(private readonly options: { apiKey: string; baseUrl?: string; model?: string }) {
+    this.model = options.model || "gemini-2.5-flash";
+  }
+
+  async ask(prompt: string): Promise<ProbeAnswer> {
+    const baseUrl = (this.options.baseUrl || "https://generativelanguage.googleapis.com/v1beta").replace(/\/$/, "");
+    const data = await fetchJson<GeminiResponse>(`${baseUrl}/models/${encodeURIComponent(this.model)}:generateContent`, {
+      method: "POST",
+      headers: { "x-goog-api-key": this.options.apiKey, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        tools: [{ google_search: {} }],
+      }),
+    }, "Gemini");
+    if (data.error) {
+      throw new Error(`Gemini error: ${data.error.message}`);
+    }
+
+    const candidate = data.candidates?.[0];
+    const answer = (candidate?.content?.parts || []).map(part => part.text || "").join("");
+    const citations = (candidate?.groundingMetadata?.groundingChunks || [])
+      .filter(chunk => chunk.web?.uri)
+      .map(chunk => ({ url: chunk.web!.uri!, title: chunk.web!.title || null }));
+
+    return { answer, citations: uniqueSources(citations) };
+  }
+}
+
+/**
+ * Create the adapters whose API keys are configured in the environment
+ */
+export function createCitationProbeAdapters(): CitationProbeAdapter[] {
+  const adapters: CitationProbeAdapter[] = [];
+  if (process.env.OPENAI_API_KEY) {
+    adapters.push(new OpenAICompatibleProbeAdapter({
+      apiKey: process.env.OPENAI_API_KEY,
+      baseUrl: process.env.OPENAI_BASE_URL,
+      model: process.env.OPENAI_CITATION_MODEL,
+    }));
+  }
+  if (process.env.PERPLEXITY_API_KEY) {
+    adapters.push(new PerplexityProbeAdapter({
+      apiKey: process.env.PERPLEXITY_API_KEY,
+      baseUrl: process.env.PERPLEXITY_API_URL,
+      model: process.env.PERPLEXITY_MODEL,
+    }));
+  }
+  if (process.env.GEMINI_API_KEY) {
+    adapters.push(new GeminiProbeAdapter({
+      apiKey: process.env.GEMINI_API_KEY,
+      baseUrl: process.env.GEMINI_API_URL,
+      model: process.env.GEMINI_MODEL,
+    }));
+  }
+  return adapters;
+}
+
+function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^www\./, "").replace(/\.$/, "");
+}
+
+// 引用元のホスト（転送用URLの場合はtitleのドメイン名）
+function sourceHost(source: CitedSource): string {
+  let host = "";
+  try {
+    host = normalizeHost(new URL(source.url).hostname);
+  } catch {
+    return "";
+  }
+  if (REDIRECT_SOURCE_HOSTS.some(redirect => host === redirect || host.endsWith(`.${redirect}`)) && source.title) {
+    const title = normalizeHost(source.title.trim());
+    if (/^[a-z0-9.-]+\.[a-z]{2,}$/.test(title)) return title;
+  }
+  return host;
+}
+
+/**
+ * Whether a host is the domain or one of its subdomains
+ */
+export function hostMatchesDomain(host: string, domain: string): boolean {
+  const target = normalizeHost(domain);
+  const normalized = normalizeHost(host);
+  return normalized === target || normalized.endsWith(`.${target}`);
+}
+
+/**
+ * Brand names derived from a domain: the domain itself and its registrable label
+ * (nexus-seo.co.jp → nexus-seo.co.jp, nexus-seo, nexus seo, nexusseo)
+ */
+export function brandTermsForDomain(domain: string, extraTerms: string[] = []): string[] {
+  const host = normalizeHost(domain.replace(/^https?:\/\//, "").split("/")[0]);
+  const parts = host.split(".");
+  // co.jp・com.auのような2階層のサフィックスを考慮
+  const hasSecondLevelSuffix = parts.length >= 3 && parts[parts.length - 1].length === 2 && parts[parts.length - 2].length <= 3;
+  const label = parts[parts.length - (hasSecondLevelSuffix ? 3 : 2)] ?? parts[0];
+
+  const terms = [host, label];
+  if (label.includes("-")) {
+    terms.push(label.replace(/-/g, " "), label.replace(/-/g, ""));
+  }
+  return Array.from(new Set([...terms, ...extraTerms].map(term => term.normalize("NFKC").trim().toLowerCase())))
+    .filter(term => term.length >= 3);
+}
+
+// 英数字の語は前後が英数字でない位置だけを一致とする（日本語などは部分一致）
+function termPattern(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return /^[\x20-\x7e]+$/.test(term)
+    ? new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`, "i")
+    : new RegExp(escaped, "i");
+}
+
+/**
+ * Detect brand and domain mentions in an answer and citations of the domain, without asking a model
+ */
+export function detectBrandMention(answer: ProbeAnswer, target: BrandTarget): BrandMention {
+  const patterns = target.brandTerms.map(termPattern);
+  const text = answer.answer.normalize("NFKC");
+  const mentions = (value: string) => patterns.some(pattern => pattern.test(value));
+  const offsets = patterns.map(pattern => text.search(pattern)).filter(offset => offset >= 0);
+
+  const sentences = text.split(/(?<=[。！？!?])|(?<=\.)\s+|\n+/).map(sentence => sentence.trim()).filter(Boolean);
+  const contexts = sentences
+    .filter(mentions)
+    .slice(0, MAX_CONTEXTS)
+    .map(sentence => sentence.length > MAX_CONTEXT_LENGTH ? `${sentence.substring(0, MAX_CONTEXT_LENGTH)}…` : sentence);
+
+  const citationIndex = answer.citations.findIndex(source => hostMatchesDomain(sourceHost(source), target.domain));
+
+  return {
+    mentioned: offsets.length > 0,
+    cited: citationIndex >= 0,
+    citationRank: citationIndex >= 0 ? citationIndex + 1 : null,
+    mentionOffset: offsets.length > 0 ? Math.min(...offsets) : null,
+    contexts,
+  };
+}
+
+/**
+ * Questions asked for tracked keywords: natural questions a user would type into an AI assistant
+ */
+export function promptsForKeywords(keywords: string[]): string[] {
+  return keywords.map(keyword => `${keyword}について教えてください。おすすめのサービスや参考になるサイトも挙げてください。`);
+}
+
+/**
+ * Ask every prompt on every platform and record the answers with brand / domain detection.
+ * A failed request is recorded with its error and excluded from the platform score.
+ */
+export async function runCitationProbes(
+  target: BrandTarget,
+  prompts: string[],
+  adapters: CitationProbeAdapter[]
+): Promise<CitationProbeReport> {
+  const platforms = await Promise.all(adapters.map(async (adapter): Promise<PlatformCitationResult> => {
+    const answers: CitationProbeRecord[] = [];
+    // プラットフォームごとのレート制限を考慮し、質問は順番に送る
+    for (const prompt of prompts) {
+      try {
+        const answer = await adapter.ask(prompt);
+        answers.push({ prompt, ...answer, ...detectBrandMention(answer, target), error: null });
+      } catch (error) {
+        console.error(`[CitationProbe] ${adapter.platform} failed for "${prompt}":`, error);
+        answers.push({
+          prompt,
+          answer: "",
+          citations: [],
+          mentioned: false,
+          cited: false,
+          citationRank: null,
+          mentionOffset: null,
+          contexts: [],
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return { platform: adapter.platform, model: adapter.model, score: visibilityScore(answers), answers };
+  }));
+
+  return { domain: normalizeHost(target.domain), checkedAt: new Date(), overallVisibility: overallVisibility(platforms), platforms };
+}
+
+// 回答が得られた質問のうち、言及または引用された割合（すべて失敗した場合はnull）
+function visibilityScore(answers: CitationProbeRecord[]): number | null {
+  const answered = answers.filter(answer => answer.error === null);
+  const visible = answered.filter(answer => answer.mentioned || answer.cited);
+  return answered.length > 0 ? Math.round((visible.length / answered.length) * 100) : null;
+}
+
+function overallVisibility(platforms: PlatformCitationResult[]): number {
+  const scores = platforms.map(platform => platform.score).filter((score): score is number => score !== null);
+  return scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
+}
+
+/**
+ * Combine probe reports of one domain (e.g., prompts asked on different platforms) into one report per platform
+ */
+export function mergeCitationProbeReports(reports: CitationProbeReport[]): CitationProbeReport | null {
+  if (reports.length === 0) return null;
+
+  const byPlatform = new Map<CitationPlatform, PlatformCitationResult>();
+  for (const platform of reports.flatMap(report => report.platforms)) {
+    const merged = byPlatform.get(platform.platform);
+    byPlatform.set(platform.platform, merged
+      ? { ...merged, answers: [...merged.answers, ...platform.answers] }
+      : { ...platform, answers: [...platform.answers] });
+  }
+  const platforms = Array.from(byPlatform.values()).map(platform => ({ ...platform, score: visibilityScore(platform.answers) }));
+
+  return {
+    domain: reports[0].domain,
+    checkedAt: reports[reports.length - 1].checkedAt,
+    overallVisibility: overallVisibility(platforms),
+    platforms,
+  };
+}
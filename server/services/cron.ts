@@ -0,0 +1,166 @@
+/**
+ * Cron Schedules
+ * 5フィールドのcron式（分 時 日 月 曜日）をタイムゾーン付きで解釈し、次回実行時刻を算出
+ */
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 = Sunday */
+  daysOfWeek: number[];
+  /** Day-of-month and day-of-week were both restricted, so either may match (as in Vixie cron) */
+  matchEitherDay: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+/** Days searched for the next occurrence before giving up (covers Feb 29 schedules) */
+const MAX_SEARCH_DAYS = 366 * 8;
+
+// 1フィールドを値の一覧に展開（*, 範囲, リスト, ステップに対応）
+function parseField(field: string, min: number, max: number, name: string): number[] {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron ${name} step: ${part}`);
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      [start, end] = range.split("-").map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : max;
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron ${name}: ${part}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a five-field cron expression (or @hourly / @daily / @weekly / @monthly)
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = CRON_MACROS[expression.trim()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Invalid cron expression: ${expression}`);
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, CRON_FIELDS[index].min, CRON_FIELDS[index].max, CRON_FIELDS[index].name)
+  );
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    // 7も日曜日として扱う
+    daysOfWeek: Array.from(new Set(daysOfWeek.map(day => day % 7))).sort((a, b) => a - b),
+    matchEitherDay: fields[2] !== "*" && fields[4] !== "*",
+  };
+}
+
+/**
+ * Whether a string is an IANA timezone known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local calendar fields of an instant in a timezone
+ */
+export function zonedParts(date: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    weekday: "short",
+  }).formatToParts(date);
+  const value = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return {
+    year: Number(value("year")),
+    month: Number(value("month")),
+    day: Number(value("day")),
+    hour: Number(value("hour")),
+    minute: Number(value("minute")),
+    second: Number(value("second")),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(value("weekday")),
+  };
+}
+
+/**
+ * Convert a local date and time in a timezone to an instant (day may overflow, as with Date.UTC)
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timezone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const parts = zonedParts(new Date(guess), timezone);
+  const offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - guess;
+  return new Date(guess - offset);
+}
+
+// 日付が日・曜日フィールドに一致するか
+function matchesDay(schedule: CronSchedule, dayOfMonth: number, dayOfWeek: number): boolean {
+  const domMatch = schedule.daysOfMonth.includes(dayOfMonth);
+  const dowMatch = schedule.daysOfWeek.includes(dayOfWeek);
+  return schedule.matchEitherDay ? domMatch || dowMatch : domMatch && dowMatch;
+}
+
+/**
+ * First occurrence of a cron schedule strictly after `after`, interpreted in `timezone`
+ */
+export function nextCronRun(expression: string, timezone: string, after: Date = new Date()): Date {
+  const schedule = parseCron(expression);
+  // 次の「分」の頭から探す
+  const from = new Date(Math.floor(after.getTime() / 60000) * 60000 + 60000);
+  const local = zonedParts(from, timezone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    if (!schedule.months.includes(day.getUTCMonth() + 1)) continue;
+    if (!matchesDay(schedule, day.getUTCDate(), day.getUTCDay())) continue;
+
+    for (const hour of schedule.hours) {
+      if (offset === 0 && hour < local.hour) continue;
+      for (const minute of schedule.minutes) {
+        if (offset === 0 && hour === local.hour && minute < local.minute) continue;
+        const candidate = zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), hour, minute, timezone);
+        // 夏時間の切り替えで同じ時刻が2回ある場合などは過去の候補を飛ばす
+        if (candidate >= from) return candidate;
+      }
+    }
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
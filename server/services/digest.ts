@@ -0,0 +1,723 @@
+/**
+ * Digest Reports
+ * 順位の上昇・下落、クリック/表示回数の増減、Core Web Vitalsの変化、新規アラートを日次/週次ダイジェストにまとめて配信
+ */
+
+import { formatCls } from "@shared/cwv";
+import { getDb } from "../db";
+import {
+  alerts,
+  digestReports,
+  digestSettings,
+  domainHistory,
+  keywordHistory,
+  notificationChannels,
+  pageSpeedHistory,
+  trackedDomains,
+  trackedKeywords,
+} from "../../drizzle/schema";
+import type { DigestReport, DigestSettings } from "../../drizzle/schema";
+import { and, desc, eq, gte, inArray, lt } from "drizzle-orm";
+import { invokeLLM } from "../_core/llm";
+import { CWV_METRICS, STRATEGY_LABELS } from "./alerting";
+import { deliverDigest } from "./alertDelivery";
+import { FINAL_DATA_LAG_DAYS } from "./googleSearchConsole";
+import type { DeliveryResult, Severity } from "./alertDelivery";
+import { startOfUtcDay } from "./visibility";
+import { zonedParts, zonedTimeToUtc } from "./cron";
+
+export type DigestCadence = "daily" | "weekly";
+
+export interface DigestPeriod {
+  /** Inclusive start of the reported period */
+  start: Date;
+  /** Exclusive end of the reported period */
+  end: Date;
+  /** Start of the equally long period the report is compared with */
+  previousStart: Date;
+}
+
+export interface KeywordPoint {
+  keywordId: number;
+  keyword: string;
+  domain: string;
+  date: Date;
+  position: number | null;
+}
+
+export interface KeywordMover {
+  keywordId: number;
+  keyword: string;
+  domain: string;
+  previous: number;
+  current: number;
+  /** Positive when the keyword moved up */
+  change: number;
+}
+
+export interface DomainDay {
+  domainId: number;
+  domain: string;
+  date: Date;
+  clicks: number;
+  impressions: number;
+}
+
+export interface DomainDelta {
+  domainId: number;
+  domain: string;
+  clicks: number;
+  previousClicks: number;
+  /** null when there were no clicks in the previous period */
+  clicksChange: number | null;
+  impressions: number;
+  previousImpressions: number;
+  impressionsChange: number | null;
+}
+
+export interface PageSpeedPoint {
+  url: string;
+  strategy: "mobile" | "desktop";
+  domain: string;
+  date: Date;
+  performanceScore: number | null;
+  lcp: number | null;
+  cls: number | null;
+  tbt: number | null;
+  fcp: number | null;
+}
+
+export interface CwvChange {
+  url: string;
+  strategy: "mobile" | "desktop";
+  domain: string;
+  previousScore: number | null;
+  currentScore: number | null;
+  metrics: Array<{ label: string; previous: number; current: number; good: number }>;
+}
+
+export interface DigestAlert {
+  title: string;
+  message: string;
+  severity: Severity;
+  domain: string;
+  createdAt: Date;
+}
+
+export interface DigestData {
+  cadence: DigestCadence;
+  periodStart: Date;
+  periodEnd: Date;
+  /** Period of the Search Console sections (traffic and movers), shifted back by the data lag */
+  searchConsoleStart: Date;
+  searchConsoleEnd: Date;
+  winners: KeywordMover[];
+  losers: KeywordMover[];
+  domains: DomainDelta[];
+  cwv: CwvChange[];
+  alerts: DigestAlert[];
+  /** LLM-written executive summary */
+  summary: string | null;
+}
+
+export interface BuiltDigest {
+  data: DigestData;
+  subject: string;
+  markdown: string;
+  html: string;
+}
+
+/** Winners and losers listed per digest */
+export const DIGEST_MOVER_LIMIT = 5;
+const DIGEST_ALERT_LIMIT = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CADENCE_DAYS: Record<DigestCadence, number> = { daily: 1, weekly: 7 };
+const CADENCE_LABELS: Record<DigestCadence, string> = { daily: "日次", weekly: "週次" };
+const SEVERITY_LABELS: Record<Severity, string> = { critical: "重大", warning: "警告", info: "情報" };
+
+/**
+ * Period covered by a digest: the last full UTC day (daily) or seven days (weekly) before `now`
+ */
+export function resolveDigestPeriod(cadence: DigestCadence, now: Date = new Date()): DigestPeriod {
+  const length = CADENCE_DAYS[cadence] * DAY_MS;
+  const end = startOfUtcDay(now);
+  const start = new Date(end.getTime() - length);
+  return { start, end, previousStart: new Date(start.getTime() - length) };
+}
+
+/**
+ * Period of the Search Console sections: the digest period shifted back until its data is final
+ */
+export function searchConsoleDigestPeriod(period: DigestPeriod, lagDays: number = FINAL_DATA_LAG_DAYS): DigestPeriod {
+  const shift = (date: Date) => new Date(date.getTime() - lagDays * DAY_MS);
+  return { start: shift(period.start), end: shift(period.end), previousStart: shift(period.previousStart) };
+}
+
+// 期間内かどうか
+function inPeriod(date: Date, from: Date, to: Date): boolean {
+  return date.getTime() >= from.getTime() && date.getTime() < to.getTime();
+}
+
+// 前期間比（%）。前期間が0なら算出しない
+function percentChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+// 小数第1位で丸める
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Compare each keyword's latest position in the period with its latest position before it
+ */
+export function summarizeKeywordMovers(
+  points: KeywordPoint[],
+  period: DigestPeriod,
+  limit: number = DIGEST_MOVER_LIMIT
+): { winners: KeywordMover[]; losers: KeywordMover[] } {
+  const latest = new Map<number, { previous: KeywordPoint | null; current: KeywordPoint | null }>();
+  for (const point of points) {
+    if (point.position === null) continue;
+    const entry = latest.get(point.keywordId) ?? { previous: null, current: null };
+    const slot = inPeriod(point.date, period.start, period.end)
+      ? "current"
+      : inPeriod(point.date, period.previousStart, period.start) ? "previous" : null;
+    if (slot && (!entry[slot] || entry[slot]!.date < point.date)) entry[slot] = point;
+    latest.set(point.keywordId, entry);
+  }
+
+  const movers: KeywordMover[] = [];
+  for (const { previous, current } of Array.from(latest.values())) {
+    if (!previous || !current) continue;
+    // 表示する順位と変動幅が食い違わないよう、丸めた順位から変動幅を出す
+    const before = round1(previous.position!);
+    const after = round1(current.position!);
+    const change = round1(before - after);
+    if (change === 0) continue;
+    movers.push({ keywordId: current.keywordId, keyword: current.keyword, domain: current.domain, previous: before, current: after, change });
+  }
+
+  return {
+    winners: movers.filter(m => m.change > 0).sort((a, b) => b.change - a.change).slice(0, limit),
+    losers: movers.filter(m => m.change < 0).sort((a, b) => a.change - b.change).slice(0, limit),
+  };
+}
+
+/**
+ * Total clicks and impressions of each domain in the period and the previous period
+ */
+export function summarizeDomainDeltas(days: DomainDay[], period: DigestPeriod): DomainDelta[] {
+  const totals = new Map<number, DomainDelta>();
+  for (const day of days) {
+    const current = inPeriod(day.date, period.start, period.end);
+    if (!current && !inPeriod(day.date, period.previousStart, period.start)) continue;
+
+    const total = totals.get(day.domainId) ?? {
+      domainId: day.domainId,
+      domain: day.domain,
+      clicks: 0,
+      previousClicks: 0,
+      clicksChange: null,
+      impressions: 0,
+      previousImpressions: 0,
+      impressionsChange: null,
+    };
+    if (current) {
+      total.clicks += day.clicks;
+      total.impressions += day.impressions;
+    } else {
+      total.previousClicks += day.clicks;
+      total.previousImpressions += day.impressions;
+    }
+    totals.set(day.domainId, total);
+  }
+
+  return Array.from(totals.values())
+    .map(total => ({
+      ...total,
+      clicksChange: percentChange(total.clicks, total.previousClicks),
+      impressionsChange: percentChange(total.impressions, total.previousImpressions),
+    }))
+    .sort((a, b) => b.clicks - a.clicks);
+}
+
+/**
+ * Compare each URL's latest PageSpeed test in the period with its latest test before it
+ */
+export function summarizeCwvChanges(tests: PageSpeedPoint[], period: DigestPeriod): CwvChange[] {
+  const latest = new Map<string, { previous: PageSpeedPoint | null; current: PageSpeedPoint | null }>();
+  for (const test of tests) {
+    const key = `${test.url}:${test.strategy}`;
+    const entry = latest.get(key) ?? { previous: null, current: null };
+    const slot = inPeriod(test.date, period.start, period.end)
+      ? "current"
+      : test.date < period.start ? "previous" : null;
+    if (slot && (!entry[slot] || entry[slot]!.date < test.date)) entry[slot] = test;
+    latest.set(key, entry);
+  }
+
+  const changes: CwvChange[] = [];
+  for (const { previous, current } of Array.from(latest.values())) {
+    if (!previous || !current) continue;
+    const metrics = CWV_METRICS
+      .filter(metric => previous[metric.key] !== null && current[metric.key] !== null && previous[metric.key] !== current[metric.key])
+      .map(metric => ({ label: metric.label, previous: previous[metric.key]!, current: current[metric.key]!, good: metric.good }));
+    if (metrics.length === 0 && previous.performanceScore === current.performanceScore) continue;
+
+    changes.push({
+      url: current.url,
+      strategy: current.strategy,
+      domain: current.domain,
+      previousScore: previous.performanceScore,
+      currentScore: current.performanceScore,
+      metrics,
+    });
+  }
+
+  return changes.sort((a, b) =>
+    Math.abs((b.currentScore ?? 0) - (b.previousScore ?? 0)) - Math.abs((a.currentScore ?? 0) - (a.previousScore ?? 0))
+  );
+}
+
+// 日付をJSTの年月日で表示
+function formatDay(date: Date): string {
+  return date.toLocaleDateString("ja-JP", { timeZone: "Asia/Tokyo" });
+}
+
+// 増減率を符号付きで表示
+function formatChange(change: number | null): string {
+  if (change === null) return "—";
+  return `${change > 0 ? "+" : ""}${change}%`;
+}
+
+// CWV指標の値を表示（CLSは1000倍で保存されている）
+function formatMetric(label: string, value: number): string {
+  return label === "CLS" ? formatCls(value) : `${value}ms`;
+}
+
+/**
+ * Subject line of a digest
+ */
+export function digestSubject(data: DigestData): string {
+  return `[Nexus SEO] ${CADENCE_LABELS[data.cadence]}ダイジェスト ${formatRange(data.cadence, data.periodStart, data.periodEnd)}`;
+}
+
+// トラフィックと順位の集計期間の注記（Search Consoleのデータは確定まで数日かかる）
+function searchConsoleRangeNote(data: DigestData): string {
+  return `Search Consoleの集計期間: ${formatRange(data.cadence, data.searchConsoleStart, data.searchConsoleEnd)}（データ確定までの遅れを考慮）`;
+}
+
+// 期間の表示（終了日は含まない）
+function formatRange(cadence: DigestCadence, start: Date, end: Date): string {
+  const last = new Date(end.getTime() - DAY_MS);
+  return cadence === "daily" ? formatDay(last) : `${formatDay(start)}〜${formatDay(last)}`;
+}
+
+/**
+ * Render a digest as Markdown (chat channels and the plain-text mail part)
+ */
+export function renderDigestMarkdown(data: DigestData): string {
+  const lines: string[] = [`# ${digestSubject(data)}`, ""];
+
+  if (data.summary) {
+    lines.push("## エグゼクティブサマリー", "", data.summary, "");
+  }
+
+  lines.push("## トラフィック", "", searchConsoleRangeNote(data), "");
+  if (data.domains.length === 0) {
+    lines.push("Search Consoleのデータはありません。");
+  } else {
+    for (const d of data.domains) {
+      lines.push(`- **${d.domain}**: クリック ${d.clicks.toLocaleString()}（${formatChange(d.clicksChange)}）/ 表示回数 ${d.impressions.toLocaleString()}（${formatChange(d.impressionsChange)}）`);
+    }
+  }
+  lines.push("");
+
+  const moverLines = (movers: KeywordMover[]) => movers.length === 0
+    ? ["該当なし"]
+    : movers.map(m => `- 「${m.keyword}」（${m.domain}）: ${m.previous}位 → ${m.current}位（${m.change > 0 ? "+" : ""}${m.change}）`);
+  lines.push("## 順位が上昇したキーワード", "", ...moverLines(data.winners), "");
+  lines.push("## 順位が下落したキーワード", "", ...moverLines(data.losers), "");
+
+  lines.push("## Core Web Vitals", "");
+  if (data.cwv.length === 0) {
+    lines.push("変化はありません。");
+  } else {
+    for (const c of data.cwv) {
+      const metrics = c.metrics.map(m => `${m.label} ${formatMetric(m.label, m.previous)} → ${formatMetric(m.label, m.current)}`).join(" / ");
+      lines.push(`- ${c.url}（${STRATEGY_LABELS[c.strategy]}）: スコア ${c.previousScore ?? "—"} → ${c.currentScore ?? "—"}${metrics ? `（${metrics}）` : ""}`);
+    }
+  }
+  lines.push("");
+
+  lines.push(`## 新しいアラート（${data.alerts.length}件）`, "");
+  if (data.alerts.length === 0) {
+    lines.push("新しいアラートはありません。");
+  } else {
+    for (const a of data.alerts) {
+      lines.push(`- [${SEVERITY_LABELS[a.severity]}] **${a.title}**（${a.domain}）: ${a.message}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// HTMLエスケープ
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// 増減に応じた文字色（順位以外は増加が良い変化）
+function changeColor(change: number | null): string {
+  if (change === null || change === 0) return "#6b7280";
+  return change > 0 ? "#16a34a" : "#dc2626";
+}
+
+/**
+ * Render a digest as an HTML email with inline styles
+ */
+export function renderDigestHtml(data: DigestData): string {
+  const cell = "padding:6px 10px;border-bottom:1px solid #e5e7eb;text-align:left;";
+  const heading = (text: string) => `<h2 style="font-size:16px;margin:24px 0 8px;color:#111827;">${escapeHtml(text)}</h2>`;
+  const empty = (text: string) => `<p style="color:#6b7280;margin:0;">${escapeHtml(text)}</p>`;
+  const table = (headers: string[], rows: string[][]) =>
+    `<table style="border-collapse:collapse;width:100%;font-size:13px;">` +
+    `<tr>${headers.map(h => `<th style="${cell}color:#6b7280;font-weight:600;">${escapeHtml(h)}</th>`).join("")}</tr>` +
+    rows.map(row => `<tr>${row.map(value => `<td style="${cell}">${value}</td>`).join("")}</tr>`).join("") +
+    `</table>`;
+  const change = (value: number | null) => `<span style="color:${changeColor(value)};">${escapeHtml(formatChange(value))}</span>`;
+
+  const sections: string[] = [
+    `<h1 style="font-size:20px;margin:0 0 16px;color:#111827;">${escapeHtml(digestSubject(data))}</h1>`,
+  ];
+
+  if (data.summary) {
+    sections.push(
+      heading("エグゼクティブサマリー"),
+      `<div style="background:#f5f3ff;border-left:4px solid #8b5cf6;padding:12px 16px;white-space:pre-wrap;">${escapeHtml(data.summary)}</div>`
+    );
+  }
+
+  sections.push(heading("トラフィック"), `<p style="color:#6b7280;margin:0 0 8px;font-size:12px;">${escapeHtml(searchConsoleRangeNote(data))}</p>`);
+  sections.push(data.domains.length === 0
+    ? empty("Search Consoleのデータはありません。")
+    : table(["ドメイン", "クリック", "前期間比", "表示回数", "前期間比"], data.domains.map(d => [
+      escapeHtml(d.domain),
+      d.clicks.toLocaleString(),
+      change(d.clicksChange),
+      d.impressions.toLocaleString(),
+      change(d.impressionsChange),
+    ])));
+
+  const moverTable = (movers: KeywordMover[]) => movers.length === 0
+    ? empty("該当なし")
+    : table(["キーワード", "ドメイン", "前回", "今回", "変動"], movers.map(m => [
+      escapeHtml(m.keyword),
+      escapeHtml(m.domain),
+      `${m.previous}位`,
+      `${m.current}位`,
+      `<span style="color:${changeColor(m.change)};">${m.change > 0 ? "+" : ""}${m.change}</span>`,
+    ]));
+  sections.push(heading("順位が上昇したキーワード"), moverTable(data.winners));
+  sections.push(heading("順位が下落したキーワード"), moverTable(data.losers));
+
+  sections.push(heading("Core Web Vitals"), data.cwv.length === 0
+    ? empty("変化はありません。")
+    : table(["URL", "スコア", "指標"], data.cwv.map(c => [
+      `${escapeHtml(c.url)}（${STRATEGY_LABELS[c.strategy]}）`,
+      `${c.previousScore ?? "—"} → <span style="color:${changeColor((c.currentScore ?? 0) - (c.previousScore ?? 0))};">${c.currentScore ?? "—"}</span>`,
+      c.metrics.map(m =>
+        `${m.label} ${formatMetric(m.label, m.previous)} → <span style="color:${m.current > m.good ? "#dc2626" : "#16a34a"};">${formatMetric(m.label, m.current)}</span>`
+      ).join("<br>") || "—",
+    ])));
+
+  sections.push(heading(`新しいアラート（${data.alerts.length}件）`), data.alerts.length === 0
+    ? empty("新しいアラートはありません。")
+    : table(["重要度", "アラート", "ドメイン"], data.alerts.map(a => [
+      escapeHtml(SEVERITY_LABELS[a.severity]),
+      `<strong>${escapeHtml(a.title)}</strong><br><span style="color:#4b5563;">${escapeHtml(a.message)}</span>`,
+      escapeHtml(a.domain),
+    ])));
+
+  return `<!DOCTYPE html><html><body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,'Hiragino Sans','Noto Sans JP',sans-serif;">` +
+    `<div style="max-width:680px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">${sections.join("")}</div>` +
+    `</body></html>`;
+}
+
+/**
+ * Most recent scheduled send time at or before `now` in the settings' timezone
+ */
+export function latestScheduledSend(
+  settings: Pick<DigestSettings, "cadence" | "sendHour" | "sendWeekday" | "timezone">,
+  now: Date = new Date()
+): Date {
+  const local = zonedParts(now, settings.timezone);
+  let daysBack = settings.cadence === "weekly" ? (local.weekday - settings.sendWeekday + 7) % 7 : 0;
+  let scheduled = zonedTimeToUtc(local.year, local.month, local.day - daysBack, settings.sendHour, 0, settings.timezone);
+  if (scheduled > now) {
+    daysBack += settings.cadence === "weekly" ? 7 : 1;
+    scheduled = zonedTimeToUtc(local.year, local.month, local.day - daysBack, settings.sendHour, 0, settings.timezone);
+  }
+  return scheduled;
+}
+
+/**
+ * Next scheduled send time after `now`; null when digests are off
+ */
+export function nextScheduledSend(
+  settings: Pick<DigestSettings, "cadence" | "sendHour" | "sendWeekday" | "timezone">,
+  now: Date = new Date()
+): Date | null {
+  if (settings.cadence === "off") return null;
+  return latestScheduledSend(settings, new Date(now.getTime() + CADENCE_DAYS[settings.cadence] * DAY_MS));
+}
+
+/**
+ * Whether a digest is due: its latest scheduled send time has passed and it was not sent since
+ */
+export function isDigestDue(
+  settings: Pick<DigestSettings, "cadence" | "sendHour" | "sendWeekday" | "timezone" | "lastSentAt">,
+  now: Date = new Date()
+): boolean {
+  if (settings.cadence === "off") return false;
+  const scheduled = latestScheduledSend(settings, now);
+  return !settings.lastSentAt || settings.lastSentAt < scheduled;
+}
+
+/**
+ * Get a user's digest settings, creating the defaults on first use
+ */
+export async function getDigestSettings(userId: number): Promise<DigestSettings> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await db.select().from(digestSettings).where(eq(digestSettings.userId, userId)).limit(1);
+  if (existing[0]) return existing[0];
+
+  await db.insert(digestSettings).values({ userId }).onConflictDoNothing({ target: digestSettings.userId });
+  const created = await db.select().from(digestSettings).where(eq(digestSettings.userId, userId)).limit(1);
+  return created[0];
+}
+
+/**
+ * Collect the movers, traffic deltas, CWV changes and new alerts of a user's domains
+ */
+export async function collectDigestData(userId: number, cadence: DigestCadence, now: Date = new Date()): Promise<DigestData> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const period = resolveDigestPeriod(cadence, now);
+  const searchConsolePeriod = searchConsoleDigestPeriod(period);
+  const domains = await db.select().from(trackedDomains).where(eq(trackedDomains.userId, userId));
+  const domainIds = domains.map(d => d.id);
+  const domainNames = new Map(domains.map(d => [d.id, d.domain] as const));
+
+  const empty: DigestData = {
+    cadence,
+    periodStart: period.start,
+    periodEnd: period.end,
+    searchConsoleStart: searchConsolePeriod.start,
+    searchConsoleEnd: searchConsolePeriod.end,
+    winners: [],
+    losers: [],
+    domains: [],
+    cwv: [],
+    alerts: [],
+    summary: null,
+  };
+  if (domainIds.length === 0) return empty;
+
+  const keywordRows = await db.select({
+    keywordId: keywordHistory.keywordId,
+    keyword: trackedKeywords.keyword,
+    domainId: trackedKeywords.domainId,
+    date: keywordHistory.date,
+    position: keywordHistory.position,
+  })
+    .from(keywordHistory)
+    .innerJoin(trackedKeywords, eq(keywordHistory.keywordId, trackedKeywords.id))
+    .where(and(
+      eq(trackedKeywords.userId, userId),
+      gte(keywordHistory.date, searchConsolePeriod.previousStart),
+      lt(keywordHistory.date, searchConsolePeriod.end)
+    ));
+
+  const domainRows = await db.select().from(domainHistory)
+    .where(and(
+      inArray(domainHistory.domainId, domainIds),
+      gte(domainHistory.date, searchConsolePeriod.previousStart),
+      lt(domainHistory.date, searchConsolePeriod.end)
+    ));
+
+  // 前回のテストは期間より前にも遡る（PageSpeedは毎日実行されるとは限らない）
+  const pageSpeedRows = await db.select({
+    domainId: pageSpeedHistory.domainId,
+    url: pageSpeedHistory.url,
+    strategy: pageSpeedHistory.strategy,
+    date: pageSpeedHistory.date,
+    performanceScore: pageSpeedHistory.performanceScore,
+    lcp: pageSpeedHistory.lcp,
+    cls: pageSpeedHistory.cls,
+    tbt: pageSpeedHistory.tbt,
+    fcp: pageSpeedHistory.fcp,
+  })
+    .from(pageSpeedHistory)
+    .where(and(
+      inArray(pageSpeedHistory.domainId, domainIds),
+      gte(pageSpeedHistory.date, new Date(period.start.getTime() - 30 * DAY_MS)),
+      lt(pageSpeedHistory.date, period.end)
+    ));
+
+  const alertRows = await db.select().from(alerts)
+    .where(and(eq(alerts.userId, userId), gte(alerts.createdAt, period.start), lt(alerts.createdAt, period.end)))
+    .orderBy(desc(alerts.createdAt))
+    .limit(DIGEST_ALERT_LIMIT);
+
+  const { winners, losers } = summarizeKeywordMovers(keywordRows.map(row => ({
+    keywordId: row.keywordId,
+    keyword: row.keyword,
+    domain: domainNames.get(row.domainId) ?? "",
+    date: row.date,
+    position: row.position === null ? null : parseFloat(row.position),
+  })), searchConsolePeriod);
+
+  return {
+    ...empty,
+    winners,
+    losers,
+    domains: summarizeDomainDeltas(domainRows.map(row => ({
+      domainId: row.domainId,
+      domain: domainNames.get(row.domainId) ?? "",
+      date: row.date,
+      clicks: row.totalClicks ?? 0,
+      impressions: row.totalImpressions ?? 0,
+    })), searchConsolePeriod),
+    cwv: summarizeCwvChanges(pageSpeedRows.map(row => ({ ...row, domain: domainNames.get(row.domainId) ?? "" })), period),
+    alerts: alertRows.map(row => ({
+      title: row.title,
+      message: row.message,
+      severity: row.severity,
+      domain: domainNames.get(row.domainId) ?? "",
+      createdAt: row.createdAt,
+    })),
+  };
+}
+
+/**
+ * Ask the LLM for a short executive summary of the digest; returns null when the LLM is unavailable
+ */
+export async function generateExecutiveSummary(data: DigestData): Promise<string | null> {
+  try {
+    const result = await invokeLLM({
+      messages: [
+        { role: "system", content: "あなたはSEO/LLMOのアナリストです。経営層向けに、事実に基づいて簡潔に日本語で要約してください。" },
+        {
+          role: "user",
+          content: `以下の${CADENCE_LABELS[data.cadence]}SEOレポートのデータを、3〜5文のエグゼクティブサマリーにまとめてください。` +
+            `重要な変化、懸念点、推奨アクションを含め、データにない数値は作らないでください。\n\n` +
+            renderDigestMarkdown({ ...data, summary: null }),
+        },
+      ],
+    });
+
+    const content = result.choices[0]?.message.content;
+    const text = typeof content === "string"
+      ? content
+      : (content ?? []).map(part => (part.type === "text" ? part.text : "")).join("");
+    return text.trim() || null;
+  } catch (error) {
+    console.error("[Digest] Executive summary failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Build a digest for a user: collect data, optionally summarize it and render Markdown and HTML
+ */
+export async function buildDigest(
+  userId: number,
+  cadence: DigestCadence,
+  options: { includeAiSummary?: boolean; now?: Date } = {}
+): Promise<BuiltDigest> {
+  const data = await collectDigestData(userId, cadence, options.now);
+  if (options.includeAiSummary) {
+    data.summary = await generateExecutiveSummary(data);
+  }
+  return { data, subject: digestSubject(data), markdown: renderDigestMarkdown(data), html: renderDigestHtml(data) };
+}
+
+/**
+ * Build and store a digest report
+ */
+export async function createDigestReport(
+  userId: number,
+  cadence: DigestCadence,
+  options: { includeAiSummary?: boolean; now?: Date } = {}
+): Promise<DigestReport> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const digest = await buildDigest(userId, cadence, options);
+  const [report] = await db.insert(digestReports).values({
+    userId,
+    cadence,
+    periodStart: digest.data.periodStart,
+    periodEnd: digest.data.periodEnd,
+    markdown: digest.markdown,
+    html: digest.html,
+    summary: digest.data.summary,
+    data: digest.data,
+  }).returning();
+  return report;
+}
+
+/**
+ * Send a stored digest report to the user's selected (or all enabled) notification channels
+ */
+export async function sendDigestReport(report: DigestReport, channelIds: number[] | null): Promise<DeliveryResult[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const channels = (await db.select().from(notificationChannels)
+    .where(and(eq(notificationChannels.userId, report.userId), eq(notificationChannels.isEnabled, true))))
+    .filter(channel => channelIds === null || channelIds.includes(channel.id));
+  if (channels.length === 0) return [];
+
+  const data = report.data as DigestData;
+  return deliverDigest({
+    id: report.id,
+    subject: digestSubject({ ...data, periodStart: report.periodStart, periodEnd: report.periodEnd }),
+    markdown: report.markdown,
+    html: report.html,
+    data: report.data,
+  }, channels);
+}
+
+/**
+ * Cron expression of a user's digest job
+ */
+export function digestCronExpression(settings: Pick<DigestSettings, "cadence" | "sendHour" | "sendWeekday">): string {
+  return `0 ${settings.sendHour} * * ${settings.cadence === "weekly" ? settings.sendWeekday : "*"}`;
+}
+
+/**
+ * Build, store and send a user's digest when its scheduled time has passed; returns whether it was sent
+ */
+export async function runScheduledDigest(userId: number, now: Date = new Date()): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const settings = await getDigestSettings(userId);
+  if (settings.cadence === "off" || !isDigestDue(settings, now)) return false;
+
+  const report = await createDigestReport(userId, settings.cadence, { includeAiSummary: settings.includeAiSummary, now });
+  await sendDigestReport(report, settings.channelIds as number[] | null);
+  await db.update(digestSettings).set({ lastSentAt: now, updatedAt: now }).where(eq(digestSettings.id, settings.id));
+  return true;
+}
@@ -4,13 +4,27 @@
  */
 
 import { getDb } from "../db";
-import { users, trackedDomains, trackedKeywords, keywordHistory, domainHistory } from "../../drizzle/schema";
-import { eq, and } from "drizzle-orm";
+import { users, trackedDomains, trackedKeywords, keywordHistory, domainHistory, queryPageHistory, gscBackfillRuns, syncJobs } from "../../drizzle/schema";
+import type { InsertKeywordHistory, InsertQueryPageHistory, SyncJob, TrackedDomain } from "../../drizzle/schema";
+import { eq, and, desc, isNotNull, sql } from "drizzle-orm";
+import { startOfUtcDay } from "./visibility";
+import { runAlertEvaluation } from "./alerting";
+import { enqueueJob } from "./jobQueue";
 
 const GOOGLE_OAUTH_URL = "https://accounts.google.com/o/oauth2/v2/auth";
 const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
 const SEARCH_CONSOLE_API_BASE = "https://www.googleapis.com/webmasters/v3";
 const SEARCH_ANALYTICS_API_BASE = "https://searchconsole.googleapis.com/v1";
+const QUERY_PAGE_ROW_LIMIT = 5000;
+const INSERT_BATCH_SIZE = 200;
+/** Maximum rows per Search Analytics request */
+export const SEARCH_ANALYTICS_MAX_ROWS = 25000;
+/** Search Console keeps 16 months of performance data */
+export const BACKFILL_MONTHS = 16;
+/** Final data is usually available after about 3 days */
+export const FINAL_DATA_LAG_DAYS = 3;
+const BACKFILL_DAY_DELAY_MS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 interface TokenResponse {
   access_token: string;
@@ -19,7 +33,7 @@ interface TokenResponse {
   token_type: string;
 }
 
-interface SearchAnalyticsRow {
+export interface SearchAnalyticsRow {
   keys: string[];
   clicks: number;
   impressions: number;
@@ -190,7 +204,8 @@ export async function fetchSearchAnalytics(
   startDate: string,
   endDate: string,
   dimensions: string[] = ["query", "page"],
-  rowLimit: number = 1000
+  rowLimit: number = 1000,
+  startRow: number = 0
 ): Promise<SearchAnalyticsResponse> {
   const encodedSiteUrl = encodeURIComponent(siteUrl);
   const url = `${SEARCH_ANALYTICS_API_BASE}/sites/${encodedSiteUrl}/searchAnalytics/query`;
@@ -206,6 +221,7 @@ export async function fetchSearchAnalytics(
       endDate,
       dimensions,
       rowLimit,
+      startRow,
       dataState: "final",
     }),
   });
@@ -218,6 +234,26 @@ export async function fetchSearchAnalytics(
   return response.json();
 }
 
+/**
+ * Fetch every row for a date range, paging with startRow until a short page is returned
+ */
+export async function fetchAllSearchAnalytics(
+  accessToken: string,
+  siteUrl: string,
+  startDate: string,
+  endDate: string,
+  dimensions: string[],
+  pageSize: number = SEARCH_ANALYTICS_MAX_ROWS
+): Promise<SearchAnalyticsRow[]> {
+  const rows: SearchAnalyticsRow[] = [];
+  for (let startRow = 0; ; startRow += pageSize) {
+    const page = await fetchSearchAnalytics(accessToken, siteUrl, startDate, endDate, dimensions, pageSize, startRow);
+    rows.push(...(page.rows || []));
+    if (!page.rows || page.rows.length < pageSize) break;
+  }
+  return rows;
+}
+
 /**
  * Fetch overall site performance
  */
@@ -262,6 +298,71 @@ export async function fetchSitePerformance(
   return { clicks: 0, impressions: 0, ctr: 0, position: 0 };
 }
 
+/**
+ * Sync the last 7 days of Search Console data for one tracked domain; returns the number of queries seen
+ */
+export async function syncSearchConsoleDomain(userId: number, accessToken: string, domain: TrackedDomain): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (!domain.searchConsoleProperty) return 0;
+
+  let keywordsUpdated = 0;
+
+  // Calculate date range (last 7 days, excluding today)
+  const endDate = new Date();
+  endDate.setDate(endDate.getDate() - 1);
+  const startDate = new Date(endDate);
+  startDate.setDate(startDate.getDate() - 6);
+
+  const formatDate = (d: Date) => d.toISOString().split("T")[0];
+
+  // Fetch keyword-level data
+  const keywordData = await fetchSearchAnalytics(
+    accessToken,
+    domain.searchConsoleProperty,
+    formatDate(startDate),
+    formatDate(endDate),
+    ["query"],
+    500
+  );
+
+  if (keywordData.rows) {
+    for (const row of keywordData.rows) {
+      const keyword = row.keys[0];
+
+      // Find or create tracked keyword
+      const existingKeywords = await db.select().from(trackedKeywords).where(
+        and(
+          eq(trackedKeywords.domainId, domain.id),
+          eq(trackedKeywords.keyword, keyword)
+        )
+      ).limit(1);
+
+      if (existingKeywords.length === 0) {
+        await db.insert(trackedKeywords).values({
+          userId,
+          domainId: domain.id,
+          keyword,
+        });
+      }
+
+      keywordsUpdated++;
+    }
+  }
+
+  // 直近7日間を日別に取り込み（同じ日の行は上書きされるため重複しない）
+  const keywordIds = await loadKeywordIdsByQuery(domain.id);
+  for (const day of listBackfillDays(startOfUtcDay(startDate), startOfUtcDay(endDate))) {
+    await importSearchConsoleDay(accessToken, domain, day, keywordIds);
+    // クエリ×ページ単位のデータ（カニバリゼーション検出用）
+    await importQueryPageDay(accessToken, domain, day);
+  }
+
+  await runAlertEvaluation(domain.id, "search_console");
+
+  return keywordsUpdated;
+}
+
 /**
  * Sync Search Console data for a user
  */
@@ -269,6 +370,8 @@ export async function syncSearchConsoleData(userId: number): Promise<{
   success: boolean;
   domainsUpdated: number;
   keywordsUpdated: number;
+  /** Domains whose sync failed, with the error */
+  failedDomains: Array<{ domain: string; error: string }>;
   error?: string;
 }> {
   try {
@@ -281,109 +384,342 @@ export async function syncSearchConsoleData(userId: number): Promise<{
     const domains = await db.select().from(trackedDomains).where(eq(trackedDomains.userId, userId));
 
     if (domains.length === 0) {
-      return { success: true, domainsUpdated: 0, keywordsUpdated: 0 };
+      return { success: true, domainsUpdated: 0, keywordsUpdated: 0, failedDomains: [] };
     }
 
     let domainsUpdated = 0;
     let keywordsUpdated = 0;
-
-    // Calculate date range (last 7 days, excluding today)
-    const endDate = new Date();
-    endDate.setDate(endDate.getDate() - 1);
-    const startDate = new Date(endDate);
-    startDate.setDate(startDate.getDate() - 6);
-
-    const formatDate = (d: Date) => d.toISOString().split("T")[0];
+    const failedDomains: Array<{ domain: string; error: string }> = [];
 
     for (const domain of domains) {
       if (!domain.searchConsoleProperty) continue;
 
       try {
-        // Fetch overall site performance
-        const sitePerformance = await fetchSitePerformance(
-          accessToken,
-          domain.searchConsoleProperty,
-          formatDate(startDate),
-          formatDate(endDate)
-        );
-
-        // Save domain history
-        await db.insert(domainHistory).values({
-          domainId: domain.id,
-          date: endDate,
-          totalClicks: sitePerformance.clicks,
-          totalImpressions: sitePerformance.impressions,
-          avgPosition: String(sitePerformance.position),
-          avgCtr: String(sitePerformance.ctr),
-        });
-
+        keywordsUpdated += await syncSearchConsoleDomain(userId, accessToken, domain);
         domainsUpdated++;
-
-        // Fetch keyword-level data
-        const keywordData = await fetchSearchAnalytics(
-          accessToken,
-          domain.searchConsoleProperty,
-          formatDate(startDate),
-          formatDate(endDate),
-          ["query"],
-          500
-        );
-
-        if (keywordData.rows) {
-          for (const row of keywordData.rows) {
-            const keyword = row.keys[0];
-
-            // Find or create tracked keyword
-            const existingKeywords = await db.select().from(trackedKeywords).where(
-              and(
-                eq(trackedKeywords.domainId, domain.id),
-                eq(trackedKeywords.keyword, keyword)
-              )
-            ).limit(1);
-
-            let keywordId: number;
-
-            if (existingKeywords.length === 0) {
-              const inserted = await db.insert(trackedKeywords).values({
-                userId,
-                domainId: domain.id,
-                keyword,
-              }).returning();
-              keywordId = inserted[0].id;
-            } else {
-              keywordId = existingKeywords[0].id;
-            }
-
-            // Save keyword history
-            await db.insert(keywordHistory).values({
-              keywordId,
-              date: endDate,
-              position: String(row.position),
-              clicks: row.clicks,
-              impressions: row.impressions,
-              ctr: String(row.ctr),
-            });
-
-            keywordsUpdated++;
-          }
-        }
       } catch (domainError) {
         console.error(`Error syncing domain ${domain.domain}:`, domainError);
+        failedDomains.push({ domain: domain.domain, error: String(domainError) });
       }
     }
 
-    return { success: true, domainsUpdated, keywordsUpdated };
+    return { success: true, domainsUpdated, keywordsUpdated, failedDomains };
   } catch (error) {
     console.error("Search Console sync error:", error);
     return {
       success: false,
       domainsUpdated: 0,
       keywordsUpdated: 0,
+      failedDomains: [],
       error: String(error),
     };
   }
 }
 
+/**
+ * List UTC days from start to end, inclusive
+ */
+export function listBackfillDays(start: Date, end: Date): Date[] {
+  const days: Date[] = [];
+  for (let time = startOfUtcDay(start).getTime(); time <= end.getTime(); time += DAY_MS) {
+    days.push(new Date(time));
+  }
+  return days;
+}
+
+/**
+ * Resolve the days a backfill should cover: resume after the last synced day, or go back 16 months
+ */
+export function resolveBackfillRange(lastSyncedThrough: Date | null, today: Date = new Date()): { startDate: Date; endDate: Date } {
+  const endDate = new Date(startOfUtcDay(today).getTime() - FINAL_DATA_LAG_DAYS * DAY_MS);
+  if (lastSyncedThrough) {
+    return { startDate: new Date(startOfUtcDay(lastSyncedThrough).getTime() + DAY_MS), endDate };
+  }
+  const startDate = new Date(endDate);
+  startDate.setUTCMonth(startDate.getUTCMonth() - BACKFILL_MONTHS);
+  return { startDate, endDate };
+}
+
+/**
+ * Map Search Console queries (lowercased) to the ids of matching tracked keywords of a domain
+ */
+export async function loadKeywordIdsByQuery(domainId: number): Promise<Map<string, number[]>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const keywords = await db.select({ id: trackedKeywords.id, keyword: trackedKeywords.keyword })
+    .from(trackedKeywords)
+    .where(eq(trackedKeywords.domainId, domainId));
+
+  const map = new Map<string, number[]>();
+  for (const keyword of keywords) {
+    const key = keyword.keyword.trim().toLowerCase();
+    map.set(key, [...(map.get(key) ?? []), keyword.id]);
+  }
+  return map;
+}
+
+/**
+ * Convert ["date", "query"] rows into keyword_history rows for tracked keywords.
+ * Queries matching the same keyword (case or whitespace variants) are combined into one row per keyword and day.
+ */
+export function toKeywordHistoryRows(rows: SearchAnalyticsRow[], keywordIds: Map<string, number[]>): InsertKeywordHistory[] {
+  const groups = new Map<string, { keywordId: number; date: string; rows: SearchAnalyticsRow[] }>();
+  for (const row of rows) {
+    const [date, query] = row.keys;
+    for (const keywordId of keywordIds.get(query.trim().toLowerCase()) ?? []) {
+      const key = `${keywordId}:${date}`;
+      const group = groups.get(key) ?? { keywordId, date, rows: [] };
+      group.rows.push(row);
+      groups.set(key, group);
+    }
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const clicks = group.rows.reduce((sum, row) => sum + row.clicks, 0);
+    const impressions = group.rows.reduce((sum, row) => sum + row.impressions, 0);
+    // 複数のクエリは表示回数で重み付けした平均掲載順位にまとめる
+    const position = group.rows.length === 1
+      ? group.rows[0].position
+      : impressions > 0
+        ? Math.round((group.rows.reduce((sum, row) => sum + row.position * row.impressions, 0) / impressions) * 100) / 100
+        : group.rows.reduce((sum, row) => sum + row.position, 0) / group.rows.length;
+    const ctr = group.rows.length === 1
+      ? group.rows[0].ctr
+      : impressions > 0 ? Math.round((clicks / impressions) * 10000) / 10000 : 0;
+
+    return {
+      keywordId: group.keywordId,
+      date: new Date(`${group.date}T00:00:00Z`),
+      position: String(position),
+      clicks,
+      impressions,
+      ctr: String(ctr),
+    };
+  });
+}
+
+/**
+ * Convert ["date", "query", "page"] rows into query_page_history rows, one per (query, page)
+ */
+export function toQueryPageHistoryRows(rows: SearchAnalyticsRow[], domainId: number): InsertQueryPageHistory[] {
+  const result = new Map<string, InsertQueryPageHistory>();
+  for (const row of rows) {
+    const [date, query, page] = row.keys;
+    const entry = {
+      domainId,
+      query: query.substring(0, 500),
+      page: page.substring(0, 2000),
+      date: new Date(`${date}T00:00:00Z`),
+      clicks: row.clicks,
+      impressions: row.impressions,
+      ctr: String(row.ctr),
+      position: String(row.position),
+    };
+    // 切り詰めで同じキーになった行は最初の1件だけを残す（一括upsertで同じ行を2回更新できないため）
+    const key = `${entry.date.getTime()}\n${entry.query}\n${entry.page}`;
+    if (!result.has(key)) result.set(key, entry);
+  }
+  return Array.from(result.values());
+}
+
+/**
+ * Import one day of query×page rows, upserting on (domain, query, page, date)
+ */
+export async function importQueryPageDay(
+  accessToken: string,
+  domain: Pick<TrackedDomain, "id" | "searchConsoleProperty">,
+  day: Date
+): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (!domain.searchConsoleProperty) throw new Error("Search Console property not set");
+
+  const date = day.toISOString().split("T")[0];
+  const data = await fetchSearchAnalytics(
+    accessToken,
+    domain.searchConsoleProperty,
+    date,
+    date,
+    ["date", "query", "page"],
+    QUERY_PAGE_ROW_LIMIT
+  );
+  const rows = toQueryPageHistoryRows(data.rows || [], domain.id);
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(queryPageHistory).values(rows.slice(i, i + INSERT_BATCH_SIZE)).onConflictDoUpdate({
+      target: [queryPageHistory.domainId, queryPageHistory.query, queryPageHistory.page, queryPageHistory.date],
+      set: {
+        clicks: sql`excluded.clicks`,
+        impressions: sql`excluded.impressions`,
+        ctr: sql`excluded.ctr`,
+        position: sql`excluded.position`,
+      },
+    });
+  }
+  return rows.length;
+}
+
+/**
+ * Import one day of site totals and per-query rows, upserting on (domain, date) and (keyword, date)
+ */
+export async function importSearchConsoleDay(
+  accessToken: string,
+  domain: Pick<TrackedDomain, "id" | "searchConsoleProperty">,
+  day: Date,
+  keywordIds: Map<string, number[]>
+): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (!domain.searchConsoleProperty) throw new Error("Search Console property not set");
+
+  const date = day.toISOString().split("T")[0];
+  const totals = await fetchSearchAnalytics(accessToken, domain.searchConsoleProperty, date, date, ["date"], 1);
+  const total = totals.rows?.[0];
+  if (total) {
+    await db.insert(domainHistory).values({
+      domainId: domain.id,
+      date: day,
+      totalClicks: total.clicks,
+      totalImpressions: total.impressions,
+      avgPosition: String(total.position),
+      avgCtr: String(total.ctr),
+    }).onConflictDoUpdate({
+      target: [domainHistory.domainId, domainHistory.date],
+      set: {
+        totalClicks: sql`excluded.total_clicks`,
+        totalImpressions: sql`excluded.total_impressions`,
+        avgPosition: sql`excluded.avg_position`,
+        avgCtr: sql`excluded.avg_ctr`,
+      },
+    });
+  }
+
+  const rows = toKeywordHistoryRows(
+    await fetchAllSearchAnalytics(accessToken, domain.searchConsoleProperty, date, date, ["date", "query"]),
+    keywordIds
+  );
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(keywordHistory).values(rows.slice(i, i + INSERT_BATCH_SIZE)).onConflictDoUpdate({
+      target: [keywordHistory.keywordId, keywordHistory.date],
+      set: {
+        position: sql`excluded.position`,
+        clicks: sql`excluded.clicks`,
+        impressions: sql`excluded.impressions`,
+        ctr: sql`excluded.ctr`,
+      },
+    });
+  }
+  return rows.length;
+}
+
+/**
+ * Create a backfill run that resumes after the last synced day of the domain
+ */
+export async function createBackfillRun(domainId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const previous = await db.select({ syncedThrough: gscBackfillRuns.syncedThrough })
+    .from(gscBackfillRuns)
+    .where(and(eq(gscBackfillRuns.domainId, domainId), isNotNull(gscBackfillRuns.syncedThrough)))
+    .orderBy(desc(gscBackfillRuns.syncedThrough))
+    .limit(1);
+
+  const range = resolveBackfillRange(previous[0]?.syncedThrough ?? null);
+  const inserted = await db.insert(gscBackfillRuns).values({ domainId, ...range }).returning();
+  return inserted[0].id;
+}
+
+/**
+ * Whether a backfill run's queue job is still going to run (queued, running or waiting for a retry)
+ */
+export function isBackfillJobLive(job: Pick<SyncJob, "status" | "isEnabled"> | null): boolean {
+  return !!job && job.isEnabled && (job.status === "pending" || job.status === "running");
+}
+
+/**
+ * Queue a backfill of a domain on the job queue. A run left pending or running without a live queue job
+ * (e.g., created before a deploy) is queued again and resumes after its last synced day.
+ * Returns null when the latest run's job is still queued, running or waiting for a retry.
+ */
+export async function startBackfillRun(domain: Pick<TrackedDomain, "id" | "userId">): Promise<{ runId: number; resumed: boolean } | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const latest = await db.select({ run: gscBackfillRuns, job: syncJobs })
+    .from(gscBackfillRuns)
+    .leftJoin(syncJobs, eq(gscBackfillRuns.jobId, syncJobs.id))
+    .where(eq(gscBackfillRuns.domainId, domain.id))
+    .orderBy(desc(gscBackfillRuns.createdAt))
+    .limit(1);
+  if (latest[0] && isBackfillJobLive(latest[0].job)) return null;
+
+  const interrupted = latest[0] && (latest[0].run.status === "pending" || latest[0].run.status === "running")
+    ? latest[0].run
+    : null;
+  const runId = interrupted?.id ?? await createBackfillRun(domain.id);
+  // 1日ごとに進捗を保存しているため、再試行やリース切れ後の再取得は続きから再開される
+  const job = await enqueueJob({
+    userId: domain.userId,
+    domainId: domain.id,
+    jobType: "search_console",
+    payload: { backfillRunId: runId },
+    maxAttempts: 5,
+  });
+  await db.update(gscBackfillRuns).set({ jobId: job.id }).where(eq(gscBackfillRuns.id, runId));
+  return { runId, resumed: !!interrupted };
+}
+
+/**
+ * Execute a backfill run day by day, oldest first, recording progress after each day
+ */
+export async function executeBackfillRun(runId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const runs = await db.select().from(gscBackfillRuns).where(eq(gscBackfillRuns.id, runId)).limit(1);
+  const run = runs[0];
+  if (!run) throw new Error("Backfill run not found");
+
+  const domains = await db.select().from(trackedDomains).where(eq(trackedDomains.id, run.domainId)).limit(1);
+  const domain = domains[0];
+  if (!domain) throw new Error("Domain not found");
+
+  await db.update(gscBackfillRuns).set({ status: "running", startedAt: new Date() }).where(eq(gscBackfillRuns.id, runId));
+
+  try {
+    if (!domain.searchConsoleProperty) throw new Error("Search Console property not set");
+    const accessToken = await getValidAccessToken(domain.userId);
+    const keywordIds = await loadKeywordIdsByQuery(domain.id);
+
+    // 途中で失敗したランを再実行した場合は最後に完了した日の翌日から再開
+    const resumeFrom = run.syncedThrough ? new Date(run.syncedThrough.getTime() + DAY_MS) : run.startDate;
+    let daysSynced = run.daysSynced;
+    let rowsUpserted = run.rowsUpserted;
+
+    for (const day of listBackfillDays(resumeFrom, run.endDate)) {
+      rowsUpserted += await importSearchConsoleDay(accessToken, domain, day, keywordIds);
+      daysSynced++;
+      await db.update(gscBackfillRuns)
+        .set({ syncedThrough: day, daysSynced, rowsUpserted })
+        .where(eq(gscBackfillRuns.id, runId));
+      await new Promise(resolve => setTimeout(resolve, BACKFILL_DAY_DELAY_MS));
+    }
+
+    await db.update(gscBackfillRuns)
+      .set({ status: "completed", completedAt: new Date() })
+      .where(eq(gscBackfillRuns.id, runId));
+  } catch (error) {
+    console.error(`Search Console backfill ${runId} failed:`, error);
+    await db.update(gscBackfillRuns).set({
+      status: "failed",
+      errorMessage: String(error),
+      completedAt: new Date(),
+    }).where(eq(gscBackfillRuns.id, runId));
+    throw error;
+  }
+}
+
 /**
  * Save Google tokens for a user
  */
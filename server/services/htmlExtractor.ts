@@ -0,0 +1,286 @@
+/**
+ * HTML Extractor
+ * 外部パーサーに依存せず、クロール・監査・構造化データ解析で共通利用するHTML抽出ヘルパー
+ */
+
+export interface ExtractedHeading {
+  level: number;
+  text: string;
+}
+
+export interface ExtractedLink {
+  url: string;
+  anchor: string;
+  nofollow: boolean;
+}
+
+export interface ExtractedImage {
+  src: string;
+  alt: string | null;
+}
+
+export interface HtmlElement {
+  tagName: string;
+  attrs: Record<string, string>;
+  /** Offset of the opening tag */
+  start: number;
+  /** Offset just after the closing tag */
+  end: number;
+  outerHtml: string;
+  innerHtml: string;
+}
+
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+};
+
+// HTMLエンティティをデコード
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// タグ文字列（例: <meta name="x" content="y">）から属性を取得
+export function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const body = tag.replace(/^<\s*[\w:-]+/, "").replace(/\/?>$/, "");
+  const attrRegex = /([^\s"'=<>`\/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+  for (const match of Array.from(body.matchAll(attrRegex))) {
+    const name = match[1].toLowerCase();
+    if (name in attributes) continue;
+    attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+
+  return attributes;
+}
+
+// 指定タグの開始タグをすべて取得
+export function findTags(html: string, tagName: string): string[] {
+  const regex = new RegExp(`<${tagName}\\b[^>]*>`, "gi");
+  return Array.from(html.matchAll(regex)).map(m => m[0]);
+}
+
+// start位置の開始タグに対応する要素を、同名タグのネストを数えて取得（閉じタグがなければ末尾まで）
+export function elementAt(html: string, start: number): HtmlElement | null {
+  const openRegex = /<([a-zA-Z][\w:-]*)\b[^>]*>/g;
+  openRegex.lastIndex = start;
+  const open = openRegex.exec(html);
+  if (!open || open.index !== start) return null;
+
+  const tagName = open[1].toLowerCase();
+  const attrs = parseAttributes(open[0]);
+  const openEnd = start + open[0].length;
+  if (VOID_ELEMENTS.has(tagName) || open[0].endsWith("/>")) {
+    return { tagName, attrs, start, end: openEnd, outerHtml: open[0], innerHtml: "" };
+  }
+
+  const tagRegex = new RegExp(`<(/?)${tagName.replace(/[-:]/g, "\\$&")}(?=[\\s/>])[^>]*>`, "gi");
+  tagRegex.lastIndex = openEnd;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = tagRegex.exec(html))) {
+    if (match[1]) {
+      depth--;
+    } else if (!match[0].endsWith("/>")) {
+      depth++;
+    }
+    if (depth === 0) {
+      const end = match.index + match[0].length;
+      return {
+        tagName,
+        attrs,
+        start,
+        end,
+        outerHtml: html.slice(start, end),
+        innerHtml: html.slice(openEnd, match.index),
+      };
+    }
+  }
+
+  return { tagName, attrs, start, end: html.length, outerHtml: html.slice(start), innerHtml: html.slice(openEnd) };
+}
+
+// 開始タグの属性が条件に一致する要素を取得（一致した要素の内側は探索しない）
+export function findElements(
+  html: string,
+  tagName: string,
+  predicate: (attrs: Record<string, string>) => boolean = () => true
+): HtmlElement[] {
+  const elements: HtmlElement[] = [];
+  const regex = new RegExp(`<${tagName}(?=[\\s/>])[^>]*>`, "gi");
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(html))) {
+    if (!predicate(parseAttributes(match[0]))) continue;
+    const element = elementAt(html, match.index);
+    if (!element) continue;
+    elements.push(element);
+    regex.lastIndex = element.end;
+  }
+
+  return elements;
+}
+
+// 直下の子要素を取得
+export function childElements(html: string): HtmlElement[] {
+  const children: HtmlElement[] = [];
+  const regex = /<[a-zA-Z]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(html))) {
+    const element = elementAt(html, match.index);
+    if (!element) continue;
+    children.push(element);
+    regex.lastIndex = element.end;
+  }
+
+  return children;
+}
+
+export function hasClass(attrs: Record<string, string>, className: string): boolean {
+  return (attrs.class || "").split(/\s+/).includes(className);
+}
+
+// script/style/コメントを除去
+export function removeNonContent(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, "")
+    .replace(/<style\b[^>]*>[\s\S]*?<\/style>/gi, "")
+    .replace(/<noscript\b[^>]*>[\s\S]*?<\/noscript>/gi, "")
+    .replace(/<template\b[^>]*>[\s\S]*?<\/template>/gi, "");
+}
+
+// タグを除去してプレーンテキスト化
+export function stripTags(html: string): string {
+  return decodeEntities(
+    removeNonContent(html)
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// テキストの語数を数える（日本語は分かち書きがないため1文字=1語として換算）
+export function countWords(text: string): number {
+  const cjkChars = text.match(/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g)?.length || 0;
+  const latinWords = text
+    .replace(/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/g, " ")
+    .split(/\s+/)
+    .filter(w => /[a-z0-9]/i.test(w)).length;
+  return cjkChars + latinWords;
+}
+
+export function extractTitle(html: string): string | null {
+  const match = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  if (!match) return null;
+  const title = decodeEntities(match[1]).replace(/\s+/g, " ").trim();
+  return title || null;
+}
+
+// <meta name|property="..." content="..."> の値を取得
+export function extractMetaContent(html: string, name: string): string | null {
+  const target = name.toLowerCase();
+  for (const tag of findTags(html, "meta")) {
+    const attrs = parseAttributes(tag);
+    const key = (attrs.name || attrs.property || attrs["http-equiv"] || "").toLowerCase();
+    if (key === target && attrs.content !== undefined) {
+      return attrs.content.trim();
+    }
+  }
+  return null;
+}
+
+// rel属性に指定の値を含む<link>のhrefを取得
+export function extractLinkRel(html: string, rel: string, baseUrl: string): string | null {
+  for (const tag of findTags(html, "link")) {
+    const attrs = parseAttributes(tag);
+    const rels = (attrs.rel || "").toLowerCase().split(/\s+/);
+    if (rels.includes(rel) && attrs.href) {
+      return resolveUrl(attrs.href, baseUrl);
+    }
+  }
+  return null;
+}
+
+export function extractCanonical(html: string, baseUrl: string): string | null {
+  return extractLinkRel(html, "canonical", baseUrl);
+}
+
+export function extractHeadings(html: string): ExtractedHeading[] {
+  const cleaned = removeNonContent(html);
+  return Array.from(cleaned.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi))
+    .map(match => ({
+      level: Number(match[1]),
+      text: stripTags(match[2]),
+    }))
+    .filter(h => h.text.length > 0);
+}
+
+export function extractLinks(html: string, baseUrl: string): ExtractedLink[] {
+  const cleaned = removeNonContent(html);
+  const links: ExtractedLink[] = [];
+
+  for (const match of Array.from(cleaned.matchAll(/(<a\b[^>]*>)([\s\S]*?)<\/a>/gi))) {
+    const attrs = parseAttributes(match[1]);
+    if (!attrs.href) continue;
+    const url = resolveUrl(attrs.href, baseUrl);
+    if (!url) continue;
+
+    links.push({
+      url,
+      anchor: stripTags(match[2]) || attrs.title || "",
+      nofollow: (attrs.rel || "").toLowerCase().split(/\s+/).includes("nofollow"),
+    });
+  }
+
+  return links;
+}
+
+export function extractImages(html: string): ExtractedImage[] {
+  return findTags(removeNonContent(html), "img").map(tag => {
+    const attrs = parseAttributes(tag);
+    return {
+      src: attrs.src || attrs["data-src"] || "",
+      alt: "alt" in attrs ? attrs.alt : null,
+    };
+  });
+}
+
+// 相対URLを絶対URLに変換（http/https以外やフラグメントのみのリンクはnull）
+export function resolveUrl(href: string, baseUrl: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith("#")) return null;
+  if (/^(javascript|mailto|tel|data):/i.test(trimmed)) return null;
+
+  try {
+    const url = new URL(trimmed, baseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Job Queue
+ * sync_jobsテーブルを使った永続ジョブキュー（cron + タイムゾーン、リース、指数バックオフ再試行、ジョブ種別ごとの同時実行数制限）
+ */
+
+import { getDb } from "../db";
+import { jobRuns, syncJobs } from "../../drizzle/schema";
+import type { InsertSyncJob, SyncJob } from "../../drizzle/schema";
+import { and, asc, eq, gt, inArray, lt, lte, ne, or, sql } from "drizzle-orm";
+import { nextCronRun } from "./cron";
+
+export type JobType = SyncJob["jobType"];
+
+export interface JobContext {
+  /** Append a line to the run's log */
+  log(message: string): void;
+}
+
+export type JobHandler = (job: SyncJob, context: JobContext) => Promise<void>;
+
+/** Jobs of one type that may run at the same time across all workers */
+export const JOB_CONCURRENCY: Record<JobType, number> = {
+  search_console: 2,
+  pagespeed: 1,
+  serp: 1,
+  ai_visibility: 1,
+  digest: 4,
+};
+
+/** A running job's lease; renewed while the handler runs, so it only expires when the worker dies */
+export const JOB_LEASE_MS = 5 * 60 * 1000;
+const LEASE_RENEW_INTERVAL_MS = 60 * 1000;
+export const RETRY_BASE_DELAY_MS = 60 * 1000;
+export const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const MAX_LOG_LINES = 200;
+/** A recurring job is stale when its last success is older than this many schedule intervals */
+export const STALE_INTERVAL_FACTOR = 1.5;
+
+export interface RecurringJobInput {
+  jobKey: string;
+  userId: number;
+  domainId?: number | null;
+  jobType: JobType;
+  cronExpression: string;
+  timezone: string;
+  payload?: unknown;
+}
+
+const handlers = new Map<JobType, JobHandler>();
+
+/**
+ * Register the handler that runs jobs of a type
+ */
+export function registerJobHandler(jobType: JobType, handler: JobHandler): void {
+  handlers.set(jobType, handler);
+}
+
+/**
+ * Delay before retrying after the given number of failed attempts: base, 2×base, 4×base, ... up to the maximum
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * State of a job after a run: retried with backoff, rescheduled from its cron expression, or finished
+ */
+export function planNextRun(
+  job: Pick<SyncJob, "cronExpression" | "timezone" | "attempts" | "maxAttempts">,
+  outcome: "completed" | "failed",
+  now: Date = new Date()
+): Pick<SyncJob, "status" | "attempts" | "nextRunAt"> {
+  if (outcome === "failed" && job.attempts < job.maxAttempts) {
+    return { status: "pending", attempts: job.attempts, nextRunAt: new Date(now.getTime() + retryDelayMs(job.attempts)) };
+  }
+  if (job.cronExpression) {
+    // 定期ジョブは失敗しても次の予定時刻に再実行する
+    return { status: outcome, attempts: 0, nextRunAt: nextCronRun(job.cronExpression, job.timezone, now) };
+  }
+  return { status: outcome, attempts: job.attempts, nextRunAt: null };
+}
+
+/**
+ * Whether a recurring job's data is out of date: no successful run within 1.5 schedule intervals
+ */
+export function isJobStale(
+  job: Pick<SyncJob, "cronExpression" | "timezone" | "isEnabled" | "lastSuccessAt" | "createdAt">,
+  now: Date = new Date()
+): boolean {
+  if (!job.cronExpression || !job.isEnabled) return false;
+  const first = nextCronRun(job.cronExpression, job.timezone, now);
+  const interval = nextCronRun(job.cronExpression, job.timezone, first).getTime() - first.getTime();
+  const reference = job.lastSuccessAt ?? job.createdAt;
+  return now.getTime() - reference.getTime() > interval * STALE_INTERVAL_FACTOR;
+}
+
+/**
+ * Enqueue a one-off job
+ */
+export async function enqueueJob(
+  job: Pick<InsertSyncJob, "userId" | "domainId" | "jobType" | "payload" | "maxAttempts"> & { runAt?: Date }
+): Promise<SyncJob> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [created] = await db.insert(syncJobs).values({
+    userId: job.userId,
+    domainId: job.domainId ?? null,
+    jobType: job.jobType,
+    payload: job.payload ?? null,
+    maxAttempts: job.maxAttempts ?? 3,
+    nextRunAt: job.runAt ?? new Date(),
+  }).returning();
+  return created;
+}
+
+/**
+ * Register a recurring job, or update its schedule when the cron expression or timezone changed
+ */
+export async function upsertRecurringJob(input: RecurringJobInput): Promise<SyncJob> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await db.select().from(syncJobs).where(eq(syncJobs.jobKey, input.jobKey)).limit(1);
+  const nextRunAt = nextCronRun(input.cronExpression, input.timezone);
+
+  if (!existing[0]) {
+    const [created] = await db.insert(syncJobs).values({
+      userId: input.userId,
+      domainId: input.domainId ?? null,
+      jobType: input.jobType,
+      jobKey: input.jobKey,
+      cronExpression: input.cronExpression,
+      timezone: input.timezone,
+      payload: input.payload ?? null,
+      nextRunAt,
+    }).onConflictDoNothing({ target: syncJobs.jobKey }).returning();
+    if (created) return created;
+    return (await db.select().from(syncJobs).where(eq(syncJobs.jobKey, input.jobKey)).limit(1))[0];
+  }
+
+  const job = existing[0];
+  if (job.cronExpression === input.cronExpression && job.timezone === input.timezone) return job;
+
+  const [updated] = await db.update(syncJobs)
+    .set({
+      cronExpression: input.cronExpression,
+      timezone: input.timezone,
+      // 実行中のジョブは、終了時にrunJobがこの行のスケジュールを読み直して次回を計算する
+      ...(job.status === "running" ? {} : { nextRunAt }),
+      updatedAt: new Date(),
+    })
+    .where(eq(syncJobs.id, job.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * Remove recurring jobs by key (e.g., when a domain is deleted or digests are turned off)
+ */
+export async function removeJobs(jobKeys: string[]): Promise<void> {
+  if (jobKeys.length === 0) return;
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const removed = await db.delete(syncJobs).where(inArray(syncJobs.jobKey, jobKeys)).returning({ id: syncJobs.id });
+  if (removed.length > 0) {
+    await db.delete(jobRuns).where(inArray(jobRuns.jobId, removed.map(job => job.id)));
+  }
+}
+
+/**
+ * Queue a job to run as soon as a worker is free; `resetAttempts` starts a fresh retry cycle
+ */
+export async function requeueJob(jobId: number, options: { resetAttempts?: boolean } = {}): Promise<SyncJob | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const now = new Date();
+  const [updated] = await db.update(syncJobs)
+    .set({
+      isEnabled: true,
+      nextRunAt: now,
+      ...(options.resetAttempts ? { attempts: 0, status: "pending" as const } : {}),
+      updatedAt: now,
+    })
+    // 実行中のジョブは終了後のスケジュールに任せる
+    .where(and(eq(syncJobs.id, jobId), ne(syncJobs.status, "running")))
+    .returning();
+  return updated ?? null;
+}
+
+/**
+ * Stop a job from running again until it is requeued; a run in progress is allowed to finish
+ */
+export async function cancelJob(jobId: number): Promise<SyncJob | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [updated] = await db.update(syncJobs)
+    .set({ isEnabled: false, updatedAt: new Date() })
+    .where(eq(syncJobs.id, jobId))
+    .returning();
+  return updated ?? null;
+}
+
+/**
+ * Lease due jobs for a worker without exceeding each type's concurrency limit
+ */
+export async function claimDueJobs(workerId: string, now: Date = new Date()): Promise<SyncJob[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const claimed: SyncJob[] = [];
+  for (const jobType of Array.from(handlers.keys())) {
+    const rows = await db.transaction(async (tx) => {
+      // 同じ種別の取得処理をワーカー間で直列化し、同時実行数の確認と取得の間に割り込まれないようにする
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`sync_jobs:${jobType}`}))`);
+
+      const [{ running }] = await tx.select({ running: sql<number>`count(*)::int` })
+        .from(syncJobs)
+        .where(and(eq(syncJobs.jobType, jobType), eq(syncJobs.status, "running"), gt(syncJobs.lockedUntil, now)));
+      const free = JOB_CONCURRENCY[jobType] - running;
+      if (free <= 0) return [];
+
+      // リースが切れた実行中ジョブ（ワーカーが落ちた場合）も再取得する
+      const due = await tx.select({ id: syncJobs.id })
+        .from(syncJobs)
+        .where(and(
+          eq(syncJobs.jobType, jobType),
+          eq(syncJobs.isEnabled, true),
+          lte(syncJobs.nextRunAt, now),
+          or(ne(syncJobs.status, "running"), lt(syncJobs.lockedUntil, now))
+        ))
+        .orderBy(asc(syncJobs.nextRunAt))
+        .limit(free)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return tx.update(syncJobs)
+        .set({
+          status: "running",
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + JOB_LEASE_MS),
+          attempts: sql`${syncJobs.attempts} + 1`,
+          lastRunAt: now,
+          updatedAt: now,
+        })
+        .where(inArray(syncJobs.id, due.map(job => job.id)))
+        .returning();
+    });
+    claimed.push(...rows);
+  }
+
+  return claimed;
+}
+
+/**
+ * Run a leased job: renew the lease while the handler runs, then record the outcome and the next run
+ */
+export async function runJob(job: SyncJob, workerId: string): Promise<"completed" | "failed"> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const handler = handlers.get(job.jobType);
+  const startedAt = Date.now();
+  const [run] = await db.insert(jobRuns).values({
+    jobId: job.id,
+    attempt: job.attempts,
+    workerId,
+    startedAt: new Date(startedAt),
+  }).returning();
+
+  const logs: string[] = [];
+  const context: JobContext = {
+    log(message) {
+      if (logs.length < MAX_LOG_LINES) logs.push(`${new Date().toISOString()} ${message}`);
+    },
+  };
+
+  const owned = and(eq(syncJobs.id, job.id), eq(syncJobs.lockedBy, workerId));
+  const renew = setInterval(() => {
+    db.update(syncJobs)
+      .set({ lockedUntil: new Date(Date.now() + JOB_LEASE_MS) })
+      .where(owned)
+      .catch(error => console.error(`[Jobs] Lease renewal failed for job ${job.id}:`, error));
+  }, LEASE_RENEW_INTERVAL_MS);
+
+  let outcome: "completed" | "failed" = "completed";
+  let errorMessage: string | null = null;
+  try {
+    if (!handler) throw new Error(`No handler registered for ${job.jobType}`);
+    await handler(job, context);
+  } catch (error) {
+    outcome = "failed";
+    errorMessage = String(error);
+    context.log(`Failed: ${errorMessage}`);
+    console.error(`[Jobs] ${job.jobType} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error);
+  } finally {
+    clearInterval(renew);
+  }
+
+  const now = new Date();
+  const durationMs = now.getTime() - startedAt;
+  await db.update(jobRuns)
+    .set({ status: outcome, finishedAt: now, durationMs, errorMessage, logs: logs.join("\n") || null })
+    .where(eq(jobRuns.id, run.id));
+
+  // リースを失った（別のワーカーが再取得した）場合は結果を書き込まない。
+  // 実行中にスケジュールが変更されていることがあるため、次回の予定は現在の行の設定で計算する
+  await db.transaction(async tx => {
+    const [current] = await tx.select({ cronExpression: syncJobs.cronExpression, timezone: syncJobs.timezone })
+      .from(syncJobs)
+      .where(owned)
+      .for("update");
+    if (!current) return;
+
+    await tx.update(syncJobs)
+      .set({
+        ...planNextRun({ ...job, ...current }, outcome, now),
+        lockedBy: null,
+        lockedUntil: null,
+        lastDurationMs: durationMs,
+        ...(outcome === "completed" ? { lastSuccessAt: now } : {}),
+        errorMessage,
+        updatedAt: now,
+      })
+      .where(owned);
+  });
+
+  return outcome;
+}
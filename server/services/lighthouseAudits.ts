@@ -0,0 +1,320 @@
+/**
+ * Lighthouse Audit Extractor
+ * PageSpeedの生データ（rawData）から改善機会と診断を抽出して保存し、URLごとの優先度付き改善リストと推移を作成
+ */
+
+import { getDb } from "../db";
+import { pageSpeedAudits, pageSpeedHistory } from "../../drizzle/schema";
+import type { PageSpeedAudit, PageSpeedHistory } from "../../drizzle/schema";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+
+export type AuditKind = PageSpeedAudit["kind"];
+
+/** Audits extracted from each test, in Lighthouse id order */
+export const TRACKED_AUDITS: Array<{ id: string; kind: AuditKind; title: string }> = [
+  { id: "render-blocking-resources", kind: "opportunity", title: "レンダリングを妨げるリソースの除外" },
+  { id: "unused-javascript", kind: "opportunity", title: "未使用のJavaScriptの削減" },
+  { id: "unused-css-rules", kind: "opportunity", title: "未使用のCSSの削減" },
+  { id: "unminified-javascript", kind: "opportunity", title: "JavaScriptの圧縮" },
+  { id: "unminified-css", kind: "opportunity", title: "CSSの圧縮" },
+  { id: "uses-text-compression", kind: "opportunity", title: "テキスト圧縮の有効化" },
+  { id: "uses-optimized-images", kind: "opportunity", title: "画像の効率的なエンコード" },
+  { id: "modern-image-formats", kind: "opportunity", title: "次世代フォーマットでの画像配信" },
+  { id: "uses-responsive-images", kind: "opportunity", title: "適切なサイズの画像" },
+  { id: "offscreen-images", kind: "opportunity", title: "オフスクリーン画像の遅延読み込み" },
+  { id: "efficient-animated-content", kind: "opportunity", title: "アニメーションの動画フォーマット化" },
+  { id: "server-response-time", kind: "opportunity", title: "サーバー応答時間の短縮" },
+  { id: "third-party-summary", kind: "diagnostic", title: "サードパーティコードの影響の抑制" },
+  { id: "bootup-time", kind: "diagnostic", title: "JavaScriptの実行時間の短縮" },
+  { id: "mainthread-work-breakdown", kind: "diagnostic", title: "メインスレッドの処理の最小化" },
+  { id: "dom-size", kind: "diagnostic", title: "DOMサイズの削減" },
+  { id: "largest-contentful-paint-element", kind: "diagnostic", title: "LCP要素" },
+  { id: "layout-shift-elements", kind: "diagnostic", title: "レイアウトシフトの原因要素" },
+  // Lighthouse 12以降はlayout-shift-elementsの代わりにlayout-shiftsを返す
+  { id: "layout-shifts", kind: "diagnostic", title: "レイアウトシフトの原因要素" },
+];
+
+/** Audits scoring at least this (0-1) pass and are not stored */
+const PASSING_SCORE = 0.9;
+const MAX_ITEMS_PER_AUDIT = 10;
+/** Savings must change by more than this share between runs to count as improved or regressed */
+const TREND_TOLERANCE = 0.1;
+
+export interface AuditItem {
+  /** Resource URL, element selector / snippet, or third-party entity */
+  label: string;
+  wastedMs?: number;
+  wastedBytes?: number;
+  totalBytes?: number;
+  /** Layout shift score of the element */
+  score?: number;
+}
+
+export interface ExtractedAudit {
+  auditId: string;
+  title: string;
+  kind: AuditKind;
+  score: number | null;
+  numericValue: number | null;
+  displayValue: string | null;
+  savingsMs: number | null;
+  savingsBytes: number | null;
+  items: AuditItem[];
+}
+
+export interface FixRun {
+  testId: number;
+  date: Date;
+  audits: ExtractedAudit[];
+}
+
+export type FixTrend = "new" | "improved" | "regressed" | "unchanged";
+
+export interface FixListEntry extends ExtractedAudit {
+  trend: FixTrend;
+  /** Savings in each run, oldest first; null when the audit passed in that run */
+  history: Array<{ testId: number; date: Date; savingsMs: number | null; savingsBytes: number | null }>;
+  /** Earliest run of the consecutive runs in which the audit failed */
+  failingSince: Date;
+}
+
+export interface ResolvedFix {
+  auditId: string;
+  title: string;
+  resolvedAt: Date;
+}
+
+interface RawAudit {
+  score?: number | null;
+  scoreDisplayMode?: string;
+  numericValue?: number;
+  displayValue?: string;
+  metricSavings?: Record<string, number | undefined>;
+  details?: RawDetails;
+}
+
+interface RawDetails {
+  type?: string;
+  overallSavingsMs?: number;
+  overallSavingsBytes?: number;
+  summary?: { wastedMs?: number; wastedBytes?: number };
+  items?: Array<Record<string, unknown>>;
+}
+
+// 数値なら丸めて返す
+function roundOrNull(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? Math.round(value) : null;
+}
+
+// 監査の行（URL・要素・サードパーティ）を共通の形に変換
+function normalizeItem(item: Record<string, unknown>): AuditItem | null {
+  const node = item.node as { selector?: string; snippet?: string; nodeLabel?: string } | undefined;
+  const entity = item.entity as string | { text?: string } | undefined;
+  const label = typeof item.url === "string"
+    ? item.url
+    : node?.selector ?? node?.snippet ?? node?.nodeLabel
+      ?? (typeof entity === "string" ? entity : entity?.text);
+  if (!label) return null;
+
+  const normalized: AuditItem = { label };
+  const wastedMs = roundOrNull(item.wastedMs ?? item.blockingTime);
+  const wastedBytes = roundOrNull(item.wastedBytes);
+  const totalBytes = roundOrNull(item.totalBytes ?? item.transferSize);
+  if (wastedMs !== null) normalized.wastedMs = wastedMs;
+  if (wastedBytes !== null) normalized.wastedBytes = wastedBytes;
+  if (totalBytes !== null) normalized.totalBytes = totalBytes;
+  if (typeof item.score === "number") normalized.score = Math.round(item.score * 1000) / 1000;
+  return normalized;
+}
+
+// 入れ子のテーブル（LCP要素のlist形式など）を平坦化して行を集める
+function collectItems(details: RawDetails | undefined): AuditItem[] {
+  const items: AuditItem[] = [];
+  for (const item of details?.items ?? []) {
+    if (item.type === "table" && Array.isArray(item.items)) {
+      items.push(...collectItems({ items: item.items as Array<Record<string, unknown>> }));
+      continue;
+    }
+    const normalized = normalizeItem(item);
+    if (normalized) items.push(normalized);
+  }
+  return items;
+}
+
+/**
+ * Extract the failing opportunities and diagnostics of a PSI response, highest estimated savings first
+ */
+export function extractLighthouseAudits(rawData: unknown): ExtractedAudit[] {
+  const audits = (rawData as { lighthouseResult?: { audits?: Record<string, RawAudit | undefined> } } | null)
+    ?.lighthouseResult?.audits;
+  if (!audits) return [];
+
+  const extracted: ExtractedAudit[] = [];
+  for (const tracked of TRACKED_AUDITS) {
+    const audit = audits[tracked.id];
+    if (!audit || audit.scoreDisplayMode === "notApplicable" || audit.scoreDisplayMode === "error") continue;
+
+    const items = collectItems(audit.details).slice(0, MAX_ITEMS_PER_AUDIT);
+    const score = typeof audit.score === "number" ? audit.score : null;
+    // 点数のない情報監査は、対象の要素やリソースがある場合だけ残す
+    if (score === null ? items.length === 0 : score >= PASSING_SCORE) continue;
+
+    const details = audit.details;
+    const savingsMs = roundOrNull(details?.overallSavingsMs ?? details?.summary?.wastedMs ?? audit.metricSavings?.LCP);
+    const savingsBytes = roundOrNull(details?.overallSavingsBytes ?? details?.summary?.wastedBytes);
+
+    extracted.push({
+      auditId: tracked.id,
+      title: tracked.title,
+      kind: tracked.kind,
+      score: score === null ? null : Math.round(score * 100),
+      numericValue: roundOrNull(audit.numericValue),
+      displayValue: audit.displayValue?.slice(0, 255) ?? null,
+      savingsMs: savingsMs !== null && savingsMs > 0 ? savingsMs : null,
+      savingsBytes: savingsBytes !== null && savingsBytes > 0 ? savingsBytes : null,
+      items,
+    });
+  }
+
+  return extracted.sort(compareFixPriority);
+}
+
+// 改善機会を診断より先に、推定短縮時間・削減サイズの大きい順に並べる
+function compareFixPriority(a: ExtractedAudit, b: ExtractedAudit): number {
+  if (a.kind !== b.kind) return a.kind === "opportunity" ? -1 : 1;
+  return (b.savingsMs ?? 0) - (a.savingsMs ?? 0) || (b.savingsBytes ?? 0) - (a.savingsBytes ?? 0);
+}
+
+// 前回と比べた推定削減量の変化
+function fixTrend(current: ExtractedAudit, previous: ExtractedAudit | undefined): FixTrend {
+  if (!previous) return "new";
+  const [now, before] = current.savingsMs !== null || previous.savingsMs !== null
+    ? [current.savingsMs ?? 0, previous.savingsMs ?? 0]
+    : [current.savingsBytes ?? 0, previous.savingsBytes ?? 0];
+  if (before === 0) return now === 0 ? "unchanged" : "regressed";
+  const change = (now - before) / before;
+  if (change < -TREND_TOLERANCE) return "improved";
+  if (change > TREND_TOLERANCE) return "regressed";
+  return "unchanged";
+}
+
+/**
+ * Prioritized fix list of a URL from its latest run, with each fix's savings across runs and the fixes resolved since the previous run
+ */
+export function buildFixList(runs: FixRun[]): { fixes: FixListEntry[]; resolved: ResolvedFix[] } {
+  const sorted = [...runs].sort((a, b) => b.date.getTime() - a.date.getTime());
+  const [latest, previous] = sorted;
+  if (!latest) return { fixes: [], resolved: [] };
+
+  const fixes = latest.audits.map(audit => {
+    const history = sorted.map(run => {
+      const match = run.audits.find(a => a.auditId === audit.auditId);
+      return { testId: run.testId, date: run.date, savingsMs: match?.savingsMs ?? null, savingsBytes: match?.savingsBytes ?? null };
+    }).reverse();
+
+    let failingSince = latest.date;
+    for (const run of sorted) {
+      if (!run.audits.some(a => a.auditId === audit.auditId)) break;
+      failingSince = run.date;
+    }
+
+    return {
+      ...audit,
+      trend: fixTrend(audit, previous?.audits.find(a => a.auditId === audit.auditId)),
+      history,
+      failingSince,
+    };
+  });
+
+  const resolved = (previous?.audits ?? [])
+    .filter(audit => !latest.audits.some(a => a.auditId === audit.auditId))
+    .map(audit => ({ auditId: audit.auditId, title: audit.title, resolvedAt: latest.date }));
+
+  return { fixes, resolved };
+}
+
+/**
+ * Extract and store the audits of a saved PageSpeed test
+ */
+export async function saveLighthouseAudits(
+  test: Pick<PageSpeedHistory, "id" | "domainId" | "url" | "strategy" | "date" | "rawData">
+): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const audits = extractLighthouseAudits(test.rawData);
+  // 同時に抽出された場合や抽出済みの記録に失敗した後の再抽出でも、監査ごとに1行だけ保存する
+  await db.transaction(async (tx) => {
+    if (audits.length > 0) {
+      await tx.insert(pageSpeedAudits).values(audits.map(audit => ({
+        pageSpeedId: test.id,
+        domainId: test.domainId,
+        url: test.url,
+        strategy: test.strategy,
+        date: test.date,
+        ...audit,
+      }))).onConflictDoNothing({ target: [pageSpeedAudits.pageSpeedId, pageSpeedAudits.auditId] });
+    }
+    await tx.update(pageSpeedHistory).set({ auditsExtractedAt: new Date() }).where(eq(pageSpeedHistory.id, test.id));
+  });
+  return audits.length;
+}
+
+/**
+ * Prioritized fix list of a URL and strategy over its latest runs; tests saved before extraction existed are extracted on the way
+ */
+export async function getFixList(
+  domainId: number,
+  url: string,
+  strategy: PageSpeedHistory["strategy"],
+  runLimit: number = 10
+): Promise<{ fixes: FixListEntry[]; resolved: ResolvedFix[]; runs: Array<{ testId: number; date: Date }> }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const tests = await db.select({
+    id: pageSpeedHistory.id,
+    date: pageSpeedHistory.date,
+    auditsExtractedAt: pageSpeedHistory.auditsExtractedAt,
+  })
+    .from(pageSpeedHistory)
+    .where(and(eq(pageSpeedHistory.domainId, domainId), eq(pageSpeedHistory.url, url), eq(pageSpeedHistory.strategy, strategy)))
+    .orderBy(desc(pageSpeedHistory.date))
+    .limit(runLimit);
+  if (tests.length === 0) return { fixes: [], resolved: [], runs: [] };
+
+  const pending = tests.filter(test => !test.auditsExtractedAt).map(test => test.id);
+  if (pending.length > 0) {
+    const rows = await db.select().from(pageSpeedHistory)
+      .where(and(inArray(pageSpeedHistory.id, pending), isNull(pageSpeedHistory.auditsExtractedAt)));
+    for (const row of rows) {
+      await saveLighthouseAudits(row);
+    }
+  }
+
+  const stored = await db.select().from(pageSpeedAudits)
+    .where(inArray(pageSpeedAudits.pageSpeedId, tests.map(test => test.id)));
+  const runs: FixRun[] = tests.map(test => ({
+    testId: test.id,
+    date: test.date,
+    audits: stored
+      .filter(audit => audit.pageSpeedId === test.id)
+      .map(audit => ({
+        auditId: audit.auditId,
+        title: audit.title,
+        kind: audit.kind,
+        score: audit.score,
+        numericValue: audit.numericValue,
+        displayValue: audit.displayValue,
+        savingsMs: audit.savingsMs,
+        savingsBytes: audit.savingsBytes,
+        items: (audit.items ?? []) as AuditItem[],
+      }))
+      .sort(compareFixPriority),
+  }));
+
+  return {
+    ...buildFixList(runs),
+    runs: tests.map(test => ({ testId: test.id, date: test.date })).reverse(),
+  };
+}
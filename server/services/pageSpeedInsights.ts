@@ -1,13 +1,28 @@
 /**
  * PageSpeed Insights API Integration Service
- * Fetches Core Web Vitals and performance metrics
+ * Fetches Core Web Vitals and performance metrics (Lighthouse lab data and CrUX field data)
  */
 
 import { getDb } from "../db";
-import { trackedDomains, pageSpeedHistory } from "../../drizzle/schema";
-import { eq } from "drizzle-orm";
+import { trackedDomains, pageSpeedHistory, monitoredUrls, fieldMetrics } from "../../drizzle/schema";
+import type { TrackedDomain } from "../../drizzle/schema";
+import { and, eq } from "drizzle-orm";
+import { getIndexableSitemapUrls } from "./sitemap";
+import { runAlertEvaluation } from "./alerting";
+import { saveLighthouseAudits } from "./lighthouseAudits";
+import { checkPerformanceBudget } from "./performanceBudgets";
+import type { BudgetCheckResult } from "./performanceBudgets";
 
 const PAGESPEED_API_BASE = "https://www.googleapis.com/pagespeedonline/v5/runPagespeed";
+// 監視URLが未登録のドメインで、トップページに加えてテストするサイトマップ掲載URLの上限
+const MAX_SITEMAP_URLS_PER_DOMAIN = 5;
+
+export type PageSpeedStrategy = "mobile" | "desktop";
+
+/** Strategies every monitored URL is tested with */
+export const PAGESPEED_STRATEGIES: PageSpeedStrategy[] = ["mobile", "desktop"];
+/** Monitored URLs a domain can register */
+export const MAX_MONITORED_URLS_PER_DOMAIN = 20;
 
 interface LighthouseAudit {
   id: string;
@@ -42,13 +57,93 @@ interface PageSpeedResult {
       [key: string]: LighthouseAudit | undefined;
     };
   };
-  loadingExperience?: {
-    metrics?: {
-      LARGEST_CONTENTFUL_PAINT_MS?: { percentile: number };
-      FIRST_INPUT_DELAY_MS?: { percentile: number };
-      CUMULATIVE_LAYOUT_SHIFT_SCORE?: { percentile: number };
-    };
-  };
+  loadingExperience?: LoadingExperience;
+  originLoadingExperience?: LoadingExperience;
+}
+
+interface CruxMetric {
+  percentile: number;
+  /** Buckets in order: good, needs improvement, poor */
+  distributions?: Array<{ min: number; max?: number; proportion: number }>;
+  category?: string;
+}
+
+interface LoadingExperience {
+  id?: string;
+  metrics?: Record<string, CruxMetric | undefined>;
+  overall_category?: string;
+  /** The page has too little traffic, so the origin's data was returned instead */
+  origin_fallback?: boolean;
+}
+
+/** CrUX metrics, their keys in the PSI response and Core Web Vitals thresholds (good / poor) */
+export const FIELD_METRICS = [
+  { key: "lcp", cruxKey: "LARGEST_CONTENTFUL_PAINT_MS", label: "LCP", good: 2500, poor: 4000 },
+  { key: "inp", cruxKey: "INTERACTION_TO_NEXT_PAINT", label: "INP", good: 200, poor: 500 },
+  { key: "cls", cruxKey: "CUMULATIVE_LAYOUT_SHIFT_SCORE", label: "CLS", good: 100, poor: 250 },
+  { key: "fcp", cruxKey: "FIRST_CONTENTFUL_PAINT_MS", label: "FCP", good: 1800, poor: 3000 },
+  { key: "ttfb", cruxKey: "EXPERIMENTAL_TIME_TO_FIRST_BYTE", label: "TTFB", good: 800, poor: 1800 },
+  { key: "fid", cruxKey: "FIRST_INPUT_DELAY_MS", label: "FID", good: 100, poor: 300 },
+] as const;
+
+export type FieldMetricKey = (typeof FIELD_METRICS)[number]["key"];
+
+export type MetricRating = "good" | "needs_improvement" | "poor";
+
+export interface MetricDistribution {
+  good: number;
+  needsImprovement: number;
+  poor: number;
+}
+
+export interface FieldData extends Record<FieldMetricKey, number | null> {
+  scope: "url" | "origin";
+  cruxId: string | null;
+  overallCategory: string | null;
+  distributions: Partial<Record<FieldMetricKey, MetricDistribution>>;
+}
+
+export interface SavedPageSpeedTest extends PageSpeedMetrics {
+  testId: number;
+  /** Result of the applicable performance budget; null when no budget applies or the check failed */
+  budgetCheck: BudgetCheckResult | null;
+  /** Why the budget check failed; null when it ran (or no budget applies) */
+  budgetError: string | null;
+}
+
+export interface PageSpeedTrendTest {
+  url: string;
+  strategy: PageSpeedStrategy;
+  date: Date;
+  performanceScore: number | null;
+  lcp: number | null;
+  cls: number | null;
+  tbt: number | null;
+  fcp: number | null;
+}
+
+export type PageSpeedTrendMetrics = Pick<PageSpeedTrendTest, "performanceScore" | "lcp" | "cls" | "tbt" | "fcp">;
+
+export interface PageSpeedTrendPoint {
+  /** UTC day (YYYY-MM-DD) */
+  date: string;
+  mobile: PageSpeedTrendMetrics | null;
+  desktop: PageSpeedTrendMetrics | null;
+}
+
+export interface StrategyScore {
+  performanceScore: number | null;
+  /** Score of the test before the latest one, null when there is only one test */
+  previousScore: number | null;
+  lcp: number | null;
+  cls: number | null;
+  date: Date;
+}
+
+export interface LandingPageSuggestion {
+  url: string;
+  clicks: number;
+  impressions: number;
 }
 
 export interface PageSpeedMetrics {
@@ -63,9 +158,104 @@ export interface PageSpeedMetrics {
   fcp: number; // First Contentful Paint (ms)
   speedIndex: number; // Speed Index (ms)
   tbt: number; // Total Blocking Time (ms)
+  /** CrUX data of the URL and of its origin, when Google has enough traffic data */
+  fieldData: FieldData[];
   rawData: object;
 }
 
+/**
+ * Parse CrUX field data from a PSI loadingExperience / originLoadingExperience object
+ */
+export function parseLoadingExperience(
+  experience: LoadingExperience | undefined,
+  scope: "url" | "origin"
+): FieldData | null {
+  const metrics = experience?.metrics;
+  if (!metrics || Object.keys(metrics).length === 0) return null;
+  // URL単位のデータがなくオリジンのデータで代用された場合は、オリジン側で保存する
+  if (scope === "url" && experience.origin_fallback) return null;
+
+  const field: FieldData = {
+    scope,
+    cruxId: experience.id ?? null,
+    overallCategory: experience.overall_category ?? null,
+    lcp: null,
+    inp: null,
+    cls: null,
+    fcp: null,
+    ttfb: null,
+    fid: null,
+    distributions: {},
+  };
+  for (const metric of FIELD_METRICS) {
+    const value = metrics[metric.cruxKey];
+    if (!value) continue;
+    // CrUXのCLSは100倍値なので、ラボ値と同じ1000倍値に揃える
+    field[metric.key] = Math.round(metric.key === "cls" ? value.percentile * 10 : value.percentile);
+    const buckets = value.distributions ?? [];
+    if (buckets.length === 3) {
+      field.distributions[metric.key] = {
+        good: buckets[0].proportion,
+        needsImprovement: buckets[1].proportion,
+        poor: buckets[2].proportion,
+      };
+    }
+  }
+  return field;
+}
+
+/**
+ * Rate a metric value against its Core Web Vitals thresholds
+ */
+export function rateMetric(value: number | null, thresholds: { good: number; poor: number }): MetricRating | null {
+  if (value === null) return null;
+  return value <= thresholds.good ? "good" : value <= thresholds.poor ? "needs_improvement" : "poor";
+}
+
+export interface LabFieldComparison {
+  key: Exclude<FieldMetricKey, "fid">;
+  label: string;
+  /** Lighthouse value; INP cannot be measured in the lab, so TBT is shown instead */
+  lab: number | null;
+  labLabel: string;
+  labRating: MetricRating | null;
+  /** CrUX p75 */
+  field: number | null;
+  fieldRating: MetricRating | null;
+  distribution: MetricDistribution | null;
+  good: number;
+  poor: number;
+}
+
+// ラボ値のTBTを評価するしきい値（Lighthouseの基準）
+const TBT_THRESHOLDS = { good: 200, poor: 600 };
+
+/**
+ * Put a Lighthouse test and the CrUX field data returned with it side by side, metric by metric
+ */
+export function compareLabAndField(
+  lab: { lcp: number | null; cls: number | null; fcp: number | null; ttfb: number | null; tbt: number | null },
+  field: Pick<FieldData, FieldMetricKey | "distributions"> | null
+): LabFieldComparison[] {
+  return FIELD_METRICS.filter(metric => metric.key !== "fid").map(metric => {
+    const key = metric.key as LabFieldComparison["key"];
+    const labValue = key === "inp" ? lab.tbt : lab[key];
+    const fieldValue = field ? field[key] : null;
+    return {
+      key,
+      label: metric.label,
+      lab: labValue,
+      labLabel: key === "inp" ? "TBT" : metric.label,
+      labRating: rateMetric(labValue, key === "inp" ? TBT_THRESHOLDS : metric),
+      field: fieldValue,
+      fieldRating: rateMetric(fieldValue, metric),
+      distribution: field?.distributions[key] ?? null,
+      good: metric.good,
+      poor: metric.poor,
+    };
+  });
+}
+
 /**
  * Fetch PageSpeed Insights for a URL
  */
@@ -84,7 +274,7 @@ export async function fetchPageSpeedInsights(
   }
 
   const data: PageSpeedResult = await response.json();
-  const { lighthouseResult, loadingExperience } = data;
+  const { lighthouseResult, loadingExperience, originLoadingExperience } = data;
 
   // Extract scores (convert from 0-1 to 0-100)
   const performanceScore = Math.round((lighthouseResult.categories.performance?.score || 0) * 100);
@@ -115,27 +305,123 @@ export async function fetchPageSpeedInsights(
     fcp,
     speedIndex,
     tbt,
+    fieldData: [
+      parseLoadingExperience(loadingExperience, "url"),
+      parseLoadingExperience(originLoadingExperience, "origin"),
+    ].filter((field): field is FieldData => field !== null),
     rawData: data,
   };
 }
 
 /**
- * Analyze a URL and save results to database
+ * Normalize a URL to monitor and check that it belongs to the tracked domain (subdomains included)
+ */
+export function normalizeMonitoredUrl(input: string, domain: string): string {
+  const trimmed = input.trim();
+  const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  const host = domain.replace(/^https?:\/\//, "").replace(/[/:].*$/, "").replace(/^www\./, "").toLowerCase();
+  const urlHost = url.hostname.replace(/^www\./, "");
+  if (urlHost !== host && !urlHost.endsWith(`.${host}`)) {
+    throw new Error(`${url.href} is not a URL of ${domain}`);
+  }
+  url.hash = "";
+  return url.href;
+}
+
+/**
+ * Rank a domain's Search Console landing pages by clicks, leaving out URLs that are already monitored
+ */
+export function suggestLandingPages(
+  rows: Array<{ page: string; clicks: number; impressions: number }>,
+  monitored: string[],
+  limit: number
+): LandingPageSuggestion[] {
+  const excluded = new Set(monitored);
+  const pages = new Map<string, LandingPageSuggestion>();
+  for (const row of rows) {
+    if (excluded.has(row.page)) continue;
+    const page = pages.get(row.page) ?? { url: row.page, clicks: 0, impressions: 0 };
+    page.clicks += row.clicks;
+    page.impressions += row.impressions;
+    pages.set(row.page, page);
+  }
+  return Array.from(pages.values())
+    .sort((a, b) => b.clicks - a.clicks || b.impressions - a.impressions)
+    .slice(0, limit);
+}
+
+/**
+ * Latest test of each URL per day, with mobile and desktop side by side (oldest day first)
+ */
+export function dailyPageSpeedTrend(tests: PageSpeedTrendTest[]): PageSpeedTrendPoint[] {
+  const days = new Map<string, PageSpeedTrendPoint>();
+  const latest = new Map<string, Date>();
+  for (const test of tests) {
+    const date = test.date.toISOString().slice(0, 10);
+    const key = `${date}:${test.strategy}`;
+    const seen = latest.get(key);
+    if (seen && seen >= test.date) continue;
+    latest.set(key, test.date);
+
+    const point = days.get(date) ?? { date, mobile: null, desktop: null };
+    point[test.strategy] = {
+      performanceScore: test.performanceScore,
+      lcp: test.lcp,
+      cls: test.cls,
+      tbt: test.tbt,
+      fcp: test.fcp,
+    };
+    days.set(date, point);
+  }
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Latest score of each URL and strategy together with the score of the test before it
+ */
+export function latestUrlScores(tests: PageSpeedTrendTest[]): Map<string, Partial<Record<PageSpeedStrategy, StrategyScore>>> {
+  const sorted = [...tests].sort((a, b) => b.date.getTime() - a.date.getTime());
+  const scores = new Map<string, Partial<Record<PageSpeedStrategy, StrategyScore>>>();
+  for (const test of sorted) {
+    const entry = scores.get(test.url) ?? {};
+    const current = entry[test.strategy];
+    if (!current) {
+      entry[test.strategy] = {
+        performanceScore: test.performanceScore,
+        previousScore: null,
+        lcp: test.lcp,
+        cls: test.cls,
+        date: test.date,
+      };
+    } else if (current.previousScore === null && current.date.getTime() !== test.date.getTime()) {
+      // 新しい順なので、最新の次に現れたテストが直前のテスト
+      current.previousScore = test.performanceScore;
+    }
+    scores.set(test.url, entry);
+  }
+  return scores;
+}
+
+/**
+ * Analyze a URL with a strategy, save results to database and check them against the applicable performance budget
  */
 export async function analyzeAndSavePageSpeed(
   domainId: number,
-  url: string
-): Promise<PageSpeedMetrics> {
+  url: string,
+  strategy: PageSpeedStrategy = "mobile"
+): Promise<SavedPageSpeedTest> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const metrics = await fetchPageSpeedInsights(url);
+  const metrics = await fetchPageSpeedInsights(url, strategy);
 
   // Save to database
-  await db.insert(pageSpeedHistory).values({
+  const date = new Date();
+  const [test] = await db.insert(pageSpeedHistory).values({
     domainId,
     url,
-    date: new Date(),
+    strategy,
+    date,
     performanceScore: metrics.performanceScore,
     accessibilityScore: metrics.accessibilityScore,
     bestPracticesScore: metrics.bestPracticesScore,
@@ -148,9 +434,102 @@ export async function analyzeAndSavePageSpeed(
     speedIndex: metrics.speedIndex,
     tbt: metrics.tbt,
     rawData: metrics.rawData,
-  });
+  }).returning({ id: pageSpeedHistory.id });
+
+  if (metrics.fieldData.length > 0) {
+    await db.insert(fieldMetrics).values(metrics.fieldData.map(field => ({
+      pageSpeedId: test.id,
+      domainId,
+      url,
+      strategy,
+      scope: field.scope,
+      cruxId: field.cruxId,
+      date,
+      overallCategory: field.overallCategory,
+      lcp: field.lcp,
+      inp: field.inp,
+      cls: field.cls,
+      fcp: field.fcp,
+      ttfb: field.ttfb,
+      fid: field.fid,
+      distributions: field.distributions,
+    })));
+  }
+
+  try {
+    await saveLighthouseAudits({ id: test.id, domainId, url, strategy, date, rawData: metrics.rawData });
+  } catch (auditError) {
+    // 抽出に失敗しても改善リストの取得時に再抽出される
+    console.error(`Error extracting Lighthouse audits for ${url}:`, auditError);
+  }
+
+  // 予算の確認に失敗した場合は「予算なし」と区別できるようエラーを返す（デプロイゲートを通過させないため）
+  let budgetCheck: BudgetCheckResult | null = null;
+  let budgetError: string | null = null;
+  try {
+    budgetCheck = await checkPerformanceBudget({ id: test.id, domainId, url, strategy, date, ...metrics });
+  } catch (error) {
+    console.error(`Error checking the performance budget for ${url}:`, error);
+    budgetError = String(error);
+  }
+
+  return { ...metrics, testId: test.id, budgetCheck, budgetError };
+}
+
+/**
+ * URLs tested for a domain: its active monitored URLs, or the homepage plus indexable sitemap URLs when none are registered
+ */
+export async function getPageSpeedTargets(domain: Pick<TrackedDomain, "id" | "domain">): Promise<string[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const monitored = await db.select({ url: monitoredUrls.url })
+    .from(monitoredUrls)
+    .where(and(eq(monitoredUrls.domainId, domain.id), eq(monitoredUrls.isActive, true)))
+    .orderBy(monitoredUrls.createdAt);
+  if (monitored.length > 0) return monitored.map(row => row.url);
+
+  const homeUrl = domain.domain.startsWith("http") 
+    ? domain.domain 
+    : `https://${domain.domain}`;
+
+  let sitemapUrls: string[] = [];
+  try {
+    sitemapUrls = await getIndexableSitemapUrls(domain.id, MAX_SITEMAP_URLS_PER_DOMAIN + 1);
+  } catch (sitemapError) {
+    console.error(`Error loading sitemap URLs for ${domain.domain}:`, sitemapError);
+  }
+
+  return [homeUrl, ...sitemapUrls.filter(url => url.replace(/\/$/, "") !== homeUrl.replace(/\/$/, ""))]
+    .slice(0, MAX_SITEMAP_URLS_PER_DOMAIN + 1);
+}
+
+/**
+ * Test a tracked domain's URLs with every strategy and evaluate CWV alerts; returns the number of URLs with at least one successful test
+ */
+export async function syncDomainPageSpeed(domain: Pick<TrackedDomain, "id" | "domain">): Promise<number> {
+  const urls = await getPageSpeedTargets(domain);
+
+  let urlsAnalyzed = 0;
+  for (const url of urls) {
+    let analyzed = false;
+    for (const strategy of PAGESPEED_STRATEGIES) {
+      try {
+        await analyzeAndSavePageSpeed(domain.id, url, strategy);
+        analyzed = true;
+
+        // Add a small delay to avoid rate limiting
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      } catch (urlError) {
+        console.error(`Error analyzing PageSpeed (${strategy}) for ${url}:`, urlError);
+      }
+    }
+    if (analyzed) urlsAnalyzed++;
+  }
+
+  await runAlertEvaluation(domain.id, "pagespeed");
 
-  return metrics;
+  return urlsAnalyzed;
 }
 
 /**
@@ -175,20 +554,8 @@ export async function syncPageSpeedData(userId: number): Promise<{
     let urlsAnalyzed = 0;
 
     for (const domain of domains) {
-      try {
-        // Analyze the main domain URL
-        const url = domain.domain.startsWith("http") 
-          ? domain.domain 
-          : `https://${domain.domain}`;
-
-        await analyzeAndSavePageSpeed(domain.id, url);
-        urlsAnalyzed++;
-
-        // Add a small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (domainError) {
-        console.error(`Error analyzing PageSpeed for ${domain.domain}:`, domainError);
-      }
+      // Analyze the monitored URLs (or the homepage plus sitemap URLs) on mobile and desktop
+      urlsAnalyzed += await syncDomainPageSpeed(domain);
     }
 
     return { success: true, urlsAnalyzed };
@@ -201,56 +568,3 @@ export async function syncPageSpeedData(userId: number): Promise<{
     };
   }
 }
-
-/**
- * Get AI-readability score based on PageSpeed and SEO metrics
- */
-export function calculateAIReadabilityScore(metrics: PageSpeedMetrics): {
-  overall: number;
-  semanticHTML: number;
-  schemaOrg: number;
-  contentClarity: number;
-  technicalSEO: number;
-} {
-  // Calculate component scores based on various metrics
-  const semanticHTML = Math.min(100, Math.round(
-    (metrics.accessibilityScore * 0.6) + 
-    (metrics.seoScore * 0.4)
-  ));
-
-  // Schema.org score estimation (based on SEO score and best practices)
-  const schemaOrg = Math.min(100, Math.round(
-    (metrics.seoScore * 0.7) + 
-    (metrics.bestPracticesScore * 0.3)
-  ));
-
-  // Content clarity (based on performance and accessibility)
-  const contentClarity = Math.min(100, Math.round(
-    (metrics.accessibilityScore * 0.5) + 
-    (metrics.performanceScore * 0.3) +
-    (metrics.seoScore * 0.2)
-  ));
-
-  // Technical SEO (based on Core Web Vitals)
-  const lcpScore = metrics.lcp <= 2500 ? 100 : metrics.lcp <= 4000 ? 75 : 50;
-  const clsScore = metrics.cls <= 100 ? 100 : metrics.cls <= 250 ? 75 : 50;
-  const fidScore = metrics.fid <= 100 ? 100 : metrics.fid <= 300 ? 75 : 50;
-  
-  const technicalSEO = Math.round((lcpScore + clsScore + fidScore) / 3);
-
-  // Overall AI readability score
-  const overall = Math.round(
-    (semanticHTML * 0.3) +
-    (schemaOrg * 0.25) +
-    (contentClarity * 0.25) +
-    (technicalSEO * 0.2)
-  );
-
-  return {
-    overall,
-    semanticHTML,
-    schemaOrg,
-    contentClarity,
-    technicalSEO,
-  };
-}
@@ -0,0 +1,168 @@
+/**
+ * Performance Budgets
+ * PageSpeedテストごとに最も具体的なパフォーマンス予算を選んで評価し、超過を記録（デプロイパイプラインの合否判定にも使用）
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { formatCls } from "@shared/cwv";
+import { getDb } from "../db";
+import { budgetViolations, performanceBudgets } from "../../drizzle/schema";
+import type { PageSpeedHistory, PerformanceBudget } from "../../drizzle/schema";
+import { eq } from "drizzle-orm";
+
+/** Budgeted metrics: the budget column holding the limit and whether the limit is a maximum or a minimum */
+export const BUDGET_METRICS = [
+  { key: "lcp", column: "maxLcp", label: "LCP", limit: "max" },
+  { key: "cls", column: "maxCls", label: "CLS", limit: "max" },
+  { key: "tbt", column: "maxTbt", label: "TBT", limit: "max" },
+  { key: "fcp", column: "maxFcp", label: "FCP", limit: "max" },
+  { key: "ttfb", column: "maxTtfb", label: "TTFB", limit: "max" },
+  { key: "performanceScore", column: "minPerformanceScore", label: "スコア", limit: "min" },
+] as const;
+
+export type BudgetMetricKey = (typeof BUDGET_METRICS)[number]["key"];
+
+export type BudgetedMetrics = Record<BudgetMetricKey, number | null>;
+
+export interface BudgetViolationDetail {
+  metric: BudgetMetricKey;
+  label: string;
+  limit: number;
+  actual: number;
+  /** How far the value is past the limit, in % of the limit */
+  overPercent: number;
+}
+
+export interface BudgetCheckResult {
+  budgetId: number;
+  budgetName: string;
+  passed: boolean;
+  violations: BudgetViolationDetail[];
+}
+
+// パターンを正規表現に変換（*のみワイルドカード）
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Whether a URL matches a budget pattern; patterns starting with / match the path (and query), others the full URL
+ */
+export function urlPatternMatches(pattern: string, url: string): boolean {
+  let target = url;
+  if (pattern.startsWith("/")) {
+    try {
+      const parsed = new URL(url);
+      target = parsed.pathname + parsed.search;
+    } catch {
+      return false;
+    }
+  }
+  return patternToRegExp(pattern).test(target);
+}
+
+// パターンの具体性（ワイルドカード以外の文字数、ドメイン全体の予算は-1）
+function patternSpecificity(pattern: string | null): number {
+  return pattern === null ? -1 : pattern.replace(/\*/g, "").length;
+}
+
+/**
+ * The budget a test is checked against: the enabled budget with the most specific matching pattern, preferring strategy-specific budgets
+ */
+export function selectApplicableBudget<T extends Pick<PerformanceBudget, "id" | "urlPattern" | "strategy" | "isEnabled">>(
+  budgets: T[],
+  url: string,
+  strategy: "mobile" | "desktop"
+): T | null {
+  const applicable = budgets.filter(budget =>
+    budget.isEnabled &&
+    (budget.strategy === null || budget.strategy === strategy) &&
+    (budget.urlPattern === null || urlPatternMatches(budget.urlPattern, url))
+  );
+  applicable.sort((a, b) =>
+    patternSpecificity(b.urlPattern) - patternSpecificity(a.urlPattern) ||
+    Number(b.strategy !== null) - Number(a.strategy !== null) ||
+    b.id - a.id
+  );
+  return applicable[0] ?? null;
+}
+
+/**
+ * Limits of a budget that a test's metrics exceed (missing metrics are not counted)
+ */
+export function evaluateBudget(
+  budget: Pick<PerformanceBudget, (typeof BUDGET_METRICS)[number]["column"]>,
+  metrics: BudgetedMetrics
+): BudgetViolationDetail[] {
+  const violations: BudgetViolationDetail[] = [];
+  for (const metric of BUDGET_METRICS) {
+    const limit = budget[metric.column];
+    const actual = metrics[metric.key];
+    if (limit === null || actual === null) continue;
+
+    const over = metric.limit === "max" ? actual - limit : limit - actual;
+    if (over <= 0) continue;
+    violations.push({
+      metric: metric.key,
+      label: metric.label,
+      limit,
+      actual,
+      overPercent: limit > 0 ? Math.round((over / limit) * 100) : 100,
+    });
+  }
+  return violations;
+}
+
+/**
+ * Display a budgeted metric value (CLS is stored as score * 1000)
+ */
+export function formatBudgetValue(metric: BudgetMetricKey, value: number): string {
+  if (metric === "cls") return formatCls(value);
+  if (metric === "performanceScore") return String(value);
+  return `${value}ms`;
+}
+
+/**
+ * Check a saved PageSpeed test against its applicable budget and record the violations; null when no budget applies
+ */
+export async function checkPerformanceBudget(
+  test: Pick<PageSpeedHistory, "id" | "domainId" | "url" | "strategy" | "date"> & BudgetedMetrics
+): Promise<BudgetCheckResult | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const budgets = await db.select().from(performanceBudgets).where(eq(performanceBudgets.domainId, test.domainId));
+  const budget = selectApplicableBudget(budgets, test.url, test.strategy);
+  if (!budget) return null;
+
+  const violations = evaluateBudget(budget, test);
+  if (violations.length > 0) {
+    await db.insert(budgetViolations).values({
+      budgetId: budget.id,
+      pageSpeedId: test.id,
+      domainId: test.domainId,
+      url: test.url,
+      strategy: test.strategy,
+      date: test.date,
+      violations,
+    });
+  }
+
+  return { budgetId: budget.id, budgetName: budget.name, passed: violations.length === 0, violations };
+}
+
+/**
+ * SHA-256 of a budget check token, as stored on the tracked domain
+ */
+export function hashBudgetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issue a new token for deploy pipelines; only its hash is stored
+ */
+export function generateBudgetToken(): { token: string; hash: string } {
+  const token = `nxb_${randomBytes(24).toString("hex")}`;
+  return { token, hash: hashBudgetToken(token) };
+}
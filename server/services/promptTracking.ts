@@ -0,0 +1,252 @@
+/**
+ * Prompt Tracking Service
+ * 追跡プロンプトをスケジュールに従って各AIプラットフォームに質問し、言及順・競合の言及・センチメントとともに回答履歴を保存
+ */
+
+import { getDb } from "../db";
+import { competitorDomains, promptRuns, trackedPrompts } from "../../drizzle/schema";
+import type { InsertPromptRun, TrackedDomain, TrackedPrompt } from "../../drizzle/schema";
+import { and, desc, eq, gte, inArray, isNull } from "drizzle-orm";
+import { invokeLLM } from "../_core/llm";
+import {
+  brandTermsForDomain,
+  CITATION_PLATFORMS,
+  detectBrandMention,
+  mergeCitationProbeReports,
+  runCitationProbes,
+} from "./citationProbe";
+import type { BrandMention, BrandTarget, CitationPlatform, CitationProbeAdapter, CitationProbeRecord, CitationProbeReport, ProbeAnswer } from "./citationProbe";
+
+export type PromptSchedule = TrackedPrompt["schedule"];
+export type MentionSentiment = "positive" | "neutral" | "negative";
+
+/** Days between runs of each schedule */
+export const PROMPT_SCHEDULE_DAYS: Record<PromptSchedule, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+};
+
+export interface CompetitorMention {
+  domain: string;
+  /** Order of the competitor's first mention among the brands mentioned, null when only cited */
+  mentionPosition: number | null;
+  cited: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 追跡プロンプト全体のレポートに含める最新の回答の期間（月次のプロンプトも含まれるよう十分に長く）
+const LATEST_ANSWER_WINDOW_DAYS = 90;
+// 日次ジョブの実行時刻のずれで1周期遅れないよう、間隔から差し引く余裕
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+const SENTIMENTS: MentionSentiment[] = ["positive", "neutral", "negative"];
+
+/**
+ * Whether an active prompt's schedule interval has passed since its last run
+ */
+export function isPromptDue(prompt: Pick<TrackedPrompt, "schedule" | "isActive" | "lastRunAt">, now: Date = new Date()): boolean {
+  if (!prompt.isActive) return false;
+  if (!prompt.lastRunAt) return true;
+  return now.getTime() - prompt.lastRunAt.getTime() >= PROMPT_SCHEDULE_DAYS[prompt.schedule] * DAY_MS - SCHEDULE_SLACK_MS;
+}
+
+/**
+ * Platforms a prompt is asked on (stored JSON; empty or missing means every platform)
+ */
+export function promptPlatforms(value: unknown): CitationPlatform[] {
+  const platforms = Array.isArray(value)
+    ? CITATION_PLATFORMS.filter(platform => value.includes(platform))
+    : [];
+  return platforms.length > 0 ? platforms : [...CITATION_PLATFORMS];
+}
+
+/**
+ * Tags of a prompt (stored JSON), trimmed and de-duplicated
+ */
+export function promptTags(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter((tag): tag is string => typeof tag === "string").map(tag => tag.trim()).filter(Boolean)));
+}
+
+/**
+ * Order our brand and competitors by where the answer first mentions them
+ */
+export function rankBrandMentions(
+  answer: ProbeAnswer,
+  ours: Pick<BrandMention, "mentionOffset">,
+  competitors: BrandTarget[]
+): { mentionPosition: number | null; competitorMentions: CompetitorMention[] } {
+  const detected = competitors.map(competitor => ({ domain: competitor.domain, mention: detectBrandMention(answer, competitor) }));
+  const offsets = [ours.mentionOffset, ...detected.map(item => item.mention.mentionOffset)]
+    .filter((offset): offset is number => offset !== null)
+    .sort((a, b) => a - b);
+  const positionOf = (offset: number | null) => offset === null ? null : offsets.indexOf(offset) + 1;
+
+  return {
+    mentionPosition: positionOf(ours.mentionOffset),
+    competitorMentions: detected
+      .filter(item => item.mention.mentioned || item.mention.cited)
+      .map(item => ({
+        domain: item.domain,
+        mentionPosition: positionOf(item.mention.mentionOffset),
+        cited: item.mention.cited,
+      })),
+  };
+}
+
+/**
+ * Sentiment of the sentences that mention our brand; null when there are none or classification fails
+ */
+export async function classifyMentionSentiment(brand: string, contexts: string[]): Promise<MentionSentiment | null> {
+  if (contexts.length === 0) return null;
+
+  try {
+    const result = await invokeLLM({
+      messages: [
+        { role: "system", content: "あなたはブランドの評判を分析する専門家です。文中のブランドへの評価だけを判定します。" },
+        { role: "user", content: `以下はAIアシスタントの回答のうち「${brand}」に言及した文です。「${brand}」がどのように評価されているかを判定してください。\n\n${contexts.map(context => `- ${context}`).join("\n")}` },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "mention_sentiment",
+          strict: true,
+          schema: {
+            type: "object",
+            properties: {
+              sentiment: { type: "string", enum: SENTIMENTS, description: "ブランドへの評価" },
+            },
+            required: ["sentiment"],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+    const content = result.choices[0]?.message?.content;
+    if (typeof content !== "string") return null;
+    const { sentiment } = JSON.parse(content) as { sentiment: MentionSentiment };
+    return SENTIMENTS.includes(sentiment) ? sentiment : null;
+  } catch (error) {
+    console.error("[PromptTracking] Sentiment classification failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Ask tracked prompts on their platforms and store every answer in the prompt run history.
+ * Returns the combined report (for the per-platform citation checks), or null when no prompt could be asked.
+ */
+export async function runTrackedPrompts(
+  domain: Pick<TrackedDomain, "id" | "domain">,
+  prompts: TrackedPrompt[],
+  adapters: CitationProbeAdapter[]
+): Promise<CitationProbeReport | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const competitors = await db.select({ domain: competitorDomains.domain })
+    .from(competitorDomains)
+    .where(eq(competitorDomains.domainId, domain.id));
+  const target: BrandTarget = { domain: domain.domain, brandTerms: brandTermsForDomain(domain.domain) };
+  const competitorTargets = competitors.map(competitor => ({ domain: competitor.domain, brandTerms: brandTermsForDomain(competitor.domain) }));
+
+  const reports: CitationProbeReport[] = [];
+  for (const prompt of prompts) {
+    const platforms = promptPlatforms(prompt.platforms);
+    const selected = adapters.filter(adapter => platforms.includes(adapter.platform));
+    if (selected.length === 0) continue;
+
+    const report = await runCitationProbes(target, [prompt.prompt], selected);
+    const rows: InsertPromptRun[] = [];
+    for (const platform of report.platforms) {
+      for (const answer of platform.answers) {
+        const { mentionPosition, competitorMentions } = rankBrandMentions(answer, answer, competitorTargets);
+        rows.push({
+          promptId: prompt.id,
+          domainId: domain.id,
+          platform: platform.platform,
+          model: platform.model,
+          answer: answer.answer,
+          citations: answer.citations,
+          mentioned: answer.mentioned,
+          cited: answer.cited,
+          mentionPosition,
+          citationRank: answer.citationRank,
+          competitorMentions,
+          sentiment: await classifyMentionSentiment(domain.domain, answer.contexts),
+          contexts: answer.contexts,
+          errorMessage: answer.error,
+          ranAt: report.checkedAt,
+        });
+      }
+    }
+
+    await db.insert(promptRuns).values(rows);
+    // すべてのプラットフォームで失敗した場合は実行済みにせず、ジョブの再試行で再度質問する
+    if (rows.some(row => row.errorMessage === null)) {
+      await db.update(trackedPrompts)
+        .set({ lastRunAt: report.checkedAt, updatedAt: new Date() })
+        .where(eq(trackedPrompts.id, prompt.id));
+    }
+    reports.push(report);
+  }
+
+  return mergeCitationProbeReports(reports);
+}
+
+/**
+ * Combined report over the latest successful answer of every given prompt on each of its platforms.
+ * Recorded as the domain's citation check so consecutive checks compare the same prompt set,
+ * however many prompts happened to be due. Null when no prompt has been answered yet.
+ */
+export async function latestTrackedPromptsReport(
+  domain: Pick<TrackedDomain, "domain">,
+  prompts: TrackedPrompt[]
+): Promise<CitationProbeReport | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (prompts.length === 0) return null;
+
+  const runs = await db.select().from(promptRuns)
+    .where(and(
+      inArray(promptRuns.promptId, prompts.map(prompt => prompt.id)),
+      isNull(promptRuns.errorMessage),
+      gte(promptRuns.ranAt, new Date(Date.now() - LATEST_ANSWER_WINDOW_DAYS * DAY_MS))
+    ))
+    .orderBy(desc(promptRuns.ranAt));
+
+  const reports: CitationProbeReport[] = [];
+  for (const prompt of prompts) {
+    // プロンプトごとに、現在の対象プラットフォームの最新の回答だけを使う
+    const latest = promptPlatforms(prompt.platforms)
+      .map(platform => runs.find(run => run.promptId === prompt.id && run.platform === platform))
+      .filter((run): run is (typeof runs)[number] => !!run);
+    if (latest.length === 0) continue;
+
+    reports.push({
+      domain: domain.domain,
+      checkedAt: latest[0].ranAt,
+      overallVisibility: 0,
+      platforms: latest.map(run => ({
+        platform: run.platform as CitationPlatform,
+        model: run.model,
+        score: null,
+        answers: [{
+          prompt: prompt.prompt,
+          answer: run.answer,
+          citations: (run.citations as CitationProbeRecord["citations"] | null) ?? [],
+          mentioned: run.mentioned,
+          cited: run.cited,
+          citationRank: run.citationRank,
+          mentionOffset: null,
+          contexts: (run.contexts as string[] | null) ?? [],
+          error: null,
+        }],
+      })),
+    });
+  }
+
+  // mergeで各プラットフォームのスコアと全体の可視性を算出し直す
+  const merged = mergeCitationProbeReports(reports);
+  return merged && { ...merged, checkedAt: new Date(Math.max(...reports.map(report => report.checkedAt.getTime()))) };
+}
@@ -0,0 +1,365 @@
+/**
+ * Rank Tracker
+ * トラッキング中キーワードのSERPをプロファイル（国・都市・言語・デバイス）ごとに取得し、上位100件・SERP機能・自サイトの順位をスナップショットとして保存
+ */
+
+import { getDb } from "../db";
+import {
+  competitorDomains,
+  competitorPositions,
+  keywordHistory,
+  keywordProfiles,
+  serpSnapshots,
+  trackedDomains,
+  trackedKeywords,
+} from "../../drizzle/schema";
+import type {
+  InsertCompetitorPosition,
+  InsertKeywordProfile,
+  InsertSerpSnapshotRow,
+  KeywordProfile,
+  SerpSnapshotRow,
+} from "../../drizzle/schema";
+import { and, asc, desc, eq, gte } from "drizzle-orm";
+import { findDomainResult, isDomainMatch } from "./serpParser";
+import type { SerpSnapshot } from "./serpParser";
+import { getSerpProviderForDomain } from "./serpProvider";
+import type { SerpTarget } from "./serpProvider";
+import { getKeywordRanking } from "./seoScraper";
+import { updateVisibilityHistory } from "./visibility";
+import { runAlertEvaluation } from "./alerting";
+
+const MAX_STORED_RESULTS = 100;
+const KEYWORD_CHECK_DELAY_MS = 2000;
+
+export type TrackingProfileInput = Pick<InsertKeywordProfile, "country" | "city" | "uule" | "language" | "device">;
+
+/** Profile used for keywords that have none configured: Japan, desktop, Japanese */
+export const DEFAULT_TRACKING_PROFILE = {
+  country: "jp",
+  city: null,
+  uule: null,
+  language: null,
+  device: "desktop",
+} as const satisfies TrackingProfileInput;
+
+export interface StoredSerpResult {
+  position: number;
+  url: string;
+  domain: string;
+  title: string;
+}
+
+export interface CompetitorMovement {
+  domain: string;
+  url: string;
+  position: number;
+  /** Position in the previous snapshot, null when the domain wasn't in the results */
+  previousPosition: number | null;
+}
+
+export interface SerpHistoryPoint {
+  snapshotId: number;
+  checkedAt: Date;
+  provider: string;
+  /** True organic position from the SERP, null when not ranked */
+  position: number | null;
+  matchedUrl: string | null;
+  /** Search Console average position for the latest day on or before the check */
+  gscPosition: number | null;
+}
+
+/**
+ * Convert a tracking profile into the SERP provider query target
+ */
+export function toSerpTarget(profile: TrackingProfileInput): SerpTarget {
+  return {
+    location: profile.country || DEFAULT_TRACKING_PROFILE.country,
+    city: profile.city || null,
+    uule: profile.uule || null,
+    language: profile.language || null,
+    device: profile.device || DEFAULT_TRACKING_PROFILE.device,
+  };
+}
+
+/**
+ * Convert a SERP snapshot into a serp_snapshots row for a tracked keyword and profile
+ */
+export function toSerpSnapshotRow(
+  keyword: { id: number; domainId: number },
+  profile: Pick<KeywordProfile, "id"> & TrackingProfileInput,
+  snapshot: SerpSnapshot,
+  match: { position: number | null; url: string | null }
+): InsertSerpSnapshotRow {
+  const results: StoredSerpResult[] = snapshot.organic.slice(0, MAX_STORED_RESULTS).map(result => ({
+    position: result.position,
+    url: result.url,
+    domain: result.domain,
+    title: result.title,
+  }));
+
+  return {
+    keywordId: keyword.id,
+    domainId: keyword.domainId,
+    profileId: profile.id,
+    provider: snapshot.provider,
+    location: snapshot.location,
+    city: profile.city || null,
+    language: profile.language || null,
+    device: profile.device || DEFAULT_TRACKING_PROFILE.device,
+    position: match.position,
+    matchedUrl: match.url?.substring(0, 2000) ?? null,
+    totalResults: snapshot.totalResults !== null ? String(snapshot.totalResults) : null,
+    results,
+    features: snapshot.features,
+    checkedAt: snapshot.fetchedAt,
+  };
+}
+
+/**
+ * Read each competitor's best position from a stored snapshot
+ */
+export function toCompetitorPositionRows(
+  snapshot: Pick<SerpSnapshotRow, "id" | "keywordId" | "profileId" | "domainId" | "results" | "checkedAt">,
+  competitors: string[]
+): InsertCompetitorPosition[] {
+  const results = (snapshot.results as StoredSerpResult[] | null) ?? [];
+  return competitors.map(competitor => {
+    const result = findDomainResult({ organic: results }, competitor);
+    return {
+      snapshotId: snapshot.id,
+      keywordId: snapshot.keywordId,
+      profileId: snapshot.profileId,
+      domainId: snapshot.domainId,
+      competitorDomain: competitor,
+      position: result?.position ?? null,
+      url: result?.url.substring(0, 2000) ?? null,
+      checkedAt: snapshot.checkedAt,
+    };
+  });
+}
+
+// 自サイトより上位にいる競合（自サイト未ランク時は全件）をドメイン単位で抽出
+function competitorsAbove(results: StoredSerpResult[], position: number | null, ourDomain: string): Map<string, StoredSerpResult> {
+  const above = new Map<string, StoredSerpResult>();
+  for (const result of results) {
+    if (position !== null && result.position >= position) break;
+    if (isDomainMatch(result.domain, ourDomain)) continue;
+    if (!above.has(result.domain)) above.set(result.domain, result);
+  }
+  return above;
+}
+
+/**
+ * List competitor domains ranking above us in a snapshot, best position first
+ */
+export function findCompetitorsAbove(
+  snapshot: Pick<SerpSnapshotRow, "results" | "position">,
+  ourDomain: string
+): StoredSerpResult[] {
+  const results = (snapshot.results as StoredSerpResult[] | null) ?? [];
+  return Array.from(competitorsAbove(results, snapshot.position, ourDomain).values());
+}
+
+/**
+ * Find competitors that are above us in the current snapshot but were not above us in the previous one
+ */
+export function diffCompetitorsAbove(
+  previous: Pick<SerpSnapshotRow, "results" | "position">,
+  current: Pick<SerpSnapshotRow, "results" | "position">,
+  ourDomain: string
+): CompetitorMovement[] {
+  const previousResults = (previous.results as StoredSerpResult[] | null) ?? [];
+  const previousAbove = competitorsAbove(previousResults, previous.position, ourDomain);
+
+  return findCompetitorsAbove(current, ourDomain)
+    .filter(result => !previousAbove.has(result.domain))
+    .map(result => ({
+      domain: result.domain,
+      url: result.url,
+      position: result.position,
+      previousPosition: previousResults.find(r => r.domain === result.domain)?.position ?? null,
+    }));
+}
+
+// 日付をUTCの日単位キーに変換
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Pair each snapshot with the Search Console average position of the latest day on or before it
+ */
+export function pairWithGscPositions(
+  snapshots: Array<Pick<SerpSnapshotRow, "id" | "checkedAt" | "provider" | "position" | "matchedUrl">>,
+  gscRows: Array<{ date: Date; position: string | null }>
+): SerpHistoryPoint[] {
+  const gscByDay = gscRows
+    .filter(row => row.position !== null)
+    .map(row => ({ day: dayKey(row.date), position: parseFloat(row.position!) }))
+    .sort((a, b) => a.day.localeCompare(b.day));
+
+  return snapshots.map(snapshot => {
+    const day = dayKey(snapshot.checkedAt);
+    let gscPosition: number | null = null;
+    for (const row of gscByDay) {
+      if (row.day > day) break;
+      gscPosition = row.position;
+    }
+    return {
+      snapshotId: snapshot.id,
+      checkedAt: snapshot.checkedAt,
+      provider: snapshot.provider,
+      position: snapshot.position,
+      matchedUrl: snapshot.matchedUrl,
+      gscPosition,
+    };
+  });
+}
+
+/**
+ * Get a keyword's tracking profiles, creating the default profile when none exist
+ */
+export async function getKeywordProfiles(keywordId: number): Promise<KeywordProfile[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const profiles = await db.select().from(keywordProfiles)
+    .where(eq(keywordProfiles.keywordId, keywordId))
+    .orderBy(asc(keywordProfiles.id));
+  if (profiles.length > 0) return profiles;
+
+  return db.insert(keywordProfiles).values({ keywordId, ...DEFAULT_TRACKING_PROFILE }).returning();
+}
+
+/**
+ * Fetch the SERP for a tracked keyword in each of its profiles (or a single profile) and store snapshots
+ */
+export async function checkKeywordRanking(keywordId: number, profileId?: number): Promise<SerpSnapshotRow[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db
+    .select({ keyword: trackedKeywords, domain: trackedDomains.domain })
+    .from(trackedKeywords)
+    .innerJoin(trackedDomains, eq(trackedKeywords.domainId, trackedDomains.id))
+    .where(eq(trackedKeywords.id, keywordId))
+    .limit(1);
+  const row = rows[0];
+  if (!row) throw new Error("Keyword not found");
+
+  const profiles = (await getKeywordProfiles(keywordId))
+    .filter(profile => profileId === undefined || profile.id === profileId);
+  if (profiles.length === 0) throw new Error("Tracking profile not found");
+
+  const provider = await getSerpProviderForDomain(row.keyword.domainId);
+  const competitors = await db.select().from(competitorDomains).where(eq(competitorDomains.domainId, row.keyword.domainId));
+  const snapshots: SerpSnapshotRow[] = [];
+  for (let index = 0; index < profiles.length; index++) {
+    const profile = profiles[index];
+    if (index > 0) await new Promise(resolve => setTimeout(resolve, KEYWORD_CHECK_DELAY_MS));
+
+    const ranking = await getKeywordRanking(row.keyword.keyword, row.domain, toSerpTarget(profile), provider);
+    if (!ranking.snapshot) throw new Error(`SERP fetch failed for "${row.keyword.keyword}" (profile ${profile.id})`);
+
+    const inserted = await db
+      .insert(serpSnapshots)
+      .values(toSerpSnapshotRow(row.keyword, profile, ranking.snapshot, { position: ranking.rank, url: ranking.url }))
+      .returning();
+    snapshots.push(inserted[0]);
+
+    // 同じSERPから競合ドメインの順位も記録
+    if (competitors.length > 0) {
+      await db.insert(competitorPositions).values(toCompetitorPositionRows(inserted[0], competitors.map(c => c.domain)));
+    }
+  }
+
+  await updateVisibilityHistory(row.keyword.domainId, snapshots[0].checkedAt);
+  return snapshots;
+}
+
+/**
+ * Check every tracked keyword of a domain sequentially
+ */
+export async function checkDomainKeywordRankings(domainId: number): Promise<{ checked: number; failed: number }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const keywords = await db.select({ id: trackedKeywords.id }).from(trackedKeywords).where(eq(trackedKeywords.domainId, domainId));
+
+  let checked = 0;
+  let failed = 0;
+  for (let index = 0; index < keywords.length; index++) {
+    const keyword = keywords[index];
+    // 検索エンジンへの負荷を避けるためキーワード間で待機
+    if (index > 0) await new Promise(resolve => setTimeout(resolve, KEYWORD_CHECK_DELAY_MS));
+    try {
+      await checkKeywordRanking(keyword.id);
+      checked++;
+    } catch (error) {
+      console.error(`Rank check failed for keyword ${keyword.id}:`, error);
+      failed++;
+    }
+  }
+
+  if (checked > 0) await runAlertEvaluation(domainId, "serp");
+
+  return { checked, failed };
+}
+
+/**
+ * Get SERP position history of one profile next to the GSC average, with competitors that moved above us in the latest check
+ */
+export async function getSerpHistory(keywordId: number, profileId?: number, limit: number = 30): Promise<{
+  profiles: KeywordProfile[];
+  profileId: number;
+  history: SerpHistoryPoint[];
+  latest: SerpSnapshotRow | null;
+  competitorsAbove: StoredSerpResult[];
+  movedAbove: CompetitorMovement[];
+}> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const keyword = await db
+    .select({ domain: trackedDomains.domain })
+    .from(trackedKeywords)
+    .innerJoin(trackedDomains, eq(trackedKeywords.domainId, trackedDomains.id))
+    .where(eq(trackedKeywords.id, keywordId))
+    .limit(1);
+  if (!keyword[0]) throw new Error("Keyword not found");
+
+  const profiles = await getKeywordProfiles(keywordId);
+  const profile = profiles.find(p => p.id === profileId) ?? profiles[0];
+
+  const snapshots = (await db
+    .select()
+    .from(serpSnapshots)
+    .where(and(eq(serpSnapshots.keywordId, keywordId), eq(serpSnapshots.profileId, profile.id)))
+    .orderBy(desc(serpSnapshots.checkedAt))
+    .limit(limit)).reverse();
+
+  const oldest = snapshots[0]?.checkedAt;
+  const gscRows = oldest
+    ? await db
+      .select({ date: keywordHistory.date, position: keywordHistory.position })
+      .from(keywordHistory)
+      // GSCは数日遅れるため、最古のスナップショットより少し前から取得
+      .where(and(
+        eq(keywordHistory.keywordId, keywordId),
+        gte(keywordHistory.date, new Date(oldest.getTime() - 7 * 24 * 60 * 60 * 1000))
+      ))
+    : [];
+
+  const latest = snapshots[snapshots.length - 1] ?? null;
+  const previous = snapshots[snapshots.length - 2] ?? null;
+
+  return {
+    profiles,
+    profileId: profile.id,
+    history: pairWithGscPositions(snapshots, gscRows),
+    latest,
+    competitorsAbove: latest ? findCompetitorsAbove(latest, keyword[0].domain) : [],
+    movedAbove: latest && previous ? diffCompetitorsAbove(previous, latest, keyword[0].domain) : [],
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * robots.txt Service
+ * robots.txtの取得・解析と、URLごとのクロール可否判定
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+// 全許可（robots.txtが存在しない場合など）
+export const ALLOW_ALL: RobotsTxt = { groups: [], sitemaps: [] };
+
+// 全拒否（robots.txtがサーバーエラーを返した場合など）
+export const DISALLOW_ALL: RobotsTxt = {
+  groups: [{ userAgents: ["*"], rules: [{ allow: false, path: "/" }] }],
+  sitemaps: [],
+};
+
+/**
+ * Parse robots.txt content (RFC 9309)
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasUserAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case "user-agent":
+        // 連続するUser-agent行は同じグループにまとめる
+        if (!current || !lastWasUserAgent) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasUserAgent = true;
+        break;
+      case "allow":
+      case "disallow":
+        if (current) {
+          // 空のDisallowは全許可を意味するためルールとして扱わない
+          if (value || field === "allow") {
+            current.rules.push({ allow: field === "allow", path: value });
+          }
+        }
+        lastWasUserAgent = false;
+        break;
+      case "sitemap":
+        if (value) sitemaps.push(value);
+        break;
+      default:
+        lastWasUserAgent = false;
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+// パスパターンを正規表現に変換（* と $ をサポート）
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+// User-agentに最も適合するグループを選択
+function selectGroups(robots: RobotsTxt, userAgent: string): RobotsGroup[] {
+  const agent = userAgent.toLowerCase();
+  const specific = robots.groups.filter(group =>
+    group.userAgents.some(ua => ua !== "*" && agent.includes(ua))
+  );
+  if (specific.length > 0) return specific;
+  return robots.groups.filter(group => group.userAgents.includes("*"));
+}
+
+/**
+ * Check whether a URL may be crawled by the given user agent.
+ * The longest matching rule wins; Allow wins ties.
+ */
+export function isAllowedByRobots(robots: RobotsTxt, url: string, userAgent: string): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return false;
+  }
+
+  if (path === "/robots.txt") return true;
+
+  let matched: RobotsRule | null = null;
+  for (const group of selectGroups(robots, userAgent)) {
+    for (const rule of group.rules) {
+      if (!patternToRegExp(rule.path).test(path)) continue;
+      if (
+        !matched ||
+        rule.path.length > matched.path.length ||
+        (rule.path.length === matched.path.length && rule.allow)
+      ) {
+        matched = rule;
+      }
+    }
+  }
+
+  return matched ? matched.allow : true;
+}
+
+/**
+ * Fetch and parse robots.txt for an origin.
+ * 4xx is treated as "allow all" and 5xx / network errors as "disallow all", as Google does.
+ */
+export async function fetchRobotsTxt(origin: string, userAgent: string): Promise<RobotsTxt> {
+  try {
+    const response = await fetch(new URL("/robots.txt", origin).toString(), {
+      headers: { "User-Agent": userAgent },
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (response.ok) {
+      return parseRobotsTxt(await response.text());
+    }
+    if (response.status >= 400 && response.status < 500) {
+      return ALLOW_ALL;
+    }
+    return DISALLOW_ALL;
+  } catch (error) {
+    console.error(`robots.txt fetch error for ${origin}:`, error);
+    return DISALLOW_ALL;
+  }
+}
@@ -1,20 +1,230 @@
 /**
- * 毎日自動更新スケジューラー
- * 登録されたドメインのSearch ConsoleデータとPageSpeedデータを毎日更新
+ * ジョブスケジューラー
+ * 登録されたドメインの定期ジョブ（Search Console / PageSpeed / SERP / LLM可視性）とダイジェストを
+ * 永続ジョブキュー（sync_jobs）に登録し、ワーカーとして実行する
  */
 
+import { hostname } from 'os';
 import { getDb } from '../db';
-import { trackedDomains, pageSpeedHistory } from '../../drizzle/schema';
-import { eq } from 'drizzle-orm';
-import { fetchPageSpeedInsights, PageSpeedMetrics } from './pageSpeedInsights';
+import { aiCitationChecks, digestSettings, trackedDomains, trackedKeywords, trackedPrompts } from '../../drizzle/schema';
+import type { DigestSettings, SyncJob, TrackedDomain } from '../../drizzle/schema';
+import { and, desc, eq, ne } from 'drizzle-orm';
+import { claimDueJobs, registerJobHandler, removeJobs, runJob, upsertRecurringJob } from './jobQueue';
+import type { JobType } from './jobQueue';
+import { executeBackfillRun, getValidAccessToken, syncSearchConsoleDomain } from './googleSearchConsole';
+import { syncDomainPageSpeed } from './pageSpeedInsights';
+import { checkDomainKeywordRankings } from './rankTracker';
+import { brandTermsForDomain, createCitationProbeAdapters, promptsForKeywords, runCitationProbes } from './citationProbe';
+import type { CitationProbeReport } from './citationProbe';
+import { isPromptDue, latestTrackedPromptsReport, runTrackedPrompts } from './promptTracking';
+import { recordAiCitationCheck, runAlertEvaluation } from './alerting';
+import { digestCronExpression, runScheduledDigest } from './digest';
+
+/** Schedules of the jobs registered for every tracked domain (cron in JST) */
+export const DOMAIN_JOB_SCHEDULES: Array<{ jobType: Exclude<JobType, 'digest'>; cronExpression: string }> = [
+  { jobType: 'search_console', cronExpression: '0 3 * * *' },
+  { jobType: 'pagespeed', cronExpression: '30 3 * * *' },
+  { jobType: 'serp', cronExpression: '0 4 * * *' },
+  // 追跡プロンプトは毎日確認し、スケジュールの間隔が経過したものだけを質問
+  { jobType: 'ai_visibility', cronExpression: '0 5 * * *' },
+];
+const DOMAIN_JOB_TIMEZONE = 'Asia/Tokyo';
+/** Keywords turned into prompts for domains without tracked prompts */
+const AI_VISIBILITY_KEYWORD_LIMIT = 10;
+const POLL_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Job key of a domain's recurring job
+ */
+export function domainJobKey(jobType: JobType, domainId: number): string {
+  return `${jobType}:domain:${domainId}`;
+}
+
+/**
+ * Job key of a user's digest job
+ */
+export function digestJobKey(userId: number): string {
+  return `digest:user:${userId}`;
+}
+
+/**
+ * Register the recurring jobs of a tracked domain
+ */
+export async function scheduleDomainJobs(domain: Pick<TrackedDomain, 'id' | 'userId'>): Promise<void> {
+  for (const schedule of DOMAIN_JOB_SCHEDULES) {
+    await upsertRecurringJob({
+      jobKey: domainJobKey(schedule.jobType, domain.id),
+      userId: domain.userId,
+      domainId: domain.id,
+      jobType: schedule.jobType,
+      cronExpression: schedule.cronExpression,
+      timezone: DOMAIN_JOB_TIMEZONE,
+    });
+  }
+}
+
+/**
+ * Remove the recurring jobs of a deleted domain
+ */
+export async function unscheduleDomainJobs(domainId: number): Promise<void> {
+  await removeJobs(DOMAIN_JOB_SCHEDULES.map(schedule => domainJobKey(schedule.jobType, domainId)));
+}
+
+/**
+ * Register, reschedule or remove a user's digest job to match their digest settings
+ */
+export async function scheduleDigestJob(settings: DigestSettings): Promise<void> {
+  if (settings.cadence === 'off') {
+    await removeJobs([digestJobKey(settings.userId)]);
+    return;
+  }
+  await upsertRecurringJob({
+    jobKey: digestJobKey(settings.userId),
+    userId: settings.userId,
+    jobType: 'digest',
+    cronExpression: digestCronExpression(settings),
+    timezone: settings.timezone,
+  });
+}
+
+// ジョブ対象のドメインを取得
+async function loadJobDomain(job: SyncJob): Promise<TrackedDomain> {
+  const db = await getDb();
+  if (!db) throw new Error('Database not available');
+  if (!job.domainId) throw new Error(`Job ${job.id} has no domain`);
+
+  const domain = await db.select().from(trackedDomains).where(eq(trackedDomains.id, job.domainId)).limit(1);
+  if (!domain[0]) throw new Error(`Domain ${job.domainId} not found`);
+  return domain[0];
+}
+
+/**
+ * Register the handler of each job type
+ */
+export function registerJobHandlers() {
+  registerJobHandler('search_console', async (job, { log }) => {
+    // 一回限りのバックフィルジョブ（ペイロードにランのIDを持つ）
+    const backfillRunId = (job.payload as { backfillRunId?: number } | null)?.backfillRunId;
+    if (backfillRunId) {
+      await executeBackfillRun(backfillRunId);
+      log(`Backfill run ${backfillRunId} completed`);
+      return;
+    }
+
+    const domain = await loadJobDomain(job);
+    if (!domain.searchConsoleProperty) {
+      log(`${domain.domain} has no Search Console property; skipped`);
+      return;
+    }
+    const accessToken = await getValidAccessToken(domain.userId);
+    const queries = await syncSearchConsoleDomain(domain.userId, accessToken, domain);
+    log(`Synced ${queries} queries of ${domain.searchConsoleProperty}`);
+  });
+
+  registerJobHandler('pagespeed', async (job, { log }) => {
+    const domain = await loadJobDomain(job);
+    const analyzed = await syncDomainPageSpeed(domain);
+    if (analyzed === 0) throw new Error(`PageSpeed analysis failed for every URL of ${domain.domain}`);
+    log(`Analyzed ${analyzed} URLs`);
+  });
+
+  registerJobHandler('serp', async (job, { log }) => {
+    const domain = await loadJobDomain(job);
+    const { checked, failed } = await checkDomainKeywordRankings(domain.id);
+    if (checked === 0 && failed > 0) throw new Error(`All ${failed} rank checks failed`);
+    log(`Checked ${checked} keyword profiles${failed > 0 ? `, ${failed} failed` : ''}`);
+  });
+
+  registerJobHandler('ai_visibility', async (job, { log }) => {
+    const db = await getDb();
+    if (!db) throw new Error('Database not available');
+    const domain = await loadJobDomain(job);
+
+    const adapters = createCitationProbeAdapters();
+    if (adapters.length === 0) {
+      log('No citation probe API keys configured; skipped');
+      return;
+    }
+
+    const prompts = await db.select().from(trackedPrompts)
+      .where(and(eq(trackedPrompts.domainId, domain.id), eq(trackedPrompts.isActive, true)));
+
+    let report: CitationProbeReport | null;
+    let asked: number;
+    if (prompts.length > 0) {
+      const due = prompts.filter(prompt => isPromptDue(prompt));
+      if (due.length === 0) {
+        log('No tracked prompts due; skipped');
+        return;
+      }
+      const ran = await runTrackedPrompts(domain, due, adapters);
+      if (!ran) {
+        log('No configured platform for the due prompts; skipped');
+        return;
+      }
+      if (ran.platforms.every(platform => platform.score === null)) {
+        throw new Error('Every citation probe request failed');
+      }
+      // その日に質問したプロンプトの組み合わせでスコアが変わらないよう、全プロンプトの最新の回答で記録
+      report = await latestTrackedPromptsReport(domain, prompts);
+      if (!report) {
+        log('No answered tracked prompts; skipped');
+        return;
+      }
+      asked = due.length;
+    } else {
+      // 追跡プロンプトがないドメインは、追跡キーワードから作った質問を週1回実行
+      const latest = await db.select({ checkedAt: aiCitationChecks.checkedAt })
+        .from(aiCitationChecks)
+        .where(eq(aiCitationChecks.domainId, domain.id))
+        .orderBy(desc(aiCitationChecks.checkedAt))
+        .limit(1);
+      if (!isPromptDue({ schedule: 'weekly', isActive: true, lastRunAt: latest[0]?.checkedAt ?? null })) {
+        log('Keyword prompts not due; skipped');
+        return;
+      }
+
+      const keywords = await db.select({ keyword: trackedKeywords.keyword })
+        .from(trackedKeywords)
+        .where(eq(trackedKeywords.domainId, domain.id))
+        .orderBy(desc(trackedKeywords.createdAt))
+        .limit(AI_VISIBILITY_KEYWORD_LIMIT);
+      if (keywords.length === 0) {
+        log('No tracked prompts or keywords; skipped');
+        return;
+      }
+
+      report = await runCitationProbes(
+        { domain: domain.domain, brandTerms: brandTermsForDomain(domain.domain) },
+        promptsForKeywords(keywords.map(k => k.keyword)),
+        adapters
+      );
+      asked = keywords.length;
+    }
+
+    if (report.platforms.every(platform => platform.score === null)) {
+      throw new Error('Every citation probe request failed');
+    }
+    await recordAiCitationCheck(domain.id, report);
+    await runAlertEvaluation(domain.id, 'ai_citation');
+    log(`Asked ${asked} prompts on ${report.platforms.map(platform => platform.platform).join(', ')}; overall visibility ${report.overallVisibility}`);
+  });
+
+  registerJobHandler('digest', async (job, { log }) => {
+    const sent = await runScheduledDigest(job.userId);
+    log(sent ? 'Digest sent' : 'Digest not due; skipped');
+  });
+}
 
 export class SchedulerService {
   private static isRunning = false;
-  private static intervalId: NodeJS.Timeout | null = null;
+  private static timeoutId: NodeJS.Timeout | null = null;
+  private static readonly workerId = `${hostname()}:${process.pid}`;
+  private static activeJobs = new Set<number>();
 
   /**
-   * スケジューラーを開始
-   * 毎日午前3時（JST）に自動更新を実行
+   * ワーカーを開始
+   * すべてのドメインとダイジェストの定期ジョブを登録し、実行時刻を過ぎたジョブを定期的に取得して実行する
    */
   static start() {
     if (this.isRunning) {
@@ -23,135 +233,70 @@ export class SchedulerService {
     }
 
     this.isRunning = true;
-    console.log('[Scheduler] Started - Daily updates enabled');
-
-    // 初回実行（サーバー起動時）- 5分後に実行
-    setTimeout(() => {
-      this.runDailyUpdate().catch(console.error);
-    }, 5 * 60 * 1000);
+    registerJobHandlers();
+    console.log(`[Scheduler] Started worker ${this.workerId}`);
 
-    // 24時間ごとに実行（86400000ms = 24時間）
-    this.intervalId = setInterval(() => {
-      this.runDailyUpdate().catch(console.error);
-    }, 24 * 60 * 60 * 1000);
+    this.ensureScheduledJobs()
+      .catch(error => console.error('[Scheduler] Failed to register scheduled jobs:', error))
+      .finally(() => this.poll());
   }
 
   /**
-   * スケジューラーを停止
+   * ワーカーを停止（実行中のジョブは最後まで実行される）
    */
   static stop() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
     }
     this.isRunning = false;
     console.log('[Scheduler] Stopped');
   }
 
   /**
-   * 毎日の更新処理を実行
+   * 既存のドメインとダイジェスト設定に対応する定期ジョブを登録
    */
-  static async runDailyUpdate() {
-    console.log('[Scheduler] Starting daily update...', new Date().toISOString());
+  static async ensureScheduledJobs() {
+    const db = await getDb();
+    if (!db) {
+      console.error('[Scheduler] Database not available');
+      return;
+    }
 
-    try {
-      const db = await getDb();
-      if (!db) {
-        console.error('[Scheduler] Database not available');
-        return;
-      }
-      
-      // すべてのドメインを取得
-      const domains = await db
-        .select()
-        .from(trackedDomains);
-
-      console.log(`[Scheduler] Found ${domains.length} domains to update`);
-
-      for (const domain of domains) {
-        try {
-          // PageSpeed Insightsデータを更新
-          await this.updatePageSpeedData(domain.domain, domain.id);
-          
-          console.log(`[Scheduler] Updated data for ${domain.domain}`);
-        } catch (error) {
-          console.error(`[Scheduler] Error updating ${domain.domain}:`, error);
-        }
-      }
+    const domains = await db.select().from(trackedDomains);
+    for (const domain of domains) {
+      await scheduleDomainJobs(domain);
+    }
 
-      console.log('[Scheduler] Daily update completed', new Date().toISOString());
-    } catch (error) {
-      console.error('[Scheduler] Daily update failed:', error);
+    const digests = await db.select().from(digestSettings).where(ne(digestSettings.cadence, 'off'));
+    for (const settings of digests) {
+      await scheduleDigestJob(settings);
     }
+
+    console.log(`[Scheduler] Registered jobs for ${domains.length} domains and ${digests.length} digests`);
   }
 
   /**
-   * 特定ドメインのPageSpeedデータを更新
+   * 実行時刻を過ぎたジョブを取得して実行（ジョブの完了は待たずに次のポーリングを予約）
    */
-  private static async updatePageSpeedData(domain: string, domainId: number) {
-    try {
-      const url = domain.startsWith('http') ? domain : `https://${domain}`;
-      
-      // モバイルとデスクトップの両方を分析
-      const [mobileResult, desktopResult] = await Promise.all([
-        fetchPageSpeedInsights(url, 'mobile').catch(() => null),
-        fetchPageSpeedInsights(url, 'desktop').catch(() => null),
-      ]);
-
-      const db = await getDb();
-      if (!db) return null;
-
-      const now = new Date();
-
-      // モバイルデータを保存
-      if (mobileResult) {
-        await db.insert(pageSpeedHistory).values({
-          domainId,
-          url: `${url} (mobile)`,
-          date: now,
-          performanceScore: mobileResult.performanceScore,
-          accessibilityScore: mobileResult.accessibilityScore,
-          bestPracticesScore: mobileResult.bestPracticesScore,
-          seoScore: mobileResult.seoScore,
-          fcp: mobileResult.fcp,
-          lcp: mobileResult.lcp,
-          cls: mobileResult.cls,
-          tbt: mobileResult.tbt,
-          speedIndex: mobileResult.speedIndex,
-        });
-      }
+  private static async poll() {
+    if (!this.isRunning) return;
 
-      // デスクトップデータを保存
-      if (desktopResult) {
-        await db.insert(pageSpeedHistory).values({
-          domainId,
-          url: `${url} (desktop)`,
-          date: now,
-          performanceScore: desktopResult.performanceScore,
-          accessibilityScore: desktopResult.accessibilityScore,
-          bestPracticesScore: desktopResult.bestPracticesScore,
-          seoScore: desktopResult.seoScore,
-          fcp: desktopResult.fcp,
-          lcp: desktopResult.lcp,
-          cls: desktopResult.cls,
-          tbt: desktopResult.tbt,
-          speedIndex: desktopResult.speedIndex,
-        });
+    try {
+      const jobs = await claimDueJobs(this.workerId);
+      for (const job of jobs) {
+        this.activeJobs.add(job.id);
+        runJob(job, this.workerId)
+          .catch(error => console.error(`[Scheduler] Job ${job.id} could not be finished:`, error))
+          .finally(() => this.activeJobs.delete(job.id));
       }
-
-      return { mobile: mobileResult, desktop: desktopResult };
     } catch (error) {
-      console.error(`[Scheduler] PageSpeed update failed for ${domain}:`, error);
-      return null;
+      console.error('[Scheduler] Polling failed:', error);
     }
-  }
 
-  /**
-   * 手動で更新を実行
-   */
-  static async manualUpdate(domain: string, domainId: number) {
-    console.log(`[Scheduler] Manual update requested for ${domain}`);
-    return this.updatePageSpeedData(domain, domainId);
+    if (this.isRunning) {
+      this.timeoutId = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+    }
   }
 
   /**
@@ -160,12 +305,8 @@ export class SchedulerService {
   static getStatus() {
     return {
       isRunning: this.isRunning,
-      nextRun: this.intervalId ? new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString() : null,
+      workerId: this.workerId,
+      activeJobs: Array.from(this.activeJobs),
     };
   }
 }
-
-// サーバー起動時にスケジューラーを自動開始
-if (process.env.NODE_ENV === 'production') {
-  SchedulerService.start();
-}
@@ -0,0 +1,313 @@
+/**
+ * Schema Suggestions Service
+ * ページの内容からLLMでschema.orgのJSON-LDを生成し、構造化データのルールで検証して既存のマークアップとの差分を返す
+ */
+
+import { invokeLLM } from "../_core/llm";
+import type { Message } from "../_core/llm";
+import { extractCanonical, extractHeadings, extractImages, extractMetaContent, extractTitle, resolveUrl, stripTags } from "./htmlExtractor";
+import type { ExtractedHeading } from "./htmlExtractor";
+import { collectTypedNodes, extractStructuredData, typesOf, validateStructuredData } from "./structuredData";
+import type { StructuredDataNode, StructuredDataReport } from "./structuredData";
+
+/** Page types the markup is generated for */
+export const SCHEMA_PAGE_TYPES = [
+  "Article",
+  "BlogPosting",
+  "NewsArticle",
+  "Product",
+  "FAQPage",
+  "HowTo",
+  "LocalBusiness",
+  "Organization",
+  "WebPage",
+] as const;
+
+export type SchemaPageType = (typeof SCHEMA_PAGE_TYPES)[number];
+
+export interface SchemaPageContent {
+  url: string;
+  title: string | null;
+  description: string | null;
+  canonical: string | null;
+  headings: ExtractedHeading[];
+  /** Main text, truncated for the prompt */
+  text: string;
+  images: string[];
+  /** Types already marked up on the page */
+  existingTypes: string[];
+}
+
+export interface LineDiff {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface SchemaSuggestion {
+  url: string;
+  contentType: SchemaPageType;
+  /** Generated JSON-LD (a single entity or an @graph) */
+  jsonLd: StructuredDataNode;
+  /** Ready-to-paste script tag */
+  script: string;
+  report: StructuredDataReport;
+  /** Existing markup as formatted JSON-LD, null when the page has none */
+  existing: string | null;
+  diff: LineDiff[];
+}
+
+const MAX_TEXT_LENGTH = 5000;
+const MAX_DIFF_LINES = 2000;
+// 検証エラーがあった場合にLLMへ修正を依頼する回数
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const QUESTION_HEADING = /[?？]\s*$/;
+const STEP_HEADING = /手順|やり方|方法|ステップ|how to|steps?\b/i;
+
+/**
+ * Collect the parts of a page the markup is generated from
+ */
+export function summarizePageForSchema(html: string, url: string): SchemaPageContent {
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  const main = body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1] ?? body;
+
+  return {
+    url,
+    title: extractTitle(html),
+    description: extractMetaContent(html, "description"),
+    canonical: extractCanonical(html, url),
+    headings: extractHeadings(html).filter(h => h.level <= 3).slice(0, 40),
+    text: stripTags(main).slice(0, MAX_TEXT_LENGTH),
+    images: Array.from(new Set(
+      extractImages(html)
+        .map(img => resolveUrl(img.src, url))
+        .filter((src): src is string => !!src)
+    )).slice(0, 5),
+    existingTypes: Array.from(new Set(extractStructuredData(html).items.flatMap(item => collectTypedNodes(item.data).flatMap(typesOf)))),
+  };
+}
+
+/**
+ * Guess the page type from existing markup, the URL and the heading outline (a hint for the model)
+ */
+export function detectPageContentType(page: Pick<SchemaPageContent, "url" | "headings" | "existingTypes">): SchemaPageType {
+  const existing = SCHEMA_PAGE_TYPES.find(type => type !== "WebPage" && type !== "Organization" && page.existingTypes.includes(type));
+  if (existing) return existing;
+
+  const path = (() => {
+    try {
+      return new URL(page.url).pathname.toLowerCase();
+    } catch {
+      return "";
+    }
+  })();
+  if (/\/(products?|items?|shop|store)\//.test(path)) return "Product";
+  if (/\/(news|press)\//.test(path)) return "NewsArticle";
+  if (/\/(blog|articles?|column|posts?|magazine)\//.test(path)) return "BlogPosting";
+  if (page.headings.filter(h => QUESTION_HEADING.test(h.text)).length >= 2 || /\/(faq|help)\b/.test(path)) return "FAQPage";
+  if (page.headings.some(h => h.level <= 2 && STEP_HEADING.test(h.text))) return "HowTo";
+  if (path === "/" || path === "") return "Organization";
+  return "WebPage";
+}
+
+/**
+ * Combine entities into one JSON-LD document: the entity itself, or an @graph when there are several
+ */
+export function combineJsonLd(entities: StructuredDataNode[]): StructuredDataNode {
+  const members = entities.map(entity => {
+    const { "@context": _context, ...rest } = entity;
+    return rest;
+  });
+  return members.length === 1
+    ? { "@context": "https://schema.org", ...members[0] }
+    : { "@context": "https://schema.org", "@graph": members };
+}
+
+/**
+ * Wrap a JSON-LD document in a script tag, escaping <, > and & so text such as "</script>" cannot close the tag
+ */
+export function formatJsonLdScript(jsonLd: StructuredDataNode): string {
+  const json = JSON.stringify(jsonLd, null, 2)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026");
+  return `<script type="application/ld+json">\n${json}\n</script>`;
+}
+
+/**
+ * Line diff (longest common subsequence) between two texts
+ */
+export function diffLines(before: string, after: string): LineDiff[] {
+  const a = before ? before.split("\n").slice(0, MAX_DIFF_LINES) : [];
+  const b = after ? after.split("\n").slice(0, MAX_DIFF_LINES) : [];
+
+  // lcs[i][j] = a[i..]とb[j..]の最長共通部分列の長さ
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: "removed", text: a[i++] });
+    } else {
+      diff.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: "removed", text: a[i++] });
+  while (j < b.length) diff.push({ type: "added", text: b[j++] });
+  return diff;
+}
+
+// LLMに渡すページ内容のプロンプト
+function buildSchemaPrompt(page: SchemaPageContent, hint: SchemaPageType): string {
+  return `以下のWebページに設置するschema.orgのJSON-LDを作成してください。
+
+## ページ
+URL: ${page.url}
+${page.canonical && page.canonical !== page.url ? `canonical: ${page.canonical}\n` : ""}タイトル: ${page.title ?? "（なし）"}
+メタディスクリプション: ${page.description ?? "（なし）"}
+既存の構造化データの型: ${page.existingTypes.length > 0 ? page.existingTypes.join(", ") : "（なし）"}
+推定されるページの種類: ${hint}
+
+## 見出し
+${page.headings.map(h => `${"#".repeat(h.level)} ${h.text}`).join("\n") || "（なし）"}
+
+## 画像
+${page.images.join("\n") || "（なし）"}
+
+## 本文（抜粋）
+${page.text}
+
+## ルール
+1. contentTypeには、ページ内容に最も合う種類を選んでください（推定は参考情報です）
+2. entitiesには、ページの主エンティティと、必要に応じてBreadcrumbList・Organization（運営者）を含めてください
+3. 各エンティティのjsonには、@typeを含むJSON-LDオブジェクトをJSON文字列で出力してください（@contextは不要）
+4. ページに書かれている事実だけを使ってください。価格・評価・住所・日付などが本文にない場合、そのプロパティは省略してください
+5. プレースホルダー（「○○」「example.com」など）は使わないでください
+6. URLはすべて絶対URLにしてください
+7. FAQPageの質問と回答は、ページに表示されているものだけを含めてください
+8. Googleのリッチリザルトの必須プロパティ（Productのname・offers、FAQPageのmainEntityなど）をページの情報で満たしてください
+9. テキストはページと同じ言語で記述してください`;
+}
+
+const SCHEMA_RESPONSE_FORMAT = {
+  type: "json_schema" as const,
+  json_schema: {
+    name: "schema_markup",
+    strict: true,
+    schema: {
+      type: "object",
+      properties: {
+        contentType: { type: "string", enum: [...SCHEMA_PAGE_TYPES], description: "ページの種類" },
+        entities: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: { type: "string", description: "エンティティの@type" },
+              json: { type: "string", description: "エンティティのJSON-LD（JSON文字列）" },
+            },
+            required: ["type", "json"],
+            additionalProperties: false,
+          },
+          description: "ページに設置するエンティティ",
+        },
+      },
+      required: ["contentType", "entities"],
+      additionalProperties: false,
+    },
+  },
+};
+
+// LLMの出力からエンティティを取り出す（JSONとして読めないものは検証エラーとして扱う）
+function parseSchemaResponse(content: string): { contentType: SchemaPageType; entities: StructuredDataNode[]; invalid: string[] } {
+  const parsed = JSON.parse(content) as { contentType: SchemaPageType; entities: Array<{ type: string; json: string }> };
+  const entities: StructuredDataNode[] = [];
+  const invalid: string[] = [];
+  for (const entity of parsed.entities) {
+    try {
+      const value = JSON.parse(entity.json);
+      if (value && typeof value === "object" && !Array.isArray(value)) {
+        entities.push(value as StructuredDataNode);
+      } else {
+        invalid.push(entity.type);
+      }
+    } catch {
+      invalid.push(entity.type);
+    }
+  }
+  return { contentType: parsed.contentType, entities, invalid };
+}
+
+// 検証エラーをLLMへの修正依頼の文面にする
+function describeValidationErrors(report: StructuredDataReport, invalid: string[]): string {
+  const lines = [
+    ...invalid.map(type => `- ${type}: jsonが有効なJSONではありません`),
+    ...report.items.flatMap(item => item.errors.map(error => `- ${item.types.join(", ")} ${error.path}: ${error.message}`)),
+  ];
+  return `生成したJSON-LDに以下のエラーがあります。ページに書かれている情報の範囲で修正し、同じ形式で全体を出力し直してください。ページに情報がないプロパティは推測せず、そのエンティティを省略してください。\n${lines.join("\n")}`;
+}
+
+/**
+ * Generate JSON-LD for a page with the LLM, validate it with the structured data rules
+ * (asking the model to fix errors once) and diff it against the page's existing markup
+ */
+export async function suggestSchemaMarkup(html: string, url: string): Promise<SchemaSuggestion> {
+  const page = summarizePageForSchema(html, url);
+  const hint = detectPageContentType(page);
+  const messages: Message[] = [
+    { role: "system", content: "あなたは構造化データ（schema.org / JSON-LD）の専門家です。そのまま貼り付けて使えるマークアップだけを出力します。" },
+    { role: "user", content: buildSchemaPrompt(page, hint) },
+  ];
+
+  let attempt = 0;
+  while (true) {
+    const result = await invokeLLM({ messages, response_format: SCHEMA_RESPONSE_FORMAT });
+    const content = result.choices[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("Invalid response from LLM");
+    }
+
+    const { contentType, entities, invalid } = parseSchemaResponse(content);
+    if (entities.length === 0) {
+      throw new Error("LLM returned no usable JSON-LD");
+    }
+    const jsonLd = combineJsonLd(entities);
+    const script = formatJsonLdScript(jsonLd);
+    const report = validateStructuredData(extractStructuredData(script));
+
+    if ((report.errorCount > 0 || invalid.length > 0) && attempt < MAX_REPAIR_ATTEMPTS) {
+      attempt++;
+      messages.push({ role: "assistant", content });
+      messages.push({ role: "user", content: describeValidationErrors(report, invalid) });
+      continue;
+    }
+
+    // 既存のマークアップも同じ形式に揃えて比較
+    const existingItems = extractStructuredData(html).items;
+    const existing = existingItems.length > 0
+      ? JSON.stringify(combineJsonLd(existingItems.map(item => item.data)), null, 2)
+      : null;
+    const generated = JSON.stringify(jsonLd, null, 2);
+
+    return {
+      url,
+      contentType,
+      jsonLd,
+      script,
+      report,
+      existing,
+      diff: diffLines(existing ?? "", generated),
+    };
+  }
+}
@@ -7,9 +7,18 @@
 import { getDb } from "../db";
 import { trackedDomains, keywordHistory } from "../../drizzle/schema";
 import { eq } from "drizzle-orm";
+import { findDomainResult } from "./serpParser";
+import type { SerpSnapshot } from "./serpParser";
+import { createSerpProvider } from "./serpProvider";
+import type { SerpProvider, SerpTarget } from "./serpProvider";
 
-// Google検索結果からキーワード順位を取得
-export async function getKeywordRanking(keyword: string, targetDomain: string, location: string = "jp"): Promise<{
+// Google検索結果からキーワード順位を取得（国コードまたは国・都市・言語・デバイスを指定）
+export async function getKeywordRanking(
+  keyword: string,
+  targetDomain: string,
+  target: string | SerpTarget = "jp",
+  provider?: SerpProvider
+): Promise<{
   rank: number | null;
   url: string | null;
   title: string | null;
@@ -22,39 +31,31 @@ export async function getKeywordRanking(keyword: string, targetDomain: string, l
     title: string;
     snippet: string;
   }>;
+  snapshot: SerpSnapshot | null;
 }> {
   try {
-    // Google検索URLを構築
-    const searchUrl = `https://www.google.co.jp/search?q=${encodeURIComponent(keyword)}&hl=ja&gl=jp&num=100`;
-    
-    // フェッチリクエスト
-    const response = await fetch(searchUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'ja,en-US;q=0.9,en;q=0.8',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Google search failed: ${response.status}`);
-    }
-
-    const html = await response.text();
-    
-    // 検索結果をパース
-    const results = parseGoogleResults(html);
+    // 設定されたプロバイダー（スクレイピング / DataForSEO / SerpApi）から検索結果を取得
+    const serpProvider = provider ?? createSerpProvider();
+    const serpTarget = typeof target === "string" ? { location: target } : target;
+    const snapshot = await serpProvider.fetchSerp({ ...serpTarget, keyword });
     
     // ターゲットドメインの順位を検索
-    const targetResult = results.find(r => r.domain.includes(targetDomain.replace('www.', '')));
+    const targetResult = findDomainResult(snapshot, targetDomain);
     
     return {
-      rank: targetResult?.rank || null,
-      url: targetResult?.url || null,
-      title: targetResult?.title || null,
-      snippet: targetResult?.snippet || null,
-      totalResults: results.length,
-      topResults: results.slice(0, 20),
+      rank: targetResult?.position ?? null,
+      url: targetResult?.url ?? null,
+      title: targetResult?.title ?? null,
+      snippet: targetResult?.snippet ?? null,
+      totalResults: snapshot.organic.length,
+      topResults: snapshot.organic.slice(0, 20).map(result => ({
+        rank: result.position,
+        url: result.url,
+        domain: result.domain,
+        title: result.title,
+        snippet: result.snippet,
+      })),
+      snapshot,
     };
   } catch (error) {
     console.error('Keyword ranking error:', error);
@@ -65,75 +66,11 @@ export async function getKeywordRanking(keyword: string, targetDomain: string, l
       snippet: null,
       totalResults: 0,
       topResults: [],
+      snapshot: null,
     };
   }
 }
 
-// Google検索結果HTMLをパース
-function parseGoogleResults(html: string): Array<{
-  rank: number;
-  url: string;
-  domain: string;
-  title: string;
-  snippet: string;
-}> {
-  const results: Array<{
-    rank: number;
-    url: string;
-    domain: string;
-    title: string;
-    snippet: string;
-  }> = [];
-  
-  // 簡易的なパース（実際の実装ではより堅牢なパーサーを使用）
-  const linkRegex = /<a[^>]*href="\/url\?q=([^"&]+)[^"]*"[^>]*>.*?<h3[^>]*>([^<]+)<\/h3>/gi;
-  const divRegex = /<div[^>]*class="[^"]*g[^"]*"[^>]*>([\s\S]*?)<\/div>/gi;
-  
-  let match;
-  let rank = 0;
-  
-  // URLとタイトルを抽出
-  const urlMatches = Array.from(html.matchAll(/<a[^>]*href="(https?:\/\/[^"]+)"[^>]*>/gi));
-  const seenUrls = new Set<string>();
-  
-  for (const urlMatch of urlMatches) {
-    const url = urlMatch[1];
-    
-    // Google内部リンクやスポンサーリンクを除外
-    if (url.includes('google.com') || 
-        url.includes('googleadservices') ||
-        url.includes('webcache') ||
-        seenUrls.has(url)) {
-      continue;
-    }
-    
-    try {
-      const urlObj = new URL(url);
-      const domain = urlObj.hostname;
-      
-      // 重複チェック
-      if (seenUrls.has(domain)) continue;
-      seenUrls.add(domain);
-      seenUrls.add(url);
-      
-      rank++;
-      results.push({
-        rank,
-        url,
-        domain,
-        title: `Result ${rank}`, // 実際のタイトルはHTMLから抽出
-        snippet: '',
-      });
-      
-      if (rank >= 100) break;
-    } catch (e) {
-      continue;
-    }
-  }
-  
-  return results;
-}
-
 // ドメインの強みキーワードを分析（AIを活用）
 export async function analyzeDomainStrengths(domain: string): Promise<{
   keywords: Array<{
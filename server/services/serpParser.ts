@@ -0,0 +1,452 @@
+/**
+ * SERP Parser
+ * Google検索結果HTMLを自然検索結果とSERP機能（強調スニペット、PAA、ローカルパック等）に構造化
+ */
+
+import {
+  childElements,
+  decodeEntities,
+  findElements,
+  hasClass,
+  parseAttributes,
+  removeNonContent,
+  resolveUrl,
+  stripTags,
+} from "./htmlExtractor";
+import type { HtmlElement } from "./htmlExtractor";
+
+export type SerpFeatureType =
+  | "featured_snippet"
+  | "people_also_ask"
+  | "local_pack"
+  | "video_carousel"
+  | "ai_overview"
+  | "sitelinks";
+
+export interface SerpSitelink {
+  title: string;
+  url: string;
+}
+
+export interface SerpOrganicResult {
+  /** 1-based rank among organic results only */
+  position: number;
+  url: string;
+  domain: string;
+  title: string;
+  snippet: string;
+  /** Breadcrumb-style URL shown under the title */
+  displayedUrl: string | null;
+  sitelinks: SerpSitelink[];
+}
+
+interface SerpFeatureBase {
+  /** Organic rank the feature appears at (organic results above it + 1), null when the source doesn't report placement */
+  position: number | null;
+}
+
+export interface SerpFeaturedSnippet extends SerpFeatureBase {
+  type: "featured_snippet";
+  text: string;
+  listItems: string[];
+  url: string | null;
+  title: string | null;
+}
+
+export interface SerpPeopleAlsoAsk extends SerpFeatureBase {
+  type: "people_also_ask";
+  questions: string[];
+}
+
+export interface SerpLocalPack extends SerpFeatureBase {
+  type: "local_pack";
+  places: Array<{ name: string; rating: number | null; reviewCount: number | null }>;
+}
+
+export interface SerpVideoCarousel extends SerpFeatureBase {
+  type: "video_carousel";
+  videos: Array<{ title: string; url: string; domain: string }>;
+}
+
+export interface SerpAiOverview extends SerpFeatureBase {
+  type: "ai_overview";
+  text: string;
+  citations: SerpSitelink[];
+}
+
+export interface SerpSitelinks extends SerpFeatureBase {
+  type: "sitelinks";
+  url: string;
+  count: number;
+}
+
+export type SerpFeature =
+  | SerpFeaturedSnippet
+  | SerpPeopleAlsoAsk
+  | SerpLocalPack
+  | SerpVideoCarousel
+  | SerpAiOverview
+  | SerpSitelinks;
+
+export interface SerpSnapshot {
+  keyword: string;
+  engine: "google";
+  /** Provider that produced the snapshot (e.g., scraper, dataforseo, serpapi) */
+  provider: string;
+  location: string | null;
+  fetchedAt: Date;
+  /** Result count shown above the results, if present */
+  totalResults: number | null;
+  organic: SerpOrganicResult[];
+  features: SerpFeature[];
+}
+
+export interface SerpParseContext {
+  keyword: string;
+  provider?: string;
+  location?: string | null;
+  fetchedAt?: Date;
+}
+
+const GOOGLE_BASE_URL = "https://www.google.com";
+const MAX_ORGANIC_RESULTS = 100;
+// スニペットを含む要素のクラス（現行レイアウトと、JS無効時の簡易レイアウト）
+const SNIPPET_CLASSES = ["VwiC3b", "s3v9rd", "IsZvec", "lEBKkf", "st"];
+const DISPLAYED_URL_CLASSES = ["UPmit", "tjvcx"];
+const NON_SITELINK_ANCHORS = /^(キャッシュ|類似ページ|このページを訳す|Cached|Similar|Translate this page|More results from)/i;
+const AI_OVERVIEW_HEADING = />\s*(AI Overview|AI による概要)\s*</i;
+
+type BlockKind = Exclude<SerpFeatureType, "sitelinks"> | "organic";
+
+// 強調タグ（<b>, <em>等）は語の途中に入るため空白に置換しない
+function text(html: string): string {
+  return stripTags(html.replace(/<\/?(b|em|strong|i|u|mark)\b[^>]*>/gi, "")).replace(/\s+/g, " ").trim();
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+// 結果リンクのhrefを実URLに変換（/url?q=のリダイレクトを展開し、Google内部リンクを除外）
+export function resolveResultUrl(href: string): string | null {
+  const decoded = decodeEntities(href);
+  try {
+    const parsed = new URL(decoded, GOOGLE_BASE_URL);
+    if (parsed.pathname === "/url" && /(^|\.)google\./.test(parsed.hostname)) {
+      const target = parsed.searchParams.get("q") || parsed.searchParams.get("url");
+      return target ? resolveUrl(target, GOOGLE_BASE_URL) : null;
+    }
+  } catch {
+    return null;
+  }
+
+  const url = resolveUrl(decoded, GOOGLE_BASE_URL);
+  if (!url) return null;
+  const host = new URL(url).hostname;
+  // 検索結果ページ自体や広告・キャッシュへのリンクを除外（developers.google.com等の結果は残す）
+  if (/^(www\.)?google\.[a-z.]+$/.test(host) || /(^|\.)(googleusercontent|googleadservices|googlesyndication)\.com$/.test(host)) {
+    return null;
+  }
+  return url;
+}
+
+// 見出し（h3）を含むリンクを結果タイトルとして抽出
+function findTitleAnchors(html: string): Array<{ index: number; end: number; url: string; title: string; anchorHtml: string }> {
+  const anchors: Array<{ index: number; end: number; url: string; title: string; anchorHtml: string }> = [];
+  const regex = /(<a\b[^>]*>)((?:(?!<\/a>)[\s\S])*?<h3\b[^>]*>([\s\S]*?)<\/h3>(?:(?!<\/a>)[\s\S])*?)<\/a>/gi;
+
+  for (const match of Array.from(html.matchAll(regex))) {
+    const href = parseAttributes(match[1]).href;
+    const url = href ? resolveResultUrl(href) : null;
+    const title = text(match[3]);
+    if (!url || !title) continue;
+    anchors.push({
+      index: match.index!,
+      end: match.index! + match[0].length,
+      url,
+      title,
+      anchorHtml: match[2],
+    });
+  }
+
+  return anchors;
+}
+
+function findByClass(html: string, classNames: string[], attribute?: string): HtmlElement | null {
+  for (const tag of ["div", "span"]) {
+    const found = findElements(html, tag, attrs =>
+      classNames.some(c => hasClass(attrs, c)) || (!!attribute && attribute in attrs)
+    );
+    if (found[0]) return found[0];
+  }
+  return null;
+}
+
+// 検索結果一覧のコンテナ（現行: #rso、簡易レイアウト: #main）
+function findResultsContainer(html: string): HtmlElement | null {
+  for (const id of ["rso", "search", "main"]) {
+    const container = findElements(html, "div", attrs => attrs.id === id)[0];
+    if (container) return container;
+  }
+  return findElements(html, "body")[0] ?? null;
+}
+
+// トップレベルのブロックを種類ごとに判定
+function classifyBlock(html: string): BlockKind {
+  if (/<block-component\b/i.test(html) || />\s*(強調スニペット|Featured snippet from the web)\s*</i.test(html)) {
+    return "featured_snippet";
+  }
+  if (/\brelated-question-pair\b/.test(html) || />\s*(他の人はこちらも質問|People also ask)\s*</i.test(html)) {
+    return "people_also_ask";
+  }
+  if (/<video-voyager\b/i.test(html)) {
+    return "video_carousel";
+  }
+  if (/\b(VkpGBb|rllt__details)\b/.test(html)) {
+    return "local_pack";
+  }
+  if (AI_OVERVIEW_HEADING.test(html)) {
+    return "ai_overview";
+  }
+  return "organic";
+}
+
+// 見出しを含む最も外側の要素（検索結果コンテナを含まないもの）を取得
+function findEnclosingBlock(html: string, index: number): HtmlElement | null {
+  let scope = html;
+  let offset = 0;
+
+  for (let depth = 0; depth < 50; depth++) {
+    const child = childElements(scope).find(el => el.start + offset <= index && el.end + offset > index);
+    if (!child) return null;
+    if (!/\bid=["']?(rso|search|main|center_col|rcnt)\b/.test(child.outerHtml)) {
+      return { ...child, start: child.start + offset, end: child.end + offset };
+    }
+    offset += child.start + child.outerHtml.indexOf(">") + 1;
+    scope = child.innerHtml;
+  }
+
+  return null;
+}
+
+function parseOrganicBlock(html: string): SerpOrganicResult[] {
+  const anchors = findTitleAnchors(html);
+  const results: SerpOrganicResult[] = [];
+
+  anchors.forEach((anchor, i) => {
+    const segment = html.slice(anchor.end, anchors[i + 1]?.index ?? html.length);
+    const snippetElement = findByClass(segment, SNIPPET_CLASSES, "data-sncf");
+    const cite = anchor.anchorHtml.match(/<cite\b[^>]*>([\s\S]*?)<\/cite>/i)?.[1]
+      ?? findByClass(anchor.anchorHtml, DISPLAYED_URL_CLASSES)?.innerHtml
+      ?? null;
+
+    const domain = hostOf(anchor.url);
+    const sitelinks: SerpSitelink[] = [];
+    const seen = new Set<string>([anchor.url]);
+    for (const match of Array.from(segment.matchAll(/(<a\b[^>]*>)([\s\S]*?)<\/a>/gi))) {
+      const href = parseAttributes(match[1]).href;
+      const url = href ? resolveResultUrl(href) : null;
+      const title = text(match[2]);
+      if (!url || seen.has(url) || hostOf(url) !== domain) continue;
+      if (!title || title.length > 80 || NON_SITELINK_ANCHORS.test(title)) continue;
+      seen.add(url);
+      sitelinks.push({ title, url });
+    }
+
+    results.push({
+      position: results.length + 1,
+      url: anchor.url,
+      domain,
+      title: anchor.title,
+      snippet: snippetElement ? text(snippetElement.innerHtml) : "",
+      displayedUrl: cite ? text(cite) || null : null,
+      sitelinks,
+    });
+  });
+
+  return results;
+}
+
+function parseFeaturedSnippet(html: string, position: number): SerpFeaturedSnippet {
+  const source = findTitleAnchors(html)[0];
+  const answer = findElements(html, "span", attrs => hasClass(attrs, "hgKElc"))[0]
+    ?? findElements(html, "div", attrs => attrs["data-attrid"] === "wa:/description")[0];
+  const listItems = Array.from(html.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi))
+    .map(match => text(match[1]))
+    .filter(Boolean);
+
+  return {
+    type: "featured_snippet",
+    position,
+    text: answer ? text(answer.innerHtml) : listItems.join("\n"),
+    listItems,
+    url: source?.url ?? null,
+    title: source?.title ?? null,
+  };
+}
+
+function parsePeopleAlsoAsk(html: string, position: number): SerpPeopleAlsoAsk {
+  const pairs = findElements(html, "div", attrs => hasClass(attrs, "related-question-pair") || hasClass(attrs, "Lt3Tzc"));
+  const questions = pairs
+    .map(pair => pair.attrs["data-q"] || text(pair.innerHtml.match(/<span\b[^>]*>([\s\S]*?)<\/span>/i)?.[1] ?? pair.innerHtml))
+    .filter(Boolean);
+
+  return { type: "people_also_ask", position, questions: Array.from(new Set(questions)) };
+}
+
+function parseLocalPack(html: string, position: number): SerpLocalPack {
+  let items = findElements(html, "div", attrs => hasClass(attrs, "VkpGBb"));
+  if (items.length === 0) {
+    items = findElements(html, "div", attrs => hasClass(attrs, "rllt__details"));
+  }
+
+  const places = items.map(item => {
+    const name = findElements(item.innerHtml, "div", attrs => hasClass(attrs, "dbg0pd") || attrs.role === "heading")[0]
+      ?? findElements(item.innerHtml, "span", attrs => hasClass(attrs, "OSrXXb"))[0];
+    const rating = findElements(item.innerHtml, "span", attrs => hasClass(attrs, "yi40Hd"))[0];
+    const reviews = findElements(item.innerHtml, "span", attrs => hasClass(attrs, "RDApEe"))[0];
+    const reviewCount = reviews ? text(reviews.innerHtml).replace(/[^\d]/g, "") : "";
+
+    return {
+      name: name ? text(name.innerHtml) : "",
+      rating: rating ? parseFloat(text(rating.innerHtml)) || null : null,
+      reviewCount: reviewCount ? Number(reviewCount) : null,
+    };
+  }).filter(place => place.name);
+
+  return { type: "local_pack", position, places };
+}
+
+function parseVideoCarousel(html: string, position: number): SerpVideoCarousel {
+  const videos = findElements(html, "video-voyager").map(voyager => {
+    const anchor = voyager.innerHtml.match(/<a\b[^>]*>/i)?.[0];
+    const href = anchor ? parseAttributes(anchor).href : undefined;
+    const url = href ? resolveResultUrl(href) : null;
+    const heading = findElements(voyager.innerHtml, "div", attrs => attrs.role === "heading")[0]
+      ?? findElements(voyager.innerHtml, "h3")[0];
+    return {
+      title: heading ? text(heading.innerHtml) : (anchor ? parseAttributes(anchor)["aria-label"] || "" : ""),
+      url: url || "",
+      domain: url ? hostOf(url) : "",
+    };
+  }).filter(video => video.url);
+
+  return { type: "video_carousel", position, videos };
+}
+
+function parseAiOverview(html: string, position: number): SerpAiOverview {
+  const citations: SerpSitelink[] = [];
+  const seen = new Set<string>();
+  for (const match of Array.from(html.matchAll(/(<a\b[^>]*>)([\s\S]*?)<\/a>/gi))) {
+    const attrs = parseAttributes(match[1]);
+    const url = attrs.href ? resolveResultUrl(attrs.href) : null;
+    if (!url || seen.has(url)) continue;
+    seen.add(url);
+    citations.push({ title: attrs["aria-label"] || text(match[2]), url });
+  }
+
+  const body = html
+    .replace(/<a\b[^>]*>[\s\S]*?<\/a>/gi, " ")
+    .replace(/<(h[1-6]|div)\b[^>]*>\s*(AI Overview|AI による概要)\s*<\/\1>/i, " ");
+
+  return { type: "ai_overview", position, text: text(body).substring(0, 5000), citations };
+}
+
+// 結果件数（「約 1,230,000 件」「About 1,230,000 results」）
+function parseTotalResults(html: string): number | null {
+  const stats = findElements(html, "div", attrs => attrs.id === "result-stats")[0];
+  const digits = stats ? text(stats.innerHtml).match(/\d[\d,.\s]*\d|\d/)?.[0] : undefined;
+  if (!digits) return null;
+  const value = Number(digits.replace(/[^\d]/g, ""));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Parse a Google results page into organic results and SERP features
+ */
+export function parseSerpHtml(rawHtml: string, context: SerpParseContext): SerpSnapshot {
+  const html = removeNonContent(rawHtml);
+  const organic: SerpOrganicResult[] = [];
+  const features: SerpFeature[] = [];
+
+  // AI Overviewは検索結果コンテナの外（上部）に表示される
+  const aiHeading = html.match(AI_OVERVIEW_HEADING);
+  const aiBlock = aiHeading ? findEnclosingBlock(html, aiHeading.index!) : null;
+  if (aiBlock) {
+    features.push(parseAiOverview(aiBlock.innerHtml, 1));
+  }
+
+  const container = findResultsContainer(html);
+  const blocks = container ? childElements(container.innerHtml) : [];
+
+  for (const block of blocks) {
+    if (organic.length >= MAX_ORGANIC_RESULTS) break;
+    const position = organic.length + 1;
+    const kind = classifyBlock(block.outerHtml);
+
+    switch (kind) {
+      case "featured_snippet":
+        features.push(parseFeaturedSnippet(block.innerHtml, position));
+        break;
+      case "people_also_ask":
+        features.push(parsePeopleAlsoAsk(block.innerHtml, position));
+        break;
+      case "local_pack":
+        features.push(parseLocalPack(block.innerHtml, position));
+        break;
+      case "video_carousel":
+        features.push(parseVideoCarousel(block.innerHtml, position));
+        break;
+      case "ai_overview":
+        if (!aiBlock) features.push(parseAiOverview(block.innerHtml, position));
+        break;
+      case "organic":
+        for (const result of parseOrganicBlock(block.innerHtml)) {
+          // 同じURLが複数ブロックに現れる場合は最上位のみ
+          if (organic.some(r => r.url === result.url)) continue;
+          organic.push({ ...result, position: organic.length + 1 });
+          if (result.sitelinks.length > 0) {
+            features.push({ type: "sitelinks", position: organic.length, url: result.url, count: result.sitelinks.length });
+          }
+        }
+        break;
+    }
+  }
+
+  return {
+    keyword: context.keyword,
+    engine: "google",
+    provider: context.provider ?? "scraper",
+    location: context.location ?? null,
+    fetchedAt: context.fetchedAt ?? new Date(),
+    totalResults: parseTotalResults(html),
+    organic: organic.slice(0, MAX_ORGANIC_RESULTS),
+    features,
+  };
+}
+
+/**
+ * Normalize a domain or URL to a lowercase host without scheme, path or www.
+ */
+export function normalizeDomain(domain: string): string {
+  return domain.trim().replace(/^https?:\/\//, "").replace(/\/.*$/, "").replace(/^www\./, "").toLowerCase();
+}
+
+/**
+ * Whether a result domain belongs to the target domain (subdomains included, lookalikes excluded)
+ */
+export function isDomainMatch(resultDomain: string, domain: string): boolean {
+  const target = normalizeDomain(domain);
+  return resultDomain === target || resultDomain.endsWith(`.${target}`);
+}
+
+/**
+ * Find the best-ranked organic result belonging to a domain (subdomains included)
+ */
+export function findDomainResult<T extends Pick<SerpOrganicResult, "domain">>(snapshot: { organic: T[] }, domain: string): T | null {
+  return snapshot.organic.find(result => isDomainMatch(result.domain, domain)) ?? null;
+}
@@ -0,0 +1,496 @@
+/**
+ * SERP Provider Service
+ * 直接スクレイピング・DataForSEO互換API・SerpApi互換APIを共通インターフェースで切り替え、結果をSerpSnapshotに正規化
+ */
+
+import { getDb } from "../db";
+import { trackedDomains } from "../../drizzle/schema";
+import { eq } from "drizzle-orm";
+import { parseSerpHtml } from "./serpParser";
+import type { SerpFeature, SerpOrganicResult, SerpSitelink, SerpSnapshot } from "./serpParser";
+
+export const SERP_PROVIDER_NAMES = ["scraper", "dataforseo", "serpapi"] as const;
+export type SerpProviderName = typeof SERP_PROVIDER_NAMES[number];
+
+export interface SerpQuery {
+  keyword: string;
+  /** Country code (e.g., jp, us) */
+  location: string;
+  /** Canonical location name for city-level results (e.g., Osaka,Osaka,Japan) */
+  city?: string | null;
+  /** Explicit UULE parameter; derived from city when omitted */
+  uule?: string | null;
+  /** Interface language (e.g., ja, en); derived from location when omitted */
+  language?: string | null;
+  device?: "desktop" | "mobile";
+  /** Number of results to request */
+  depth?: number;
+}
+
+/** Market and device a SERP is fetched for */
+export type SerpTarget = Omit<SerpQuery, "keyword" | "depth">;
+
+export interface SerpProvider {
+  readonly name: SerpProviderName;
+  fetchSerp(query: SerpQuery): Promise<SerpSnapshot>;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+const DEFAULT_DEPTH = 100;
+const BROWSER_USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+const MOBILE_USER_AGENT = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1";
+
+// 国コードごとの既定言語とDataForSEOのlocation_code
+const LOCATIONS: Record<string, { language: string; dataForSeoCode: number; googleHost: string }> = {
+  jp: { language: "ja", dataForSeoCode: 2392, googleHost: "www.google.co.jp" },
+  us: { language: "en", dataForSeoCode: 2840, googleHost: "www.google.com" },
+  gb: { language: "en", dataForSeoCode: 2826, googleHost: "www.google.co.uk" },
+  ca: { language: "en", dataForSeoCode: 2124, googleHost: "www.google.ca" },
+  au: { language: "en", dataForSeoCode: 2036, googleHost: "www.google.com.au" },
+  de: { language: "de", dataForSeoCode: 2276, googleHost: "www.google.de" },
+  fr: { language: "fr", dataForSeoCode: 2250, googleHost: "www.google.fr" },
+  kr: { language: "ko", dataForSeoCode: 2410, googleHost: "www.google.co.kr" },
+  tw: { language: "zh-TW", dataForSeoCode: 2158, googleHost: "www.google.com.tw" },
+};
+
+export const SERP_COUNTRIES = Object.keys(LOCATIONS);
+
+// UULEの長さキー（canonical nameのバイト長をインデックスとする）
+const UULE_LENGTH_KEY = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/**
+ * Encode a canonical location name (e.g., Osaka,Osaka,Japan) as a Google UULE parameter
+ */
+export function encodeUule(canonicalName: string): string {
+  const bytes = Buffer.from(canonicalName, "utf8");
+  if (bytes.length === 0 || bytes.length >= UULE_LENGTH_KEY.length) {
+    throw new Error(`Location name cannot be encoded as UULE: ${canonicalName}`);
+  }
+  return `w+CAIQICI${UULE_LENGTH_KEY[bytes.length]}${bytes.toString("base64")}`;
+}
+
+function uuleFor(query: SerpQuery): string | null {
+  if (query.uule) return query.uule;
+  return query.city ? encodeUule(query.city) : null;
+}
+
+function languageFor(query: SerpQuery): string {
+  return query.language || LOCATIONS[query.location.toLowerCase()]?.language || "en";
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+async function fetchJson<T>(url: string, init: RequestInit, providerName: string): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`${providerName} request failed: ${response.status} ${body.substring(0, 200)}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Scrape Google result pages directly and parse the HTML
+ */
+export class ScraperSerpProvider implements SerpProvider {
+  readonly name = "scraper" as const;
+
+  constructor(private readonly options: { baseUrl?: string } = {}) {}
+
+  async fetchSerp(query: SerpQuery): Promise<SerpSnapshot> {
+    const location = query.location.toLowerCase();
+    const baseUrl = this.options.baseUrl || `https://${LOCATIONS[location]?.googleHost || "www.google.com"}`;
+    const params = new URLSearchParams({
+      q: query.keyword,
+      hl: languageFor(query),
+      gl: location,
+      num: String(query.depth || DEFAULT_DEPTH),
+    });
+    const uule = uuleFor(query);
+    if (uule) params.set("uule", uule);
+
+    const response = await fetch(`${baseUrl}/search?${params}`, {
+      headers: {
+        "User-Agent": query.device === "mobile" ? MOBILE_USER_AGENT : BROWSER_USER_AGENT,
+        Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+        "Accept-Language": `${languageFor(query)},en-US;q=0.9,en;q=0.8`,
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Google search failed: ${response.status}`);
+    }
+
+    return parseSerpHtml(await response.text(), { keyword: query.keyword, location, provider: this.name });
+  }
+}
+
+interface DataForSeoItem {
+  type: string;
+  rank_group?: number;
+  rank_absolute?: number;
+  url?: string | null;
+  domain?: string | null;
+  title?: string | null;
+  description?: string | null;
+  breadcrumb?: string | null;
+  text?: string | null;
+  links?: Array<{ type?: string; title?: string | null; url?: string | null }> | null;
+  rating?: { value?: number | null; votes_count?: number | null } | null;
+  items?: Array<DataForSeoItem> | null;
+  references?: Array<{ url?: string | null; title?: string | null; source?: string | null }> | null;
+}
+
+interface DataForSeoResponse {
+  status_code: number;
+  status_message: string;
+  tasks?: Array<{
+    status_code: number;
+    status_message: string;
+    result?: Array<{ se_results_count?: number; items?: DataForSeoItem[] | null }> | null;
+  }>;
+}
+
+/**
+ * DataForSEO-compatible SERP API (Google Organic Live Advanced)
+ */
+export class DataForSeoSerpProvider implements SerpProvider {
+  readonly name = "dataforseo" as const;
+
+  constructor(private readonly options: { login: string; password: string; baseUrl?: string }) {}
+
+  async fetchSerp(query: SerpQuery): Promise<SerpSnapshot> {
+    const location = LOCATIONS[query.location.toLowerCase()];
+    if (!location && !query.city) {
+      throw new Error(`Unsupported location for DataForSEO: ${query.location}`);
+    }
+
+    const baseUrl = (this.options.baseUrl || "https://api.dataforseo.com/v3").replace(/\/$/, "");
+    const auth = Buffer.from(`${this.options.login}:${this.options.password}`).toString("base64");
+    const data = await fetchJson<DataForSeoResponse>(`${baseUrl}/serp/google/organic/live/advanced`, {
+      method: "POST",
+      headers: { Authorization: `Basic ${auth}`, "Content-Type": "application/json" },
+      body: JSON.stringify([{
+        keyword: query.keyword,
+        // 都市指定時はlocation_name（例: Osaka,Osaka,Japan）で地域を絞り込む
+        ...(query.city ? { location_name: query.city } : { location_code: location!.dataForSeoCode }),
+        language_code: languageFor(query),
+        device: query.device || "desktop",
+        depth: query.depth || DEFAULT_DEPTH,
+      }]),
+    }, "DataForSEO");
+
+    const task = data.tasks?.[0];
+    if (data.status_code !== 20000 || !task || task.status_code !== 20000) {
+      throw new Error(`DataForSEO error: ${task?.status_message || data.status_message}`);
+    }
+
+    const result = task.result?.[0];
+    return normalizeDataForSeoItems(result?.items || [], {
+      keyword: query.keyword,
+      location: query.location.toLowerCase(),
+      totalResults: result?.se_results_count ?? null,
+    });
+  }
+}
+
+// DataForSEOの結果アイテムをSerpSnapshotに変換（rank_absoluteから自然検索上の位置を算出）
+export function normalizeDataForSeoItems(
+  items: DataForSeoItem[],
+  context: { keyword: string; location: string; totalResults: number | null }
+): SerpSnapshot {
+  const organic: SerpOrganicResult[] = [];
+  const features: SerpFeature[] = [];
+  const sorted = [...items].sort((a, b) => (a.rank_absolute ?? 0) - (b.rank_absolute ?? 0));
+  // 複数のlocal_packアイテムは1つのローカルパックにまとめる
+  let localPack: Extract<SerpFeature, { type: "local_pack" }> | null = null;
+
+  for (const item of sorted) {
+    const position = organic.length + 1;
+
+    switch (item.type) {
+      case "organic": {
+        if (!item.url) break;
+        const sitelinks: SerpSitelink[] = (item.links || [])
+          .filter(link => link.url && link.title)
+          .map(link => ({ title: link.title!, url: link.url! }));
+        organic.push({
+          position,
+          url: item.url,
+          domain: (item.domain || hostOf(item.url)).replace(/^www\./, ""),
+          title: item.title || "",
+          snippet: item.description || "",
+          displayedUrl: item.breadcrumb || null,
+          sitelinks,
+        });
+        if (sitelinks.length > 0) {
+          features.push({ type: "sitelinks", position, url: item.url, count: sitelinks.length });
+        }
+        break;
+      }
+      case "featured_snippet":
+        features.push({
+          type: "featured_snippet",
+          position,
+          text: item.description || "",
+          listItems: [],
+          url: item.url || null,
+          title: item.title || null,
+        });
+        break;
+      case "people_also_ask":
+        features.push({
+          type: "people_also_ask",
+          position,
+          questions: (item.items || []).map(q => q.title || "").filter(Boolean),
+        });
+        break;
+      case "local_pack":
+        if (!localPack) {
+          localPack = { type: "local_pack", position, places: [] };
+          features.push(localPack);
+        }
+        localPack.places.push({
+          name: item.title || "",
+          rating: item.rating?.value ?? null,
+          reviewCount: item.rating?.votes_count ?? null,
+        });
+        break;
+      case "video":
+        features.push({
+          type: "video_carousel",
+          position,
+          videos: (item.items || [])
+            .filter(video => video.url)
+            .map(video => ({ title: video.title || "", url: video.url!, domain: hostOf(video.url!) })),
+        });
+        break;
+      case "ai_overview":
+        features.push({
+          type: "ai_overview",
+          position,
+          text: item.text || (item.items || []).map(block => block.text || "").join(" ").trim(),
+          citations: (item.references || [])
+            .filter(ref => ref.url)
+            .map(ref => ({ title: ref.title || ref.source || "", url: ref.url! })),
+        });
+        break;
+    }
+  }
+
+  return {
+    keyword: context.keyword,
+    engine: "google",
+    provider: "dataforseo",
+    location: context.location,
+    fetchedAt: new Date(),
+    totalResults: context.totalResults,
+    organic,
+    features,
+  };
+}
+
+interface SerpApiResponse {
+  error?: string;
+  search_information?: { total_results?: number };
+  organic_results?: Array<{
+    position?: number;
+    title?: string;
+    link?: string;
+    displayed_link?: string;
+    snippet?: string;
+    sitelinks?: {
+      inline?: Array<{ title?: string; link?: string }>;
+      expanded?: Array<{ title?: string; link?: string }>;
+    };
+  }>;
+  answer_box?: { title?: string; link?: string; snippet?: string; answer?: string; list?: string[] };
+  related_questions?: Array<{ question?: string }>;
+  local_results?: { places?: Array<{ title?: string; rating?: number; reviews?: number }> };
+  inline_videos?: Array<{ title?: string; link?: string }>;
+  ai_overview?: { text_blocks?: Array<{ snippet?: string }>; references?: Array<{ title?: string; link?: string }> };
+}
+
+/**
+ * SerpApi-compatible SERP API (engine=google)
+ */
+export class SerpApiSerpProvider implements SerpProvider {
+  readonly name = "serpapi" as const;
+
+  constructor(private readonly options: { apiKey: string; baseUrl?: string }) {}
+
+  async fetchSerp(query: SerpQuery): Promise<SerpSnapshot> {
+    const location = query.location.toLowerCase();
+    const params = new URLSearchParams({
+      engine: "google",
+      q: query.keyword,
+      gl: location,
+      hl: languageFor(query),
+      num: String(query.depth || DEFAULT_DEPTH),
+      device: query.device || "desktop",
+      api_key: this.options.apiKey,
+    });
+    if (LOCATIONS[location]) {
+      params.set("google_domain", LOCATIONS[location].googleHost.replace(/^www\./, ""));
+    }
+    // SerpApiはlocationとuuleの併用不可のため、明示的なUULEを優先
+    if (query.uule) {
+      params.set("uule", query.uule);
+    } else if (query.city) {
+      params.set("location", query.city);
+    }
+
+    const data = await fetchJson<SerpApiResponse>(
+      `${this.options.baseUrl || "https://serpapi.com/search"}?${params}`,
+      { headers: { Accept: "application/json" } },
+      "SerpApi"
+    );
+    if (data.error) {
+      throw new Error(`SerpApi error: ${data.error}`);
+    }
+
+    return normalizeSerpApiResponse(data, { keyword: query.keyword, location });
+  }
+}
+
+// SerpApiのレスポンスをSerpSnapshotに変換（SERP機能の表示位置は返されないためnull）
+export function normalizeSerpApiResponse(data: SerpApiResponse, context: { keyword: string; location: string }): SerpSnapshot {
+  const organic: SerpOrganicResult[] = [];
+  const features: SerpFeature[] = [];
+
+  for (const result of data.organic_results || []) {
+    if (!result.link) continue;
+    const position = organic.length + 1;
+    const sitelinks: SerpSitelink[] = [...(result.sitelinks?.inline || []), ...(result.sitelinks?.expanded || [])]
+      .filter(link => link.link && link.title)
+      .map(link => ({ title: link.title!, url: link.link! }));
+
+    organic.push({
+      position,
+      url: result.link,
+      domain: hostOf(result.link),
+      title: result.title || "",
+      snippet: result.snippet || "",
+      displayedUrl: result.displayed_link || null,
+      sitelinks,
+    });
+    if (sitelinks.length > 0) {
+      features.push({ type: "sitelinks", position, url: result.link, count: sitelinks.length });
+    }
+  }
+
+  if (data.ai_overview) {
+    features.push({
+      type: "ai_overview",
+      position: 1,
+      text: (data.ai_overview.text_blocks || []).map(block => block.snippet || "").join(" ").trim(),
+      citations: (data.ai_overview.references || [])
+        .filter(ref => ref.link)
+        .map(ref => ({ title: ref.title || "", url: ref.link! })),
+    });
+  }
+  if (data.answer_box) {
+    features.push({
+      type: "featured_snippet",
+      position: 1,
+      text: data.answer_box.snippet || data.answer_box.answer || (data.answer_box.list || []).join("\n"),
+      listItems: data.answer_box.list || [],
+      url: data.answer_box.link || null,
+      title: data.answer_box.title || null,
+    });
+  }
+  if (data.related_questions?.length) {
+    features.push({
+      type: "people_also_ask",
+      position: null,
+      questions: data.related_questions.map(q => q.question || "").filter(Boolean),
+    });
+  }
+  if (data.local_results?.places?.length) {
+    features.push({
+      type: "local_pack",
+      position: null,
+      places: data.local_results.places.map(place => ({
+        name: place.title || "",
+        rating: place.rating ?? null,
+        reviewCount: place.reviews ?? null,
+      })),
+    });
+  }
+  if (data.inline_videos?.length) {
+    features.push({
+      type: "video_carousel",
+      position: null,
+      videos: data.inline_videos
+        .filter(video => video.link)
+        .map(video => ({ title: video.title || "", url: video.link!, domain: hostOf(video.link!) })),
+    });
+  }
+
+  return {
+    keyword: context.keyword,
+    engine: "google",
+    provider: "serpapi",
+    location: context.location,
+    fetchedAt: new Date(),
+    totalResults: data.search_information?.total_results ?? null,
+    organic,
+    features,
+  };
+}
+
+export function isSerpProviderName(value: string | null | undefined): value is SerpProviderName {
+  return !!value && (SERP_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Create a provider from environment configuration.
+ * Falls back to SERP_PROVIDER (default: scraper) when no name is given.
+ */
+export function createSerpProvider(name?: SerpProviderName | null): SerpProvider {
+  const envProvider = process.env.SERP_PROVIDER;
+  const providerName = name || (isSerpProviderName(envProvider) ? envProvider : "scraper");
+
+  switch (providerName) {
+    case "dataforseo": {
+      const login = process.env.DATAFORSEO_LOGIN;
+      const password = process.env.DATAFORSEO_PASSWORD;
+      if (!login || !password) {
+        throw new Error("DATAFORSEO_LOGIN and DATAFORSEO_PASSWORD are required for the dataforseo provider");
+      }
+      return new DataForSeoSerpProvider({ login, password, baseUrl: process.env.DATAFORSEO_API_URL });
+    }
+    case "serpapi": {
+      const apiKey = process.env.SERPAPI_API_KEY;
+      if (!apiKey) {
+        throw new Error("SERPAPI_API_KEY is required for the serpapi provider");
+      }
+      return new SerpApiSerpProvider({ apiKey, baseUrl: process.env.SERPAPI_URL });
+    }
+    default:
+      return new ScraperSerpProvider({ baseUrl: process.env.SERP_SCRAPER_BASE_URL });
+  }
+}
+
+/**
+ * Resolve the provider for a tracked domain (domain override, then deployment default)
+ */
+export async function getSerpProviderForDomain(domainId: number): Promise<SerpProvider> {
+  const db = await getDb();
+  if (!db) return createSerpProvider();
+
+  const domain = await db.select({ serpProvider: trackedDomains.serpProvider })
+    .from(trackedDomains)
+    .where(eq(trackedDomains.id, domainId))
+    .limit(1);
+
+  const override = domain[0]?.serpProvider;
+  return createSerpProvider(isSerpProviderName(override) ? override : null);
+}
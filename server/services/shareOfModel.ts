@@ -0,0 +1,191 @@
+/**
+ * Share of Model Service
+ * 保存済みのAIプラットフォームの回答から、ブランドごとの言及率・平均言及順・同時に言及された競合を集計（プラットフォーム・タグ・週別）
+ */
+
+import { getDb } from "../db";
+import { competitorDomains, promptRuns, trackedPrompts } from "../../drizzle/schema";
+import type { TrackedDomain } from "../../drizzle/schema";
+import { and, asc, eq, gte } from "drizzle-orm";
+import { promptTags } from "./promptTracking";
+import type { CompetitorMention } from "./promptTracking";
+
+/** One stored answer, as the aggregation needs it */
+export interface ShareOfModelRun {
+  platform: string;
+  tags: string[];
+  ranAt: Date;
+  mentioned: boolean;
+  mentionPosition: number | null;
+  competitorMentions: CompetitorMention[];
+}
+
+export interface BrandShare {
+  domain: string;
+  isOwn: boolean;
+  /** Answers that mention the brand */
+  mentions: number;
+  /** Percentage of answers that mention the brand */
+  shareOfModel: number;
+  /** Average order of the brand among the brands mentioned (1 = first), null when never mentioned */
+  averageRank: number | null;
+}
+
+export interface CoMentionedCompetitor {
+  domain: string;
+  /** Answers mentioning both our brand and the competitor */
+  count: number;
+  /** Percentage of the answers mentioning our brand that also mention the competitor */
+  rate: number;
+}
+
+export interface ShareOfModelSegment {
+  /** Platform, tag ("" for untagged prompts) or week start (YYYY-MM-DD, Monday in UTC) */
+  key: string;
+  answers: number;
+  brands: BrandShare[];
+}
+
+export interface ShareOfModelReport {
+  domain: string;
+  since: Date;
+  answers: number;
+  brands: BrandShare[];
+  coMentioned: CoMentionedCompetitor[];
+  byPlatform: ShareOfModelSegment[];
+  byTag: ShareOfModelSegment[];
+  byWeek: ShareOfModelSegment[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Monday (UTC) of the week a date falls in, as YYYY-MM-DD
+ */
+export function weekStartKey(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+// ブランドごとの言及率と平均言及順（言及率の高い順、自社を同率の先頭に）
+function brandShares(runs: ShareOfModelRun[], ownDomain: string, competitors: string[]): BrandShare[] {
+  const share = (domain: string, positions: Array<number | null>): BrandShare => {
+    const ranks = positions.filter((position): position is number => position !== null);
+    return {
+      domain,
+      isOwn: domain === ownDomain,
+      mentions: ranks.length,
+      shareOfModel: runs.length > 0 ? Math.round((ranks.length / runs.length) * 1000) / 10 : 0,
+      averageRank: ranks.length > 0 ? Math.round((ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length) * 10) / 10 : null,
+    };
+  };
+
+  return [
+    share(ownDomain, runs.map(run => run.mentioned ? run.mentionPosition : null)),
+    ...competitors.map(domain => share(domain, runs.map(run =>
+      run.competitorMentions.find(mention => mention.domain === domain)?.mentionPosition ?? null
+    ))),
+  ].sort((a, b) => b.shareOfModel - a.shareOfModel || Number(b.isOwn) - Number(a.isOwn));
+}
+
+// キーごとに回答をまとめて集計（キーの昇順）
+function segmentBy(
+  runs: ShareOfModelRun[],
+  keysOf: (run: ShareOfModelRun) => string[],
+  ownDomain: string,
+  competitors: string[]
+): ShareOfModelSegment[] {
+  const groups = new Map<string, ShareOfModelRun[]>();
+  for (const run of runs) {
+    for (const key of keysOf(run)) {
+      groups.set(key, [...(groups.get(key) ?? []), run]);
+    }
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => ({ key, answers: group.length, brands: brandShares(group, ownDomain, competitors) }));
+}
+
+/**
+ * Aggregate share of model from stored answers (failed requests excluded by the caller).
+ * A brand counts as mentioned when the answer names it in the text; citations alone do not count.
+ */
+export function computeShareOfModel(
+  runs: ShareOfModelRun[],
+  ownDomain: string,
+  competitorList: string[],
+  since: Date
+): ShareOfModelReport {
+  // 登録済みの競合に加え、過去の回答にだけ残っている競合も集計対象にする
+  const competitors = Array.from(new Set([
+    ...competitorList,
+    ...runs.flatMap(run => run.competitorMentions.map(mention => mention.domain)),
+  ])).filter(domain => domain !== ownDomain);
+
+  const ownMentions = runs.filter(run => run.mentioned);
+  const coMentioned = competitors
+    .map(domain => {
+      const count = ownMentions.filter(run =>
+        run.competitorMentions.some(mention => mention.domain === domain && mention.mentionPosition !== null)
+      ).length;
+      return { domain, count, rate: Math.round((count / Math.max(ownMentions.length, 1)) * 1000) / 10 };
+    })
+    .filter(item => item.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    domain: ownDomain,
+    since,
+    answers: runs.length,
+    brands: brandShares(runs, ownDomain, competitors),
+    coMentioned,
+    byPlatform: segmentBy(runs, run => [run.platform], ownDomain, competitors),
+    byTag: segmentBy(runs, run => run.tags.length > 0 ? run.tags : [""], ownDomain, competitors),
+    byWeek: segmentBy(runs, run => [weekStartKey(run.ranAt)], ownDomain, competitors),
+  };
+}
+
+/**
+ * Share of model of a tracked domain over the stored prompt answers of the last `days` days
+ */
+export async function getShareOfModel(
+  domain: Pick<TrackedDomain, "id" | "domain">,
+  days: number = 84
+): Promise<ShareOfModelReport> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const since = new Date(Date.now() - days * DAY_MS);
+  const [rows, competitors] = await Promise.all([
+    db.select({
+      platform: promptRuns.platform,
+      tags: trackedPrompts.tags,
+      ranAt: promptRuns.ranAt,
+      mentioned: promptRuns.mentioned,
+      mentionPosition: promptRuns.mentionPosition,
+      competitorMentions: promptRuns.competitorMentions,
+      errorMessage: promptRuns.errorMessage,
+    })
+      .from(promptRuns)
+      .innerJoin(trackedPrompts, eq(promptRuns.promptId, trackedPrompts.id))
+      .where(and(eq(promptRuns.domainId, domain.id), gte(promptRuns.ranAt, since)))
+      .orderBy(asc(promptRuns.ranAt)),
+    db.select({ domain: competitorDomains.domain })
+      .from(competitorDomains)
+      .where(eq(competitorDomains.domainId, domain.id)),
+  ]);
+
+  const runs: ShareOfModelRun[] = rows
+    .filter(row => row.errorMessage === null)
+    .map(row => ({
+      platform: row.platform,
+      tags: promptTags(row.tags),
+      ranAt: row.ranAt,
+      mentioned: row.mentioned,
+      mentionPosition: row.mentionPosition,
+      competitorMentions: Array.isArray(row.competitorMentions) ? row.competitorMentions as CompetitorMention[] : [],
+    }));
+
+  return computeShareOfModel(runs, domain.domain, competitors.map(competitor => competitor.domain), since);
+}
@@ -0,0 +1,491 @@
+/**
+ * Site Audit Service
+ * クロール結果に対して技術SEOチェックを実行し、監査履歴と実行間の差分を管理
+ */
+
+import { createHash } from "crypto";
+import { getDb } from "../db";
+import { auditIssues, auditRuns, crawledPages, crawlRuns } from "../../drizzle/schema";
+import type { AuditIssue, CrawledPage, InsertAuditIssue } from "../../drizzle/schema";
+import { eq } from "drizzle-orm";
+import { createCrawlRun, executeCrawlRun, normalizeUrl } from "./siteCrawler";
+import type { CrawlOutlink, RedirectHop } from "./siteCrawler";
+import type { ExtractedHeading } from "./htmlExtractor";
+import type { AIReadabilityAudit } from "./aiReadability";
+import { fetchSitemapUrls } from "./sitemap";
+
+export type AuditSeverity = "critical" | "warning" | "info";
+
+export type AuditIssueType =
+  | "missing_title"
+  | "duplicate_title"
+  | "missing_meta_description"
+  | "duplicate_meta_description"
+  | "missing_h1"
+  | "multiple_h1"
+  | "broken_internal_link"
+  | "redirect_chain"
+  | "non_canonical_in_sitemap"
+  | "missing_alt_text"
+  | "thin_content"
+  | "missing_structured_data"
+  | "low_ai_readability";
+
+// 監査チェックのカタログ
+export const AUDIT_ISSUE_CATALOG: Record<AuditIssueType, {
+  severity: AuditSeverity;
+  title: string;
+  description: string;
+}> = {
+  missing_title: {
+    severity: "critical",
+    title: "titleタグがない",
+    description: "検索結果に表示されるタイトルが設定されていません。",
+  },
+  duplicate_title: {
+    severity: "warning",
+    title: "titleタグの重複",
+    description: "複数のページが同じタイトルを使用しています。",
+  },
+  missing_meta_description: {
+    severity: "warning",
+    title: "メタディスクリプションがない",
+    description: "検索結果のスニペットがGoogleに自動生成されます。",
+  },
+  duplicate_meta_description: {
+    severity: "warning",
+    title: "メタディスクリプションの重複",
+    description: "複数のページが同じメタディスクリプションを使用しています。",
+  },
+  missing_h1: {
+    severity: "info",
+    title: "H1見出しがない",
+    description: "ページの主題を示すH1見出しがありません。",
+  },
+  multiple_h1: {
+    severity: "warning",
+    title: "複数のH1見出し",
+    description: "H1見出しが複数あり、ページの主題が曖昧になっています。",
+  },
+  broken_internal_link: {
+    severity: "critical",
+    title: "内部リンク切れ",
+    description: "リンク先の内部ページが4xx/5xxエラーまたは取得失敗を返しています。",
+  },
+  redirect_chain: {
+    severity: "warning",
+    title: "リダイレクトチェーン",
+    description: "最終URLに到達するまでに複数回のリダイレクトが発生しています。",
+  },
+  non_canonical_in_sitemap: {
+    severity: "warning",
+    title: "サイトマップ内の非正規URL",
+    description: "サイトマップに正規URL以外（リダイレクト、エラー、noindex、別URLへのcanonical）が含まれています。",
+  },
+  missing_alt_text: {
+    severity: "info",
+    title: "画像のalt属性がない",
+    description: "alt属性のない画像があり、検索エンジンやAIが内容を理解できません。",
+  },
+  thin_content: {
+    severity: "warning",
+    title: "コンテンツが少ない",
+    description: "本文の語数が少なく、価値の低いページと判断される可能性があります。",
+  },
+  missing_structured_data: {
+    severity: "info",
+    title: "構造化データがない",
+    description: "JSON-LD/Microdataによる構造化データが見つかりません。",
+  },
+  low_ai_readability: {
+    severity: "info",
+    title: "AI可読性が低い",
+    description: "文書構造が不十分で、LLMがコンテンツを正しく解釈できない可能性があります。",
+  },
+};
+
+// 本文がこの語数未満のページを低品質コンテンツとみなす
+export const THIN_CONTENT_WORD_COUNT = 300;
+const LOW_AI_READABILITY_SCORE = 50;
+const INSERT_BATCH_SIZE = 200;
+
+export interface AuditPageInput {
+  url: string;
+  statusCode: number | null;
+  finalStatusCode: number | null;
+  finalUrl: string | null;
+  redirectChain: RedirectHop[];
+  contentType: string | null;
+  title: string | null;
+  metaDescription: string | null;
+  canonical: string | null;
+  metaRobots: string | null;
+  headings: ExtractedHeading[];
+  wordCount: number | null;
+  outlinks: CrawlOutlink[];
+  imagesMissingAlt: number | null;
+  fetchError: string | null;
+  aiReadability: AIReadabilityAudit | null;
+}
+
+export interface AuditFinding {
+  issueType: AuditIssueType;
+  severity: AuditSeverity;
+  url: string;
+  /** Subject that distinguishes multiple findings of the same type on one URL */
+  subject: string;
+  details: Record<string, unknown>;
+}
+
+export interface SiteReadabilitySummary {
+  semanticHtmlScore: number;
+  schemaOrgScore: number;
+  contentClarityScore: number;
+  overallScore: number;
+  recommendations: string[];
+  pagesAnalyzed: number;
+}
+
+// DBの行を監査入力に変換
+export function toAuditPageInput(page: CrawledPage): AuditPageInput {
+  return {
+    url: page.url,
+    statusCode: page.statusCode,
+    finalStatusCode: page.finalStatusCode,
+    finalUrl: page.finalUrl,
+    redirectChain: (page.redirectChain as RedirectHop[] | null) || [],
+    contentType: page.contentType,
+    title: page.title,
+    metaDescription: page.metaDescription,
+    canonical: page.canonical,
+    metaRobots: page.metaRobots,
+    headings: (page.headings as ExtractedHeading[] | null) || [],
+    wordCount: page.wordCount,
+    outlinks: (page.outlinks as CrawlOutlink[] | null) || [],
+    imagesMissingAlt: page.imagesMissingAlt,
+    fetchError: page.fetchError,
+    aiReadability: page.aiReadability as AIReadabilityAudit | null,
+  };
+}
+
+function isNoindex(page: AuditPageInput): boolean {
+  return (page.metaRobots || "").toLowerCase().includes("noindex");
+}
+
+// 200で返ったHTMLページ（リダイレクトなし）
+function isHtmlOk(page: AuditPageInput): boolean {
+  return page.statusCode === 200 &&
+    page.redirectChain.length === 0 &&
+    !page.fetchError &&
+    (page.contentType || "").includes("html");
+}
+
+// リダイレクト先の最終ステータスで判定（最終ステータスを保存していない過去の行は、リダイレクトなしの場合のみ判定）
+function isBroken(page: AuditPageInput): boolean {
+  const finalStatus = page.finalStatusCode ?? (page.redirectChain.length > 0 ? null : page.statusCode);
+  return !!page.fetchError || (finalStatus !== null && finalStatus >= 400);
+}
+
+function finding(
+  issueType: AuditIssueType,
+  url: string,
+  subject: string = "",
+  details: Record<string, unknown> = {}
+): AuditFinding {
+  return { issueType, severity: AUDIT_ISSUE_CATALOG[issueType].severity, url, subject, details };
+}
+
+// 値が重複しているページをグループ化
+function findDuplicates(
+  pages: AuditPageInput[],
+  getValue: (page: AuditPageInput) => string | null
+): Map<string, AuditPageInput[]> {
+  const groups = new Map<string, AuditPageInput[]>();
+  for (const page of pages) {
+    const value = getValue(page)?.trim().toLowerCase();
+    if (!value) continue;
+    if (!groups.has(value)) groups.set(value, []);
+    groups.get(value)!.push(page);
+  }
+  return new Map(Array.from(groups.entries()).filter(([, group]) => group.length > 1));
+}
+
+/**
+ * Run the audit check catalog over crawled pages
+ */
+export function evaluateAuditChecks(pages: AuditPageInput[], sitemapUrls: string[] = []): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const pagesByUrl = new Map<string, AuditPageInput>();
+  for (const page of pages) {
+    pagesByUrl.set(normalizeUrl(page.url) || page.url, page);
+  }
+
+  const indexable = pages.filter(page => isHtmlOk(page) && !isNoindex(page));
+
+  for (const page of indexable) {
+    if (!page.title) {
+      findings.push(finding("missing_title", page.url));
+    }
+    if (!page.metaDescription) {
+      findings.push(finding("missing_meta_description", page.url));
+    }
+
+    const h1s = page.headings.filter(h => h.level === 1);
+    if (h1s.length === 0) {
+      findings.push(finding("missing_h1", page.url));
+    } else if (h1s.length > 1) {
+      findings.push(finding("multiple_h1", page.url, "", { h1: h1s.map(h => h.text) }));
+    }
+
+    if ((page.imagesMissingAlt || 0) > 0) {
+      findings.push(finding("missing_alt_text", page.url, "", { imagesMissingAlt: page.imagesMissingAlt }));
+    }
+
+    if ((page.wordCount || 0) < THIN_CONTENT_WORD_COUNT) {
+      findings.push(finding("thin_content", page.url, "", {
+        wordCount: page.wordCount || 0,
+        threshold: THIN_CONTENT_WORD_COUNT,
+      }));
+    }
+
+    if (page.aiReadability) {
+      if (page.aiReadability.schemaOrgScore === 0) {
+        findings.push(finding("missing_structured_data", page.url));
+      }
+      if (page.aiReadability.overallScore < LOW_AI_READABILITY_SCORE) {
+        findings.push(finding("low_ai_readability", page.url, "", {
+          overallScore: page.aiReadability.overallScore,
+          recommendations: page.aiReadability.recommendations,
+        }));
+      }
+    }
+  }
+
+  // 重複タイトル・メタディスクリプション
+  for (const [title, group] of Array.from(findDuplicates(indexable, p => p.title))) {
+    for (const page of group) {
+      findings.push(finding("duplicate_title", page.url, title, {
+        title: page.title,
+        duplicates: group.filter(p => p !== page).map(p => p.url).slice(0, 10),
+      }));
+    }
+  }
+  for (const [description, group] of Array.from(findDuplicates(indexable, p => p.metaDescription))) {
+    for (const page of group) {
+      findings.push(finding("duplicate_meta_description", page.url, description, {
+        metaDescription: page.metaDescription,
+        duplicates: group.filter(p => p !== page).map(p => p.url).slice(0, 10),
+      }));
+    }
+  }
+
+  // 内部リンク切れ（クロール済みのリンク先のみ判定可能）
+  for (const page of pages) {
+    for (const link of page.outlinks) {
+      if (!link.internal) continue;
+      const target = pagesByUrl.get(link.url);
+      if (target && isBroken(target)) {
+        findings.push(finding("broken_internal_link", page.url, link.url, {
+          target: link.url,
+          anchor: link.anchor,
+          statusCode: target.statusCode,
+          finalStatusCode: target.finalStatusCode,
+          error: target.fetchError,
+        }));
+      }
+    }
+  }
+
+  // リダイレクトチェーン（2回以上のリダイレクト、またはループ）
+  for (const page of pages) {
+    if (page.redirectChain.length >= 2 || page.fetchError === "Too many redirects") {
+      findings.push(finding("redirect_chain", page.url, "", {
+        hops: page.redirectChain,
+        finalUrl: page.finalUrl,
+      }));
+    }
+  }
+
+  // サイトマップ内の非正規URL
+  for (const sitemapUrl of sitemapUrls) {
+    const page = pagesByUrl.get(normalizeUrl(sitemapUrl) || sitemapUrl);
+    if (!page) continue;
+
+    let reason: string | null = null;
+    if (isBroken(page)) {
+      reason = "error";
+    } else if (page.redirectChain.length > 0) {
+      reason = "redirect";
+    } else if (isNoindex(page)) {
+      reason = "noindex";
+    } else if (page.canonical && normalizeUrl(page.canonical) !== normalizeUrl(page.url)) {
+      reason = "canonicalized";
+    }
+
+    if (reason) {
+      findings.push(finding("non_canonical_in_sitemap", page.url, "", {
+        reason,
+        statusCode: page.statusCode,
+        finalStatusCode: page.finalStatusCode,
+        canonical: page.canonical,
+        finalUrl: page.finalUrl,
+      }));
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Average per-page AI readability into a site-wide summary
+ */
+export function summarizeReadability(pages: AuditPageInput[]): SiteReadabilitySummary | null {
+  const audits = pages
+    .map(page => page.aiReadability)
+    .filter((audit): audit is AIReadabilityAudit => !!audit);
+  if (audits.length === 0) return null;
+
+  const average = (pick: (audit: AIReadabilityAudit) => number) =>
+    Math.round(audits.reduce((sum, audit) => sum + pick(audit), 0) / audits.length);
+
+  // 多くのページに共通する推奨事項を優先
+  const counts = new Map<string, number>();
+  for (const audit of audits) {
+    for (const recommendation of audit.recommendations) {
+      counts.set(recommendation, (counts.get(recommendation) || 0) + 1);
+    }
+  }
+  const recommendations = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([recommendation]) => recommendation);
+
+  return {
+    semanticHtmlScore: average(a => a.semanticHtmlScore),
+    schemaOrgScore: average(a => a.schemaOrgScore),
+    contentClarityScore: average(a => a.contentClarityScore),
+    overallScore: average(a => a.overallScore),
+    recommendations,
+    pagesAnalyzed: audits.length,
+  };
+}
+
+// 種別・URL・対象から実行間で安定した識別子を生成
+export function fingerprintFinding(finding: Pick<AuditFinding, "issueType" | "url" | "subject">): string {
+  return createHash("sha1")
+    .update(`${finding.issueType}|${normalizeUrl(finding.url) || finding.url}|${finding.subject}`)
+    .digest("hex");
+}
+
+/**
+ * Create a pending audit run for a tracked domain
+ */
+export async function createAuditRun(domainId: number, crawlId?: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const inserted = await db.insert(auditRuns).values({
+    domainId,
+    crawlId: crawlId ?? null,
+  }).returning();
+
+  return inserted[0].id;
+}
+
+/**
+ * Execute an audit run. Crawls the domain first unless the run references an existing crawl.
+ */
+export async function executeAuditRun(auditId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const runs = await db.select().from(auditRuns).where(eq(auditRuns.id, auditId)).limit(1);
+  const run = runs[0];
+  if (!run) throw new Error("Audit run not found");
+
+  await db.update(auditRuns).set({ status: "running", startedAt: new Date() }).where(eq(auditRuns.id, auditId));
+
+  try {
+    let crawlId = run.crawlId;
+    if (!crawlId) {
+      crawlId = await createCrawlRun(run.domainId);
+      await db.update(auditRuns).set({ crawlId }).where(eq(auditRuns.id, auditId));
+      await executeCrawlRun(crawlId);
+    }
+
+    const crawl = await db.select().from(crawlRuns).where(eq(crawlRuns.id, crawlId)).limit(1);
+    if (!crawl[0]) throw new Error("Crawl run not found");
+
+    const rows = await db.select().from(crawledPages).where(eq(crawledPages.crawlId, crawlId));
+    const pages = rows.map(toAuditPageInput);
+    const sitemapUrls = await fetchSitemapUrls(new URL(crawl[0].startUrl).origin);
+
+    const findings = evaluateAuditChecks(pages, sitemapUrls);
+    const issueRows: InsertAuditIssue[] = findings.map(f => ({
+      auditId,
+      domainId: run.domainId,
+      issueType: f.issueType,
+      severity: f.severity,
+      url: f.url,
+      fingerprint: fingerprintFinding(f),
+      details: f.details,
+    }));
+
+    for (let i = 0; i < issueRows.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(auditIssues).values(issueRows.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    await db.update(auditRuns).set({
+      status: "completed",
+      pagesAudited: pages.length,
+      criticalCount: findings.filter(f => f.severity === "critical").length,
+      warningCount: findings.filter(f => f.severity === "warning").length,
+      infoCount: findings.filter(f => f.severity === "info").length,
+      aiReadability: summarizeReadability(pages),
+      completedAt: new Date(),
+    }).where(eq(auditRuns.id, auditId));
+  } catch (error) {
+    console.error(`Audit ${auditId} failed:`, error);
+    await db.update(auditRuns).set({
+      status: "failed",
+      errorMessage: String(error),
+      completedAt: new Date(),
+    }).where(eq(auditRuns.id, auditId));
+    throw error;
+  }
+}
+
+/**
+ * Compare issues between two audit runs of the same domain
+ */
+export async function compareAuditRuns(baseAuditId: number, targetAuditId: number): Promise<{
+  newIssues: AuditIssue[];
+  fixedIssues: AuditIssue[];
+  persistingIssues: AuditIssue[];
+}> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [baseIssues, targetIssues] = await Promise.all([
+    db.select().from(auditIssues).where(eq(auditIssues.auditId, baseAuditId)),
+    db.select().from(auditIssues).where(eq(auditIssues.auditId, targetAuditId)),
+  ]);
+
+  return diffAuditIssues(baseIssues, targetIssues);
+}
+
+// フィンガープリントで新規・解決済み・継続中に分類
+export function diffAuditIssues<T extends { fingerprint: string }>(baseIssues: T[], targetIssues: T[]): {
+  newIssues: T[];
+  fixedIssues: T[];
+  persistingIssues: T[];
+} {
+  const baseFingerprints = new Set(baseIssues.map(issue => issue.fingerprint));
+  const targetFingerprints = new Set(targetIssues.map(issue => issue.fingerprint));
+
+  return {
+    newIssues: targetIssues.filter(issue => !baseFingerprints.has(issue.fingerprint)),
+    fixedIssues: baseIssues.filter(issue => !targetFingerprints.has(issue.fingerprint)),
+    persistingIssues: targetIssues.filter(issue => baseFingerprints.has(issue.fingerprint)),
+  };
+}
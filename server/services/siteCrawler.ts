@@ -0,0 +1,473 @@
+/**
+ * Site Crawler Service
+ * トラッキング対象ドメインの内部リンクを幅優先でクロールし、ページ情報を保存
+ */
+
+import { getDb } from "../db";
+import { crawlRuns, crawledPages, trackedDomains } from "../../drizzle/schema";
+import type { InsertCrawledPage } from "../../drizzle/schema";
+import { eq } from "drizzle-orm";
+import {
+  countWords,
+  extractCanonical,
+  extractHeadings,
+  extractImages,
+  extractLinks,
+  extractMetaContent,
+  extractTitle,
+  stripTags,
+} from "./htmlExtractor";
+import type { ExtractedHeading } from "./htmlExtractor";
+import { analyzeAIReadability } from "./aiReadability";
+import type { AIReadabilityAudit } from "./aiReadability";
+import { ALLOW_ALL, fetchRobotsTxt, isAllowedByRobots } from "./robotsTxt";
+import type { RobotsTxt } from "./robotsTxt";
+
+export const CRAWLER_USER_AGENT = "Mozilla/5.0 (compatible; NexusSEOBot/1.0)";
+
+const MAX_REDIRECTS = 10;
+const REQUEST_TIMEOUT_MS = 15000;
+const INSERT_BATCH_SIZE = 50;
+
+export interface CrawlOptions {
+  maxDepth: number;
+  maxPages: number;
+  concurrency: number;
+  respectRobots: boolean;
+}
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  maxDepth: 3,
+  maxPages: 500,
+  concurrency: 5,
+  respectRobots: true,
+};
+
+// AI分析時のクイッククロール（リクエスト内で完了する規模）
+export const QUICK_ANALYSIS_CRAWL_OPTIONS: CrawlOptions = {
+  maxDepth: 2,
+  maxPages: 30,
+  concurrency: 5,
+  respectRobots: true,
+};
+
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+}
+
+export interface CrawlOutlink {
+  url: string;
+  anchor: string;
+  internal: boolean;
+  nofollow: boolean;
+}
+
+export interface CrawledPageData {
+  url: string;
+  depth: number;
+  statusCode: number | null;
+  /** Status after following redirects */
+  finalStatusCode: number | null;
+  finalUrl: string;
+  redirectChain: RedirectHop[];
+  contentType: string | null;
+  title: string | null;
+  metaDescription: string | null;
+  canonical: string | null;
+  metaRobots: string | null;
+  headings: ExtractedHeading[];
+  wordCount: number;
+  outlinks: CrawlOutlink[];
+  imageCount: number;
+  imagesMissingAlt: number;
+  responseTimeMs: number;
+  fetchError: string | null;
+  aiReadability: AIReadabilityAudit | null;
+  /** Body text (kept in memory only, not persisted) */
+  text: string;
+}
+
+export interface CrawlResult {
+  startUrl: string;
+  pages: CrawledPageData[];
+  blockedByRobots: string[];
+}
+
+// 未指定（undefined）の項目はデフォルト値を使用
+export function resolveCrawlOptions(options: Partial<CrawlOptions> = {}): CrawlOptions {
+  const resolved: CrawlOptions = { ...DEFAULT_CRAWL_OPTIONS };
+  for (const key of Object.keys(resolved) as Array<keyof CrawlOptions>) {
+    if (options[key] !== undefined) {
+      (resolved as unknown as Record<string, unknown>)[key] = options[key];
+    }
+  }
+  return resolved;
+}
+
+// URLを正規化（フラグメント除去、ホスト小文字化、デフォルトポート除去）
+export function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase();
+    if (
+      (parsed.protocol === "http:" && parsed.port === "80") ||
+      (parsed.protocol === "https:" && parsed.port === "443")
+    ) {
+      parsed.port = "";
+    }
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+// www.の有無を無視して同一サイトかどうか判定
+export function isSameSite(url: string, siteHost: string): boolean {
+  try {
+    const host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+    return host === siteHost.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return false;
+  }
+}
+
+// ドメイン名からクロール開始URLを作成
+export function toStartUrl(domain: string): string {
+  return domain.startsWith("http") ? domain : `https://${domain}`;
+}
+
+// リダイレクトを手動で追跡しながら取得
+export async function fetchWithRedirects(url: string): Promise<{
+  response: Response | null;
+  chain: RedirectHop[];
+  finalUrl: string;
+  error: string | null;
+}> {
+  const chain: RedirectHop[] = [];
+  let currentUrl = url;
+
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const response = await fetch(currentUrl, {
+        redirect: "manual",
+        headers: {
+          "User-Agent": CRAWLER_USER_AGENT,
+          Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        chain.push({ url: currentUrl, statusCode: response.status });
+        await response.body?.cancel();
+        currentUrl = new URL(location, currentUrl).toString();
+        continue;
+      }
+
+      return { response, chain, finalUrl: currentUrl, error: null };
+    }
+    return { response: null, chain, finalUrl: currentUrl, error: "Too many redirects" };
+  } catch (error) {
+    return { response: null, chain, finalUrl: currentUrl, error: String(error) };
+  }
+}
+
+// 1ページを取得して解析
+async function crawlPage(url: string, depth: number, siteHost: string): Promise<CrawledPageData> {
+  const startedAt = Date.now();
+  const { response, chain, finalUrl, error } = await fetchWithRedirects(url);
+
+  const page: CrawledPageData = {
+    url,
+    depth,
+    statusCode: chain[0]?.statusCode ?? response?.status ?? null,
+    finalStatusCode: response?.status ?? null,
+    finalUrl,
+    redirectChain: chain,
+    contentType: response?.headers.get("content-type") ?? null,
+    title: null,
+    metaDescription: null,
+    canonical: null,
+    metaRobots: null,
+    headings: [],
+    wordCount: 0,
+    outlinks: [],
+    imageCount: 0,
+    imagesMissingAlt: 0,
+    responseTimeMs: 0,
+    fetchError: error,
+    aiReadability: null,
+    text: "",
+  };
+
+  if (response) {
+    // リダイレクト先が外部サイトの場合は解析しない
+    const isHtml = (page.contentType || "").includes("html");
+    let html: string | null = null;
+    if (response.ok && isHtml && isSameSite(finalUrl, siteHost)) {
+      // 本文の読み込み中のタイムアウトや切断もページ単位のエラーとして記録
+      try {
+        html = await response.text();
+      } catch (readError) {
+        page.fetchError = String(readError);
+      }
+    } else {
+      await response.body?.cancel();
+    }
+
+    if (html !== null) {
+      const images = extractImages(html);
+
+      page.title = extractTitle(html);
+      page.metaDescription = extractMetaContent(html, "description");
+      page.canonical = extractCanonical(html, finalUrl);
+      page.metaRobots = extractMetaContent(html, "robots");
+      page.headings = extractHeadings(html);
+      page.text = stripTags(html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html);
+      page.wordCount = countWords(page.text);
+      page.imageCount = images.length;
+      page.imagesMissingAlt = images.filter(img => img.alt === null).length;
+      page.aiReadability = analyzeAIReadability(html);
+
+      const seen = new Set<string>();
+      for (const link of extractLinks(html, finalUrl)) {
+        const normalized = normalizeUrl(link.url);
+        if (!normalized || seen.has(normalized)) continue;
+        seen.add(normalized);
+        page.outlinks.push({
+          url: normalized,
+          anchor: link.anchor.substring(0, 200),
+          internal: isSameSite(normalized, siteHost),
+          nofollow: link.nofollow,
+        });
+      }
+    }
+  }
+
+  page.responseTimeMs = Date.now() - startedAt;
+  return page;
+}
+
+// 並列数を制限して実行
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let index = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (index < items.length) {
+      const item = items[index++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Crawl a site breadth-first, following internal links from the start URL
+ */
+export async function crawlSite(
+  startUrl: string,
+  options: Partial<CrawlOptions> = {},
+  onPage?: (page: CrawledPageData) => Promise<void> | void
+): Promise<CrawlResult> {
+  const opts = resolveCrawlOptions(options);
+  const start = normalizeUrl(startUrl);
+  if (!start) throw new Error(`Invalid start URL: ${startUrl}`);
+
+  const siteHost = new URL(start).hostname;
+  const robots: RobotsTxt = opts.respectRobots
+    ? await fetchRobotsTxt(new URL(start).origin, CRAWLER_USER_AGENT)
+    : ALLOW_ALL;
+
+  const pages: CrawledPageData[] = [];
+  const blockedByRobots: string[] = [];
+  const seen = new Set<string>([start]);
+  const redirectTargets = new Set<string>();
+  let frontier = [start];
+
+  for (let depth = 0; depth <= opts.maxDepth && frontier.length > 0; depth++) {
+    const allowed: string[] = [];
+    for (const url of frontier) {
+      // 同じ階層の先に取得したリダイレクトで既に到達したページ
+      if (redirectTargets.has(url)) continue;
+      if (isAllowedByRobots(robots, url, CRAWLER_USER_AGENT)) {
+        allowed.push(url);
+      } else {
+        blockedByRobots.push(url);
+      }
+    }
+
+    const batch = allowed.slice(0, opts.maxPages - pages.length);
+    const nextFrontier: string[] = [];
+
+    await runWithConcurrency(batch, Math.max(1, opts.concurrency), async url => {
+      const page = await crawlPage(url, depth, siteHost);
+      pages.push(page);
+      if (onPage) await onPage(page);
+
+      // リダイレクト先のURLへのリンクから同じページを再取得しない
+      const finalUrl = normalizeUrl(page.finalUrl);
+      if (finalUrl && finalUrl !== url) {
+        seen.add(finalUrl);
+        redirectTargets.add(finalUrl);
+      }
+
+      // noindex,nofollowのページのリンクは辿らない
+      if ((page.metaRobots || "").toLowerCase().includes("nofollow")) return;
+
+      for (const link of page.outlinks) {
+        if (!link.internal || link.nofollow || seen.has(link.url)) continue;
+        seen.add(link.url);
+        nextFrontier.push(link.url);
+      }
+    });
+
+    if (pages.length >= opts.maxPages) break;
+    frontier = nextFrontier;
+  }
+
+  return { startUrl: start, pages, blockedByRobots };
+}
+
+// 保存用の行に変換
+function toPageRow(crawlId: number, domainId: number, page: CrawledPageData): InsertCrawledPage {
+  return {
+    crawlId,
+    domainId,
+    url: page.url,
+    depth: page.depth,
+    statusCode: page.statusCode,
+    finalStatusCode: page.finalStatusCode,
+    finalUrl: page.finalUrl,
+    redirectChain: page.redirectChain,
+    contentType: page.contentType?.substring(0, 255) ?? null,
+    title: page.title,
+    metaDescription: page.metaDescription,
+    canonical: page.canonical,
+    metaRobots: page.metaRobots?.substring(0, 255) ?? null,
+    headings: page.headings,
+    wordCount: page.wordCount,
+    outlinks: page.outlinks,
+    imageCount: page.imageCount,
+    imagesMissingAlt: page.imagesMissingAlt,
+    responseTimeMs: page.responseTimeMs,
+    fetchError: page.fetchError,
+    aiReadability: page.aiReadability,
+    crawledAt: new Date(),
+  };
+}
+
+/**
+ * Create a pending crawl run for a tracked domain
+ */
+export async function createCrawlRun(
+  domainId: number,
+  options: Partial<CrawlOptions> = {}
+): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const domain = await db.select().from(trackedDomains).where(eq(trackedDomains.id, domainId)).limit(1);
+  if (!domain[0]) throw new Error("Domain not found");
+
+  const opts = resolveCrawlOptions(options);
+  const inserted = await db.insert(crawlRuns).values({
+    domainId,
+    startUrl: toStartUrl(domain[0].domain),
+    maxDepth: opts.maxDepth,
+    maxPages: opts.maxPages,
+    concurrency: opts.concurrency,
+    respectRobots: opts.respectRobots,
+  }).returning();
+
+  return inserted[0].id;
+}
+
+/**
+ * Execute a crawl run and store every crawled page
+ */
+export async function executeCrawlRun(crawlId: number): Promise<CrawlResult> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const runs = await db.select().from(crawlRuns).where(eq(crawlRuns.id, crawlId)).limit(1);
+  const run = runs[0];
+  if (!run) throw new Error("Crawl run not found");
+
+  await db.update(crawlRuns).set({ status: "running", startedAt: new Date() }).where(eq(crawlRuns.id, crawlId));
+
+  const buffer: InsertCrawledPage[] = [];
+  const flush = async () => {
+    if (buffer.length === 0) return;
+    await db.insert(crawledPages).values(buffer.splice(0, buffer.length));
+  };
+
+  try {
+    const result = await crawlSite(
+      run.startUrl,
+      {
+        maxDepth: run.maxDepth,
+        maxPages: run.maxPages,
+        concurrency: run.concurrency,
+        respectRobots: run.respectRobots,
+      },
+      async page => {
+        buffer.push(toPageRow(crawlId, run.domainId, page));
+        if (buffer.length >= INSERT_BATCH_SIZE) await flush();
+      }
+    );
+    await flush();
+
+    await db.update(crawlRuns).set({
+      status: "completed",
+      pagesCrawled: result.pages.length,
+      blockedByRobots: result.blockedByRobots.length,
+      completedAt: new Date(),
+    }).where(eq(crawlRuns.id, crawlId));
+
+    return result;
+  } catch (error) {
+    console.error(`Crawl ${crawlId} failed:`, error);
+    await db.update(crawlRuns).set({
+      status: "failed",
+      errorMessage: String(error),
+      completedAt: new Date(),
+    }).where(eq(crawlRuns.id, crawlId));
+    throw error;
+  }
+}
+
+/**
+ * Build a text summary of crawled pages for LLM analysis
+ */
+export function summarizeCrawlForAnalysis(pages: CrawledPageData[], maxLength: number = 10000): string {
+  const sections: string[] = [];
+  let length = 0;
+
+  for (const page of pages) {
+    if (!page.title && !page.text) continue;
+    const headings = page.headings
+      .filter(h => h.level <= 3)
+      .slice(0, 10)
+      .map(h => `${"#".repeat(h.level)} ${h.text}`)
+      .join("\n");
+    const section = [
+      `URL: ${page.finalUrl}`,
+      page.title ? `タイトル: ${page.title}` : "",
+      page.metaDescription ? `説明: ${page.metaDescription}` : "",
+      headings,
+      page.text.substring(0, 500),
+    ].filter(Boolean).join("\n");
+
+    if (length + section.length > maxLength) break;
+    sections.push(section);
+    length += section.length;
+  }
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,395 @@
+/**
+ * XML Sitemap Service
+ * robots.txtと/sitemap.xmlからサイトマップを探索し、掲載URLの検証結果を保存
+ */
+
+import { gunzipSync } from "zlib";
+import { getDb } from "../db";
+import { sitemapScans, sitemapUrls, trackedDomains } from "../../drizzle/schema";
+import type { InsertSitemapUrl } from "../../drizzle/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { decodeEntities } from "./htmlExtractor";
+import { fetchRobotsTxt, isAllowedByRobots } from "./robotsTxt";
+import type { RobotsTxt } from "./robotsTxt";
+import { CRAWLER_USER_AGENT, fetchWithRedirects, runWithConcurrency, toStartUrl } from "./siteCrawler";
+
+const SITEMAP_USER_AGENT = CRAWLER_USER_AGENT;
+// sitemaps.orgの上限（1ファイル50,000URL・非圧縮50MB）
+const MAX_SITEMAP_URLS = 50000;
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const MAX_SITEMAP_FILES = 50;
+const MAX_URL_LENGTH = 2048;
+const DEFAULT_MAX_URL_CHECKS = 500;
+const URL_CHECK_CONCURRENCY = 5;
+const INSERT_BATCH_SIZE = 200;
+
+export type SitemapUrlIssue =
+  | "invalid_url"
+  | "cross_host"
+  | "invalid_lastmod"
+  | "future_lastmod"
+  | "blocked_by_robots"
+  | "redirect"
+  | "client_error"
+  | "server_error"
+  | "fetch_error";
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod: string | null;
+}
+
+export interface ParsedSitemap {
+  type: "urlset" | "sitemapindex" | "unknown";
+  entries: SitemapEntry[];
+}
+
+export interface SitemapFileReport {
+  url: string;
+  /** How the sitemap was found */
+  source: "robots" | "default" | "index";
+  type: ParsedSitemap["type"] | "unavailable";
+  gzipped: boolean;
+  urlCount: number;
+  errors: string[];
+}
+
+export interface DiscoveredSitemapUrl extends SitemapEntry {
+  sitemapUrl: string;
+  issues: SitemapUrlIssue[];
+}
+
+export interface SitemapDiscovery {
+  sitemaps: SitemapFileReport[];
+  urls: DiscoveredSitemapUrl[];
+}
+
+export interface SitemapUrlCheck extends DiscoveredSitemapUrl {
+  statusCode: number | null;
+  finalUrl: string | null;
+  blockedByRobots: boolean;
+  indexable: boolean;
+}
+
+// W3C Datetime形式（YYYY / YYYY-MM / YYYY-MM-DD / 時刻付きはタイムゾーン必須）
+const W3C_DATETIME = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d+)?)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d))?)?)?$/;
+
+// 子要素の値を抽出
+function extractChild(block: string, tag: string): string | null {
+  const value = block.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)<\\/(?:\\w+:)?${tag}>`, "i"))?.[1];
+  if (value === undefined) return null;
+  return decodeEntities(value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/, "$1")).trim();
+}
+
+/**
+ * Parse a sitemap or sitemap index document
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap {
+  const type = /<(?:\w+:)?sitemapindex\b/i.test(xml)
+    ? "sitemapindex"
+    : /<(?:\w+:)?urlset\b/i.test(xml) ? "urlset" : "unknown";
+  if (type === "unknown") return { type, entries: [] };
+
+  const parentTag = type === "sitemapindex" ? "sitemap" : "url";
+  const blocks = Array.from(xml.matchAll(new RegExp(`<(?:\\w+:)?${parentTag}\\b[^>]*>([\\s\\S]*?)<\\/(?:\\w+:)?${parentTag}>`, "gi")));
+  const entries: SitemapEntry[] = [];
+  for (const block of blocks) {
+    const loc = extractChild(block[1], "loc");
+    if (!loc) continue;
+    entries.push({ loc, lastmod: extractChild(block[1], "lastmod") || null });
+  }
+
+  return { type, entries };
+}
+
+/**
+ * Parse a W3C Datetime lastmod value, returning null when the format is invalid
+ */
+export function parseLastmod(value: string): Date | null {
+  if (!W3C_DATETIME.test(value)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate URL format and lastmod of a sitemap entry
+ */
+export function validateSitemapEntry(entry: SitemapEntry, sitemapUrl: string, now: Date = new Date()): SitemapUrlIssue[] {
+  const issues: SitemapUrlIssue[] = [];
+
+  try {
+    const url = new URL(entry.loc);
+    if (!["http:", "https:"].includes(url.protocol) || entry.loc.length > MAX_URL_LENGTH || /\s/.test(entry.loc)) {
+      issues.push("invalid_url");
+    } else if (url.host !== new URL(sitemapUrl).host) {
+      // サイトマップは同一ホストのURLのみ掲載可能
+      issues.push("cross_host");
+    }
+  } catch {
+    issues.push("invalid_url");
+  }
+
+  if (entry.lastmod) {
+    const lastmod = parseLastmod(entry.lastmod);
+    if (!lastmod) {
+      issues.push("invalid_lastmod");
+    } else if (lastmod.getTime() > now.getTime() + 24 * 60 * 60 * 1000) {
+      issues.push("future_lastmod");
+    }
+  }
+
+  return issues;
+}
+
+// サイトマップを取得（gzip圧縮されたファイルにも対応）
+async function fetchSitemapFile(url: string): Promise<{ xml: string | null; gzipped: boolean; error: string | null }> {
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": SITEMAP_USER_AGENT },
+      signal: AbortSignal.timeout(15000),
+    });
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { xml: null, gzipped: false, error: `HTTP ${response.status}` };
+    }
+
+    const bytes = Buffer.from(await response.arrayBuffer());
+    // Content-Encodingでの圧縮はfetchが展開するため、マジックナンバーで.gzファイルを判定
+    const gzipped = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+    const body = gzipped ? gunzipSync(bytes, { maxOutputLength: MAX_SITEMAP_BYTES }) : bytes;
+    if (body.length > MAX_SITEMAP_BYTES) {
+      return { xml: null, gzipped, error: "Sitemap exceeds 50MB" };
+    }
+
+    return { xml: body.toString("utf8"), gzipped, error: null };
+  } catch (error) {
+    return { xml: null, gzipped: false, error: String(error) };
+  }
+}
+
+/**
+ * Discover sitemaps from robots.txt and /sitemap.xml, following sitemap indexes
+ */
+export async function discoverSitemaps(origin: string, robots?: RobotsTxt): Promise<SitemapDiscovery> {
+  const rules = robots ?? await fetchRobotsTxt(origin, SITEMAP_USER_AGENT);
+  const defaultSitemap = new URL("/sitemap.xml", origin).toString();
+  const queue: { url: string; source: SitemapFileReport["source"] }[] = rules.sitemaps.map(url => ({ url, source: "robots" }));
+  if (!rules.sitemaps.includes(defaultSitemap)) {
+    queue.push({ url: defaultSitemap, source: "default" });
+  }
+
+  const visited = new Set<string>();
+  const seenUrls = new Set<string>();
+  const sitemaps: SitemapFileReport[] = [];
+  const urls: DiscoveredSitemapUrl[] = [];
+  const now = new Date();
+
+  while (queue.length > 0 && visited.size < MAX_SITEMAP_FILES && urls.length < MAX_SITEMAP_URLS) {
+    const { url: sitemapUrl, source } = queue.shift()!;
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    const { xml, gzipped, error } = await fetchSitemapFile(sitemapUrl);
+    // /sitemap.xmlは存在しなくてもよいため、見つからない場合は記録しない
+    if (!xml && source === "default") continue;
+
+    const report: SitemapFileReport = {
+      url: sitemapUrl,
+      source,
+      type: "unavailable",
+      gzipped,
+      urlCount: 0,
+      errors: error ? [error] : [],
+    };
+    sitemaps.push(report);
+    if (!xml) continue;
+
+    const parsed = parseSitemapXml(xml);
+    report.type = parsed.type;
+    report.urlCount = parsed.entries.length;
+    if (parsed.type === "unknown") {
+      report.errors.push("Not a sitemap document (missing <urlset> or <sitemapindex>)");
+      continue;
+    }
+    if (parsed.entries.length > MAX_SITEMAP_URLS) {
+      report.errors.push(`Sitemap lists more than ${MAX_SITEMAP_URLS} URLs`);
+    }
+
+    if (parsed.type === "sitemapindex") {
+      for (const entry of parsed.entries) {
+        if (validateSitemapEntry(entry, sitemapUrl, now).includes("invalid_url")) {
+          report.errors.push(`Invalid sitemap URL: ${entry.loc}`);
+          continue;
+        }
+        queue.push({ url: entry.loc, source: "index" });
+      }
+      continue;
+    }
+
+    for (const entry of parsed.entries) {
+      if (seenUrls.has(entry.loc) || urls.length >= MAX_SITEMAP_URLS) continue;
+      seenUrls.add(entry.loc);
+      urls.push({ ...entry, sitemapUrl, issues: validateSitemapEntry(entry, sitemapUrl, now) });
+    }
+  }
+
+  if (queue.length > 0) {
+    console.warn(`Sitemap discovery for ${origin} stopped after ${MAX_SITEMAP_FILES} files`);
+  }
+
+  return { sitemaps, urls };
+}
+
+/**
+ * Fetch URLs listed in a site's sitemaps (following sitemap indexes)
+ */
+export async function fetchSitemapUrls(origin: string, robots?: RobotsTxt): Promise<string[]> {
+  const { urls } = await discoverSitemaps(origin, robots);
+  return urls.filter(url => !url.issues.includes("invalid_url")).map(url => url.loc);
+}
+
+/**
+ * Check robots rules and HTTP status for discovered sitemap URLs
+ */
+export async function checkSitemapUrls(
+  urls: DiscoveredSitemapUrl[],
+  robots: RobotsTxt,
+  maxChecks: number = DEFAULT_MAX_URL_CHECKS
+): Promise<SitemapUrlCheck[]> {
+  const results: SitemapUrlCheck[] = urls.map(url => ({
+    ...url,
+    issues: [...url.issues],
+    statusCode: null,
+    finalUrl: null,
+    blockedByRobots: false,
+    indexable: false,
+  }));
+
+  const checkable = results.filter(result => {
+    if (result.issues.includes("invalid_url") || result.issues.includes("cross_host")) return false;
+    if (!isAllowedByRobots(robots, result.loc, SITEMAP_USER_AGENT)) {
+      result.blockedByRobots = true;
+      result.issues.push("blocked_by_robots");
+      return false;
+    }
+    return true;
+  }).slice(0, maxChecks);
+
+  await runWithConcurrency(checkable, URL_CHECK_CONCURRENCY, async result => {
+    const { response, chain, finalUrl, error } = await fetchWithRedirects(result.loc);
+    await response?.body?.cancel();
+
+    result.statusCode = chain[0]?.statusCode ?? response?.status ?? null;
+    result.finalUrl = finalUrl;
+
+    if (chain.length > 0) result.issues.push("redirect");
+    if (error || !response) {
+      result.issues.push("fetch_error");
+    } else if (response.status >= 500) {
+      result.issues.push("server_error");
+    } else if (response.status >= 400) {
+      result.issues.push("client_error");
+    }
+
+    result.indexable = chain.length === 0 && response?.status === 200 && result.issues.length === 0;
+  });
+
+  return results;
+}
+
+/**
+ * Create a pending sitemap scan for a tracked domain
+ */
+export async function createSitemapScan(domainId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const inserted = await db.insert(sitemapScans).values({ domainId }).returning();
+  return inserted[0].id;
+}
+
+/**
+ * Execute a sitemap scan: discover, validate, check each URL and store the results
+ */
+export async function executeSitemapScan(scanId: number, maxChecks: number = DEFAULT_MAX_URL_CHECKS): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const scans = await db.select().from(sitemapScans).where(eq(sitemapScans.id, scanId)).limit(1);
+  const scan = scans[0];
+  if (!scan) throw new Error("Sitemap scan not found");
+
+  const domain = await db.select().from(trackedDomains).where(eq(trackedDomains.id, scan.domainId)).limit(1);
+  if (!domain[0]) throw new Error("Domain not found");
+
+  await db.update(sitemapScans).set({ status: "running", startedAt: new Date() }).where(eq(sitemapScans.id, scanId));
+
+  try {
+    const origin = new URL(toStartUrl(domain[0].domain)).origin;
+    const robots = await fetchRobotsTxt(origin, SITEMAP_USER_AGENT);
+    const discovery = await discoverSitemaps(origin, robots);
+    const results = await checkSitemapUrls(discovery.urls, robots, maxChecks);
+
+    const rows: InsertSitemapUrl[] = results.map(result => ({
+      scanId,
+      domainId: scan.domainId,
+      url: result.loc.substring(0, 2000),
+      sitemapUrl: result.sitemapUrl.substring(0, 2000),
+      lastmod: result.lastmod?.substring(0, 64) ?? null,
+      lastmodAt: result.lastmod ? parseLastmod(result.lastmod) : null,
+      statusCode: result.statusCode,
+      finalUrl: result.finalUrl,
+      blockedByRobots: result.blockedByRobots,
+      issues: result.issues,
+      indexable: result.indexable,
+    }));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(sitemapUrls).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    const count = (...issues: SitemapUrlIssue[]) =>
+      results.filter(result => result.issues.some(issue => issues.includes(issue))).length;
+
+    await db.update(sitemapScans).set({
+      status: "completed",
+      sitemaps: discovery.sitemaps,
+      urlsFound: results.length,
+      urlsChecked: results.filter(result => result.statusCode !== null || result.issues.includes("fetch_error")).length,
+      invalidCount: count("invalid_url", "cross_host", "invalid_lastmod", "future_lastmod"),
+      blockedCount: count("blocked_by_robots"),
+      redirectCount: count("redirect"),
+      errorCount: count("client_error", "server_error", "fetch_error"),
+      completedAt: new Date(),
+    }).where(eq(sitemapScans.id, scanId));
+  } catch (error) {
+    console.error(`Sitemap scan ${scanId} failed:`, error);
+    await db.update(sitemapScans).set({
+      status: "failed",
+      errorMessage: String(error),
+      completedAt: new Date(),
+    }).where(eq(sitemapScans.id, scanId));
+    throw error;
+  }
+}
+
+/**
+ * Get indexable URLs from the latest completed sitemap scan, most recently modified first
+ */
+export async function getIndexableSitemapUrls(domainId: number, limit: number): Promise<string[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const latest = await db.select().from(sitemapScans)
+    .where(and(eq(sitemapScans.domainId, domainId), eq(sitemapScans.status, "completed")))
+    .orderBy(desc(sitemapScans.createdAt))
+    .limit(1);
+  if (!latest[0]) return [];
+
+  const rows = await db.select({ url: sitemapUrls.url }).from(sitemapUrls)
+    .where(and(eq(sitemapUrls.scanId, latest[0].id), eq(sitemapUrls.indexable, true)))
+    .orderBy(sql`${sitemapUrls.lastmodAt} desc nulls last`, sitemapUrls.id)
+    .limit(limit);
+
+  return rows.map(row => row.url);
+}
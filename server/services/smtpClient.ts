@@ -0,0 +1,194 @@
+/**
+ * Minimal SMTP Client
+ * アラート・ダイジェストメール送信用の最小限のSMTPクライアント（STARTTLS / SMTPS / AUTH PLAIN対応）
+ */
+
+import net from "net";
+import tls from "tls";
+import { randomUUID } from "crypto";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect with TLS from the start (SMTPS, usually port 465); otherwise STARTTLS is used when offered */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface MailMessage {
+  subject: string;
+  text: string;
+  /** HTML alternative of the text body */
+  html?: string;
+}
+
+const SMTP_TIMEOUT_MS = 30000;
+
+// RFC 2047形式でヘッダーをエンコード（非ASCII文字を含む件名用）
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+// 本文をbase64で76文字ごとに折り返す
+function encodeBody(content: string): string {
+  return Buffer.from(content, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+}
+
+/**
+ * Build an RFC 5322 message with a base64-encoded UTF-8 body (multipart/alternative when HTML is given)
+ */
+export function buildMailData(from: string, to: string[], message: MailMessage, date: Date = new Date()): string {
+  const domain = from.split("@")[1] || "localhost";
+  const headers = [
+    `From: ${from}`,
+    `To: ${to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      "Content-Type: text/plain; charset=UTF-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      encodeBody(message.text),
+    ].join("\r\n");
+  }
+
+  const boundary = `=_${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+// 応答行を読み取るSMTPセッション
+class SmtpSession {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiter: (() => void) | null = null;
+  private error: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding("utf8");
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.waiter?.();
+    });
+    socket.on("error", (error: Error) => {
+      this.error = error;
+      this.waiter?.();
+    });
+    socket.on("close", () => {
+      this.error ??= new Error("SMTP connection closed");
+      this.waiter?.();
+    });
+  }
+
+  // STARTTLS後は同じソケットをTLSで包み直す
+  async upgrade(host: string) {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secure.once("secureConnect", resolve);
+      secure.once("error", reject);
+    });
+    this.attach(secure);
+  }
+
+  async reply(expected: number[]): Promise<string> {
+    const text: string[] = [];
+    for (;;) {
+      while (this.lines.length === 0) {
+        if (this.error) throw this.error;
+        await new Promise<void>(resolve => (this.waiter = resolve));
+        this.waiter = null;
+      }
+      const line = this.lines.shift()!;
+      text.push(line.slice(4));
+      if (line[3] === "-") continue;
+
+      const code = parseInt(line.slice(0, 3), 10);
+      if (!expected.includes(code)) throw new Error(`SMTP ${code}: ${text.join(" ")}`);
+      return text.join("\n");
+    }
+  }
+
+  async command(line: string, expected: number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.reply(expected);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Send a mail through an SMTP server
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+  const session = new SmtpSession(socket);
+
+  try {
+    await session.reply([220]);
+    let capabilities = await session.command(`EHLO ${config.from.split("@")[1] || "localhost"}`, [250]);
+
+    if (!config.secure && /^STARTTLS$/m.test(capabilities)) {
+      await session.command("STARTTLS", [220]);
+      await session.upgrade(config.host);
+      capabilities = await session.command(`EHLO ${config.from.split("@")[1] || "localhost"}`, [250]);
+    }
+
+    if (config.username) {
+      const credentials = Buffer.from(`\u0000${config.username}\u0000${config.password ?? ""}`, "utf8").toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${config.from}>`, [250]);
+    for (const recipient of config.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command("DATA", [354]);
+    // 行頭のドットはエスケープ（dot-stuffing）
+    const data = buildMailData(config.from, config.to, message).replace(/^\./gm, "..");
+    await session.command(`${data}\r\n.`, [250]);
+    await session.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
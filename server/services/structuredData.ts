@@ -0,0 +1,462 @@
+/**
+ * Structured Data Service
+ * ページからJSON-LD・Microdata・RDFaの構造化データを抽出し、schema.orgの型とGoogleのリッチリザルト要件で検証
+ */
+
+import { childElements, findElements, removeNonContent, stripTags } from "./htmlExtractor";
+import type { HtmlElement } from "./htmlExtractor";
+
+export type StructuredDataSyntax = "json-ld" | "microdata" | "rdfa";
+
+export type StructuredDataNode = Record<string, unknown>;
+
+export interface StructuredDataItem {
+  syntax: StructuredDataSyntax;
+  /** schema.org type names of the top-level entity, without the schema.org prefix */
+  types: string[];
+  /** The entity in JSON-LD form (Microdata and RDFa are converted) */
+  data: StructuredDataNode;
+}
+
+export interface StructuredDataExtraction {
+  items: StructuredDataItem[];
+  parseErrors: Array<{ syntax: StructuredDataSyntax; message: string }>;
+}
+
+export interface StructuredDataIssue {
+  severity: "error" | "warning";
+  /** Property path inside the item, e.g. mainEntity[0].acceptedAnswer */
+  path: string;
+  message: string;
+}
+
+export interface ValidatedStructuredDataItem extends StructuredDataItem {
+  /** Google rich result the item was checked against */
+  richResult: string | null;
+  errors: StructuredDataIssue[];
+  warnings: StructuredDataIssue[];
+}
+
+export interface StructuredDataReport {
+  items: ValidatedStructuredDataItem[];
+  parseErrors: StructuredDataExtraction["parseErrors"];
+  errorCount: number;
+  warningCount: number;
+}
+
+/** A property name, or a list of alternatives of which one must be present */
+type Requirement = string | string[];
+
+interface ValidationRule {
+  label: string;
+  required: Requirement[];
+  recommended: Requirement[];
+  /** Properties whose values are checked against another rule */
+  nested?: Array<{ property: string; rule: RuleId }>;
+}
+
+type RuleId =
+  | "Article"
+  | "ArticleAuthor"
+  | "Product"
+  | "Offer"
+  | "AggregateRating"
+  | "Review"
+  | "FAQPage"
+  | "Question"
+  | "Answer"
+  | "HowTo"
+  | "HowToStep"
+  | "LocalBusiness"
+  | "PostalAddress"
+  | "GeoCoordinates"
+  | "BreadcrumbList"
+  | "ListItem"
+  | "Organization";
+
+// Googleのリッチリザルト要件（必須・推奨プロパティ）
+const VALIDATION_RULES: Record<RuleId, ValidationRule> = {
+  Article: {
+    label: "記事",
+    required: [],
+    recommended: ["headline", "image", "author", "datePublished", "dateModified"],
+    nested: [{ property: "author", rule: "ArticleAuthor" }],
+  },
+  ArticleAuthor: { label: "著者", required: ["name"], recommended: ["url"] },
+  Product: {
+    label: "商品",
+    required: ["name", ["offers", "review", "aggregateRating"]],
+    recommended: ["image", "description", "brand", "sku", ["gtin", "gtin8", "gtin12", "gtin13", "gtin14", "mpn"]],
+    nested: [
+      { property: "offers", rule: "Offer" },
+      { property: "aggregateRating", rule: "AggregateRating" },
+      { property: "review", rule: "Review" },
+    ],
+  },
+  Offer: {
+    label: "販売情報",
+    required: [["price", "priceSpecification", "lowPrice"], "priceCurrency"],
+    recommended: ["availability", "url", "priceValidUntil"],
+  },
+  AggregateRating: {
+    label: "集計評価",
+    required: ["ratingValue", ["ratingCount", "reviewCount"]],
+    recommended: ["bestRating", "worstRating"],
+  },
+  Review: { label: "レビュー", required: ["author", "reviewRating"], recommended: ["datePublished"] },
+  FAQPage: {
+    label: "よくある質問",
+    required: ["mainEntity"],
+    recommended: [],
+    nested: [{ property: "mainEntity", rule: "Question" }],
+  },
+  Question: {
+    label: "質問",
+    required: ["name", "acceptedAnswer"],
+    recommended: [],
+    nested: [{ property: "acceptedAnswer", rule: "Answer" }],
+  },
+  Answer: { label: "回答", required: ["text"], recommended: [] },
+  HowTo: {
+    label: "手順",
+    required: ["name", "step"],
+    recommended: ["image", "totalTime", "estimatedCost", "supply", "tool"],
+    nested: [{ property: "step", rule: "HowToStep" }],
+  },
+  HowToStep: { label: "手順のステップ", required: [["text", "itemListElement"]], recommended: ["name", "url", "image"] },
+  LocalBusiness: {
+    label: "ローカルビジネス",
+    required: ["name", "address"],
+    recommended: ["telephone", "url", "geo", "openingHoursSpecification", "priceRange", "image"],
+    nested: [
+      { property: "address", rule: "PostalAddress" },
+      { property: "geo", rule: "GeoCoordinates" },
+    ],
+  },
+  PostalAddress: {
+    label: "住所",
+    required: [],
+    recommended: ["streetAddress", "addressLocality", "addressRegion", "postalCode", "addressCountry"],
+  },
+  GeoCoordinates: { label: "座標", required: ["latitude", "longitude"], recommended: [] },
+  BreadcrumbList: {
+    label: "パンくずリスト",
+    required: ["itemListElement"],
+    recommended: [],
+    nested: [{ property: "itemListElement", rule: "ListItem" }],
+  },
+  ListItem: { label: "パンくずの項目", required: ["position", "name"], recommended: ["item"] },
+  Organization: {
+    label: "組織",
+    required: [],
+    recommended: ["name", "url", "logo", "sameAs", "description"],
+  },
+};
+
+// 型（サブタイプを含む）から検証ルールへの対応
+const RICH_RESULT_TYPES: Record<string, RuleId> = {
+  ...Object.fromEntries([
+    "Article", "NewsArticle", "BlogPosting", "TechArticle", "ScholarlyArticle", "Report", "LiveBlogPosting",
+    "AnalysisNewsArticle", "OpinionNewsArticle", "ReportageNewsArticle", "ReviewNewsArticle",
+  ].map(type => [type, "Article" as RuleId])),
+  ...Object.fromEntries(["Product", "IndividualProduct", "ProductModel", "SomeProducts"].map(type => [type, "Product" as RuleId])),
+  FAQPage: "FAQPage",
+  HowTo: "HowTo",
+  ...Object.fromEntries([
+    "LocalBusiness", "Restaurant", "FoodEstablishment", "CafeOrCoffeeShop", "Bakery", "BarOrPub", "FastFoodRestaurant",
+    "Store", "ClothingStore", "ElectronicsStore", "GroceryStore", "HardwareStore", "BookStore", "ConvenienceStore",
+    "Dentist", "MedicalBusiness", "MedicalClinic", "Pharmacy", "Optician", "AutomotiveBusiness", "AutoRepair", "AutoDealer",
+    "HealthAndBeautyBusiness", "BeautySalon", "HairSalon", "DaySpa", "LodgingBusiness", "Hotel", "BedAndBreakfast",
+    "RealEstateAgent", "LegalService", "Attorney", "Notary", "FinancialService", "AccountingService", "InsuranceAgency",
+    "ProfessionalService", "HomeAndConstructionBusiness", "Plumber", "Electrician", "GeneralContractor",
+    "SportsActivityLocation", "ExerciseGym", "EntertainmentBusiness", "TravelAgency", "ChildCare", "DryCleaningOrLaundry",
+  ].map(type => [type, "LocalBusiness" as RuleId])),
+  BreadcrumbList: "BreadcrumbList",
+  ...Object.fromEntries([
+    "Organization", "Corporation", "NGO", "NewsMediaOrganization", "EducationalOrganization", "OnlineBusiness",
+    "OnlineStore", "GovernmentOrganization", "SportsOrganization", "MedicalOrganization", "Airline", "Consortium",
+  ].map(type => [type, "Organization" as RuleId])),
+};
+
+// 上記以外のよく使われるschema.orgの型
+const COMMON_TYPES = [
+  "Thing", "CreativeWork", "WebSite", "WebPage", "AboutPage", "ContactPage", "CollectionPage", "ItemPage", "ProfilePage",
+  "QAPage", "SearchResultsPage", "CheckoutPage", "MedicalWebPage", "RealEstateListing", "WebPageElement",
+  "SiteNavigationElement", "WPHeader", "WPFooter", "WPSideBar", "Person", "ImageObject", "VideoObject", "AudioObject",
+  "MediaObject", "Event", "BusinessEvent", "MusicEvent", "Recipe", "Course", "CourseInstance", "JobPosting", "Service",
+  "SoftwareApplication", "MobileApplication", "WebApplication", "Book", "Movie", "MusicRecording", "Dataset", "Map",
+  "Question", "Answer", "Comment", "DiscussionForumPosting", "SocialMediaPosting", "ClaimReview", "Review",
+  "EmployerAggregateRating", "AggregateRating", "Rating", "Offer", "AggregateOffer", "Demand", "PriceSpecification",
+  "UnitPriceSpecification", "MonetaryAmount", "QuantitativeValue", "PropertyValue", "Brand", "ListItem", "ItemList",
+  "HowToStep", "HowToSection", "HowToDirection", "HowToTip", "HowToSupply", "HowToTool", "PostalAddress",
+  "GeoCoordinates", "GeoShape", "Place", "Country", "State", "City", "AdministrativeArea", "OpeningHoursSpecification",
+  "ContactPoint", "SearchAction", "ReadAction", "EntryPoint", "SpeakableSpecification", "MerchantReturnPolicy",
+  "OfferShippingDetails", "ShippingDeliveryTime", "DefinedRegion", "NutritionInformation", "Language", "DataFeed",
+  "ProductGroup", "Vehicle", "Car", "EducationalOccupationalCredential", "Occupation", "VirtualLocation",
+];
+
+const KNOWN_TYPES = new Set([...Object.keys(RICH_RESULT_TYPES), ...COMMON_TYPES]);
+const KNOWN_TYPES_BY_LOWERCASE = new Map(Array.from(KNOWN_TYPES).map(type => [type.toLowerCase(), type]));
+
+// Microdata・RDFaの属性名
+const ATTRIBUTE_SYNTAXES = {
+  microdata: { scope: "itemscope", type: "itemtype", property: "itemprop", id: "itemid" },
+  rdfa: { scope: "typeof", type: "typeof", property: "property", id: "resource" },
+} as const;
+
+// schema.orgのURL・接頭辞付きの表記を型名・プロパティ名に変換
+function toSchemaName(value: string): string {
+  return value.trim().replace(/^(?:https?:\/\/schema\.org\/|schema:)/i, "");
+}
+
+// ノードの@typeを配列で取得
+export function typesOf(node: StructuredDataNode): string[] {
+  const type = node["@type"];
+  return (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === "string").map(toSchemaName);
+}
+
+/**
+ * Every object with an @type inside a structured data value, including the value itself
+ */
+export function collectTypedNodes(value: unknown): StructuredDataNode[] {
+  if (Array.isArray(value)) return value.flatMap(collectTypedNodes);
+  if (!value || typeof value !== "object") return [];
+  const node = value as StructuredDataNode;
+  return [...(node["@type"] !== undefined ? [node] : []), ...Object.values(node).flatMap(collectTypedNodes)];
+}
+
+// 同じプロパティが複数回あれば配列にまとめる
+function addProperty(data: StructuredDataNode, name: string, value: unknown) {
+  const existing = data[name];
+  if (existing === undefined) {
+    data[name] = value;
+  } else {
+    data[name] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+}
+
+// Microdata・RDFaのプロパティ値（属性値またはテキスト）
+function attributeValue(element: HtmlElement): string {
+  const { attrs, tagName } = element;
+  if (attrs.content !== undefined) return attrs.content;
+  if (["a", "link", "area"].includes(tagName) && attrs.href) return attrs.href;
+  if (["img", "audio", "video", "source", "iframe", "embed", "track"].includes(tagName) && attrs.src) return attrs.src;
+  if (tagName === "object" && attrs.data) return attrs.data;
+  if (tagName === "time" && attrs.datetime) return attrs.datetime;
+  if (["data", "meter"].includes(tagName) && attrs.value) return attrs.value;
+  if (attrs.resource && !(ATTRIBUTE_SYNTAXES.rdfa.scope in attrs)) return attrs.resource;
+  return stripTags(element.innerHtml);
+}
+
+// itemscope/typeofを持つ要素を1つのエンティティとして読み取る
+function readAttributeItem(element: HtmlElement, syntax: keyof typeof ATTRIBUTE_SYNTAXES): StructuredDataNode {
+  const names = ATTRIBUTE_SYNTAXES[syntax];
+  const data: StructuredDataNode = {};
+  const types = (element.attrs[names.type] || "").split(/\s+/).filter(Boolean).map(toSchemaName);
+  if (types.length > 0) data["@type"] = types.length === 1 ? types[0] : types;
+  if (element.attrs[names.id]) data["@id"] = element.attrs[names.id];
+  collectAttributeProperties(element.innerHtml, syntax, data);
+  return data;
+}
+
+// 子孫要素のプロパティを集める（入れ子のエンティティの内側はそのエンティティのプロパティ）
+function collectAttributeProperties(html: string, syntax: keyof typeof ATTRIBUTE_SYNTAXES, data: StructuredDataNode) {
+  const names = ATTRIBUTE_SYNTAXES[syntax];
+  for (const child of childElements(html)) {
+    const isScope = names.scope in child.attrs;
+    const properties = (child.attrs[names.property] || "").split(/\s+/).filter(Boolean).map(toSchemaName);
+    if (properties.length > 0) {
+      const value = isScope ? readAttributeItem(child, syntax) : attributeValue(child);
+      for (const property of properties) addProperty(data, property, value);
+    }
+    if (!isScope) collectAttributeProperties(child.innerHtml, syntax, data);
+  }
+}
+
+// 他のエンティティのプロパティではない最上位のエンティティを探す
+function findAttributeItems(html: string, syntax: keyof typeof ATTRIBUTE_SYNTAXES): StructuredDataNode[] {
+  const names = ATTRIBUTE_SYNTAXES[syntax];
+  const items: StructuredDataNode[] = [];
+  for (const child of childElements(html)) {
+    if (names.scope in child.attrs) {
+      items.push(readAttributeItem(child, syntax));
+    } else {
+      items.push(...findAttributeItems(child.innerHtml, syntax));
+    }
+  }
+  return items;
+}
+
+/**
+ * Extract all structured data from a page: JSON-LD blocks (split into @graph members), Microdata and RDFa items
+ */
+export function extractStructuredData(html: string): StructuredDataExtraction {
+  const items: StructuredDataItem[] = [];
+  const parseErrors: StructuredDataExtraction["parseErrors"] = [];
+
+  const scripts = findElements(html, "script", attrs => (attrs.type || "").trim().toLowerCase() === "application/ld+json");
+  scripts.forEach((script, index) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(script.innerHtml.trim().replace(/^<!--|-->$/g, ""));
+    } catch (error) {
+      parseErrors.push({ syntax: "json-ld", message: `JSON-LD ${index + 1}件目: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+
+    for (const block of Array.isArray(parsed) ? parsed : [parsed]) {
+      if (!block || typeof block !== "object") continue;
+      const node = block as StructuredDataNode;
+      const graph = node["@graph"];
+      const entities = Array.isArray(graph)
+        ? graph.map(member => ({ "@context": node["@context"], ...(member as StructuredDataNode) }))
+        : [node];
+      for (const entity of entities) {
+        items.push({ syntax: "json-ld", types: typesOf(entity), data: entity });
+      }
+    }
+  });
+
+  const content = removeNonContent(html);
+  for (const syntax of ["microdata", "rdfa"] as const) {
+    if (!new RegExp(`\\b${ATTRIBUTE_SYNTAXES[syntax].scope}\\b`, "i").test(content)) continue;
+    for (const data of findAttributeItems(content, syntax)) {
+      items.push({ syntax, types: typesOf(data), data });
+    }
+  }
+
+  return { items, parseErrors };
+}
+
+// 値が空でないか（空文字・空配列・nullは未設定とみなす）
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.some(hasValue);
+  return true;
+}
+
+// @idのみのノードを同じページ内の定義に置き換える
+function resolveReference(value: unknown, nodesById: Map<string, StructuredDataNode>): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+  const node = value as StructuredDataNode;
+  const id = node["@id"];
+  if (typeof id === "string" && Object.keys(node).every(key => key === "@id") && nodesById.has(id)) {
+    return nodesById.get(id);
+  }
+  return value;
+}
+
+// ルールに沿ってノードを検証（入れ子のプロパティも再帰的に検証）
+function validateNode(
+  node: StructuredDataNode,
+  ruleId: RuleId,
+  path: string,
+  nodesById: Map<string, StructuredDataNode>,
+  issues: StructuredDataIssue[]
+) {
+  const rule = VALIDATION_RULES[ruleId];
+  const prefix = path ? `${path}.` : "";
+  const describe = (requirement: Requirement) => Array.isArray(requirement) ? requirement.join(" / ") : requirement;
+  const isMet = (requirement: Requirement) =>
+    (Array.isArray(requirement) ? requirement : [requirement]).some(property => hasValue(node[property]));
+
+  for (const requirement of rule.required) {
+    if (!isMet(requirement)) {
+      issues.push({
+        severity: "error",
+        path: `${prefix}${describe(requirement)}`,
+        message: `${rule.label}の必須プロパティ「${describe(requirement)}」がありません`,
+      });
+    }
+  }
+  for (const requirement of rule.recommended) {
+    if (!isMet(requirement)) {
+      issues.push({
+        severity: "warning",
+        path: `${prefix}${describe(requirement)}`,
+        message: `${rule.label}の推奨プロパティ「${describe(requirement)}」がありません`,
+      });
+    }
+  }
+
+  for (const { property, rule: nestedRule } of rule.nested ?? []) {
+    const value = node[property];
+    if (!hasValue(value)) continue;
+    const values = Array.isArray(value) ? value : [value];
+    values.forEach((entry, i) => {
+      const entryPath = `${prefix}${property}${values.length > 1 ? `[${i}]` : ""}`;
+      const resolved = resolveReference(entry, nodesById);
+      if (resolved && typeof resolved === "object") {
+        validateNode(resolved as StructuredDataNode, nestedRule, entryPath, nodesById, issues);
+      } else if (VALIDATION_RULES[nestedRule].required.length > 0) {
+        issues.push({
+          severity: "error",
+          path: entryPath,
+          message: `「${property}」は${VALIDATION_RULES[nestedRule].label}のオブジェクトで指定してください`,
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Validate extracted items against schema.org types and Google rich result requirements
+ */
+export function validateStructuredData(extraction: StructuredDataExtraction): StructuredDataReport {
+  const nodesById = new Map<string, StructuredDataNode>();
+  for (const node of extraction.items.flatMap(item => collectTypedNodes(item.data))) {
+    if (typeof node["@id"] === "string") nodesById.set(node["@id"], node);
+  }
+
+  const items = extraction.items.map((item): ValidatedStructuredDataItem => {
+    const issues: StructuredDataIssue[] = [];
+
+    if (item.syntax === "json-ld") {
+      const context = item.data["@context"];
+      const contexts = (Array.isArray(context) ? context : [context]).filter((c): c is string => typeof c === "string");
+      if (!contexts.some(c => /^https?:\/\/schema\.org\/?$/i.test(c.trim()))) {
+        issues.push({ severity: "error", path: "@context", message: "@contextに https://schema.org を指定してください" });
+      }
+    }
+    if (item.types.length === 0) {
+      issues.push({ severity: "error", path: "@type", message: "@type（schema.orgの型）が指定されていません" });
+    }
+
+    for (const node of collectTypedNodes(item.data)) {
+      for (const type of typesOf(node)) {
+        if (KNOWN_TYPES.has(type)) continue;
+        const suggestion = KNOWN_TYPES_BY_LOWERCASE.get(type.toLowerCase());
+        issues.push(suggestion
+          ? { severity: "error", path: "@type", message: `型「${type}」は大文字・小文字が正しくありません（${suggestion}）` }
+          : { severity: "warning", path: "@type", message: `型「${type}」は一般的なschema.orgの型ではありません（スペルを確認してください）` });
+      }
+    }
+
+    const ruleId = item.types.map(type => RICH_RESULT_TYPES[type]).find(Boolean) ?? null;
+    if (ruleId) validateNode(item.data, ruleId, "", nodesById, issues);
+
+    return {
+      ...item,
+      richResult: ruleId,
+      errors: issues.filter(issue => issue.severity === "error"),
+      warnings: issues.filter(issue => issue.severity === "warning"),
+    };
+  });
+
+  return {
+    items,
+    parseErrors: extraction.parseErrors,
+    errorCount: items.reduce((sum, item) => sum + item.errors.length, 0) + extraction.parseErrors.length,
+    warningCount: items.reduce((sum, item) => sum + item.warnings.length, 0),
+  };
+}
+
+/**
+ * Validate a pasted snippet: raw JSON-LD (object or array) or HTML containing any of the three syntaxes
+ */
+export function validateStructuredDataSnippet(snippet: string): StructuredDataReport {
+  const trimmed = snippet.trim();
+  const html = /^[[{]/.test(trimmed) ? `<script type="application/ld+json">${trimmed}</script>` : trimmed;
+  return validateStructuredData(extractStructuredData(html));
+}
@@ -0,0 +1,157 @@
+/**
+ * Visibility Index
+ * 順位をCTRカーブで重み付けし、追跡ドメインと競合ドメインの可視性・シェア・オブ・ボイスを日次で算出
+ */
+
+import { getDb } from "../db";
+import { competitorDomains, serpSnapshots, trackedDomains, visibilityHistory } from "../../drizzle/schema";
+import type { InsertVisibilityHistory, VisibilityHistory } from "../../drizzle/schema";
+import { and, asc, desc, eq, gte, lt } from "drizzle-orm";
+import { findDomainResult, normalizeDomain } from "./serpParser";
+import type { StoredSerpResult } from "./rankTracker";
+
+/** Expected organic CTR by position (index 0 = #1); positions beyond the curve get no clicks */
+export const CTR_CURVE = [
+  0.284, 0.157, 0.110, 0.080, 0.072, 0.051, 0.040, 0.032, 0.028, 0.025,
+  0.012, 0.011, 0.010, 0.009, 0.008, 0.007, 0.006, 0.006, 0.005, 0.005,
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VisibilityScore {
+  domain: string;
+  isCompetitor: boolean;
+  /** Expected CTR summed over the SERPs, relative to holding #1 everywhere (0-100) */
+  visibility: number;
+  /** Share of the expected clicks across all results of the SERPs (0-100) */
+  shareOfVoice: number;
+  keywordsRanked: number;
+  keywordsChecked: number;
+}
+
+/**
+ * Expected CTR of an organic position
+ */
+export function expectedCtr(position: number | null): number {
+  if (position === null || position < 1) return 0;
+  return CTR_CURVE[position - 1] ?? 0;
+}
+
+// 小数第2位で丸める
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compute visibility and share of voice for our domain and competitors over a set of SERPs
+ */
+export function computeVisibility(
+  serps: Array<{ results: StoredSerpResult[] }>,
+  ourDomain: string,
+  competitors: string[]
+): VisibilityScore[] {
+  const subjects = [
+    { domain: normalizeDomain(ourDomain), isCompetitor: false },
+    ...competitors.map(domain => ({ domain: normalizeDomain(domain), isCompetitor: true })),
+  ];
+  // SERP上の全結果が獲得する想定クリックの合計（シェア・オブ・ボイスの分母）
+  const totalCtr = serps.reduce(
+    (sum, serp) => sum + serp.results.reduce((acc, result) => acc + expectedCtr(result.position), 0),
+    0
+  );
+  const maxCtr = serps.length * CTR_CURVE[0];
+
+  return subjects.map(subject => {
+    let ctr = 0;
+    let ranked = 0;
+    for (const serp of serps) {
+      const result = findDomainResult({ organic: serp.results }, subject.domain);
+      if (!result) continue;
+      ranked++;
+      ctr += expectedCtr(result.position);
+    }
+    return {
+      domain: subject.domain,
+      isCompetitor: subject.isCompetitor,
+      visibility: maxCtr > 0 ? round2((ctr / maxCtr) * 100) : 0,
+      shareOfVoice: totalCtr > 0 ? round2((ctr / totalCtr) * 100) : 0,
+      keywordsRanked: ranked,
+      keywordsChecked: serps.length,
+    };
+  });
+}
+
+/**
+ * Start of the UTC day containing a date
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Recompute and store the visibility index of a tracked domain and its competitors for one day
+ */
+export async function updateVisibilityHistory(domainId: number, day: Date = new Date()): Promise<VisibilityScore[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const domain = await db.select().from(trackedDomains).where(eq(trackedDomains.id, domainId)).limit(1);
+  if (!domain[0]) throw new Error("Domain not found");
+
+  const date = startOfUtcDay(day);
+  const snapshots = await db
+    .select({
+      keywordId: serpSnapshots.keywordId,
+      profileId: serpSnapshots.profileId,
+      results: serpSnapshots.results,
+    })
+    .from(serpSnapshots)
+    .where(and(
+      eq(serpSnapshots.domainId, domainId),
+      gte(serpSnapshots.checkedAt, date),
+      lt(serpSnapshots.checkedAt, new Date(date.getTime() + DAY_MS))
+    ))
+    .orderBy(desc(serpSnapshots.checkedAt));
+
+  // 同じ日に同じキーワード・プロファイルを複数回チェックした場合は最新のみ使う
+  const latest = new Map<string, { results: StoredSerpResult[] }>();
+  for (const snapshot of snapshots) {
+    const key = `${snapshot.keywordId}:${snapshot.profileId ?? ""}`;
+    if (!latest.has(key)) latest.set(key, { results: (snapshot.results as StoredSerpResult[] | null) ?? [] });
+  }
+
+  const competitors = await db.select().from(competitorDomains).where(eq(competitorDomains.domainId, domainId));
+  const scores = computeVisibility(Array.from(latest.values()), domain[0].domain, competitors.map(c => c.domain));
+
+  await db.delete(visibilityHistory).where(and(eq(visibilityHistory.domainId, domainId), eq(visibilityHistory.date, date)));
+  if (latest.size > 0) {
+    const rows: InsertVisibilityHistory[] = scores.map(score => ({
+      domainId,
+      date,
+      subjectDomain: score.domain,
+      isCompetitor: score.isCompetitor,
+      visibility: String(score.visibility),
+      shareOfVoice: String(score.shareOfVoice),
+      keywordsRanked: score.keywordsRanked,
+      keywordsChecked: score.keywordsChecked,
+    }));
+    await db.insert(visibilityHistory).values(rows);
+  }
+
+  return scores;
+}
+
+/**
+ * Get daily visibility rows of a tracked domain and its competitors, oldest first
+ */
+export async function getVisibilityHistory(domainId: number, days: number = 30): Promise<VisibilityHistory[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select().from(visibilityHistory)
+    .where(and(
+      eq(visibilityHistory.domainId, domainId),
+      gte(visibilityHistory.date, startOfUtcDay(new Date(Date.now() - days * DAY_MS)))
+    ))
+    .orderBy(asc(visibilityHistory.date), desc(visibilityHistory.shareOfVoice));
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { computeShareOfModel, weekStartKey, type ShareOfModelRun } from "./services/shareOfModel";
+
+const since = new Date("2026-09-01T00:00:00Z");
+const run = (overrides: Partial<ShareOfModelRun>): ShareOfModelRun => ({
+  platform: "chatgpt",
+  tags: [],
+  ranAt: new Date("2026-10-13T05:00:00Z"),
+  mentioned: false,
+  mentionPosition: null,
+  competitorMentions: [],
+  ...overrides,
+});
+
+describe("weekStartKey", () => {
+  it("returns the Monday of the UTC week", () => {
+    expect(weekStartKey(new Date("2026-10-19T05:00:00Z"))).toBe("2026-10-19");
+    expect(weekStartKey(new Date("2026-10-25T23:59:00Z"))).toBe("2026-10-19");
+    expect(weekStartKey(new Date("2026-10-18T12:00:00Z"))).toBe("2026-10-12");
+  });
+});
+
+describe("computeShareOfModel", () => {
+  const runs = [
+    run({
+      tags: ["比較"],
+      mentioned: true,
+      mentionPosition: 2,
+      competitorMentions: [{ domain: "gyro-n.com", mentionPosition: 1, cited: false }],
+    }),
+    run({
+      platform: "perplexity",
+      tags: ["比較", "無料"],
+      mentioned: true,
+      mentionPosition: 1,
+      competitorMentions: [{ domain: "seopack.jp", mentionPosition: null, cited: true }],
+    }),
+    run({
+      platform: "perplexity",
+      ranAt: new Date("2026-10-19T05:00:00Z"),
+      competitorMentions: [
+        { domain: "gyro-n.com", mentionPosition: 1, cited: true },
+        { domain: "ahrefs.com", mentionPosition: 2, cited: false },
+      ],
+    }),
+    run({ platform: "gemini", ranAt: new Date("2026-10-19T05:00:00Z") }),
+  ];
+  const report = computeShareOfModel(runs, "nexus-seo.example", ["gyro-n.com", "seopack.jp"], since);
+
+  it("computes the mention rate and average rank of each brand over all answers", () => {
+    expect(report.answers).toBe(4);
+    expect(report.brands).toEqual([
+      { domain: "nexus-seo.example", isOwn: true, mentions: 2, shareOfModel: 50, averageRank: 1.5 },
+      { domain: "gyro-n.com", isOwn: false, mentions: 2, shareOfModel: 50, averageRank: 1 },
+      { domain: "ahrefs.com", isOwn: false, mentions: 1, shareOfModel: 25, averageRank: 2 },
+      { domain: "seopack.jp", isOwn: false, mentions: 0, shareOfModel: 0, averageRank: null },
+    ]);
+  });
+
+  it("counts competitors named in the same answers as our brand, ignoring citations alone", () => {
+    expect(report.coMentioned).toEqual([{ domain: "gyro-n.com", count: 1, rate: 50 }]);
+  });
+
+  it("breaks the share down by platform, tag and week", () => {
+    const own = (segments: typeof report.byPlatform) =>
+      segments.map(segment => [segment.key, segment.answers, segment.brands.find(brand => brand.isOwn)?.shareOfModel]);
+
+    expect(own(report.byPlatform)).toEqual([
+      ["chatgpt", 1, 100],
+      ["gemini", 1, 0],
+      ["perplexity", 2, 50],
+    ]);
+    expect(own(report.byTag)).toEqual([
+      ["", 2, 0],
+      ["比較", 2, 100],
+      ["無料", 1, 100],
+    ]);
+    expect(own(report.byWeek)).toEqual([
+      ["2026-10-12", 2, 100],
+      ["2026-10-19", 2, 0],
+    ]);
+  });
+
+  it("returns empty shares when there are no answers", () => {
+    const empty = computeShareOfModel([], "nexus-seo.example", ["gyro-n.com"], since);
+    expect(empty.brands.map(brand => brand.shareOfModel)).toEqual([0, 0]);
+    expect(empty.byWeek).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { analyzeAIReadability } from "./services/aiReadability";
+import { diffAuditIssues, evaluateAuditChecks, fingerprintFinding, type AuditPageInput } from "./services/siteAudit";
+
+function page(overrides: Partial<AuditPageInput>): AuditPageInput {
+  return {
+    url: "https://example.com/",
+    statusCode: 200,
+    finalStatusCode: 200,
+    finalUrl: "https://example.com/",
+    redirectChain: [],
+    contentType: "text/html",
+    title: "Home",
+    metaDescription: "Welcome",
+    canonical: null,
+    metaRobots: null,
+    headings: [{ level: 1, text: "Home" }],
+    wordCount: 500,
+    outlinks: [],
+    imagesMissingAlt: 0,
+    fetchError: null,
+    aiReadability: null,
+    ...overrides,
+  };
+}
+
+describe("evaluateAuditChecks", () => {
+  it("flags the issue catalog across pages", () => {
+    const pages = [
+      page({
+        url: "https://example.com/",
+        outlinks: [{ url: "https://example.com/gone", anchor: "Gone", internal: true, nofollow: false }],
+      }),
+      page({
+        url: "https://example.com/a",
+        title: "Home",
+        metaDescription: null,
+        headings: [{ level: 1, text: "A" }, { level: 1, text: "B" }],
+        wordCount: 40,
+        imagesMissingAlt: 2,
+      }),
+      page({ url: "https://example.com/gone", statusCode: 404, finalStatusCode: 404, title: null }),
+      page({
+        url: "https://example.com/old",
+        statusCode: 301,
+        finalUrl: "https://example.com/",
+        redirectChain: [
+          { url: "https://example.com/old", statusCode: 301 },
+          { url: "https://example.com/older", statusCode: 302 },
+        ],
+      }),
+    ];
+
+    const findings = evaluateAuditChecks(pages, ["https://example.com/old", "https://example.com/"]);
+    const types = (url: string) => findings.filter(f => f.url === url).map(f => f.issueType).sort();
+
+    expect(types("https://example.com/")).toEqual(["broken_internal_link", "duplicate_title"]);
+    expect(types("https://example.com/a")).toEqual([
+      "duplicate_title",
+      "missing_alt_text",
+      "missing_meta_description",
+      "multiple_h1",
+      "thin_content",
+    ]);
+    // エラーページ自体にはコンテンツのチェックを行わない
+    expect(types("https://example.com/gone")).toEqual([]);
+    expect(types("https://example.com/old")).toEqual(["non_canonical_in_sitemap", "redirect_chain"]);
+  });
+
+  it("treats a redirect to an error page as broken", () => {
+    const pages = [
+      page({
+        url: "https://example.com/",
+        outlinks: [{ url: "https://example.com/retired", anchor: "Retired", internal: true, nofollow: false }],
+      }),
+      page({
+        url: "https://example.com/retired",
+        statusCode: 301,
+        finalStatusCode: 404,
+        finalUrl: "https://example.com/missing",
+        redirectChain: [{ url: "https://example.com/retired", statusCode: 301 }],
+        title: null,
+      }),
+    ];
+
+    const findings = evaluateAuditChecks(pages, ["https://example.com/retired"]);
+    expect(findings.find(f => f.issueType === "broken_internal_link")).toMatchObject({
+      url: "https://example.com/",
+      details: { target: "https://example.com/retired", statusCode: 301, finalStatusCode: 404 },
+    });
+    expect(findings.find(f => f.issueType === "non_canonical_in_sitemap")?.details.reason).toBe("error");
+  });
+
+  it("reports readability findings from stored page analysis", () => {
+    const aiReadability = analyzeAIReadability("<html><body><div>Plain text only</div></body></html>");
+    const findings = evaluateAuditChecks([page({ aiReadability })]);
+
+    expect(findings.map(f => f.issueType).sort()).toEqual(["low_ai_readability", "missing_structured_data"]);
+  });
+});
+
+describe("diffAuditIssues", () => {
+  it("splits issues into new, fixed and persisting by fingerprint", () => {
+    const a = { fingerprint: fingerprintFinding({ issueType: "missing_title", url: "https://example.com/a", subject: "" }) };
+    const b = { fingerprint: fingerprintFinding({ issueType: "thin_content", url: "https://example.com/b", subject: "" }) };
+    const c = { fingerprint: fingerprintFinding({ issueType: "thin_content", url: "https://example.com/c", subject: "" }) };
+
+    const diff = diffAuditIssues([a, b], [b, c]);
+    expect(diff.newIssues).toEqual([c]);
+    expect(diff.fixedIssues).toEqual([a]);
+    expect(diff.persistingIssues).toEqual([b]);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { gzipSync } from "zlib";
+import { checkSitemapUrls, discoverSitemaps, parseLastmod, parseSitemapXml } from "./services/sitemap";
+import { parseRobotsTxt } from "./services/robotsTxt";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = req.url || "/";
+    if (path === "/robots.txt") {
+      res.writeHead(200, { "content-type": "text/plain" });
+      res.end(`User-agent: *\nDisallow: /private/\nSitemap: ${baseUrl}/sitemap_index.xml\n`);
+    } else if (path === "/sitemap_index.xml") {
+      res.writeHead(200, { "content-type": "application/xml" });
+      res.end(`<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>${baseUrl}/pages.xml.gz</loc></sitemap>
+        <sitemap><loc>${baseUrl}/missing.xml</loc></sitemap>
+      </sitemapindex>`);
+    } else if (path === "/pages.xml.gz") {
+      res.writeHead(200, { "content-type": "application/x-gzip" });
+      res.end(gzipSync(`<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>${baseUrl}/</loc><lastmod>2024-05-01</lastmod></url>
+        <url><loc>${baseUrl}/old</loc><lastmod>2024-13-01</lastmod></url>
+        <url><loc>${baseUrl}/private/page</loc></url>
+        <url><loc>${baseUrl}/gone</loc></url>
+        <url><loc>https://other.example/page</loc></url>
+      </urlset>`));
+    } else if (path === "/old") {
+      res.writeHead(301, { location: "/" });
+      res.end();
+    } else if (path === "/") {
+      res.writeHead(200, { "content-type": "text/html" });
+      res.end("<html><title>Home</title></html>");
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("parseSitemapXml", () => {
+  it("parses urlsets with CDATA and entities", () => {
+    const parsed = parseSitemapXml(`<urlset><url><loc><![CDATA[https://example.com/?a=1&b=2]]></loc>
+      <lastmod>2024-05-01T10:00:00+09:00</lastmod></url><url><loc>https://example.com/x?a=1&amp;b=2</loc></url></urlset>`);
+
+    expect(parsed.type).toBe("urlset");
+    expect(parsed.entries).toEqual([
+      { loc: "https://example.com/?a=1&b=2", lastmod: "2024-05-01T10:00:00+09:00" },
+      { loc: "https://example.com/x?a=1&b=2", lastmod: null },
+    ]);
+  });
+
+  it("accepts only W3C Datetime lastmod values", () => {
+    expect(parseLastmod("2024")).not.toBeNull();
+    expect(parseLastmod("2024-05-01T10:00Z")).not.toBeNull();
+    expect(parseLastmod("2024-05-01T10:00:00")).toBeNull();
+    expect(parseLastmod("05/01/2024")).toBeNull();
+  });
+});
+
+describe("discoverSitemaps", () => {
+  it("follows robots.txt sitemap indexes into gzipped sitemaps and checks each URL", async () => {
+    const robots = parseRobotsTxt(`User-agent: *\nDisallow: /private/\nSitemap: ${baseUrl}/sitemap_index.xml\n`);
+    const discovery = await discoverSitemaps(baseUrl, robots);
+
+    const pages = discovery.sitemaps.find(s => s.url.endsWith("/pages.xml.gz"))!;
+    expect(pages).toMatchObject({ source: "index", type: "urlset", gzipped: true, urlCount: 5 });
+    expect(discovery.sitemaps.find(s => s.url.endsWith("/missing.xml"))).toMatchObject({
+      type: "unavailable",
+      errors: ["HTTP 404"],
+    });
+
+    const results = await checkSitemapUrls(discovery.urls, robots);
+    const issues = (path: string) => results.find(r => r.loc === `${baseUrl}${path}`)!.issues;
+
+    expect(issues("/")).toEqual([]);
+    expect(results.find(r => r.loc === `${baseUrl}/`)!.indexable).toBe(true);
+    expect(issues("/old")).toEqual(["invalid_lastmod", "redirect"]);
+    expect(issues("/private/page")).toEqual(["blocked_by_robots"]);
+    expect(issues("/gone")).toEqual(["client_error"]);
+    expect(results.find(r => r.loc === "https://other.example/page")!.issues).toEqual(["cross_host"]);
+  });
+});
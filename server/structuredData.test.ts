@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { extractStructuredData, validateStructuredData, validateStructuredDataSnippet } from "./services/structuredData";
+
+describe("extractStructuredData", () => {
+  it("splits JSON-LD graphs and converts Microdata and RDFa items", () => {
+    const { items, parseErrors } = extractStructuredData(`
+      <script type="application/ld+json">
+        {"@context":"https://schema.org","@graph":[{"@type":"WebSite","name":"Example"},{"@type":"Organization","@id":"#org","name":"Example Inc."}]}
+      </script>
+      <script type="application/ld+json">{ "@type": </script>
+      <div itemscope itemtype="https://schema.org/Product">
+        <h1 itemprop="name">Widget</h1>
+        <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+          <meta itemprop="priceCurrency" content="JPY"><span itemprop="price">1980</span>
+        </div>
+        <a itemprop="url" href="https://example.com/widget">link</a>
+      </div>
+      <ol vocab="https://schema.org/" typeof="BreadcrumbList">
+        <li property="itemListElement" typeof="ListItem">
+          <a property="item" href="https://example.com/"><span property="name">Home</span></a>
+          <meta property="position" content="1">
+        </li>
+      </ol>
+    `);
+
+    expect(items.map(item => [item.syntax, item.types])).toEqual([
+      ["json-ld", ["WebSite"]],
+      ["json-ld", ["Organization"]],
+      ["microdata", ["Product"]],
+      ["rdfa", ["BreadcrumbList"]],
+    ]);
+    expect(items[1].data["@context"]).toBe("https://schema.org");
+    expect(items[2].data).toEqual({
+      "@type": "Product",
+      name: "Widget",
+      offers: { "@type": "Offer", priceCurrency: "JPY", price: "1980" },
+      url: "https://example.com/widget",
+    });
+    expect(items[3].data.itemListElement).toEqual({ "@type": "ListItem", item: "https://example.com/", name: "Home", position: "1" });
+    expect(parseErrors).toHaveLength(1);
+  });
+});
+
+describe("validateStructuredData", () => {
+  it("reports missing required and recommended properties, including nested ones", () => {
+    const report = validateStructuredDataSnippet(JSON.stringify({
+      "@context": "https://schema.org",
+      "@type": "FAQPage",
+      mainEntity: [
+        { "@type": "Question", name: "送料は？", acceptedAnswer: { "@type": "Answer", text: "無料です" } },
+        { "@type": "Question", name: "返品は？", acceptedAnswer: "できます" },
+        { "@type": "Question", acceptedAnswer: { "@type": "Answer" } },
+      ],
+    }));
+
+    expect(report.items[0].richResult).toBe("FAQPage");
+    expect(report.items[0].errors.map(e => e.path)).toEqual([
+      "mainEntity[1].acceptedAnswer",
+      "mainEntity[2].name",
+      "mainEntity[2].acceptedAnswer.text",
+    ]);
+    expect(report.errorCount).toBe(3);
+  });
+
+  it("treats alternatives as satisfied by any one property and resolves @id references", () => {
+    const report = validateStructuredDataSnippet(`
+      <script type="application/ld+json">
+        {"@context":"https://schema.org","@graph":[
+          {"@type":"Product","name":"Widget","image":"https://example.com/w.png","aggregateRating":{"@id":"#rating"}},
+          {"@type":"AggregateRating","@id":"#rating","ratingValue":4.5}
+        ]}
+      </script>`);
+
+    const product = report.items[0];
+    expect(product.errors.map(e => e.message)).toEqual(["集計評価の必須プロパティ「ratingCount / reviewCount」がありません"]);
+    expect(product.warnings.map(w => w.path)).toEqual([
+      "description",
+      "brand",
+      "sku",
+      "gtin / gtin8 / gtin12 / gtin13 / gtin14 / mpn",
+      "aggregateRating.bestRating",
+      "aggregateRating.worstRating",
+    ]);
+  });
+
+  it("checks the context and type names", () => {
+    const report = validateStructuredData(extractStructuredData(`
+      <script type="application/ld+json">{"@context":"http://example.com","@type":"product","name":"x"}</script>
+      <script type="application/ld+json">{"@context":"https://schema.org","@type":"Artcle"}</script>`));
+
+    expect(report.items[0].errors.map(e => e.message)).toEqual([
+      "@contextに https://schema.org を指定してください",
+      "型「product」は大文字・小文字が正しくありません（Product）",
+    ]);
+    expect(report.items[0].richResult).toBeNull();
+    expect(report.items[1].warnings.map(w => w.message)).toEqual(["型「Artcle」は一般的なschema.orgの型ではありません（スペルを確認してください）"]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { computeVisibility, CTR_CURVE, expectedCtr, startOfUtcDay } from "./services/visibility";
+
+const result = (position: number, domain: string) => ({ position, url: `https://${domain}/`, domain, title: domain });
+
+describe("expectedCtr", () => {
+  it("follows the CTR curve and gives nothing past it", () => {
+    expect(expectedCtr(1)).toBe(CTR_CURVE[0]);
+    expect(expectedCtr(10)).toBeGreaterThan(expectedCtr(11));
+    expect(expectedCtr(21)).toBe(0);
+    expect(expectedCtr(null)).toBe(0);
+  });
+});
+
+describe("computeVisibility", () => {
+  it("weights positions by CTR for us and each competitor", () => {
+    const serps = [
+      { results: [result(1, "ours.jp"), result(2, "rival.com"), result(3, "other.net")] },
+      { results: [result(1, "rival.com"), result(2, "other.net"), result(3, "blog.ours.jp")] },
+    ];
+
+    const [ours, rival, absent] = computeVisibility(serps, "https://www.ours.jp", ["www.rival.com", "absent.org"]);
+    const total = 2 * (CTR_CURVE[0] + CTR_CURVE[1] + CTR_CURVE[2]);
+
+    expect(ours).toMatchObject({ domain: "ours.jp", isCompetitor: false, keywordsRanked: 2, keywordsChecked: 2 });
+    expect(ours.visibility).toBeCloseTo(((CTR_CURVE[0] + CTR_CURVE[2]) / (2 * CTR_CURVE[0])) * 100, 1);
+    expect(ours.shareOfVoice).toBeCloseTo(((CTR_CURVE[0] + CTR_CURVE[2]) / total) * 100, 1);
+    expect(rival).toMatchObject({ domain: "rival.com", isCompetitor: true, keywordsRanked: 2 });
+    expect(rival.shareOfVoice).toBeCloseTo(((CTR_CURVE[0] + CTR_CURVE[1]) / total) * 100, 1);
+    expect(absent).toMatchObject({ visibility: 0, shareOfVoice: 0, keywordsRanked: 0 });
+  });
+
+  it("returns zeros when no SERPs were checked", () => {
+    expect(computeVisibility([], "ours.jp", [])).toEqual([
+      { domain: "ours.jp", isCompetitor: false, visibility: 0, shareOfVoice: 0, keywordsRanked: 0, keywordsChecked: 0 },
+    ]);
+  });
+
+  it("buckets dates by UTC day", () => {
+    expect(startOfUtcDay(new Date("2024-05-02T23:59:00Z")).toISOString()).toBe("2024-05-02T00:00:00.000Z");
+  });
+});
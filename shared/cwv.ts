@@ -0,0 +1,6 @@
+/**
+ * Display a CLS value stored as score * 1000 (e.g., 104 → "0.104")
+ */
+export function formatCls(value: number): string {
+  return (value / 1000).toFixed(3);
+}